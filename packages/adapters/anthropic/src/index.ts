@@ -15,16 +15,13 @@ import type {
   ProviderInfo,
   HookContext,
   HookResult,
+  LLMAdapter,
+  CompletionOptions as RuntimeCompletionOptions,
+  StreamChunk,
 } from '@open-agent/core';
-
-/**
- * Extended message type for assistant messages with tool calls
- */
-interface AssistantMessageWithToolCalls extends Message {
-  toolCalls?: ToolCall[];
-}
 import {
   getHookRegistry,
+  getTextContent,
   HOOK_NAMES,
 } from '@open-agent/core';
 
@@ -49,16 +46,63 @@ export interface CompletionOptions {
   stream?: boolean;
   signal?: AbortSignal;
   system?: string;
+  stopSequences?: string[];
   metadata?: { user_id?: string };
 }
 
-export interface StreamChunk {
-  id: string;
-  content: string;
-  isFirst: boolean;
-  isLast: boolean;
-  tokenCount?: number;
-}
+export type { StreamChunk };
+
+// =============================================================================
+// Models
+// =============================================================================
+
+const ANTHROPIC_MODELS: ModelInfo[] = [
+  {
+    id: 'claude-opus-4-20250514',
+    name: 'Claude Opus 4',
+    provider: 'anthropic',
+    contextLength: 200000,
+    inputCostPer1k: 0.015,
+    outputCostPer1k: 0.075,
+    capabilities: ['chat', 'tools', 'vision', 'reasoning'],
+  },
+  {
+    id: 'claude-sonnet-4-20250514',
+    name: 'Claude Sonnet 4',
+    provider: 'anthropic',
+    contextLength: 200000,
+    inputCostPer1k: 0.003,
+    outputCostPer1k: 0.015,
+    capabilities: ['chat', 'tools', 'vision'],
+  },
+  {
+    id: 'claude-3-5-haiku-20241022',
+    name: 'Claude 3.5 Haiku',
+    provider: 'anthropic',
+    contextLength: 200000,
+    inputCostPer1k: 0.0008,
+    outputCostPer1k: 0.004,
+    capabilities: ['chat', 'tools', 'vision'],
+  },
+  {
+    id: 'claude-3-5-sonnet-20241022',
+    name: 'Claude 3.5 Sonnet',
+    provider: 'anthropic',
+    contextLength: 200000,
+    inputCostPer1k: 0.003,
+    outputCostPer1k: 0.015,
+    capabilities: ['chat', 'tools', 'vision'],
+  },
+  {
+    id: 'claude-3-opus-20240229',
+    name: 'Claude 3 Opus',
+    provider: 'anthropic',
+    contextLength: 200000,
+    inputCostPer1k: 0.015,
+    outputCostPer1k: 0.075,
+    capabilities: ['chat', 'tools', 'vision'],
+  },
+];
 
 // =============================================================================
 // Anthropic Adapter
@@ -123,43 +167,18 @@ export class AnthropicAdapter {
     );
 
     const selectedModel = modelResult.success
-      ? (modelResult.data as { selectedModel: string }).selectedModel
+      ? (modelResult.data as { selectedModel?: string }).selectedModel ?? model
       : model;
 
-    // Extract system message and convert remaining messages
-    const { system, anthropicMessages } = this.convertMessages(transformedRequest.messages);
-
-    // Convert tools to Anthropic format
-    const anthropicTools = this.convertTools(transformedRequest.tools);
-
-    // Make the API call
-    const response = await this.client.messages.create({
+    const llmResponse = await this.request({
+      ...options,
       model: selectedModel,
-      messages: anthropicMessages,
-      system: options.system ?? system,
-      tools: anthropicTools,
+      messages: transformedRequest.messages,
+      tools: transformedRequest.tools,
       temperature: transformedRequest.temperature,
-      max_tokens: transformedRequest.maxTokens ?? 4096,
-      metadata: options.metadata,
+      maxTokens: transformedRequest.maxTokens,
     });
 
-    // Parse the response
-    const content = this.extractContent(response.content);
-    const toolCalls = this.extractToolCalls(response.content);
-
-    const llmResponse: LLMResponse = {
-      id: response.id,
-      model: response.model,
-      content,
-      toolCalls,
-      usage: {
-        promptTokens: response.usage.input_tokens,
-        completionTokens: response.usage.output_tokens,
-        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
-      },
-      finishReason: this.mapStopReason(response.stop_reason),
-    };
-
     // Execute response transform hook
     const responseResult = await this.hookRegistry.execute(
       HOOK_NAMES.RESPONSE_TRANSFORM,
@@ -190,6 +209,51 @@ export class AnthropicAdapter {
     return (responseResult.data as { response: LLMResponse }).response;
   }
 
+  /**
+   * Send a message completion request without running any hooks
+   */
+  async request(options: CompletionOptions): Promise<LLMResponse> {
+    const model = options.model ?? this.config.defaultModel ?? 'claude-sonnet-4-20250514';
+
+    // Extract system message and convert remaining messages
+    const { system, anthropicMessages } = this.convertMessages(options.messages);
+
+    // Convert tools to Anthropic format
+    const anthropicTools = this.convertTools(options.tools);
+
+    // Make the API call
+    const response = await this.client.messages.create(
+      {
+        model,
+        messages: anthropicMessages,
+        system: options.system ?? system,
+        tools: anthropicTools,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens ?? 4096,
+        stop_sequences: options.stopSequences,
+        metadata: options.metadata,
+      },
+      { signal: options.signal }
+    );
+
+    // Parse the response
+    const content = this.extractContent(response.content);
+    const toolCalls = this.extractToolCalls(response.content);
+
+    return {
+      id: response.id,
+      model: response.model,
+      content,
+      toolCalls,
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      },
+      finishReason: this.mapStopReason(response.stop_reason),
+    };
+  }
+
   /**
    * Create a streaming message completion
    */
@@ -207,76 +271,35 @@ export class AnthropicAdapter {
       context
     );
 
-    // Extract system message and convert remaining messages
-    const { system, anthropicMessages } = this.convertMessages(options.messages);
-
-    // Convert tools to Anthropic format
-    const anthropicTools = this.convertTools(options.tools);
-
-    const stream = this.client.messages.stream({
-      model,
-      messages: anthropicMessages,
-      system: options.system ?? system,
-      tools: anthropicTools,
-      temperature: options.temperature,
-      max_tokens: options.maxTokens ?? 4096,
-    });
-
     let chunkIndex = 0;
-    let isFirst = true;
-    let responseId = '';
+    let totalTokens = 0;
 
     try {
-      for await (const event of stream) {
-        if (event.type === 'message_start') {
-          responseId = event.message.id;
+      for await (const streamChunk of this.requestStream({ ...options, model })) {
+        if (streamChunk.isLast) {
+          totalTokens = streamChunk.usage?.totalTokens ?? 0;
+          yield streamChunk;
           continue;
         }
 
-        if (event.type === 'content_block_delta') {
-          const delta = event.delta;
-          if (delta.type === 'text_delta') {
-            const isLast = false;
-
-            const streamChunk: StreamChunk = {
-              id: responseId,
-              content: delta.text,
-              isFirst,
-              isLast,
-            };
-
-            // Execute chunk process hook
-            const chunkResult = await this.hookRegistry.execute(
-              HOOK_NAMES.CHUNK_PROCESS,
-              {
-                streamId: context.requestId,
-                chunk: streamChunk,
-                chunkIndex,
-              },
-              context
-            );
-
-            if (chunkResult.success) {
-              yield (chunkResult.data as { transformedChunk?: StreamChunk }).transformedChunk ?? streamChunk;
-            } else {
-              yield streamChunk;
-            }
-
-            isFirst = false;
-            chunkIndex++;
-          }
+        // Execute chunk process hook
+        const chunkResult = await this.hookRegistry.execute(
+          HOOK_NAMES.CHUNK_PROCESS,
+          {
+            streamId: context.requestId,
+            chunk: streamChunk,
+            chunkIndex,
+          },
+          context
+        );
+
+        if (chunkResult.success) {
+          yield (chunkResult.data as { transformedChunk?: StreamChunk }).transformedChunk ?? streamChunk;
+        } else {
+          yield streamChunk;
         }
 
-        if (event.type === 'message_stop') {
-          // Final chunk
-          const finalChunk: StreamChunk = {
-            id: responseId,
-            content: '',
-            isFirst: false,
-            isLast: true,
-          };
-          yield finalChunk;
-        }
+        chunkIndex++;
       }
 
       // Execute stream complete hook
@@ -285,7 +308,7 @@ export class AnthropicAdapter {
         {
           streamId: context.requestId,
           totalChunks: chunkIndex,
-          totalTokens: 0,
+          totalTokens,
           duration: Date.now() - context.timestamp,
         },
         context
@@ -306,56 +329,121 @@ export class AnthropicAdapter {
   }
 
   /**
-   * Get available models
+   * Send a streaming message completion request without running any hooks
    */
-  async getAvailableModels(): Promise<ModelInfo[]> {
-    return [
-      {
-        id: 'claude-opus-4-20250514',
-        name: 'Claude Opus 4',
-        provider: 'anthropic',
-        contextLength: 200000,
-        inputCostPer1k: 0.015,
-        outputCostPer1k: 0.075,
-        capabilities: ['chat', 'tools', 'vision', 'reasoning'],
-      },
-      {
-        id: 'claude-sonnet-4-20250514',
-        name: 'Claude Sonnet 4',
-        provider: 'anthropic',
-        contextLength: 200000,
-        inputCostPer1k: 0.003,
-        outputCostPer1k: 0.015,
-        capabilities: ['chat', 'tools', 'vision'],
-      },
-      {
-        id: 'claude-3-5-haiku-20241022',
-        name: 'Claude 3.5 Haiku',
-        provider: 'anthropic',
-        contextLength: 200000,
-        inputCostPer1k: 0.0008,
-        outputCostPer1k: 0.004,
-        capabilities: ['chat', 'tools', 'vision'],
-      },
-      {
-        id: 'claude-3-5-sonnet-20241022',
-        name: 'Claude 3.5 Sonnet',
-        provider: 'anthropic',
-        contextLength: 200000,
-        inputCostPer1k: 0.003,
-        outputCostPer1k: 0.015,
-        capabilities: ['chat', 'tools', 'vision'],
-      },
+  async *requestStream(options: CompletionOptions): AsyncGenerator<StreamChunk> {
+    const model = options.model ?? this.config.defaultModel ?? 'claude-sonnet-4-20250514';
+
+    // Extract system message and convert remaining messages
+    const { system, anthropicMessages } = this.convertMessages(options.messages);
+
+    // Convert tools to Anthropic format
+    const anthropicTools = this.convertTools(options.tools);
+
+    const stream = this.client.messages.stream(
       {
-        id: 'claude-3-opus-20240229',
-        name: 'Claude 3 Opus',
-        provider: 'anthropic',
-        contextLength: 200000,
-        inputCostPer1k: 0.015,
-        outputCostPer1k: 0.075,
-        capabilities: ['chat', 'tools', 'vision'],
+        model,
+        messages: anthropicMessages,
+        system: options.system ?? system,
+        tools: anthropicTools,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens ?? 4096,
+        stop_sequences: options.stopSequences,
       },
-    ];
+      { signal: options.signal }
+    );
+
+    let isFirst = true;
+    let responseId = '';
+    let responseModel = model;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let finishReason: string | undefined;
+    // Anthropic numbers content blocks; tool call deltas are numbered per tool call
+    const toolIndexByBlock = new Map<number, number>();
+
+    for await (const event of stream) {
+      let streamChunk: StreamChunk | undefined;
+
+      if (event.type === 'message_start') {
+        responseId = event.message.id;
+        responseModel = event.message.model;
+        inputTokens = event.message.usage.input_tokens;
+        continue;
+      }
+
+      if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+        const toolIndex = toolIndexByBlock.size;
+        toolIndexByBlock.set(event.index, toolIndex);
+
+        streamChunk = {
+          id: responseId,
+          content: '',
+          isFirst,
+          isLast: false,
+          toolCallDeltas: [
+            { index: toolIndex, id: event.content_block.id, name: event.content_block.name },
+          ],
+        };
+      }
+
+      if (event.type === 'content_block_delta') {
+        const delta = event.delta;
+        if (delta.type === 'text_delta') {
+          streamChunk = {
+            id: responseId,
+            content: delta.text,
+            isFirst,
+            isLast: false,
+          };
+        } else if (delta.type === 'input_json_delta') {
+          streamChunk = {
+            id: responseId,
+            content: '',
+            isFirst,
+            isLast: false,
+            toolCallDeltas: [
+              { index: toolIndexByBlock.get(event.index) ?? 0, argumentsDelta: delta.partial_json },
+            ],
+          };
+        }
+      }
+
+      if (event.type === 'message_delta') {
+        outputTokens = event.usage.output_tokens;
+        finishReason = this.mapStopReason(event.delta.stop_reason);
+        continue;
+      }
+
+      if (streamChunk) {
+        yield streamChunk;
+        isFirst = false;
+      }
+
+      if (event.type === 'message_stop') {
+        // Final chunk
+        yield {
+          id: responseId,
+          model: responseModel,
+          content: '',
+          isFirst: false,
+          isLast: true,
+          usage: {
+            promptTokens: inputTokens,
+            completionTokens: outputTokens,
+            totalTokens: inputTokens + outputTokens,
+          },
+          finishReason,
+        };
+      }
+    }
+  }
+
+  /**
+   * Get available models
+   */
+  async getAvailableModels(): Promise<ModelInfo[]> {
+    return ANTHROPIC_MODELS;
   }
 
   /**
@@ -371,6 +459,18 @@ export class AnthropicAdapter {
     };
   }
 
+  /**
+   * Check that the API is reachable with the configured credentials
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.models.list({ limit: 1 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Count tokens (estimate)
    */
@@ -393,7 +493,7 @@ export class AnthropicAdapter {
     };
   }
 
-  private convertMessages(messages: (Message | AssistantMessageWithToolCalls)[]): {
+  private convertMessages(messages: Message[]): {
     system: string | undefined;
     anthropicMessages: Anthropic.MessageParam[];
   } {
@@ -402,34 +502,37 @@ export class AnthropicAdapter {
 
     for (const msg of messages) {
       if (msg.role === 'system') {
-        system = msg.content;
+        system = getTextContent(msg.content);
         continue;
       }
 
       if (msg.role === 'tool') {
-        // Tool result
-        anthropicMessages.push({
-          role: 'user',
-          content: [
-            {
-              type: 'tool_result',
-              tool_use_id: msg.toolCallId ?? '',
-              content: msg.content,
-            },
-          ],
-        });
+        // Tool results go back in a user turn; results for the same
+        // assistant turn share one user message
+        const toolResult: Anthropic.ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: msg.toolCallId ?? '',
+          content: this.convertContent(msg.content),
+        };
+        const previous = anthropicMessages[anthropicMessages.length - 1];
+        if (
+          previous?.role === 'user' &&
+          Array.isArray(previous.content) &&
+          previous.content.every((block) => block.type === 'tool_result')
+        ) {
+          previous.content.push(toolResult);
+        } else {
+          anthropicMessages.push({ role: 'user', content: [toolResult] });
+        }
         continue;
       }
 
-      // Check for assistant message with tool calls
-      const assistantMsg = msg as AssistantMessageWithToolCalls;
-      if (msg.role === 'assistant' && assistantMsg.toolCalls) {
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
         // Assistant with tool use - use ContentBlockParam for creating messages
-        const contentBlocks: Anthropic.Messages.ContentBlockParam[] = [];
-        if (msg.content) {
-          contentBlocks.push({ type: 'text', text: msg.content });
-        }
-        for (const tc of assistantMsg.toolCalls) {
+        const content = this.convertContent(msg.content);
+        const contentBlocks: Anthropic.Messages.ContentBlockParam[] =
+          typeof content !== 'string' ? content : content ? [{ type: 'text', text: content }] : [];
+        for (const tc of msg.toolCalls) {
           contentBlocks.push({
             type: 'tool_use',
             id: tc.id,
@@ -447,13 +550,41 @@ export class AnthropicAdapter {
       // Regular message
       anthropicMessages.push({
         role: msg.role as 'user' | 'assistant',
-        content: msg.content,
+        content: this.convertContent(msg.content),
       });
     }
 
     return { system, anthropicMessages };
   }
 
+  private convertContent(
+    content: Message['content']
+  ): string | Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam> {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return content.map((part): Anthropic.TextBlockParam | Anthropic.ImageBlockParam => {
+      if (part.type === 'text') {
+        return { type: 'text', text: part.text };
+      }
+
+      // data: URLs are sent inline, anything else by reference
+      const data = /^data:([^;,]+);base64,(.*)$/s.exec(part.url);
+      if (data) {
+        return {
+          type: 'image',
+          source: {
+            type: 'base64',
+            media_type: (part.mediaType ?? data[1]) as Anthropic.Base64ImageSource['media_type'],
+            data: data[2]!,
+          },
+        };
+      }
+      return { type: 'image', source: { type: 'url', url: part.url } };
+    });
+  }
+
   private convertTools(tools?: ToolDefinition[]): Anthropic.Tool[] | undefined {
     if (!tools || tools.length === 0) {
       return undefined;
@@ -513,6 +644,67 @@ export function createAnthropicAdapter(config: AnthropicConfig): AnthropicAdapte
   return new AnthropicAdapter(config);
 }
 
+// =============================================================================
+// Runtime Adapter
+// =============================================================================
+
+/**
+ * LLMAdapter for AgentRuntime, backed by an AnthropicAdapter
+ */
+export class AnthropicLLMAdapter implements LLMAdapter {
+  readonly id: string;
+  readonly name = 'Anthropic';
+  readonly models = ANTHROPIC_MODELS.map((m) => m.id);
+
+  constructor(
+    private adapter: AnthropicAdapter,
+    id: string = 'anthropic'
+  ) {
+    this.id = id;
+  }
+
+  complete(messages: Message[], options: RuntimeCompletionOptions): Promise<LLMResponse> {
+    return this.adapter.request(this.toCompletionOptions(messages, options));
+  }
+
+  stream(messages: Message[], options: RuntimeCompletionOptions): AsyncIterable<StreamChunk> {
+    return this.adapter.requestStream(this.toCompletionOptions(messages, options));
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.adapter.healthCheck();
+  }
+
+  getAvailableModels(): Promise<ModelInfo[]> {
+    return this.adapter.getAvailableModels();
+  }
+
+  countTokens(text: string): Promise<number> {
+    return this.adapter.countTokens(text);
+  }
+
+  private toCompletionOptions(
+    messages: Message[],
+    options: RuntimeCompletionOptions
+  ): CompletionOptions {
+    return {
+      // The runtime passes 'default' when the agent doesn't pin a model
+      model: options.model === 'default' ? undefined : options.model,
+      messages,
+      tools: options.tools,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      system: options.systemPrompt,
+      stopSequences: options.stopSequences,
+      signal: options.signal,
+    };
+  }
+}
+
+export function createAnthropicLLMAdapter(config: AnthropicConfig): AnthropicLLMAdapter {
+  return new AnthropicLLMAdapter(new AnthropicAdapter(config));
+}
+
 // =============================================================================
 // Hook Implementations
 // =============================================================================
@@ -0,0 +1,16 @@
+/**
+ * Anthropic LLMAdapter Tests
+ *
+ * Runs the shared adapter conformance suite against a fake Messages API.
+ */
+
+import { createAnthropicLLMAdapter } from '../src/index.js';
+import { describeLLMAdapterConformance } from '../../../../test/adapter-conformance.js';
+
+describeLLMAdapterConformance({
+  name: 'AnthropicLLMAdapter',
+  protocol: 'anthropic',
+  defaultModel: 'claude-sonnet-4-20250514',
+  createAdapter: (serverUrl) =>
+    createAnthropicLLMAdapter({ apiKey: 'test-key', baseURL: serverUrl, maxRetries: 0 }),
+});
@@ -16,9 +16,13 @@ import type {
   ProviderInfo,
   HookContext,
   HookResult,
+  LLMAdapter,
+  CompletionOptions as RuntimeCompletionOptions,
+  StreamChunk,
 } from '@open-agent/core';
 import {
   getHookRegistry,
+  getTextContent,
   HOOK_NAMES,
 } from '@open-agent/core';
 
@@ -43,18 +47,84 @@ export interface CompletionOptions {
   maxTokens?: number;
   stream?: boolean;
   signal?: AbortSignal;
+  stopSequences?: string[];
   responseFormat?: { type: 'text' | 'json_object' };
   seed?: number;
   user?: string;
 }
 
-export interface StreamChunk {
-  id: string;
-  content: string;
-  isFirst: boolean;
-  isLast: boolean;
-  tokenCount?: number;
-}
+export type { StreamChunk };
+
+// =============================================================================
+// Models
+// =============================================================================
+
+const OPENAI_MODELS: ModelInfo[] = [
+  {
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    provider: 'openai',
+    contextLength: 128000,
+    inputCostPer1k: 0.0025,
+    outputCostPer1k: 0.01,
+    cachedInputCostPer1k: 0.00125,
+    capabilities: ['chat', 'tools', 'vision'],
+  },
+  {
+    id: 'gpt-4o-mini',
+    name: 'GPT-4o Mini',
+    provider: 'openai',
+    contextLength: 128000,
+    inputCostPer1k: 0.00015,
+    outputCostPer1k: 0.0006,
+    capabilities: ['chat', 'tools', 'vision'],
+  },
+  {
+    id: 'gpt-4-turbo',
+    name: 'GPT-4 Turbo',
+    provider: 'openai',
+    contextLength: 128000,
+    inputCostPer1k: 0.01,
+    outputCostPer1k: 0.03,
+    capabilities: ['chat', 'tools', 'vision'],
+  },
+  {
+    id: 'o1',
+    name: 'o1',
+    provider: 'openai',
+    contextLength: 200000,
+    inputCostPer1k: 0.015,
+    outputCostPer1k: 0.06,
+    capabilities: ['chat', 'reasoning'],
+  },
+  {
+    id: 'o1-mini',
+    name: 'o1-mini',
+    provider: 'openai',
+    contextLength: 128000,
+    inputCostPer1k: 0.003,
+    outputCostPer1k: 0.012,
+    capabilities: ['chat', 'reasoning'],
+  },
+  {
+    id: 'o1-pro',
+    name: 'o1-pro',
+    provider: 'openai',
+    contextLength: 200000,
+    inputCostPer1k: 0.15,
+    outputCostPer1k: 0.6,
+    capabilities: ['chat', 'reasoning', 'tools'],
+  },
+  {
+    id: 'gpt-3.5-turbo',
+    name: 'GPT-3.5 Turbo',
+    provider: 'openai',
+    contextLength: 16385,
+    inputCostPer1k: 0.0005,
+    outputCostPer1k: 0.0015,
+    capabilities: ['chat', 'tools'],
+  },
+];
 
 // =============================================================================
 // OpenAI Adapter
@@ -120,60 +190,18 @@ export class OpenAIAdapter {
     );
 
     const selectedModel = modelResult.success
-      ? (modelResult.data as { selectedModel: string }).selectedModel
+      ? (modelResult.data as { selectedModel?: string }).selectedModel ?? model
       : model;
 
-    // Convert messages to OpenAI format
-    const openAIMessages: OpenAI.Chat.ChatCompletionMessageParam[] = transformedRequest.messages.map((m) => {
-      if (m.role === 'tool') {
-        return {
-          role: 'tool' as const,
-          tool_call_id: m.toolCallId ?? '',
-          content: m.content,
-        };
-      }
-      return {
-        role: m.role as 'system' | 'user' | 'assistant',
-        content: m.content,
-        name: m.name,
-      };
-    });
-
-    // Convert tools to OpenAI format
-    const openAITools: OpenAI.Chat.ChatCompletionTool[] | undefined = transformedRequest.tools?.map((t) => ({
-      type: 'function' as const,
-      function: {
-        name: t.name,
-        description: t.description,
-        parameters: t.parameters as Record<string, unknown>,
-      },
-    }));
-
-    // Make the API call
-    const response = await this.client.chat.completions.create({
+    const llmResponse = await this.request({
+      ...options,
       model: selectedModel,
-      messages: openAIMessages,
-      tools: openAITools,
+      messages: transformedRequest.messages,
+      tools: transformedRequest.tools,
       temperature: transformedRequest.temperature,
-      max_tokens: transformedRequest.maxTokens,
-      response_format: options.responseFormat,
-      seed: options.seed,
-      user: options.user,
+      maxTokens: transformedRequest.maxTokens,
     });
 
-    // Parse the response
-    const choice = response.choices[0];
-    const content = choice?.message?.content ?? '';
-
-    const llmResponse: LLMResponse = {
-      id: response.id,
-      model: response.model,
-      content,
-      toolCalls: this.parseToolCalls(choice?.message?.tool_calls),
-      usage: this.parseUsage(response.usage),
-      finishReason: choice?.finish_reason ?? 'stop',
-    };
-
     // Execute response transform hook
     const responseResult = await this.hookRegistry.execute(
       HOOK_NAMES.RESPONSE_TRANSFORM,
@@ -205,37 +233,13 @@ export class OpenAIAdapter {
   }
 
   /**
-   * Create a streaming chat completion
+   * Send a chat completion request without running any hooks
    */
-  async *stream(options: CompletionOptions): AsyncGenerator<StreamChunk> {
-    const context = this.createContext();
+  async request(options: CompletionOptions): Promise<LLMResponse> {
     const model = options.model ?? this.config.defaultModel ?? 'gpt-4o';
 
-    // Execute stream start hook
-    await this.hookRegistry.execute(
-      HOOK_NAMES.STREAM_START,
-      {
-        requestId: context.requestId,
-        model,
-      },
-      context
-    );
-
     // Convert messages to OpenAI format
-    const openAIMessages: OpenAI.Chat.ChatCompletionMessageParam[] = options.messages.map((m) => {
-      if (m.role === 'tool') {
-        return {
-          role: 'tool' as const,
-          tool_call_id: m.toolCallId ?? '',
-          content: m.content,
-        };
-      }
-      return {
-        role: m.role as 'system' | 'user' | 'assistant',
-        content: m.content,
-        name: m.name,
-      };
-    });
+    const openAIMessages = this.convertMessages(options.messages);
 
     // Convert tools to OpenAI format
     const openAITools: OpenAI.Chat.ChatCompletionTool[] | undefined = options.tools?.map((t) => ({
@@ -247,29 +251,61 @@ export class OpenAIAdapter {
       },
     }));
 
-    const stream = await this.client.chat.completions.create({
-      model,
-      messages: openAIMessages,
-      tools: openAITools,
-      temperature: options.temperature,
-      max_tokens: options.maxTokens,
-      stream: true,
-    });
+    // Make the API call
+    const response = await this.client.chat.completions.create(
+      {
+        model,
+        messages: openAIMessages,
+        tools: openAITools,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        stop: options.stopSequences,
+        response_format: options.responseFormat,
+        seed: options.seed,
+        user: options.user,
+      },
+      { signal: options.signal }
+    );
+
+    // Parse the response
+    const choice = response.choices[0];
+    const content = choice?.message?.content ?? '';
+
+    return {
+      id: response.id,
+      model: response.model,
+      content,
+      toolCalls: this.parseToolCalls(choice?.message?.tool_calls),
+      usage: this.parseUsage(response.usage),
+      finishReason: choice?.finish_reason ?? 'stop',
+    };
+  }
+
+  /**
+   * Create a streaming chat completion
+   */
+  async *stream(options: CompletionOptions): AsyncGenerator<StreamChunk> {
+    const context = this.createContext();
+    const model = options.model ?? this.config.defaultModel ?? 'gpt-4o';
+
+    // Execute stream start hook
+    await this.hookRegistry.execute(
+      HOOK_NAMES.STREAM_START,
+      {
+        requestId: context.requestId,
+        model,
+      },
+      context
+    );
 
     let chunkIndex = 0;
-    let isFirst = true;
+    let totalTokens = 0;
 
     try {
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content ?? '';
-        const isLast = chunk.choices[0]?.finish_reason !== null;
-
-        const streamChunk: StreamChunk = {
-          id: chunk.id,
-          content,
-          isFirst,
-          isLast,
-        };
+      for await (const streamChunk of this.requestStream({ ...options, model })) {
+        if (streamChunk.usage) {
+          totalTokens = streamChunk.usage.totalTokens;
+        }
 
         // Execute chunk process hook
         const chunkResult = await this.hookRegistry.execute(
@@ -288,7 +324,6 @@ export class OpenAIAdapter {
           yield streamChunk;
         }
 
-        isFirst = false;
         chunkIndex++;
       }
 
@@ -298,7 +333,7 @@ export class OpenAIAdapter {
         {
           streamId: context.requestId,
           totalChunks: chunkIndex,
-          totalTokens: 0,
+          totalTokens,
           duration: Date.now() - context.timestamp,
         },
         context
@@ -319,74 +354,70 @@ export class OpenAIAdapter {
   }
 
   /**
-   * Get available models
+   * Send a streaming chat completion request without running any hooks
    */
-  async getAvailableModels(): Promise<ModelInfo[]> {
-    return [
-      {
-        id: 'gpt-4o',
-        name: 'GPT-4o',
-        provider: 'openai',
-        contextLength: 128000,
-        inputCostPer1k: 0.005,
-        outputCostPer1k: 0.015,
-        capabilities: ['chat', 'tools', 'vision'],
-      },
-      {
-        id: 'gpt-4o-mini',
-        name: 'GPT-4o Mini',
-        provider: 'openai',
-        contextLength: 128000,
-        inputCostPer1k: 0.00015,
-        outputCostPer1k: 0.0006,
-        capabilities: ['chat', 'tools', 'vision'],
-      },
-      {
-        id: 'gpt-4-turbo',
-        name: 'GPT-4 Turbo',
-        provider: 'openai',
-        contextLength: 128000,
-        inputCostPer1k: 0.01,
-        outputCostPer1k: 0.03,
-        capabilities: ['chat', 'tools', 'vision'],
-      },
-      {
-        id: 'o1',
-        name: 'o1',
-        provider: 'openai',
-        contextLength: 200000,
-        inputCostPer1k: 0.015,
-        outputCostPer1k: 0.06,
-        capabilities: ['chat', 'reasoning'],
-      },
-      {
-        id: 'o1-mini',
-        name: 'o1-mini',
-        provider: 'openai',
-        contextLength: 128000,
-        inputCostPer1k: 0.003,
-        outputCostPer1k: 0.012,
-        capabilities: ['chat', 'reasoning'],
-      },
-      {
-        id: 'o1-pro',
-        name: 'o1-pro',
-        provider: 'openai',
-        contextLength: 200000,
-        inputCostPer1k: 0.15,
-        outputCostPer1k: 0.6,
-        capabilities: ['chat', 'reasoning', 'tools'],
+  async *requestStream(options: CompletionOptions): AsyncGenerator<StreamChunk> {
+    const model = options.model ?? this.config.defaultModel ?? 'gpt-4o';
+
+    // Convert messages to OpenAI format
+    const openAIMessages = this.convertMessages(options.messages);
+
+    // Convert tools to OpenAI format
+    const openAITools: OpenAI.Chat.ChatCompletionTool[] | undefined = options.tools?.map((t) => ({
+      type: 'function' as const,
+      function: {
+        name: t.name,
+        description: t.description,
+        parameters: t.parameters as Record<string, unknown>,
       },
+    }));
+
+    const stream = await this.client.chat.completions.create(
       {
-        id: 'gpt-3.5-turbo',
-        name: 'GPT-3.5 Turbo',
-        provider: 'openai',
-        contextLength: 16385,
-        inputCostPer1k: 0.0005,
-        outputCostPer1k: 0.0015,
-        capabilities: ['chat', 'tools'],
+        model,
+        messages: openAIMessages,
+        tools: openAITools,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        stop: options.stopSequences,
+        stream: true,
+        stream_options: { include_usage: true },
       },
-    ];
+      { signal: options.signal }
+    );
+
+    let isFirst = true;
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      const finishReason = choice?.finish_reason ?? undefined;
+
+      yield {
+        id: chunk.id,
+        model: chunk.model,
+        content: choice?.delta?.content ?? '',
+        isFirst,
+        // With include_usage the stream ends with a usage chunk after the finish reason
+        isLast: chunk.usage != null,
+        toolCallDeltas: choice?.delta?.tool_calls?.map((tc) => ({
+          index: tc.index,
+          id: tc.id,
+          name: tc.function?.name,
+          argumentsDelta: tc.function?.arguments,
+        })),
+        usage: chunk.usage ? this.parseUsage(chunk.usage) : undefined,
+        finishReason,
+      };
+
+      isFirst = false;
+    }
+  }
+
+  /**
+   * Get available models
+   */
+  async getAvailableModels(): Promise<ModelInfo[]> {
+    return OPENAI_MODELS;
   }
 
   /**
@@ -402,6 +433,18 @@ export class OpenAIAdapter {
     };
   }
 
+  /**
+   * Check that the API is reachable with the configured credentials
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.models.list();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Create embeddings
    */
@@ -456,6 +499,48 @@ export class OpenAIAdapter {
     };
   }
 
+  private convertMessages(messages: Message[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return messages.map((m): OpenAI.Chat.ChatCompletionMessageParam => {
+      switch (m.role) {
+        case 'tool':
+          return {
+            role: 'tool',
+            tool_call_id: m.toolCallId ?? '',
+            content: getTextContent(m.content),
+          };
+        case 'assistant':
+          return {
+            role: 'assistant',
+            content: getTextContent(m.content) || null,
+            name: m.name,
+            tool_calls: m.toolCalls?.length
+              ? m.toolCalls.map((tc) => ({
+                  id: tc.id,
+                  type: 'function' as const,
+                  function: { name: tc.name, arguments: JSON.stringify(tc.arguments) },
+                }))
+              : undefined,
+          };
+        case 'user':
+          return {
+            role: 'user',
+            // Only user turns may carry images
+            content:
+              typeof m.content === 'string'
+                ? m.content
+                : m.content.map((part): OpenAI.Chat.ChatCompletionContentPart =>
+                    part.type === 'text'
+                      ? { type: 'text', text: part.text }
+                      : { type: 'image_url', image_url: { url: part.url } }
+                  ),
+            name: m.name,
+          };
+        default:
+          return { role: 'system', content: getTextContent(m.content), name: m.name };
+      }
+    });
+  }
+
   private parseToolCalls(toolCalls?: OpenAI.Chat.ChatCompletionMessageToolCall[]): ToolCall[] | undefined {
     if (!toolCalls || toolCalls.length === 0) {
       return undefined;
@@ -485,6 +570,67 @@ export function createOpenAIAdapter(config: OpenAIConfig): OpenAIAdapter {
   return new OpenAIAdapter(config);
 }
 
+// =============================================================================
+// Runtime Adapter
+// =============================================================================
+
+/**
+ * LLMAdapter for AgentRuntime, backed by an OpenAIAdapter
+ */
+export class OpenAILLMAdapter implements LLMAdapter {
+  readonly id: string;
+  readonly name = 'OpenAI';
+  readonly models = OPENAI_MODELS.map((m) => m.id);
+
+  constructor(
+    private adapter: OpenAIAdapter,
+    id: string = 'openai'
+  ) {
+    this.id = id;
+  }
+
+  complete(messages: Message[], options: RuntimeCompletionOptions): Promise<LLMResponse> {
+    return this.adapter.request(this.toCompletionOptions(messages, options));
+  }
+
+  stream(messages: Message[], options: RuntimeCompletionOptions): AsyncIterable<StreamChunk> {
+    return this.adapter.requestStream(this.toCompletionOptions(messages, options));
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.adapter.healthCheck();
+  }
+
+  getAvailableModels(): Promise<ModelInfo[]> {
+    return this.adapter.getAvailableModels();
+  }
+
+  private toCompletionOptions(
+    messages: Message[],
+    options: RuntimeCompletionOptions
+  ): CompletionOptions {
+    // OpenAI takes the system prompt as a message; add it unless the caller already did
+    const hasSystemMessage = messages.some((m) => m.role === 'system');
+    return {
+      // The runtime passes 'default' when the agent doesn't pin a model
+      model: options.model === 'default' ? undefined : options.model,
+      messages:
+        options.systemPrompt && !hasSystemMessage
+          ? [{ role: 'system', content: options.systemPrompt }, ...messages]
+          : messages,
+      tools: options.tools,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      stopSequences: options.stopSequences,
+      signal: options.signal,
+    };
+  }
+}
+
+export function createOpenAILLMAdapter(config: OpenAIConfig): OpenAILLMAdapter {
+  return new OpenAILLMAdapter(new OpenAIAdapter(config));
+}
+
 // =============================================================================
 // Hook Implementations
 // =============================================================================
@@ -0,0 +1,16 @@
+/**
+ * OpenAI LLMAdapter Tests
+ *
+ * Runs the shared adapter conformance suite against a fake Chat Completions API.
+ */
+
+import { createOpenAILLMAdapter } from '../src/index.js';
+import { describeLLMAdapterConformance } from '../../../../test/adapter-conformance.js';
+
+describeLLMAdapterConformance({
+  name: 'OpenAILLMAdapter',
+  protocol: 'openai',
+  defaultModel: 'gpt-4o',
+  createAdapter: (serverUrl) =>
+    createOpenAILLMAdapter({ apiKey: 'test-key', baseURL: `${serverUrl}/v1`, maxRetries: 0 }),
+});
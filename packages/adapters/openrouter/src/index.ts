@@ -6,6 +6,10 @@
  */
 
 import { OpenRouter } from '@openrouter/sdk';
+import type {
+  ChatMessageContentItem,
+  Message as OpenRouterMessage,
+} from '@openrouter/sdk/models';
 import type {
   Message,
   LLMResponse,
@@ -16,9 +20,13 @@ import type {
   ProviderInfo,
   HookContext,
   HookResult,
+  LLMAdapter,
+  CompletionOptions as RuntimeCompletionOptions,
+  StreamChunk,
 } from '@open-agent/core';
 import {
   getHookRegistry,
+  getTextContent,
   HOOK_NAMES,
 } from '@open-agent/core';
 
@@ -43,15 +51,63 @@ export interface CompletionOptions {
   maxTokens?: number;
   stream?: boolean;
   signal?: AbortSignal;
+  stopSequences?: string[];
 }
 
-export interface StreamChunk {
-  id: string;
-  content: string;
-  isFirst: boolean;
-  isLast: boolean;
-  tokenCount?: number;
-}
+export type { StreamChunk };
+
+// =============================================================================
+// Models
+// =============================================================================
+
+const OPENROUTER_MODELS: ModelInfo[] = [
+  {
+    id: 'anthropic/claude-sonnet-4',
+    name: 'Claude Sonnet 4',
+    provider: 'anthropic',
+    contextLength: 200000,
+    inputCostPer1k: 0.003,
+    outputCostPer1k: 0.015,
+    capabilities: ['chat', 'tools', 'vision'],
+  },
+  {
+    id: 'anthropic/claude-opus-4',
+    name: 'Claude Opus 4',
+    provider: 'anthropic',
+    contextLength: 200000,
+    inputCostPer1k: 0.015,
+    outputCostPer1k: 0.075,
+    capabilities: ['chat', 'tools', 'vision', 'reasoning'],
+  },
+  {
+    id: 'openai/gpt-4o',
+    name: 'GPT-4o',
+    provider: 'openai',
+    contextLength: 128000,
+    inputCostPer1k: 0.0025,
+    outputCostPer1k: 0.01,
+    cachedInputCostPer1k: 0.00125,
+    capabilities: ['chat', 'tools', 'vision'],
+  },
+  {
+    id: 'google/gemini-2.0-flash',
+    name: 'Gemini 2.0 Flash',
+    provider: 'google',
+    contextLength: 1000000,
+    inputCostPer1k: 0.0001,
+    outputCostPer1k: 0.0004,
+    capabilities: ['chat', 'tools', 'vision'],
+  },
+  {
+    id: 'meta-llama/llama-3.3-70b-instruct',
+    name: 'Llama 3.3 70B',
+    provider: 'meta',
+    contextLength: 128000,
+    inputCostPer1k: 0.0004,
+    outputCostPer1k: 0.0004,
+    capabilities: ['chat', 'tools'],
+  },
+];
 
 // =============================================================================
 // OpenRouter Adapter
@@ -116,47 +172,18 @@ export class OpenRouterAdapter {
     );
 
     const selectedModel = modelResult.success
-      ? (modelResult.data as { selectedModel: string }).selectedModel
+      ? (modelResult.data as { selectedModel?: string }).selectedModel ?? model
       : model;
 
-    // Make the API call using the new SDK API
-    const response = await this.client.chat.send({
+    const llmResponse = await this.request({
+      ...options,
       model: selectedModel,
-      messages: transformedRequest.messages.map((m) => ({
-        role: m.role as 'system' | 'user' | 'assistant',
-        content: m.content,
-        name: m.name,
-      })),
-      tools: transformedRequest.tools?.map((t) => ({
-        type: 'function' as const,
-        function: {
-          name: t.name,
-          description: t.description,
-          parameters: t.parameters,
-        },
-      })),
+      messages: transformedRequest.messages,
+      tools: transformedRequest.tools,
       temperature: transformedRequest.temperature,
       maxTokens: transformedRequest.maxTokens,
     });
 
-    // Parse the response
-    const choice = response.choices[0];
-    const messageContent = choice?.message?.content;
-    const content = typeof messageContent === 'string'
-      ? messageContent
-      : (Array.isArray(messageContent)
-        ? messageContent.map(item => 'text' in item ? item.text : '').join('')
-        : '');
-
-    const llmResponse: LLMResponse = {
-      id: response.id,
-      model: response.model,
-      content,
-      toolCalls: this.parseToolCalls(choice?.message?.toolCalls),
-      usage: this.parseUsage(response.usage),
-      finishReason: choice?.finishReason ?? 'stop',
-    };
-
     // Execute response transform hook
     const responseResult = await this.hookRegistry.execute(
       HOOK_NAMES.RESPONSE_TRANSFORM,
@@ -187,6 +214,51 @@ export class OpenRouterAdapter {
     return (responseResult.data as { response: LLMResponse }).response;
   }
 
+  /**
+   * Send a chat completion request without running any hooks
+   */
+  async request(options: CompletionOptions): Promise<LLMResponse> {
+    const model = options.model ?? this.config.defaultModel ?? 'anthropic/claude-sonnet-4';
+
+    // Make the API call using the new SDK API
+    const response = await this.client.chat.send(
+      {
+        model,
+        messages: this.convertMessages(options.messages),
+        tools: options.tools?.map((t) => ({
+          type: 'function' as const,
+          function: {
+            name: t.name,
+            description: t.description,
+            parameters: t.parameters,
+          },
+        })),
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        stop: options.stopSequences,
+      },
+      { signal: options.signal }
+    );
+
+    // Parse the response
+    const choice = response.choices[0];
+    const messageContent = choice?.message?.content;
+    const content = typeof messageContent === 'string'
+      ? messageContent
+      : (Array.isArray(messageContent)
+        ? messageContent.map(item => 'text' in item ? item.text : '').join('')
+        : '');
+
+    return {
+      id: response.id,
+      model: response.model,
+      content,
+      toolCalls: this.parseToolCalls(choice?.message?.toolCalls),
+      usage: this.parseUsage(response.usage),
+      finishReason: choice?.finishReason ?? 'stop',
+    };
+  }
+
   /**
    * Create a streaming chat completion
    */
@@ -204,40 +276,14 @@ export class OpenRouterAdapter {
       context
     );
 
-    const stream = await this.client.chat.send({
-      model,
-      messages: options.messages.map((m) => ({
-        role: m.role as 'system' | 'user' | 'assistant',
-        content: m.content,
-        name: m.name,
-      })),
-      tools: options.tools?.map((t) => ({
-        type: 'function' as const,
-        function: {
-          name: t.name,
-          description: t.description,
-          parameters: t.parameters,
-        },
-      })),
-      temperature: options.temperature,
-      maxTokens: options.maxTokens,
-      stream: true,
-    });
-
     let chunkIndex = 0;
-    let isFirst = true;
+    let totalTokens = 0;
 
     try {
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content ?? '';
-        const isLast = chunk.choices[0]?.finishReason !== null;
-
-        const streamChunk: StreamChunk = {
-          id: chunk.id,
-          content,
-          isFirst,
-          isLast,
-        };
+      for await (const streamChunk of this.requestStream({ ...options, model })) {
+        if (streamChunk.usage) {
+          totalTokens = streamChunk.usage.totalTokens;
+        }
 
         // Execute chunk process hook
         const chunkResult = await this.hookRegistry.execute(
@@ -256,7 +302,6 @@ export class OpenRouterAdapter {
           yield streamChunk;
         }
 
-        isFirst = false;
         chunkIndex++;
       }
 
@@ -266,7 +311,7 @@ export class OpenRouterAdapter {
         {
           streamId: context.requestId,
           totalChunks: chunkIndex,
-          totalTokens: 0, // Would need to track this
+          totalTokens,
           duration: Date.now() - context.timestamp,
         },
         context
@@ -286,59 +331,67 @@ export class OpenRouterAdapter {
     }
   }
 
+  /**
+   * Send a streaming chat completion request without running any hooks
+   */
+  async *requestStream(options: CompletionOptions): AsyncGenerator<StreamChunk> {
+    const model = options.model ?? this.config.defaultModel ?? 'anthropic/claude-sonnet-4';
+
+    const stream = await this.client.chat.send(
+      {
+        model,
+        messages: this.convertMessages(options.messages),
+        tools: options.tools?.map((t) => ({
+          type: 'function' as const,
+          function: {
+            name: t.name,
+            description: t.description,
+            parameters: t.parameters,
+          },
+        })),
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        stop: options.stopSequences,
+        stream: true,
+        streamOptions: { includeUsage: true },
+      },
+      { signal: options.signal }
+    );
+
+    let isFirst = true;
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      const finishReason = choice?.finishReason ?? undefined;
+
+      yield {
+        id: chunk.id,
+        model: chunk.model,
+        content: choice?.delta?.content ?? '',
+        isFirst,
+        // With includeUsage the stream ends with a usage chunk after the finish reason
+        isLast: chunk.usage != null,
+        toolCallDeltas: choice?.delta?.toolCalls?.map((tc) => ({
+          index: tc.index,
+          id: tc.id,
+          name: tc.function?.name,
+          argumentsDelta: tc.function?.arguments,
+        })),
+        usage: chunk.usage ? this.parseUsage(chunk.usage) : undefined,
+        finishReason,
+      };
+
+      isFirst = false;
+    }
+  }
+
   /**
    * Get available models from OpenRouter
    */
   async getAvailableModels(): Promise<ModelInfo[]> {
     // OpenRouter provides a models endpoint
     // For now, return a curated list of popular models
-    return [
-      {
-        id: 'anthropic/claude-sonnet-4',
-        name: 'Claude Sonnet 4',
-        provider: 'anthropic',
-        contextLength: 200000,
-        inputCostPer1k: 0.003,
-        outputCostPer1k: 0.015,
-        capabilities: ['chat', 'tools', 'vision'],
-      },
-      {
-        id: 'anthropic/claude-opus-4',
-        name: 'Claude Opus 4',
-        provider: 'anthropic',
-        contextLength: 200000,
-        inputCostPer1k: 0.015,
-        outputCostPer1k: 0.075,
-        capabilities: ['chat', 'tools', 'vision', 'reasoning'],
-      },
-      {
-        id: 'openai/gpt-4o',
-        name: 'GPT-4o',
-        provider: 'openai',
-        contextLength: 128000,
-        inputCostPer1k: 0.005,
-        outputCostPer1k: 0.015,
-        capabilities: ['chat', 'tools', 'vision'],
-      },
-      {
-        id: 'google/gemini-2.0-flash',
-        name: 'Gemini 2.0 Flash',
-        provider: 'google',
-        contextLength: 1000000,
-        inputCostPer1k: 0.0001,
-        outputCostPer1k: 0.0004,
-        capabilities: ['chat', 'tools', 'vision'],
-      },
-      {
-        id: 'meta-llama/llama-3.3-70b-instruct',
-        name: 'Llama 3.3 70B',
-        provider: 'meta',
-        contextLength: 128000,
-        inputCostPer1k: 0.0004,
-        outputCostPer1k: 0.0004,
-        capabilities: ['chat', 'tools'],
-      },
-    ];
+    return OPENROUTER_MODELS;
   }
 
   /**
@@ -354,6 +407,18 @@ export class OpenRouterAdapter {
     };
   }
 
+  /**
+   * Check that the API is reachable with the configured credentials
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.models.count();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   // =============================================================================
   // Private Methods
   // =============================================================================
@@ -368,6 +433,48 @@ export class OpenRouterAdapter {
     };
   }
 
+  private convertMessages(messages: Message[]): OpenRouterMessage[] {
+    return messages.map((m): OpenRouterMessage => {
+      switch (m.role) {
+        case 'tool':
+          return {
+            role: 'tool',
+            toolCallId: m.toolCallId ?? '',
+            content: getTextContent(m.content),
+          };
+        case 'assistant':
+          return {
+            role: 'assistant',
+            content: getTextContent(m.content) || null,
+            name: m.name,
+            toolCalls: m.toolCalls?.length
+              ? m.toolCalls.map((tc) => ({
+                  id: tc.id,
+                  type: 'function' as const,
+                  function: { name: tc.name, arguments: JSON.stringify(tc.arguments) },
+                }))
+              : undefined,
+          };
+        case 'user':
+          return {
+            role: 'user',
+            // Only user turns may carry images
+            content:
+              typeof m.content === 'string'
+                ? m.content
+                : m.content.map((part): ChatMessageContentItem =>
+                    part.type === 'text'
+                      ? { type: 'text', text: part.text }
+                      : { type: 'image_url', imageUrl: { url: part.url } }
+                  ),
+            name: m.name,
+          };
+        default:
+          return { role: 'system', content: getTextContent(m.content), name: m.name };
+      }
+    });
+  }
+
   private parseToolCalls(toolCalls?: Array<{
     id: string;
     type: string;
@@ -405,6 +512,67 @@ export function createOpenRouterAdapter(config: OpenRouterConfig): OpenRouterAda
   return new OpenRouterAdapter(config);
 }
 
+// =============================================================================
+// Runtime Adapter
+// =============================================================================
+
+/**
+ * LLMAdapter for AgentRuntime, backed by an OpenRouterAdapter
+ */
+export class OpenRouterLLMAdapter implements LLMAdapter {
+  readonly id: string;
+  readonly name = 'OpenRouter';
+  readonly models = OPENROUTER_MODELS.map((m) => m.id);
+
+  constructor(
+    private adapter: OpenRouterAdapter,
+    id: string = 'openrouter'
+  ) {
+    this.id = id;
+  }
+
+  complete(messages: Message[], options: RuntimeCompletionOptions): Promise<LLMResponse> {
+    return this.adapter.request(this.toCompletionOptions(messages, options));
+  }
+
+  stream(messages: Message[], options: RuntimeCompletionOptions): AsyncIterable<StreamChunk> {
+    return this.adapter.requestStream(this.toCompletionOptions(messages, options));
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.adapter.healthCheck();
+  }
+
+  getAvailableModels(): Promise<ModelInfo[]> {
+    return this.adapter.getAvailableModels();
+  }
+
+  private toCompletionOptions(
+    messages: Message[],
+    options: RuntimeCompletionOptions
+  ): CompletionOptions {
+    // OpenRouter takes the system prompt as a message; add it unless the caller already did
+    const hasSystemMessage = messages.some((m) => m.role === 'system');
+    return {
+      // The runtime passes 'default' when the agent doesn't pin a model
+      model: options.model === 'default' ? undefined : options.model,
+      messages:
+        options.systemPrompt && !hasSystemMessage
+          ? [{ role: 'system', content: options.systemPrompt }, ...messages]
+          : messages,
+      tools: options.tools,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      stopSequences: options.stopSequences,
+      signal: options.signal,
+    };
+  }
+}
+
+export function createOpenRouterLLMAdapter(config: OpenRouterConfig): OpenRouterLLMAdapter {
+  return new OpenRouterLLMAdapter(new OpenRouterAdapter(config));
+}
+
 // =============================================================================
 // Hook Implementations
 // =============================================================================
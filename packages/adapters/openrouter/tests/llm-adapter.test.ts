@@ -0,0 +1,16 @@
+/**
+ * OpenRouter LLMAdapter Tests
+ *
+ * Runs the shared adapter conformance suite against a fake OpenRouter API.
+ */
+
+import { createOpenRouterLLMAdapter } from '../src/index.js';
+import { describeLLMAdapterConformance } from '../../../../test/adapter-conformance.js';
+
+describeLLMAdapterConformance({
+  name: 'OpenRouterLLMAdapter',
+  protocol: 'openai',
+  defaultModel: 'anthropic/claude-sonnet-4',
+  createAdapter: (serverUrl) =>
+    createOpenRouterLLMAdapter({ apiKey: 'test-key', serverURL: `${serverUrl}/api/v1` }),
+});
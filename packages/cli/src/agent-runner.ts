@@ -0,0 +1,211 @@
+/**
+ * Agent Runner - Run one task through an agent and summarize the outcome
+ */
+
+import {
+  type AgentConfig,
+  type AgentRuntime,
+  type BudgetStatus,
+  type LLMResponse,
+  type ModelInfo,
+  type TokenUsage,
+  type ToolCall,
+} from '@open-agent/core';
+import { watchTurn, type ChatTurnHandlers } from './chat-session.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RunStatus = 'success' | 'error' | 'timeout' | 'limit-exceeded';
+
+/**
+ * Process exit code for each run status
+ */
+export const EXIT_CODES: Record<RunStatus, number> = {
+  success: 0,
+  error: 1,
+  timeout: 2,
+  'limit-exceeded': 3,
+};
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export interface RunResult {
+  status: RunStatus;
+  agent: string;
+  model?: string;
+  response?: string;
+  toolCalls: ToolCallRecord[];
+  usage: TokenUsage;
+  /** Cost in USD, as the runtime's pricing catalog and budgets count it */
+  cost: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface RunTaskOptions extends ChatTurnHandlers {
+  /** Abort the run after this many milliseconds */
+  timeout?: number;
+  /** Model prices to add to the runtime's pricing catalog */
+  pricing?: ModelInfo[];
+}
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+/**
+ * Create an agent and run a task to completion, timeout or a resource limit
+ */
+export async function runTask(
+  runtime: AgentRuntime,
+  config: AgentConfig,
+  task: string,
+  options: RunTaskOptions = {}
+): Promise<RunResult> {
+  const startTime = Date.now();
+  const agentId = await runtime.createAgent(config);
+
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const toolCalls: ToolCallRecord[] = [];
+  const toolStarts = new Map<string, number>();
+  runtime.pricing.addModels(options.pricing ?? []);
+  let model: string | undefined;
+  let stopReason: string | undefined;
+  let budgetExceeded: BudgetStatus | undefined;
+
+  const unwatch = watchTurn(runtime, agentId, {
+    onToken: options.onToken,
+    onToolCall: (toolCall) => {
+      toolStarts.set(toolCall.id, Date.now());
+      options.onToolCall?.(toolCall);
+    },
+    onToolResult: (toolCall, result, isError) => {
+      toolCalls.push(recordToolCall(toolCall, result, isError, toolStarts.get(toolCall.id)));
+      options.onToolResult?.(toolCall, result, isError);
+    },
+  });
+  const onResponse = (id: string, response: LLMResponse): void => {
+    if (id !== agentId) {
+      return;
+    }
+    model = response.model;
+    usage.promptTokens += response.usage.promptTokens;
+    usage.completionTokens += response.usage.completionTokens;
+    usage.totalTokens += response.usage.totalTokens;
+  };
+  const onStopped = (id: string, reason: string): void => {
+    if (id === agentId) {
+      stopReason ??= reason;
+    }
+  };
+  const onBudgetExceeded = (id: string, status: BudgetStatus): void => {
+    if (id === agentId) {
+      budgetExceeded ??= status;
+    }
+  };
+  runtime.on('agent:response', onResponse);
+  runtime.on('agent:stopped', onStopped);
+  runtime.on('agent:budget-exceeded', onBudgetExceeded);
+
+  const finish = (status: RunStatus, fields: Pick<RunResult, 'response' | 'error'>): RunResult => ({
+    status,
+    agent: config.name,
+    model: model ?? config.model,
+    ...fields,
+    toolCalls,
+    usage: { ...usage },
+    cost: runtime.stateManager.getState(agentId)?.usage?.cost ?? 0,
+    durationMs: Date.now() - startTime,
+  });
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const run = runtime.run(agentId, { role: 'user', content: task });
+    const timedOut = new Promise<null>((resolve) => {
+      if (options.timeout !== undefined) {
+        timer = setTimeout(() => resolve(null), options.timeout);
+      }
+    });
+
+    const response = await Promise.race([run, timedOut]);
+    if (!response) {
+      // The run keeps going until its current step returns; ignore how it ends
+      run.catch(() => {});
+      stopReason ??= 'timeout';
+      await runtime.stopAgent(agentId, 'timeout').catch(() => {});
+    }
+
+    if (stopReason === 'timeout') {
+      return finish('timeout', {
+        response: response?.content,
+        error: `Timed out after ${options.timeout ?? Date.now() - startTime}ms`,
+      });
+    }
+    if (stopReason === 'resource-limit') {
+      return finish('limit-exceeded', {
+        response: response?.content,
+        error: describeLimit(budgetExceeded),
+      });
+    }
+    return finish('success', { response: response?.content });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (stopReason === 'resource-limit') {
+      return finish('limit-exceeded', { error: describeLimit(budgetExceeded) });
+    }
+    return finish('error', { error: message });
+  } finally {
+    clearTimeout(timer);
+    unwatch();
+    runtime.off('agent:response', onResponse);
+    runtime.off('agent:stopped', onStopped);
+    runtime.off('agent:budget-exceeded', onBudgetExceeded);
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function recordToolCall(
+  toolCall: ToolCall,
+  result: unknown,
+  isError: boolean,
+  startedAt = Date.now()
+): ToolCallRecord {
+  return {
+    id: toolCall.id,
+    name: toolCall.name,
+    arguments: toolCall.arguments,
+    ...(isError ? { error: String(result) } : { result }),
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Why a run stopped with resource-limit: the budget that tripped, else the iteration limit
+ */
+function describeLimit(status: BudgetStatus | undefined): string {
+  if (!status) {
+    return 'Iteration limit exceeded';
+  }
+
+  const scope = status.scope === 'run' ? 'Run' : 'Agent';
+  switch (status.limit) {
+    case 'tokens':
+      return `${scope} token budget exceeded: ${status.used} of ${status.max} tokens`;
+    case 'cost':
+      return `${scope} cost budget exceeded: $${status.used.toFixed(4)} of $${status.max}`;
+    case 'duration':
+      return `${scope} time budget exceeded: ${status.used}ms of ${status.max}ms`;
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Chat Session - A multi-turn conversation with one runtime agent
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  AgentConfig,
+  AgentRuntime,
+  LLMResponse,
+  Message,
+  StreamChunk,
+  ToolCall,
+} from '@open-agent/core';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ChatSessionOptions {
+  /** Agent name */
+  name?: string;
+  /** Model; the adapter default is used when unset */
+  model?: string;
+  /** System prompt */
+  systemPrompt?: string;
+}
+
+/**
+ * Callbacks for rendering a turn as it happens
+ */
+export interface ChatTurnHandlers {
+  onToken?: (text: string) => void;
+  onToolCall?: (toolCall: ToolCall) => void;
+  onToolResult?: (toolCall: ToolCall, result: unknown, isError: boolean) => void;
+}
+
+/**
+ * Transcript file written by /save and read by /load
+ */
+export interface ChatTranscript {
+  version: 1;
+  savedAt: string;
+  model?: string;
+  systemPrompt?: string;
+  messages: Message[];
+}
+
+// =============================================================================
+// Chat Session
+// =============================================================================
+
+export class ChatSession {
+  private runtime: AgentRuntime;
+  private config: AgentConfig;
+  private agentId?: string;
+
+  constructor(runtime: AgentRuntime, options: ChatSessionOptions = {}) {
+    this.runtime = runtime;
+    this.config = {
+      name: options.name ?? 'chat',
+      role: 'assistant',
+      model: options.model,
+      systemPrompt: options.systemPrompt,
+    };
+  }
+
+  /**
+   * Model in use, or undefined for the adapter default
+   */
+  get model(): string | undefined {
+    return this.config.model;
+  }
+
+  /**
+   * Conversation so far
+   */
+  getHistory(): Message[] {
+    return this.agentId ? [...(this.runtime.getAgent(this.agentId)?.messageHistory ?? [])] : [];
+  }
+
+  /**
+   * Create the agent backing the session
+   */
+  async start(): Promise<void> {
+    await this.recreate([]);
+  }
+
+  /**
+   * Send a user message and run the agent until it answers
+   */
+  async send(text: string, handlers: ChatTurnHandlers = {}): Promise<LLMResponse> {
+    const agentId = this.agentId;
+    if (!agentId) {
+      throw new Error('Chat session not started');
+    }
+
+    const unwatch = watchTurn(this.runtime, agentId, handlers);
+
+    try {
+      // The iteration limit applies per turn, not to the whole conversation
+      this.runtime.stateManager.setState(agentId, { iterationCount: 0 });
+      return await this.runtime.run(agentId, { role: 'user', content: text });
+    } finally {
+      unwatch();
+    }
+  }
+
+  /**
+   * Start the conversation over
+   */
+  async reset(): Promise<void> {
+    await this.recreate([]);
+  }
+
+  /**
+   * Switch models, keeping the conversation
+   */
+  async setModel(model: string): Promise<void> {
+    this.config = { ...this.config, model };
+    await this.recreate(this.getHistory());
+  }
+
+  /**
+   * Save the conversation as a JSON transcript
+   */
+  async save(file: string): Promise<void> {
+    const transcript: ChatTranscript = {
+      version: 1,
+      savedAt: new Date().toISOString(),
+      model: this.config.model,
+      systemPrompt: this.config.systemPrompt,
+      messages: this.getHistory(),
+    };
+
+    await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(transcript, null, 2));
+  }
+
+  /**
+   * Replace the conversation with a saved transcript
+   */
+  async load(file: string): Promise<ChatTranscript> {
+    const transcript = JSON.parse(await fs.readFile(file, 'utf-8')) as Partial<ChatTranscript>;
+    if (transcript.version !== 1 || !Array.isArray(transcript.messages)) {
+      throw new Error(`Not a chat transcript: ${file}`);
+    }
+
+    this.config = {
+      ...this.config,
+      model: transcript.model ?? this.config.model,
+      systemPrompt: transcript.systemPrompt ?? this.config.systemPrompt,
+    };
+    await this.recreate(transcript.messages);
+    return transcript as ChatTranscript;
+  }
+
+  /**
+   * Shut the runtime down
+   */
+  async close(): Promise<void> {
+    await this.runtime.shutdown();
+  }
+
+  /**
+   * Replace the agent with a fresh one holding the given history; agent config
+   * is fixed at creation, so model changes need a new agent too
+   */
+  private async recreate(history: Message[]): Promise<void> {
+    const agentId = await this.runtime.createAgent(this.config);
+    this.runtime.stateManager.setState(agentId, { messageHistory: [...history] });
+
+    if (this.agentId) {
+      this.runtime.stateManager.removeAgent(this.agentId);
+    }
+    this.agentId = agentId;
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Forward an agent's streamed tokens and tool activity to turn handlers;
+ * returns a function that stops forwarding
+ */
+export function watchTurn(
+  runtime: AgentRuntime,
+  agentId: string,
+  handlers: ChatTurnHandlers
+): () => void {
+  const onChunk = (id: string, chunk: StreamChunk): void => {
+    if (id === agentId && chunk.content) {
+      handlers.onToken?.(chunk.content);
+    }
+  };
+  const onExecuting = (id: string, toolCall: ToolCall): void => {
+    if (id === agentId) {
+      handlers.onToolCall?.(toolCall);
+    }
+  };
+  const onCompleted = (id: string, toolCall: ToolCall, result: unknown): void => {
+    if (id === agentId) {
+      handlers.onToolResult?.(toolCall, result, false);
+    }
+  };
+  const onError = (id: string, toolCall: ToolCall, error: Error): void => {
+    if (id === agentId) {
+      handlers.onToolResult?.(toolCall, error.message, true);
+    }
+  };
+
+  runtime.on('stream:chunk', onChunk);
+  runtime.on('tool:executing', onExecuting);
+  runtime.on('tool:completed', onCompleted);
+  runtime.on('tool:error', onError);
+
+  return () => {
+    runtime.off('stream:chunk', onChunk);
+    runtime.off('tool:executing', onExecuting);
+    runtime.off('tool:completed', onCompleted);
+    runtime.off('tool:error', onError);
+  };
+}
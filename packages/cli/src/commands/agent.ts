@@ -10,12 +10,13 @@ import ora from 'ora';
 import inquirer from 'inquirer';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { executeRun, failRun, parseTimeout } from './run.js';
 
 // =============================================================================
 // Types
 // =============================================================================
 
-interface AgentConfig {
+export interface AgentConfig {
   id: string;
   name: string;
   description: string;
@@ -47,9 +48,11 @@ interface AgentRunOptions {
   input?: string;
   file?: string;
   model?: string;
+  provider?: string;
   stream?: boolean;
   verbose?: boolean;
-  timeout?: number;
+  timeout?: string;
+  output?: string;
 }
 
 interface AgentStatusOptions {
@@ -243,30 +246,25 @@ export function agentCommand(): Command {
     .option('-i, --input <input>', 'Additional input context')
     .option('-f, --file <file>', 'Load task from file')
     .option('-m, --model <model>', 'Override default model')
+    .option('--provider <provider>', 'LLM provider (openrouter, openai, anthropic)')
     .option('-s, --stream', 'Enable streaming output', true)
+    .option('--no-stream', 'Disable streaming output')
     .option('-v, --verbose', 'Enable verbose output')
-    .option('--timeout <ms>', 'Execution timeout in milliseconds', '300000')
+    .option('--timeout <ms>', 'Execution timeout in milliseconds (0 for none)', '300000')
+    .option('-o, --output <format>', 'Output format (text, json)', 'text')
     .action(async (id: string, options: AgentRunOptions) => {
-      console.log(chalk.blue(`\n🚀 Running Agent: ${id}\n`));
-      const spinner = ora();
+      const json = options.output === 'json';
 
       try {
         // Load agent configuration
-        spinner.start('Loading agent...');
         const agentConfig = await loadAgent(id);
 
         if (!agentConfig) {
-          spinner.fail(`Agent "${id}" not found`);
-          console.log(chalk.dim('\nAvailable agents:'));
           const agents = await loadAgents();
-          for (const a of agents) {
-            console.log(chalk.dim(`  - ${a.id}`));
-          }
-          process.exit(1);
+          const available = agents.map((a) => a.id).join(', ') || 'none';
+          throw new Error(`Agent "${id}" not found (available: ${available})`);
         }
 
-        spinner.succeed(`Agent "${agentConfig.name}" loaded`);
-
         // Get task
         let task = options.task;
         if (options.file) {
@@ -274,34 +272,23 @@ export function agentCommand(): Command {
         }
 
         if (!task) {
-          console.error(chalk.red('Error: Please provide a task with --task or --file'));
-          process.exit(1);
+          throw new Error('Please provide a task with --task or --file');
         }
 
-        console.log(chalk.dim(`\nTask: ${task.substring(0, 100)}${task.length > 100 ? '...' : ''}`));
-        console.log(chalk.dim(`Model: ${options.model ?? agentConfig.model}`));
-        console.log(chalk.dim(`Stream: ${options.stream}`));
-        console.log(chalk.dim(`Timeout: ${options.timeout}ms\n`));
-
-        spinner.start('Executing task...');
-
-        // TODO: Integrate with actual agent runtime
-        // This placeholder demonstrates the CLI interface
-
-        // Simulate execution
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        if (options.input) {
+          task = `${task}\n\nAdditional context:\n${options.input}`;
+        }
 
-        spinner.info('Agent runtime integration pending');
-        console.log(chalk.yellow('\nNote: Full agent execution coming in next release'));
-        console.log(chalk.dim('The agent would process:'));
-        console.log(chalk.dim(`  - Instructions: ${agentConfig.instructions.substring(0, 50)}...`));
-        console.log(chalk.dim(`  - Tools: ${agentConfig.tools.join(', ') || 'none'}`));
-        console.log(chalk.dim(`  - Task: ${task.substring(0, 50)}...`));
-        console.log('');
+        await executeRun(agentConfig, task, {
+          model: options.model,
+          provider: options.provider,
+          stream: options.stream,
+          verbose: options.verbose,
+          timeout: parseTimeout(options.timeout),
+          output: json ? 'json' : 'text',
+        });
       } catch (error) {
-        spinner.fail('Execution failed');
-        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-        process.exit(1);
+        failRun(error, json);
       }
     });
 
@@ -576,7 +563,7 @@ async function loadAgents(): Promise<AgentConfig[]> {
   }
 }
 
-async function loadAgent(id: string): Promise<AgentConfig | null> {
+export async function loadAgent(id: string): Promise<AgentConfig | null> {
   try {
     const configPath = getAgentConfigPath(id);
     const content = await fs.readFile(configPath, 'utf-8');
@@ -6,39 +6,69 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import ora from 'ora';
+import type { ToolCall } from '@open-agent/core';
+import { ChatSession, type ChatTurnHandlers } from '../chat-session.js';
+import { createCliRuntime } from '../runtime.js';
+import { loadAgent } from './agent.js';
 
 interface ChatOptions {
   agent?: string;
   model?: string;
   system?: string;
+  provider?: string;
+  stream?: boolean;
 }
 
+const HELP = `
+Commands:
+  /reset           Start a new conversation
+  /model [name]    Show or switch the model
+  /save <file>     Save the transcript
+  /load <file>     Load a transcript
+  /help            Show this help
+  /exit            Quit
+`;
+
 export function chatCommand(): Command {
   return new Command('chat')
     .description('Start an interactive chat session with an agent')
     .option('-a, --agent <agent>', 'Agent name to use')
     .option('-m, --model <model>', 'Override default model')
     .option('-s, --system <system>', 'Override system prompt')
+    .option('--provider <provider>', 'LLM provider (openrouter, openai, anthropic)')
+    .option('--no-stream', 'Wait for complete responses instead of streaming')
     .action(async (options: ChatOptions) => {
       const spinner = ora();
+      let session: ChatSession | undefined;
 
       try {
         console.log(chalk.blue('\n🤖 Open Agent System - Interactive Chat\n'));
-        console.log(chalk.dim('Type "exit" or press Ctrl+C to quit\n'));
+        console.log(chalk.dim('Type "exit" or press Ctrl+C to quit, /help for commands\n'));
 
         spinner.start('Initializing chat session...');
 
-        // TODO: Initialize agent and chat session
-        // This will be implemented when the core agent runtime is ready
+        const agentConfig = options.agent ? await loadAgent(options.agent) : null;
+        if (options.agent && !agentConfig) {
+          throw new Error(`Agent "${options.agent}" not found`);
+        }
+
+        const { runtime, provider } = createCliRuntime({
+          provider: options.provider,
+          enableStreaming: options.stream !== false,
+        });
+        session = new ChatSession(runtime, {
+          name: agentConfig?.name ?? 'chat',
+          model: options.model ?? agentConfig?.model,
+          systemPrompt: options.system ?? agentConfig?.instructions,
+        });
+        await session.start();
 
         spinner.succeed('Chat session ready');
-        console.log(chalk.dim(`Agent: ${options.agent ?? 'default'}`));
-        console.log(chalk.dim(`Model: ${options.model ?? 'anthropic/claude-sonnet-4'}\n`));
-
-        // Interactive loop placeholder
-        let continueChat = true;
+        console.log(chalk.dim(`Agent: ${agentConfig?.name ?? 'default'}`));
+        console.log(chalk.dim(`Provider: ${provider}`));
+        console.log(chalk.dim(`Model: ${session.model ?? 'provider default'}\n`));
 
-        while (continueChat) {
+        while (true) {
           const { message } = await inquirer.prompt([
             {
               type: 'input',
@@ -48,18 +78,27 @@ export function chatCommand(): Command {
             },
           ]);
 
-          if (message.toLowerCase() === 'exit' || message.toLowerCase() === 'quit') {
-            continueChat = false;
+          const input = String(message).trim();
+          if (!input) {
+            continue;
+          }
+
+          if (['exit', 'quit', '/exit', '/quit'].includes(input.toLowerCase())) {
             console.log(chalk.dim('\nGoodbye! 👋\n'));
             break;
           }
 
-          // Placeholder response
-          console.log(chalk.cyan('\nAssistant:'));
-          console.log(chalk.yellow('  Chat runtime not yet implemented.'));
-          console.log(chalk.yellow('  Full chat support coming in v0.2.0\n'));
+          if (input.startsWith('/')) {
+            await runSlashCommand(session, input);
+            continue;
+          }
+
+          await runTurn(session, input);
         }
+
+        await session.close();
       } catch (error) {
+        await session?.close();
         if ((error as { name?: string }).name === 'ExitPromptError') {
           console.log(chalk.dim('\n\nGoodbye! 👋\n'));
           return;
@@ -70,3 +109,104 @@ export function chatCommand(): Command {
       }
     });
 }
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+async function runTurn(session: ChatSession, input: string): Promise<void> {
+  console.log(chalk.cyan('\nAssistant:'));
+
+  // Tool output interrupts the streamed text, so track whether we're mid-line
+  let streamed = false;
+  let midLine = false;
+  const handlers: ChatTurnHandlers = {
+    onToken: (text) => {
+      streamed = true;
+      midLine = !text.endsWith('\n');
+      process.stdout.write(text);
+    },
+    onToolCall: (toolCall) => {
+      if (midLine) {
+        process.stdout.write('\n');
+        midLine = false;
+      }
+      console.log(chalk.magenta(`  ⚙ ${formatToolCall(toolCall)}`));
+    },
+    onToolResult: (_toolCall, result, isError) => {
+      const text = truncate(typeof result === 'string' ? result : JSON.stringify(result), 200);
+      console.log(isError ? chalk.red(`  ✗ ${text}`) : chalk.dim(`  ↳ ${text}`));
+    },
+  };
+
+  try {
+    const response = await session.send(input, handlers);
+    if (!streamed) {
+      process.stdout.write(response.content);
+    }
+    console.log('\n');
+  } catch (error) {
+    if (midLine) {
+      process.stdout.write('\n');
+    }
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}\n`));
+  }
+}
+
+async function runSlashCommand(session: ChatSession, input: string): Promise<void> {
+  const [command, ...rest] = input.split(/\s+/);
+  const arg = rest.join(' ');
+
+  try {
+    switch (command) {
+      case '/reset':
+        await session.reset();
+        console.log(chalk.dim('Conversation cleared\n'));
+        break;
+
+      case '/model':
+        if (arg) {
+          await session.setModel(arg);
+          console.log(chalk.dim(`Model: ${arg}\n`));
+        } else {
+          console.log(chalk.dim(`Model: ${session.model ?? 'provider default'}\n`));
+        }
+        break;
+
+      case '/save':
+        if (!arg) {
+          console.log(chalk.yellow('Usage: /save <file>\n'));
+          break;
+        }
+        await session.save(arg);
+        console.log(chalk.dim(`Saved ${session.getHistory().length} messages to ${arg}\n`));
+        break;
+
+      case '/load':
+        if (!arg) {
+          console.log(chalk.yellow('Usage: /load <file>\n'));
+          break;
+        }
+        await session.load(arg);
+        console.log(chalk.dim(`Loaded ${session.getHistory().length} messages from ${arg}\n`));
+        break;
+
+      case '/help':
+        console.log(chalk.dim(HELP));
+        break;
+
+      default:
+        console.log(chalk.yellow(`Unknown command: ${command}. Type /help for commands\n`));
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}\n`));
+  }
+}
+
+function formatToolCall(toolCall: ToolCall): string {
+  return `${toolCall.name}(${truncate(JSON.stringify(toolCall.arguments), 120)})`;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length)}...` : text;
+}
@@ -5,14 +5,36 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
+import * as fs from 'fs/promises';
+import { EXIT_CODES, runTask, type RunResult } from '../agent-runner.js';
+import { createCliRuntime } from '../runtime.js';
+import { registerTools } from '../tool-handlers.js';
+import { loadAgent, type AgentConfig } from './agent.js';
 
 interface RunOptions {
   agent?: string;
   prompt?: string;
   file?: string;
   model?: string;
+  provider?: string;
   stream?: boolean;
   verbose?: boolean;
+  timeout?: string;
+  output?: string;
+}
+
+/**
+ * Options shared by `run` and `agent run`
+ */
+export interface ExecuteRunOptions {
+  model?: string;
+  systemPrompt?: string;
+  provider?: string;
+  stream?: boolean;
+  verbose?: boolean;
+  /** Milliseconds before the run is stopped; 0 for no timeout */
+  timeout?: number;
+  output?: 'text' | 'json';
 }
 
 export function runCommand(): Command {
@@ -23,39 +45,195 @@ export function runCommand(): Command {
     .option('-p, --prompt <prompt>', 'Override system prompt')
     .option('-f, --file <file>', 'Load task from file')
     .option('-m, --model <model>', 'Override default model')
+    .option('--provider <provider>', 'LLM provider (openrouter, openai, anthropic)')
     .option('-s, --stream', 'Enable streaming output', true)
+    .option('--no-stream', 'Disable streaming output')
     .option('-v, --verbose', 'Enable verbose output')
+    .option('--timeout <ms>', 'Execution timeout in milliseconds (0 for none)', '300000')
+    .option('-o, --output <format>', 'Output format (text, json)', 'text')
     .action(async (task: string | undefined, options: RunOptions) => {
-      const spinner = ora();
+      const json = options.output === 'json';
 
       try {
-        console.log(chalk.blue('\n🤖 Open Agent System - Running Agent\n'));
-
         // Validate input
         if (!task && !options.file) {
-          console.error(chalk.red('Error: Please provide a task or use --file'));
-          process.exit(1);
+          throw new Error('Please provide a task or use --file');
         }
 
-        spinner.start('Loading configuration...');
-
-        // TODO: Load configuration and initialize agent runtime
-        // This will be implemented when the core agent runtime is ready
-
-        spinner.succeed('Configuration loaded');
-        spinner.start(`Running agent ${options.agent ?? 'default'}...`);
+        const agentConfig = options.agent ? await loadAgent(options.agent) : null;
+        if (options.agent && !agentConfig) {
+          throw new Error(`Agent "${options.agent}" not found`);
+        }
 
-        // Placeholder for actual agent execution
-        console.log(chalk.dim(`\nTask: ${task ?? options.file}`));
-        console.log(chalk.dim(`Model: ${options.model ?? 'default'}`));
-        console.log(chalk.dim(`Stream: ${options.stream}`));
+        const input = options.file ? await fs.readFile(options.file, 'utf-8') : task!;
 
-        spinner.info('Agent runtime not yet implemented');
-        console.log(chalk.yellow('\nNote: Full agent runtime coming in v0.2.0'));
+        await executeRun(agentConfig, input, {
+          model: options.model,
+          systemPrompt: options.prompt,
+          provider: options.provider,
+          stream: options.stream,
+          verbose: options.verbose,
+          timeout: parseTimeout(options.timeout),
+          output: json ? 'json' : 'text',
+        });
       } catch (error) {
-        spinner.fail('Run failed');
-        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-        process.exit(1);
+        failRun(error, json);
       }
     });
 }
+
+/**
+ * Run a task through a stored agent (or a default one), print the outcome and
+ * exit with the code for its status
+ */
+export async function executeRun(
+  agentConfig: AgentConfig | null,
+  task: string,
+  options: ExecuteRunOptions
+): Promise<never> {
+  const json = options.output === 'json';
+  const stream = !json && options.stream !== false;
+  const spinner = ora({ isSilent: json });
+
+  if (!json) {
+    console.log(chalk.blue(`\n🚀 Running Agent: ${agentConfig?.name ?? 'default'}\n`));
+  }
+
+  spinner.start('Starting runtime...');
+  const { runtime, provider } = createCliRuntime({
+    provider: options.provider,
+    enableStreaming: stream,
+    ...(options.timeout !== undefined
+      ? { maxExecutionTime: options.timeout === 0 ? Infinity : options.timeout }
+      : {}),
+  });
+
+  let result: RunResult;
+  try {
+    await registerTools(runtime, agentConfig?.tools ?? []);
+    const model = options.model ?? agentConfig?.model;
+
+    spinner.succeed(`Runtime ready (${provider})`);
+    if (!json) {
+      console.log(chalk.dim(`Model: ${model ?? 'provider default'}`));
+      console.log(chalk.dim(`Tools: ${agentConfig?.tools.join(', ') || 'none'}`));
+      console.log(chalk.dim(`Timeout: ${options.timeout ? `${options.timeout}ms` : 'none'}\n`));
+      if (options.verbose) {
+        console.log(chalk.dim(`Task: ${task}\n`));
+      }
+    }
+
+    result = await runTask(
+      runtime,
+      {
+        name: agentConfig?.id ?? 'default',
+        role: agentConfig?.description ?? 'assistant',
+        model,
+        systemPrompt: options.systemPrompt ?? agentConfig?.instructions,
+        tools: agentConfig?.tools,
+      },
+      task,
+      {
+        timeout: options.timeout || undefined,
+        onToken: stream ? (text) => process.stdout.write(text) : undefined,
+        onToolCall: json
+          ? undefined
+          : (toolCall) => {
+              const args = options.verbose ? ` ${JSON.stringify(toolCall.arguments)}` : '';
+              console.log(chalk.magenta(`\n  ⚙ ${toolCall.name}${args}`));
+            },
+        onToolResult: json
+          ? undefined
+          : (toolCall, _result, isError) => {
+              const outcome = isError ? chalk.red('failed') : chalk.dim('done');
+              console.log(`  ↳ ${toolCall.name} ${outcome}`);
+            },
+      }
+    );
+  } catch (error) {
+    spinner.fail('Run failed');
+    throw error;
+  } finally {
+    // A timed-out run may still be mid-step; stopping it can fail and that's fine
+    await runtime.shutdown().catch(() => {});
+  }
+
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    printResult(result, stream, options.verbose);
+  }
+
+  process.exit(EXIT_CODES[result.status]);
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Report a run that could not start and exit with the agent error code
+ */
+export function failRun(error: unknown, json: boolean): never {
+  const message = error instanceof Error ? error.message : String(error);
+  if (json) {
+    console.log(JSON.stringify({ status: 'error', error: message }, null, 2));
+  } else {
+    console.error(chalk.red(`\nError: ${message}`));
+  }
+  process.exit(EXIT_CODES.error);
+}
+
+/**
+ * Parse a --timeout value; 0 means no timeout
+ */
+export function parseTimeout(value: string | number | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const timeout = Number(value);
+  if (!Number.isInteger(timeout) || timeout < 0) {
+    throw new Error(`Invalid timeout: ${value}`);
+  }
+  return timeout;
+}
+
+function printResult(result: RunResult, streamed: boolean, verbose?: boolean): void {
+  if (!streamed && result.response) {
+    console.log(result.response);
+  }
+  console.log('');
+
+  switch (result.status) {
+    case 'success':
+      console.log(chalk.green('✔ Completed'));
+      break;
+    case 'timeout':
+      console.log(chalk.yellow(`⏱ ${result.error}`));
+      break;
+    case 'limit-exceeded':
+      console.log(chalk.yellow(`⚠ ${result.error}`));
+      break;
+    case 'error':
+      console.log(chalk.red(`✖ ${result.error}`));
+      break;
+  }
+
+  const { promptTokens, completionTokens, totalTokens } = result.usage;
+  console.log(
+    chalk.dim(
+      `Tokens: ${totalTokens} (${promptTokens} in / ${completionTokens} out) · ` +
+        `Cost: $${result.cost.toFixed(4)} · ${(result.durationMs / 1000).toFixed(1)}s`
+    )
+  );
+
+  if (verbose && result.toolCalls.length > 0) {
+    console.log(chalk.dim('\nTool calls:'));
+    for (const call of result.toolCalls) {
+      const outcome = call.error ? chalk.red(call.error) : chalk.dim(`${call.durationMs}ms`);
+      console.log(chalk.dim(`  - ${call.name}: `) + outcome);
+    }
+  }
+  console.log('');
+}
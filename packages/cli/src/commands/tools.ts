@@ -15,7 +15,7 @@ import * as path from 'path';
 // Types
 // =============================================================================
 
-interface ToolConfig {
+export interface ToolConfig {
   id: string;
   name: string;
   description: string;
@@ -30,7 +30,7 @@ interface ToolConfig {
   updatedAt: string;
 }
 
-interface ToolParameter {
+export interface ToolParameter {
   name: string;
   type: string;
   description: string;
@@ -712,6 +712,13 @@ async function loadTool(id: string): Promise<ToolConfig | undefined> {
   }
 }
 
+/**
+ * Find a tool by id, preferring a saved config over the built-in definition
+ */
+export async function findTool(id: string): Promise<ToolConfig | undefined> {
+  return (await loadTool(id)) ?? BUILTIN_TOOLS.find((t) => t.id === id);
+}
+
 async function saveTool(config: ToolConfig): Promise<void> {
   await ensureToolsDir();
   const configPath = getToolConfigPath(config.id);
@@ -0,0 +1,112 @@
+/**
+ * Runtime Setup - Build an AgentRuntime from the configured provider
+ */
+
+import { config as loadEnv } from 'dotenv';
+import { AgentRuntime, type LLMAdapter, type RuntimeConfig } from '@open-agent/core';
+import { createOpenRouterLLMAdapter } from '@open-agent/adapter-openrouter';
+import { createOpenAILLMAdapter } from '@open-agent/adapter-openai';
+import { createAnthropicLLMAdapter } from '@open-agent/adapter-anthropic';
+
+// =============================================================================
+// Providers
+// =============================================================================
+
+export type ProviderName = 'openrouter' | 'openai' | 'anthropic';
+
+/** Environment variable holding each provider's API key, in order of preference */
+const PROVIDER_KEYS: Record<ProviderName, string> = {
+  openrouter: 'OPENROUTER_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
+
+export interface ResolvedProvider {
+  provider: ProviderName;
+  apiKey: string;
+}
+
+/**
+ * Pick the provider to use: the requested one, OPEN_AGENT_PROVIDER, or the
+ * first provider with an API key set
+ */
+export function resolveProvider(
+  preferred?: string,
+  env: NodeJS.ProcessEnv = process.env
+): ResolvedProvider {
+  const requested = preferred ?? env['OPEN_AGENT_PROVIDER'];
+
+  if (requested) {
+    if (!(requested in PROVIDER_KEYS)) {
+      throw new Error(
+        `Unknown provider "${requested}". Use one of: ${Object.keys(PROVIDER_KEYS).join(', ')}`
+      );
+    }
+
+    const provider = requested as ProviderName;
+    const apiKey = env[PROVIDER_KEYS[provider]];
+    if (!apiKey) {
+      throw new Error(`${PROVIDER_KEYS[provider]} is not set`);
+    }
+    return { provider, apiKey };
+  }
+
+  for (const [provider, key] of Object.entries(PROVIDER_KEYS)) {
+    const apiKey = env[key];
+    if (apiKey) {
+      return { provider: provider as ProviderName, apiKey };
+    }
+  }
+
+  throw new Error(
+    `No API key configured. Set one of ${Object.values(PROVIDER_KEYS).join(', ')} in your environment or .env file`
+  );
+}
+
+/**
+ * Create the runtime adapter for a provider
+ */
+export function createAdapter({ provider, apiKey }: ResolvedProvider): LLMAdapter {
+  switch (provider) {
+    case 'openrouter':
+      return createOpenRouterLLMAdapter({ apiKey, xTitle: 'Open Agent CLI' });
+    case 'openai':
+      return createOpenAILLMAdapter({ apiKey });
+    case 'anthropic':
+      return createAnthropicLLMAdapter({ apiKey });
+  }
+}
+
+// =============================================================================
+// Runtime
+// =============================================================================
+
+export interface CliRuntimeOptions extends Partial<RuntimeConfig> {
+  /** Provider to use instead of the configured one */
+  provider?: string;
+}
+
+export interface CliRuntime {
+  runtime: AgentRuntime;
+  adapter: LLMAdapter;
+  provider: ProviderName;
+}
+
+/**
+ * Create an AgentRuntime wired to the configured provider
+ */
+export function createCliRuntime(options: CliRuntimeOptions = {}): CliRuntime {
+  loadEnv();
+
+  const { provider: preferred, ...config } = options;
+  const resolved = resolveProvider(preferred);
+
+  const runtime = new AgentRuntime({
+    enableHealthChecks: false,
+    ...config,
+  });
+  const adapter = createAdapter(resolved);
+  runtime.registerAdapter(adapter);
+
+  return { runtime, adapter, provider: resolved.provider };
+}
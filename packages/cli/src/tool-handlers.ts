@@ -0,0 +1,158 @@
+/**
+ * Tool Handlers - Runtime implementations for the tools an agent lists
+ */
+
+import { exec } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type {
+  AgentRuntime,
+  RuntimeToolHandler as ToolHandler,
+  ToolDefinition,
+} from '@open-agent/core';
+import { findTool, type ToolConfig } from './commands/tools.js';
+
+// =============================================================================
+// Built-in Handlers
+// =============================================================================
+
+const BUILTIN_HANDLERS: Record<string, ToolHandler> = {
+  read_file: async (args) => {
+    const encoding = (args['encoding'] as BufferEncoding | undefined) ?? 'utf-8';
+    return fs.readFile(String(args['path']), encoding);
+  },
+
+  write_file: async (args) => {
+    const file = String(args['path']);
+    const content = String(args['content']);
+    const encoding = (args['encoding'] as BufferEncoding | undefined) ?? 'utf-8';
+
+    await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    await fs.writeFile(file, content, encoding);
+    return { path: file, bytes: Buffer.byteLength(content, encoding) };
+  },
+
+  run_command: (args) =>
+    new Promise((resolve) => {
+      exec(
+        String(args['command']),
+        {
+          cwd: args['cwd'] as string | undefined,
+          timeout: (args['timeout'] as number | undefined) ?? 30000,
+        },
+        (error, stdout, stderr) => {
+          resolve({ exitCode: error ? (error.code ?? 1) : 0, stdout, stderr });
+        }
+      );
+    }),
+
+  read_url: async (args) => {
+    const response = await fetch(String(args['url']));
+    if (!response.ok) {
+      throw new Error(`Request failed: ${response.status} ${response.statusText}`);
+    }
+
+    switch (args['format'] ?? 'text') {
+      case 'json':
+        return response.json();
+      case 'html':
+        return response.text();
+      default:
+        return htmlToText(await response.text());
+    }
+  },
+
+  web_search: async () => {
+    throw new Error('web_search requires a search provider, and none is configured');
+  },
+};
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+/**
+ * Build the runtime definition for a tool config
+ */
+export function toToolDefinition(config: ToolConfig): ToolDefinition {
+  const properties: Record<string, unknown> = {};
+  for (const p of config.parameters) {
+    properties[p.name] = {
+      type: p.type,
+      description: p.description,
+      ...(p.default !== undefined ? { default: p.default } : {}),
+    };
+  }
+
+  return {
+    name: config.id,
+    description: config.description,
+    parameters: {
+      type: 'object',
+      properties,
+      required: config.parameters.filter((p) => p.required).map((p) => p.name),
+    },
+  };
+}
+
+/**
+ * Resolve the handler for a tool config
+ */
+export async function createToolHandler(config: ToolConfig): Promise<ToolHandler> {
+  if (config.type === 'builtin') {
+    const handler = BUILTIN_HANDLERS[config.id];
+    if (!handler) {
+      throw new Error(`No implementation for built-in tool "${config.id}"`);
+    }
+    return handler;
+  }
+
+  if (config.type === 'mcp') {
+    throw new Error(`MCP tool "${config.id}" cannot be run from the CLI yet`);
+  }
+
+  if (!config.handler) {
+    throw new Error(`Custom tool "${config.id}" has no handler module`);
+  }
+
+  // Custom handlers are modules exporting the handler as default or `handler`
+  const mod = (await import(pathToFileURL(path.resolve(config.handler)).href)) as {
+    default?: unknown;
+    handler?: unknown;
+  };
+  const handler = mod.default ?? mod.handler;
+  if (typeof handler !== 'function') {
+    throw new Error(`Handler module for "${config.id}" does not export a function`);
+  }
+  return handler as ToolHandler;
+}
+
+/**
+ * Register the named tools with a runtime, failing on unknown or disabled tools
+ */
+export async function registerTools(runtime: AgentRuntime, ids: string[]): Promise<void> {
+  for (const id of ids) {
+    const config = await findTool(id);
+    if (!config) {
+      throw new Error(`Tool "${id}" not found`);
+    }
+    if (!config.enabled) {
+      throw new Error(`Tool "${id}" is disabled`);
+    }
+
+    await runtime.toolExecutor.register(toToolDefinition(config), await createToolHandler(config));
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,201 @@
+/**
+ * Agent Runner Tests
+ *
+ * Runs tasks through a real AgentRuntime with scripted adapters and checks the
+ * summarized outcome, plus registration of the built-in CLI tools.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AgentRuntime,
+  HookRegistry,
+  type LLMAdapter,
+  type LLMResponse,
+  type RuntimeConfig,
+  type ToolCall,
+} from '@open-agent/core';
+import { EXIT_CODES, runTask } from '../src/agent-runner.js';
+import { registerTools } from '../src/tool-handlers.js';
+
+/**
+ * Adapter that answers each completion with the next scripted response
+ */
+function createAdapter(respond: (call: number) => Promise<Partial<LLMResponse>>): LLMAdapter {
+  let calls = 0;
+  return {
+    id: 'scripted',
+    name: 'Scripted',
+    models: ['model-a'],
+    async complete(): Promise<LLMResponse> {
+      const response = await respond(calls++);
+      return {
+        id: `resp-${calls}`,
+        model: 'model-a',
+        content: '',
+        usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+        finishReason: response.toolCalls ? 'tool_calls' : 'stop',
+        ...response,
+      };
+    },
+    async *stream() {},
+    async healthCheck(): Promise<boolean> {
+      return true;
+    },
+  };
+}
+
+const readCall: ToolCall = { id: 'call_1', name: 'read_file', arguments: {} };
+
+describe('runTask', () => {
+  let dir: string;
+  let runtime: AgentRuntime;
+
+  const createRuntime = (adapter: LLMAdapter, config: Partial<RuntimeConfig> = {}) => {
+    runtime = new AgentRuntime(
+      { enableStreaming: false, enableHealthChecks: false, ...config },
+      new HookRegistry()
+    );
+    runtime.registerAdapter(adapter);
+    return runtime;
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'oas-run-'));
+  });
+
+  afterEach(async () => {
+    await runtime.shutdown().catch(() => {});
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should report the response, tool calls, usage and cost', async () => {
+    const file = join(dir, 'notes.txt');
+    await writeFile(file, 'hello from disk');
+
+    createRuntime(
+      createAdapter(async (call) =>
+        call === 0
+          ? { toolCalls: [{ ...readCall, arguments: { path: file } }] }
+          : { content: 'The file says hello.' }
+      )
+    );
+    await registerTools(runtime, ['read_file']);
+
+    const result = await runTask(runtime, { name: 'reader', role: 'test' }, 'read it', {
+      pricing: [
+        {
+          id: 'model-a',
+          name: 'Model A',
+          provider: 'scripted',
+          contextLength: 1000,
+          inputCostPer1k: 0.01,
+          outputCostPer1k: 0.02,
+          capabilities: [],
+        },
+      ],
+    });
+
+    expect(result).toMatchObject({
+      status: 'success',
+      agent: 'reader',
+      model: 'model-a',
+      response: 'The file says hello.',
+      usage: { promptTokens: 200, completionTokens: 100, totalTokens: 300 },
+    });
+    expect(result.cost).toBeCloseTo(0.004);
+    expect(result.toolCalls).toEqual([
+      expect.objectContaining({ name: 'read_file', result: 'hello from disk' }),
+    ]);
+    expect(EXIT_CODES[result.status]).toBe(0);
+  });
+
+  it('should record failing tool calls with their error', async () => {
+    createRuntime(
+      createAdapter(async (call) =>
+        call === 0
+          ? { toolCalls: [{ ...readCall, arguments: { path: join(dir, 'missing.txt') } }] }
+          : { content: 'Could not read it.' }
+      )
+    );
+    await registerTools(runtime, ['read_file']);
+
+    const result = await runTask(runtime, { name: 'reader', role: 'test' }, 'read it');
+
+    expect(result.status).toBe('success');
+    expect(result.toolCalls[0]?.error).toContain('ENOENT');
+  });
+
+  it('should report agent errors', async () => {
+    createRuntime(
+      createAdapter(async () => {
+        throw new Error('provider down');
+      }),
+      { maxAttemptsPerProvider: 1 }
+    );
+
+    const result = await runTask(runtime, { name: 'broken', role: 'test' }, 'hi');
+
+    expect(result.status).toBe('error');
+    expect(result.error).toContain('provider down');
+    expect(EXIT_CODES[result.status]).toBe(1);
+  });
+
+  it('should stop at the timeout', async () => {
+    createRuntime(createAdapter(() => new Promise(() => {})));
+
+    const result = await runTask(runtime, { name: 'slow', role: 'test' }, 'hi', { timeout: 50 });
+
+    expect(result.status).toBe('timeout');
+    expect(result.error).toBe('Timed out after 50ms');
+    expect(EXIT_CODES[result.status]).toBe(2);
+  });
+
+  it('should report an exceeded iteration limit', async () => {
+    createRuntime(
+      createAdapter(async (call) => ({
+        toolCalls: [{ ...readCall, id: `call_${call}`, arguments: { path: __filename } }],
+      })),
+      { maxIterations: 2 }
+    );
+    await registerTools(runtime, ['read_file']);
+
+    const result = await runTask(runtime, { name: 'looper', role: 'test' }, 'loop');
+
+    expect(result.status).toBe('limit-exceeded');
+    expect(result.toolCalls).toHaveLength(2);
+    expect(result.error).toBe('Iteration limit exceeded');
+    expect(EXIT_CODES[result.status]).toBe(3);
+  });
+
+  it('should report which budget limit was exceeded', async () => {
+    createRuntime(
+      createAdapter(async (call) => ({
+        toolCalls: [{ ...readCall, id: `call_${call}`, arguments: { path: __filename } }],
+      }))
+    );
+    await registerTools(runtime, ['read_file']);
+
+    const result = await runTask(
+      runtime,
+      { name: 'spender', role: 'test', budget: { maxTokens: 250 } },
+      'loop'
+    );
+
+    expect(result.status).toBe('limit-exceeded');
+    expect(result.error).toBe('Agent token budget exceeded: 300 of 250 tokens');
+  });
+});
+
+describe('registerTools', () => {
+  it('should reject unknown tools', async () => {
+    const runtime = new AgentRuntime({ enableHealthChecks: false }, new HookRegistry());
+
+    await expect(registerTools(runtime, ['no_such_tool'])).rejects.toThrow(
+      'Tool "no_such_tool" not found'
+    );
+    await runtime.shutdown();
+  });
+});
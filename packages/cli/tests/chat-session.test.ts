@@ -0,0 +1,179 @@
+/**
+ * Chat Session Tests
+ *
+ * Drives ChatSession against a real AgentRuntime with a scripted streaming adapter.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AgentRuntime,
+  HookRegistry,
+  type LLMAdapter,
+  type LLMResponse,
+  type Message,
+  type StreamChunk,
+  type ToolCall,
+} from '@open-agent/core';
+import { ChatSession } from '../src/chat-session.js';
+
+interface ScriptedTurn {
+  content: string;
+  toolCalls?: ToolCall[];
+}
+
+/**
+ * Adapter that streams each scripted turn in two chunks and records what it was sent
+ */
+function createScriptedAdapter(script: ScriptedTurn[]): LLMAdapter & {
+  requests: Array<{ model?: string; messages: Message[] }>;
+} {
+  const requests: Array<{ model?: string; messages: Message[] }> = [];
+  const adapter = {
+    id: 'scripted',
+    name: 'Scripted',
+    models: ['model-a', 'model-b'],
+    requests,
+    async complete(): Promise<LLMResponse> {
+      throw new Error('Expected a streaming request');
+    },
+    async *stream(messages: Message[], options?: { model?: string }): AsyncIterable<StreamChunk> {
+      requests.push({ model: options?.model, messages: [...messages] });
+      const turn = script.shift() ?? { content: 'nothing left' };
+      const half = Math.ceil(turn.content.length / 2);
+
+      yield { id: 'r', content: turn.content.slice(0, half), isFirst: true, isLast: false };
+      yield {
+        id: 'r',
+        content: turn.content.slice(half),
+        isFirst: false,
+        isLast: true,
+        toolCallDeltas: turn.toolCalls?.map((tc, index) => ({
+          index,
+          id: tc.id,
+          name: tc.name,
+          argumentsDelta: JSON.stringify(tc.arguments),
+        })),
+        finishReason: turn.toolCalls ? 'tool_calls' : 'stop',
+      };
+    },
+    async healthCheck(): Promise<boolean> {
+      return true;
+    },
+  };
+  return adapter;
+}
+
+describe('ChatSession', () => {
+  let dir: string;
+  let runtime: AgentRuntime;
+
+  const createSession = (script: ScriptedTurn[]) => {
+    const adapter = createScriptedAdapter(script);
+    runtime = new AgentRuntime(
+      { enableStreaming: true, enableHealthChecks: false, parallelToolExecution: false },
+      new HookRegistry()
+    );
+    runtime.registerAdapter(adapter);
+    const session = new ChatSession(runtime, { model: 'model-a', systemPrompt: 'Be brief.' });
+    return { adapter, session };
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'oas-chat-'));
+  });
+
+  afterEach(async () => {
+    await runtime.shutdown();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should stream tokens and keep history across turns', async () => {
+    const { adapter, session } = createSession([{ content: 'Hello!' }, { content: 'Still here.' }]);
+    await session.start();
+
+    const tokens: string[] = [];
+    const first = await session.send('hi', { onToken: (t) => tokens.push(t) });
+    await session.send('are you there?');
+
+    expect(first.content).toBe('Hello!');
+    expect(tokens).toEqual(['Hel', 'lo!']);
+    expect(session.getHistory().map((m) => `${m.role}:${m.content}`)).toEqual([
+      'user:hi',
+      'assistant:Hello!',
+      'user:are you there?',
+      'assistant:Still here.',
+    ]);
+    expect(adapter.requests[1]!.messages.map((m) => m.content)).toEqual([
+      'Be brief.',
+      'hi',
+      'Hello!',
+      'are you there?',
+    ]);
+  });
+
+  it('should report tool calls and their results', async () => {
+    const toolCall: ToolCall = { id: 'call_1', name: 'lookup', arguments: { q: 'weather' } };
+    const { session } = createSession([
+      { content: '', toolCalls: [toolCall] },
+      { content: 'Sunny.' },
+    ]);
+    runtime.toolExecutor.register(
+      { name: 'lookup', description: 'Look up', parameters: { type: 'object', properties: {} } },
+      async () => ({ forecast: 'sunny' })
+    );
+    await session.start();
+
+    const events: string[] = [];
+    const response = await session.send('weather?', {
+      onToolCall: (tc) => events.push(`call:${tc.name}`),
+      onToolResult: (tc, result, isError) =>
+        events.push(`result:${tc.name}:${JSON.stringify(result)}:${isError}`),
+    });
+
+    expect(response.content).toBe('Sunny.');
+    expect(events).toEqual(['call:lookup', 'result:lookup:{"forecast":"sunny"}:false']);
+  });
+
+  it('should reset the conversation', async () => {
+    const { session } = createSession([{ content: 'One.' }]);
+    await session.start();
+    await session.send('first');
+
+    await session.reset();
+
+    expect(session.getHistory()).toEqual([]);
+    expect(runtime.getAllAgents()).toHaveLength(1);
+  });
+
+  it('should switch models without losing history', async () => {
+    const { adapter, session } = createSession([{ content: 'A.' }, { content: 'B.' }]);
+    await session.start();
+    await session.send('first');
+
+    await session.setModel('model-b');
+    await session.send('second');
+
+    expect(session.model).toBe('model-b');
+    expect(adapter.requests.map((r) => r.model)).toEqual(['model-a', 'model-b']);
+    expect(session.getHistory()).toHaveLength(4);
+  });
+
+  it('should save and load transcripts', async () => {
+    const file = join(dir, 'nested', 'chat.json');
+    const { session } = createSession([{ content: 'Saved.' }]);
+    await session.start();
+    await session.send('remember this');
+    await session.save(file);
+
+    await session.reset();
+    const transcript = await session.load(file);
+
+    expect(transcript.model).toBe('model-a');
+    expect(session.getHistory().map((m) => m.content)).toEqual(['remember this', 'Saved.']);
+
+    await expect(session.load(join(dir, 'missing.json'))).rejects.toThrow();
+  });
+});
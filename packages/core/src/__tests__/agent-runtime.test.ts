@@ -0,0 +1,603 @@
+/**
+ * Agent Runtime Tests
+ *
+ * Unit tests for the AgentRuntime iteration loop against a scripted LLM adapter.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { HookRegistry, HOOK_NAMES, type HookName } from '../hooks/registry.js';
+import { AgentRuntime } from '../runtime/agent-runtime.js';
+import { GatewayError } from '../runtime/gateway.js';
+import { createExponentialBackoffRetry } from '../hooks/gateway/retry.js';
+import { defaultFallbackTriggerHandler } from '../hooks/gateway/fallback.js';
+import { createConfigurableCircuitBreaker } from '../hooks/gateway/circuit-breaker.js';
+import { createCostOptimizedSelector } from '../hooks/gateway/model-selection.js';
+import { createReliabilityOptimizedRouter } from '../hooks/gateway/provider-routing.js';
+import type { LLMAdapter } from '../runtime/types.js';
+import type { LLMResponse, ModelInfo, StreamChunk } from '../types/hooks.js';
+
+/**
+ * Adapter that replays one scripted stream per call; complete() folds the same
+ * chunks into a single response so both paths can be compared
+ */
+function createScriptedAdapter(turns: StreamChunk[][]): LLMAdapter & { calls: number } {
+  const next = (): StreamChunk[] => {
+    const turn = turns[adapter.calls++];
+    if (!turn) {
+      throw new Error('No scripted turn left');
+    }
+    return turn;
+  };
+
+  const adapter = {
+    id: 'scripted',
+    name: 'Scripted',
+    models: ['scripted-model'],
+    calls: 0,
+    async complete(): Promise<LLMResponse> {
+      const chunks = next();
+      const last = chunks[chunks.length - 1];
+      return {
+        id: chunks[0]?.id ?? '',
+        model: last?.model ?? 'scripted-model',
+        content: chunks.map((c) => c.content).join(''),
+        usage: last?.usage ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        finishReason: last?.finishReason ?? 'stop',
+      };
+    },
+    async *stream(): AsyncIterable<StreamChunk> {
+      for (const chunk of next()) {
+        if (chunk.content === '<fail>') {
+          throw new Error('connection reset');
+        }
+        yield chunk;
+      }
+    },
+    async healthCheck(): Promise<boolean> {
+      return true;
+    },
+  };
+
+  return adapter;
+}
+
+/**
+ * Adapter whose complete() fails a given number of times before answering
+ */
+function createFlakyAdapter(
+  id: string,
+  failures: number,
+  catalog: ModelInfo[] = []
+): LLMAdapter & { calls: number } {
+  const adapter = {
+    id,
+    name: id,
+    models: catalog.length > 0 ? catalog.map((m) => m.id) : [`${id}-model`],
+    calls: 0,
+    async complete(_messages: unknown, options: { model: string }): Promise<LLMResponse> {
+      if (adapter.calls++ < failures) {
+        throw new Error(`${id} returned 503`);
+      }
+      return {
+        id: `${id}-resp`,
+        model: options.model,
+        content: `answer from ${id}`,
+        usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+        finishReason: 'stop',
+      };
+    },
+    async *stream(): AsyncIterable<StreamChunk> {
+      throw new Error('not scripted');
+    },
+    async healthCheck(): Promise<boolean> {
+      return true;
+    },
+    async getAvailableModels(): Promise<ModelInfo[]> {
+      return catalog;
+    },
+  };
+
+  return adapter;
+}
+
+function modelInfo(
+  id: string,
+  provider: string,
+  cost: number,
+  capabilities: string[] = []
+): ModelInfo {
+  return {
+    id,
+    name: id,
+    provider,
+    contextLength: 128000,
+    inputCostPer1k: cost,
+    outputCostPer1k: cost,
+    capabilities,
+  };
+}
+
+function textTurn(...parts: string[]): StreamChunk[] {
+  return parts.map((content, i) => ({
+    id: 'resp-1',
+    content,
+    isFirst: i === 0,
+    isLast: i === parts.length - 1,
+    ...(i === parts.length - 1
+      ? {
+          model: 'scripted-model',
+          usage: { promptTokens: 10, completionTokens: 4, totalTokens: 14 },
+          finishReason: 'stop',
+        }
+      : {}),
+  }));
+}
+
+describe('AgentRuntime', () => {
+  let registry: HookRegistry;
+  let runtime: AgentRuntime;
+
+  beforeEach(() => {
+    registry = new HookRegistry();
+    runtime = new AgentRuntime({ enableHealthChecks: false, enableStreaming: true }, registry);
+  });
+
+  afterEach(async () => {
+    await runtime.shutdown();
+  });
+
+  describe('streaming', () => {
+    it('should run the streaming hooks in order and emit each chunk', async () => {
+      const calls: HookName[] = [];
+      for (const hook of [
+        HOOK_NAMES.STREAM_START,
+        HOOK_NAMES.CHUNK_PROCESS,
+        HOOK_NAMES.BACKPRESSURE,
+        HOOK_NAMES.STREAM_COMPLETE,
+      ]) {
+        registry.register(
+          hook,
+          { id: `record-${hook}`, name: hook, priority: 'normal' },
+          async (input) => {
+            calls.push(hook);
+            return { success: true, data: input as never };
+          }
+        );
+      }
+
+      runtime.registerAdapter(createScriptedAdapter([textTurn('Hello', ', ', 'world')]));
+      const agentId = await runtime.createAgent({ name: 'streamer', role: 'test' });
+
+      const emitted: string[] = [];
+      runtime.on('stream:chunk', (_agentId, chunk, index) => {
+        emitted.push(`${index}:${chunk.content}`);
+      });
+
+      const response = await runtime.run(agentId, { role: 'user', content: 'Hi' });
+
+      expect(calls).toEqual([
+        HOOK_NAMES.STREAM_START,
+        ...Array<HookName[]>(3).fill([HOOK_NAMES.CHUNK_PROCESS, HOOK_NAMES.BACKPRESSURE]).flat(),
+        HOOK_NAMES.STREAM_COMPLETE,
+      ]);
+      expect(emitted).toEqual(['0:Hello', '1:, ', '2:world']);
+      expect(response.content).toBe('Hello, world');
+    });
+
+    it('should produce the same response as a non-streaming completion', async () => {
+      const turn = textTurn('Same', ' answer');
+
+      runtime.registerAdapter(createScriptedAdapter([turn]));
+      const streamed = await runtime.run(await runtime.createAgent({ name: 'a', role: 'test' }), {
+        role: 'user',
+        content: 'Hi',
+      });
+
+      const plain = new AgentRuntime({ enableHealthChecks: false }, new HookRegistry());
+      plain.registerAdapter(createScriptedAdapter([turn]));
+      const completed = await plain.run(await plain.createAgent({ name: 'b', role: 'test' }), {
+        role: 'user',
+        content: 'Hi',
+      });
+      await plain.shutdown();
+
+      // Attempt durations differ between the two runs
+      expect({ ...streamed, metadata: undefined }).toEqual({ ...completed, metadata: undefined });
+    });
+
+    it('should apply chunk transforms from the chunk process hook', async () => {
+      registry.register(
+        HOOK_NAMES.CHUNK_PROCESS,
+        { id: 'upper', name: 'Upper', priority: 'normal' },
+        async (input) => {
+          const { chunk } = input as { chunk: StreamChunk };
+          return {
+            success: true,
+            data: { transformedChunk: { ...chunk, content: chunk.content.toUpperCase() } } as never,
+          };
+        }
+      );
+
+      runtime.registerAdapter(createScriptedAdapter([textTurn('quiet', ' voice')]));
+      const agentId = await runtime.createAgent({ name: 'loud', role: 'test' });
+
+      const response = await runtime.run(agentId, { role: 'user', content: 'Hi' });
+      expect(response.content).toBe('QUIET VOICE');
+    });
+
+    it('should assemble streamed tool call deltas and execute the tool', async () => {
+      const received: Record<string, unknown>[] = [];
+      await runtime.toolExecutor.register(
+        { name: 'get_weather', description: 'Weather lookup', parameters: { type: 'object' } },
+        async (args) => {
+          received.push(args);
+          return { forecast: 'sunny' };
+        }
+      );
+
+      runtime.registerAdapter(
+        createScriptedAdapter([
+          [
+            {
+              id: 'resp-1',
+              content: '',
+              isFirst: true,
+              isLast: false,
+              toolCallDeltas: [{ index: 0, id: 'call_1', name: 'get_weather' }],
+            },
+            {
+              id: 'resp-1',
+              content: '',
+              isFirst: false,
+              isLast: false,
+              toolCallDeltas: [{ index: 0, argumentsDelta: '{"city":' }],
+            },
+            {
+              id: 'resp-1',
+              content: '',
+              isFirst: false,
+              isLast: true,
+              toolCallDeltas: [{ index: 0, argumentsDelta: '"Paris"}' }],
+              finishReason: 'tool_calls',
+            },
+          ],
+          textTurn('It is sunny in Paris.'),
+        ])
+      );
+      const agentId = await runtime.createAgent({ name: 'weather', role: 'test' });
+
+      const response = await runtime.run(agentId, { role: 'user', content: 'Weather in Paris?' });
+
+      expect(received).toEqual([{ city: 'Paris' }]);
+      expect(response.content).toBe('It is sunny in Paris.');
+      expect(runtime.getAgent(agentId)?.completedToolCalls.has('call_1')).toBe(true);
+      // The assistant turn keeps its tool calls so the result can be paired with it
+      expect(runtime.getAgent(agentId)?.messageHistory).toEqual([
+        { role: 'user', content: 'Weather in Paris?' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }],
+        },
+        { role: 'tool', content: '{"forecast":"sunny"}', toolCallId: 'call_1' },
+        { role: 'assistant', content: 'It is sunny in Paris.' },
+      ]);
+    });
+
+    it('should restart the stream when the stream error hook asks for it', async () => {
+      registry.register(
+        HOOK_NAMES.STREAM_ERROR,
+        { id: 'restart', name: 'Restart', priority: 'normal' },
+        async () => ({ success: true, data: { handled: true, recovery: 'restart' } as never })
+      );
+
+      runtime.registerAdapter(
+        createScriptedAdapter([textTurn('partial', '<fail>'), textTurn('Recovered')])
+      );
+      const agentId = await runtime.createAgent({ name: 'flaky', role: 'test' });
+
+      const restarts: string[] = [];
+      runtime.on('stream:restart', (_agentId, error) => restarts.push(error.message));
+
+      const response = await runtime.run(agentId, { role: 'user', content: 'Hi' });
+
+      expect(restarts).toEqual(['connection reset']);
+      expect(response.content).toBe('Recovered');
+    });
+
+    it('should not emit chunks again when a restarted stream replays them', async () => {
+      registry.register(
+        HOOK_NAMES.STREAM_ERROR,
+        { id: 'restart', name: 'Restart', priority: 'normal' },
+        async () => ({ success: true, data: { handled: true, recovery: 'restart' } as never })
+      );
+
+      runtime.registerAdapter(
+        createScriptedAdapter([textTurn('Hello', ', ', '<fail>'), textTurn('Hello', ', ', 'world')])
+      );
+      const agentId = await runtime.createAgent({ name: 'flaky', role: 'test' });
+
+      const chunks: string[] = [];
+      runtime.on('stream:chunk', (_agentId, chunk, chunkIndex) => {
+        chunks.push(`${chunkIndex}:${chunk.content}`);
+      });
+
+      const response = await runtime.run(agentId, { role: 'user', content: 'Hi' });
+
+      expect(chunks).toEqual(['0:Hello', '1:, ', '2:world']);
+      expect(response.content).toBe('Hello, world');
+    });
+
+    it('should surface stream errors when no recovery is requested', async () => {
+      runtime.registerAdapter(createScriptedAdapter([textTurn('partial', '<fail>')]));
+      const agentId = await runtime.createAgent({ name: 'broken', role: 'test' });
+
+      await expect(runtime.run(agentId, { role: 'user', content: 'Hi' })).rejects.toThrow(
+        'connection reset'
+      );
+      expect(runtime.getAgent(agentId)?.state).toBe('error');
+    });
+  });
+
+  describe('gateway', () => {
+    beforeEach(async () => {
+      await runtime.shutdown();
+      runtime = new AgentRuntime({ enableHealthChecks: false, enableStreaming: false }, registry);
+    });
+
+    const ask = async (): Promise<LLMResponse> => {
+      const agentId = await runtime.createAgent({ name: 'caller', role: 'test' });
+      return runtime.run(agentId, { role: 'user', content: 'Hi' });
+    };
+
+    it('should make a single attempt when no gateway hooks are registered', async () => {
+      const primary = createFlakyAdapter('primary', 1);
+      runtime.registerAdapter(primary);
+      runtime.registerAdapter(createFlakyAdapter('backup', 0));
+
+      const error = await ask().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(GatewayError);
+      expect((error as GatewayError).message).toBe('primary returned 503');
+      expect((error as GatewayError).attempts).toHaveLength(1);
+      expect(primary.calls).toBe(1);
+    });
+
+    it('should retry with the delay returned by the retry hook', async () => {
+      registry.register(
+        HOOK_NAMES.RETRY_DECISION,
+        { id: 'backoff', name: 'Backoff', priority: 'normal' },
+        createExponentialBackoffRetry({ baseDelayMs: 20, jitter: false })
+      );
+
+      const primary = createFlakyAdapter('primary', 2);
+      runtime.registerAdapter(primary);
+
+      const startTime = Date.now();
+      const response = await ask();
+
+      expect(response.content).toBe('answer from primary');
+      expect(primary.calls).toBe(3);
+      // 20ms then 40ms of backoff
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(55);
+      expect(response.metadata?.attempts?.map((a) => [a.attemptNumber, a.outcome])).toEqual([
+        [1, 'error'],
+        [2, 'error'],
+        [3, 'success'],
+      ]);
+    });
+
+    it('should walk the fallback chain and record every attempt', async () => {
+      registry.register(
+        HOOK_NAMES.FALLBACK_TRIGGER,
+        { id: 'fallback', name: 'Fallback', priority: 'normal' },
+        defaultFallbackTriggerHandler
+      );
+
+      runtime = new AgentRuntime(
+        { enableHealthChecks: false, enableStreaming: false, fallbackAdapters: ['backup'] },
+        registry
+      );
+      runtime.registerAdapter(createFlakyAdapter('primary', 1));
+      runtime.registerAdapter(createFlakyAdapter('unused', 1));
+      runtime.registerAdapter(createFlakyAdapter('backup', 0));
+
+      const attempts: string[] = [];
+      runtime.on('gateway:attempt', (_agentId, attempt) => {
+        attempts.push(`${attempt.provider}:${attempt.outcome}`);
+      });
+
+      const response = await ask();
+
+      expect(response.content).toBe('answer from backup');
+      // Fallback adapters run their own default model
+      expect(response.model).toBe('default');
+      expect(attempts).toEqual(['primary:error', 'backup:success']);
+      expect(response.metadata?.attempts).toMatchObject([
+        { provider: 'primary', outcome: 'error', error: 'primary returned 503' },
+        { provider: 'backup', outcome: 'success' },
+      ]);
+    });
+
+    it('should not fall back to the failing primary adapter by default', async () => {
+      registry.register(
+        HOOK_NAMES.FALLBACK_TRIGGER,
+        { id: 'fallback', name: 'Fallback', priority: 'normal' },
+        defaultFallbackTriggerHandler
+      );
+
+      const primary = createFlakyAdapter('primary', Infinity);
+      runtime.registerAdapter(primary);
+      runtime.registerAdapter(createFlakyAdapter('backup', 0));
+
+      const attempts: string[] = [];
+      runtime.on('gateway:attempt', (_agentId, attempt) => {
+        attempts.push(`${attempt.provider}:${attempt.model}:${attempt.outcome}`);
+      });
+
+      const agentId = await runtime.createAgent({
+        name: 'caller',
+        role: 'test',
+        model: 'primary-model',
+      });
+      const response = await runtime.run(agentId, { role: 'user', content: 'Hi' });
+
+      expect(response.content).toBe('answer from backup');
+      expect(attempts).toEqual(['primary:primary-model:error', 'backup:default:success']);
+      expect(primary.calls).toBe(1);
+    });
+
+    it('should open the circuit and skip the provider once it trips', async () => {
+      registry.register(
+        HOOK_NAMES.CIRCUIT_BREAKER,
+        { id: 'breaker', name: 'Breaker', priority: 'normal' },
+        createConfigurableCircuitBreaker({ failureThreshold: 1, cooldownMs: 60000 })
+      );
+      registry.register(
+        HOOK_NAMES.FALLBACK_TRIGGER,
+        { id: 'fallback', name: 'Fallback', priority: 'normal' },
+        defaultFallbackTriggerHandler
+      );
+
+      const primary = createFlakyAdapter('primary', Infinity);
+      runtime.registerAdapter(primary);
+      runtime.registerAdapter(createFlakyAdapter('backup', 0));
+
+      const transitions: string[] = [];
+      runtime.on('gateway:circuit-changed', (provider, from, to) => {
+        transitions.push(`${provider}:${from}->${to}`);
+      });
+
+      await ask();
+      const response = await ask();
+
+      expect(primary.calls).toBe(1);
+      expect(transitions).toEqual(['primary:closed->open']);
+      expect(runtime.gateway.getCircuitState('primary')).toBe('open');
+      expect(response.metadata?.attempts?.map((a) => `${a.provider}:${a.outcome}`)).toEqual([
+        'primary:circuit-open',
+        'backup:success',
+      ]);
+    });
+  });
+
+  describe('model selection and provider routing', () => {
+    beforeEach(async () => {
+      await runtime.shutdown();
+      runtime = new AgentRuntime(
+        { enableHealthChecks: false, enableStreaming: false, fallbackAdapters: [] },
+        registry
+      );
+    });
+
+    it('should pick the model within the agent constraints from adapter catalogs', async () => {
+      registry.register(
+        HOOK_NAMES.MODEL_SELECTION,
+        { id: 'cheapest', name: 'Cheapest', priority: 'normal' },
+        createCostOptimizedSelector()
+      );
+
+      runtime.registerAdapter(
+        createFlakyAdapter('premium', 0, [modelInfo('big-model', 'premium', 0.03, ['vision'])])
+      );
+      runtime.registerAdapter(
+        createFlakyAdapter('budget', 0, [
+          modelInfo('tiny-model', 'budget', 0.0001),
+          modelInfo('mid-model', 'budget', 0.001, ['vision']),
+        ])
+      );
+
+      const agentId = await runtime.createAgent({
+        name: 'thrifty',
+        role: 'test',
+        modelConstraints: { requiredCapabilities: ['vision'] },
+      });
+      const response = await runtime.run(agentId, { role: 'user', content: 'Describe this' });
+
+      expect(response.model).toBe('mid-model');
+      expect(response.content).toBe('answer from budget');
+    });
+
+    it('should keep a pinned model and skip model selection', async () => {
+      registry.register(
+        HOOK_NAMES.MODEL_SELECTION,
+        { id: 'cheapest', name: 'Cheapest', priority: 'normal' },
+        createCostOptimizedSelector()
+      );
+
+      runtime.registerAdapter(
+        createFlakyAdapter('premium', 0, [modelInfo('big-model', 'premium', 0.03)])
+      );
+      runtime.registerAdapter(
+        createFlakyAdapter('budget', 0, [modelInfo('tiny-model', 'budget', 0.0001)])
+      );
+
+      const agentId = await runtime.createAgent({
+        name: 'pinned',
+        role: 'test',
+        model: 'big-model',
+      });
+      const response = await runtime.run(agentId, { role: 'user', content: 'Hi' });
+
+      expect(response.model).toBe('big-model');
+      expect(response.content).toBe('answer from premium');
+    });
+
+    it('should route to the provider chosen by the routing hook using measured health', async () => {
+      registry.register(
+        HOOK_NAMES.PROVIDER_ROUTING,
+        { id: 'reliable', name: 'Reliable', priority: 'normal' },
+        createReliabilityOptimizedRouter()
+      );
+      registry.register(
+        HOOK_NAMES.FALLBACK_TRIGGER,
+        { id: 'fallback', name: 'Fallback', priority: 'normal' },
+        defaultFallbackTriggerHandler
+      );
+
+      // Both adapters serve the same model; the first one fails once
+      const shared = modelInfo('shared-model', 'vendor', 0.001);
+      const mirrorA = createFlakyAdapter('mirror-a', 1, [shared]);
+      const mirrorB = createFlakyAdapter('mirror-b', 0, [shared]);
+      runtime.registerAdapter(mirrorA);
+      runtime.registerAdapter(mirrorB);
+
+      const first = await runtime.run(
+        await runtime.createAgent({ name: 'one', role: 'test', model: 'shared-model' }),
+        { role: 'user', content: 'Hi' }
+      );
+      expect(first.metadata?.attempts?.map((a) => `${a.provider}:${a.model}:${a.outcome}`)).toEqual(
+        ['mirror-a:shared-model:error', 'mirror-b:shared-model:success']
+      );
+
+      const second = await runtime.run(
+        await runtime.createAgent({ name: 'two', role: 'test', model: 'shared-model' }),
+        { role: 'user', content: 'Hi' }
+      );
+      expect(second.content).toBe('answer from mirror-b');
+      expect(mirrorA.calls).toBe(1);
+    });
+
+    it('should honour excluded providers from the agent preferences', async () => {
+      registry.register(
+        HOOK_NAMES.PROVIDER_ROUTING,
+        { id: 'reliable', name: 'Reliable', priority: 'normal' },
+        createReliabilityOptimizedRouter()
+      );
+
+      const shared = modelInfo('shared-model', 'vendor', 0.001);
+      runtime.registerAdapter(createFlakyAdapter('mirror-a', 0, [shared]));
+      runtime.registerAdapter(createFlakyAdapter('mirror-b', 0, [shared]));
+
+      const agentId = await runtime.createAgent({
+        name: 'picky',
+        role: 'test',
+        model: 'shared-model',
+        providerPreferences: { excluded: ['mirror-a'] },
+      });
+      const response = await runtime.run(agentId, { role: 'user', content: 'Hi' });
+
+      expect(response.content).toBe('answer from mirror-b');
+    });
+  });
+});
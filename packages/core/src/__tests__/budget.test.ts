@@ -0,0 +1,212 @@
+/**
+ * Budget Enforcement Tests
+ *
+ * Stops agents past their token, cost and time budgets, rolls child usage up
+ * to the parent and warns at the soft threshold.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { HookRegistry, HOOK_NAMES } from '../hooks/registry.js';
+import { createPricingCatalog } from '../hooks/observability/pricing.js';
+import { AgentRuntime } from '../runtime/agent-runtime.js';
+import type { BudgetStatus, LLMAdapter, RuntimeConfig } from '../runtime/types.js';
+import type { AgentConfig, LLMResponse } from '../types/hooks.js';
+
+/** Adapter that always asks for another tool call, using 100 tokens per call */
+function loopingAdapter(): LLMAdapter {
+  let calls = 0;
+  return {
+    id: 'fake',
+    name: 'Fake',
+    models: ['priced-model'],
+    async complete(): Promise<LLMResponse> {
+      calls++;
+      return {
+        id: `resp-${calls}`,
+        model: 'priced-model',
+        content: '',
+        usage: { promptTokens: 60, completionTokens: 40, totalTokens: 100 },
+        finishReason: 'tool_calls',
+        toolCalls: [{ id: `call_${calls}`, name: 'noop', arguments: {} }],
+      };
+    },
+    async *stream() {},
+    async healthCheck(): Promise<boolean> {
+      return true;
+    },
+  };
+}
+
+describe('Budget enforcement', () => {
+  let runtime: AgentRuntime;
+  let stops: Array<[string, string]>;
+  let warnings: BudgetStatus[];
+  let exceeded: BudgetStatus[];
+
+  async function setup(
+    config: Partial<RuntimeConfig> = {},
+    registry = new HookRegistry(),
+    adapter = loopingAdapter()
+  ) {
+    runtime = new AgentRuntime(
+      {
+        enableStreaming: false,
+        enableHealthChecks: false,
+        pricing: createPricingCatalog({
+          overrides: { 'priced-model': { input: 0.01, output: 0.01 } },
+        }),
+        ...config,
+      },
+      registry
+    );
+    runtime.registerAdapter(adapter);
+    await runtime.toolExecutor.register(
+      { name: 'noop', description: 'Does nothing', parameters: { type: 'object' } },
+      async () => 'ok'
+    );
+
+    stops = [];
+    warnings = [];
+    exceeded = [];
+    runtime.on('agent:stopped', (agentId, reason) => stops.push([agentId, reason]));
+    runtime.on('agent:budget-warning', (_agentId, status) => warnings.push(status));
+    runtime.on('agent:budget-exceeded', (_agentId, status) => exceeded.push(status));
+  }
+
+  function agent(budget: AgentConfig['budget'], parentAgentId?: string) {
+    return runtime.createAgent(
+      { name: 'a', role: 'test', model: 'priced-model', budget },
+      parentAgentId
+    );
+  }
+
+  afterEach(async () => {
+    await runtime.shutdown();
+  });
+
+  it('should stop an agent past its token budget with resource-limit', async () => {
+    await setup();
+    const agentId = await agent({ maxTokens: 250 });
+
+    await expect(runtime.run(agentId, { role: 'user', content: 'Go' })).rejects.toThrow();
+
+    expect(stops).toEqual([[agentId, 'resource-limit']]);
+    expect(exceeded).toEqual([{ agentId, scope: 'agent', limit: 'tokens', used: 300, max: 250 }]);
+    expect(runtime.stateManager.getState(agentId)!.usage).toMatchObject({ tokens: 300 });
+  });
+
+  it('should price usage with the runtime catalog for cost budgets', async () => {
+    await setup();
+    const agentId = await agent({ maxCost: 0.002 });
+
+    await expect(runtime.run(agentId, { role: 'user', content: 'Go' })).rejects.toThrow();
+
+    expect(exceeded).toHaveLength(1);
+    expect(exceeded[0]).toMatchObject({ limit: 'cost', max: 0.002 });
+    expect(exceeded[0]!.used).toBeCloseTo(0.002);
+  });
+
+  it('should check wall time before each model call', async () => {
+    await setup();
+    const agentId = await agent({ maxDurationMs: 0 });
+
+    await expect(runtime.run(agentId, { role: 'user', content: 'Go' })).rejects.toThrow();
+
+    expect(exceeded).toMatchObject([{ agentId, scope: 'agent', limit: 'duration', max: 0 }]);
+    expect(runtime.stateManager.getState(agentId)!.usage).toMatchObject({ tokens: 0 });
+  });
+
+  it('should stop retrying once the budget runs out between attempts', async () => {
+    const registry = new HookRegistry();
+    registry.register(
+      HOOK_NAMES.RETRY_DECISION,
+      { id: 'slow-retry', name: 'Slow retry', priority: 'normal' },
+      async () => ({ success: true, data: { shouldRetry: true, delay: 30 } })
+    );
+    let calls = 0;
+    await setup({ fallbackAdapters: [] }, registry, {
+      ...loopingAdapter(),
+      async complete(): Promise<LLMResponse> {
+        calls++;
+        throw new Error('overloaded');
+      },
+    });
+    const agentId = await agent({ maxDurationMs: 20 });
+
+    await expect(runtime.run(agentId, { role: 'user', content: 'Go' })).rejects.toThrow();
+
+    expect(calls).toBe(1);
+    expect(exceeded).toMatchObject([{ agentId, scope: 'agent', limit: 'duration', max: 20 }]);
+    expect(stops).toEqual([[agentId, 'resource-limit']]);
+  });
+
+  it('should use the cost tracking hook when one is registered', async () => {
+    const registry = new HookRegistry();
+    registry.register(
+      HOOK_NAMES.COST_TRACKING,
+      { id: 'flat', name: 'Flat', priority: 'normal' },
+      async () => ({
+        success: true,
+        data: {
+          cost: 1,
+          breakdown: { inputCost: 1, outputCost: 0, cacheDiscount: 0, totalCost: 1 },
+        },
+      })
+    );
+    await setup({}, registry);
+    const agentId = await agent({ maxCost: 2 });
+
+    await expect(runtime.run(agentId, { role: 'user', content: 'Go' })).rejects.toThrow();
+
+    expect(runtime.stateManager.getState(agentId)!.usage).toMatchObject({ cost: 2 });
+  });
+
+  it('should roll child usage up to the parent budget', async () => {
+    await setup();
+    const parentId = await agent({ maxTokens: 500 });
+    const firstChild = await agent({ maxTokens: 300 }, parentId);
+    const secondChild = await agent(undefined, parentId);
+
+    await expect(runtime.run(firstChild, { role: 'user', content: 'Go' })).rejects.toThrow();
+    await expect(runtime.run(secondChild, { role: 'user', content: 'Go' })).rejects.toThrow();
+
+    expect(runtime.stateManager.getState(parentId)!.usage).toMatchObject({ tokens: 500 });
+    expect(exceeded).toEqual([
+      { agentId: firstChild, scope: 'agent', limit: 'tokens', used: 300, max: 300 },
+      { agentId: parentId, scope: 'agent', limit: 'tokens', used: 500, max: 500 },
+    ]);
+    expect(stops).toEqual([
+      [firstChild, 'resource-limit'],
+      [secondChild, 'resource-limit'],
+    ]);
+  });
+
+  it('should warn once at the soft threshold', async () => {
+    await setup();
+    const agentId = await agent({ maxTokens: 400, warnAt: 0.5 });
+
+    await expect(runtime.run(agentId, { role: 'user', content: 'Go' })).rejects.toThrow();
+
+    expect(warnings).toEqual([{ agentId, scope: 'agent', limit: 'tokens', used: 200, max: 400 }]);
+  });
+
+  it('should apply the runtime budget to each run separately', async () => {
+    await setup({ budget: { maxTokens: 200 } });
+    const agentId = await agent(undefined);
+
+    await expect(runtime.run(agentId, { role: 'user', content: 'Go' })).rejects.toThrow();
+    await runtime.stateManager.transition(agentId, 'idle');
+    await expect(runtime.run(agentId, { role: 'user', content: 'Again' })).rejects.toThrow();
+
+    expect(stops).toEqual([
+      [agentId, 'resource-limit'],
+      [agentId, 'resource-limit'],
+    ]);
+    expect(exceeded.map((status) => [status.scope, status.used])).toEqual([
+      ['run', 200],
+      ['run', 200],
+    ]);
+    expect(warnings).toHaveLength(2);
+    expect(runtime.stateManager.getState(agentId)!.usage).toMatchObject({ tokens: 400 });
+  });
+});
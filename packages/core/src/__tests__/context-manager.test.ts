@@ -0,0 +1,280 @@
+/**
+ * Context Manager Tests
+ *
+ * Compacts long histories with each strategy, directly and through an
+ * AgentRuntime whose fake adapter reports a small context window.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { AgentRuntime } from '../runtime/agent-runtime.js';
+import { createContextManager } from '../runtime/context-manager.js';
+import { defaultFallbackTriggerHandler } from '../hooks/gateway/fallback.js';
+import { HookRegistry, HOOK_NAMES } from '../hooks/registry.js';
+import type { CompletionOptions, ContextCompaction, LLMAdapter } from '../runtime/types.js';
+import type { LLMResponse, Message } from '../types/hooks.js';
+
+/** Roughly 100 tokens by the default estimate */
+const LONG = 'x'.repeat(400);
+
+/**
+ * Fake adapter with a 1000-token model that records each request
+ */
+function createAdapter(reply: (messages: Message[]) => string): LLMAdapter & {
+  requests: Message[][];
+} {
+  const requests: Message[][] = [];
+  return {
+    id: 'fake',
+    name: 'Fake',
+    models: ['small'],
+    requests,
+    async complete(messages: Message[], options: CompletionOptions): Promise<LLMResponse> {
+      requests.push(messages);
+      return {
+        id: `resp-${requests.length}`,
+        model: options.model,
+        content: reply(messages),
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        finishReason: 'stop',
+      };
+    },
+    async *stream() {},
+    async healthCheck(): Promise<boolean> {
+      return true;
+    },
+    async getAvailableModels() {
+      return [
+        {
+          id: 'small',
+          name: 'Small',
+          provider: 'fake',
+          contextLength: 1000,
+          inputCostPer1k: 0,
+          outputCostPer1k: 0,
+          capabilities: [],
+        },
+      ];
+    },
+  };
+}
+
+/**
+ * A conversation of tool-heavy turns, each about 300 tokens
+ */
+function conversation(turns: number): Message[] {
+  return Array.from({ length: turns }, (_, i) => [
+    { role: 'user' as const, content: `Question ${i}` },
+    { role: 'assistant' as const, content: `Calling search ${i}` },
+    { role: 'tool' as const, content: LONG, toolCallId: `call_${i}` },
+    { role: 'tool' as const, content: LONG, toolCallId: `call_${i}b` },
+    { role: 'assistant' as const, content: `Answer ${i} ${LONG}` },
+  ]).flat();
+}
+
+describe('DefaultContextManager', () => {
+  const adapter = createAdapter(() => 'A short summary.');
+  const request = { budget: 700, adapter, model: 'small', pendingToolCalls: false };
+
+  it('should leave history that fits alone', async () => {
+    const manager = createContextManager();
+    expect(await manager.compact(conversation(1), request)).toBeUndefined();
+  });
+
+  it('should drop the oldest turns with a sliding window', async () => {
+    const manager = createContextManager({ keepRecent: 3 });
+    const history = [{ role: 'system' as const, content: 'Pinned note' }, ...conversation(4)];
+
+    const result = (await manager.compact(history, request))!;
+
+    expect(result.compaction).toMatchObject({ strategy: 'sliding-window', toolResultsDropped: 0 });
+    expect(result.compaction.tokensAfter).toBeLessThanOrEqual(700);
+    expect(result.compaction.messagesRemoved).toBe(history.length - result.history.length);
+    expect(result.history[0]).toEqual({ role: 'system', content: 'Pinned note' });
+    // Never starts on a tool result cut off from its call
+    expect(result.history[1]!.role).not.toBe('tool');
+    expect(result.history.slice(-3)).toEqual(history.slice(-3));
+  });
+
+  it('should empty old tool results before dropping turns', async () => {
+    const manager = createContextManager({ strategy: 'drop-tool-results', keepRecent: 5 });
+    const history = conversation(3);
+
+    const result = (await manager.compact(history, { ...request, budget: 900 }))!;
+
+    expect(result.compaction.strategy).toBe('drop-tool-results');
+    expect(result.compaction.toolResultsDropped).toBeGreaterThan(0);
+    expect(result.compaction.messagesRemoved).toBe(0);
+    expect(result.history).toHaveLength(history.length);
+    expect(result.history[2]).toEqual({
+      role: 'tool',
+      content: '[Tool result removed to save context]',
+      toolCallId: 'call_0',
+    });
+    expect(result.history.slice(-5)).toEqual(history.slice(-5));
+  });
+
+  it('should replace older turns with a summary', async () => {
+    const manager = createContextManager({ strategy: 'summarize', keepRecent: 5 });
+    const history = conversation(3);
+
+    const result = (await manager.compact(history, request))!;
+
+    expect(result.compaction).toMatchObject({ strategy: 'summarize', messagesRemoved: 10 });
+    expect(result.history[0]).toEqual({
+      role: 'user',
+      content: 'Summary of the earlier conversation:\nA short summary.',
+    });
+    expect(result.history.slice(1)).toEqual(history.slice(-5));
+    expect(adapter.requests.at(-1)![0]!.content).toContain('Question 0');
+  });
+
+  it('should keep the last assistant turn while its tool calls are unresolved', async () => {
+    const manager = createContextManager({ keepRecent: 1 });
+    const history = [...conversation(3).slice(0, -1)];
+
+    const result = (await manager.compact(history, { ...request, pendingToolCalls: true }))!;
+
+    expect(result.history.slice(-3)).toEqual(history.slice(-3));
+    expect(result.history.at(-3)!.role).toBe('assistant');
+  });
+
+  it('should count tokens with the adapter when it can', async () => {
+    const manager = createContextManager();
+    const counting = { ...adapter, countTokens: async (text: string) => text.split(' ').length };
+
+    expect(await manager.countTokens({ role: 'user', content: 'one two three' }, counting)).toBe(7);
+  });
+});
+
+describe('Runtime context management', () => {
+  let runtime: AgentRuntime;
+
+  afterEach(async () => {
+    await runtime.shutdown();
+  });
+
+  it('should compact history before it outgrows the model context', async () => {
+    const adapter = createAdapter(() => `Noted. ${LONG}`);
+    runtime = new AgentRuntime(
+      {
+        enableStreaming: false,
+        enableHealthChecks: false,
+        contextManagement: { keepRecent: 2 },
+      },
+      new HookRegistry()
+    );
+    runtime.registerAdapter(adapter);
+    const compactions: ContextCompaction[] = [];
+    runtime.on('agent:context-compacted', (_agentId, compaction) => compactions.push(compaction));
+
+    const agentId = await runtime.createAgent({
+      name: 'researcher',
+      role: 'assistant',
+      model: 'small',
+      systemPrompt: 'You research things.',
+    });
+    for (let i = 0; i < 8; i++) {
+      await runtime.run(agentId, { role: 'user', content: `Note ${i}: ${LONG}` });
+    }
+
+    expect(compactions.length).toBeGreaterThan(0);
+    for (const messages of adapter.requests) {
+      const tokens = messages.reduce((sum, m) => sum + Math.ceil(m.content.length / 4) + 4, 0);
+      expect(tokens).toBeLessThanOrEqual(800);
+      expect(messages[0]).toEqual({ role: 'system', content: 'You research things.' });
+    }
+    expect(adapter.requests.at(-1)!.at(-1)!.content).toBe(`Note 7: ${LONG}`);
+    expect(runtime.getAgent(agentId)!.messageHistory.length).toBeLessThan(16);
+  });
+
+  it('should count summary calls toward the agent usage', async () => {
+    const adapter = createAdapter(() => `Noted. ${LONG}`);
+    runtime = new AgentRuntime(
+      {
+        enableStreaming: false,
+        enableHealthChecks: false,
+        contextManagement: { strategy: 'summarize', keepRecent: 2 },
+      },
+      new HookRegistry()
+    );
+    runtime.registerAdapter(adapter);
+    const compactions: ContextCompaction[] = [];
+    runtime.on('agent:context-compacted', (_agentId, compaction) => compactions.push(compaction));
+
+    const agentId = await runtime.createAgent({
+      name: 'researcher',
+      role: 'assistant',
+      model: 'small',
+    });
+    for (let i = 0; i < 8; i++) {
+      await runtime.run(agentId, { role: 'user', content: `Note ${i}: ${LONG}` });
+    }
+
+    expect(compactions.length).toBeGreaterThan(0);
+    expect(adapter.requests).toHaveLength(8 + compactions.length);
+    expect(runtime.stateManager.getState(agentId)!.usage).toMatchObject({
+      tokens: adapter.requests.length * 15,
+    });
+  });
+
+  it('should fit the smallest context window among the fallback targets', async () => {
+    const registry = new HookRegistry();
+    registry.register(
+      HOOK_NAMES.MODEL_SELECTION,
+      { id: 'large-first', name: 'Large first', priority: 'normal' },
+      async () => ({
+        success: true,
+        data: { selectedModel: 'large', fallbackModels: ['small'], reason: 'test' },
+      })
+    );
+    registry.register(
+      HOOK_NAMES.FALLBACK_TRIGGER,
+      { id: 'fallback', name: 'Fallback', priority: 'normal' },
+      defaultFallbackTriggerHandler
+    );
+    runtime = new AgentRuntime(
+      {
+        enableStreaming: false,
+        enableHealthChecks: false,
+        maxAttemptsPerProvider: 1,
+        fallbackAdapters: [],
+        contextManagement: { keepRecent: 2 },
+      },
+      registry
+    );
+    const small = createAdapter(() => 'Noted.');
+    runtime.registerAdapter(small);
+    runtime.registerAdapter({
+      ...createAdapter(() => ''),
+      id: 'down',
+      models: ['large'],
+      async complete(): Promise<LLMResponse> {
+        throw new Error('provider down');
+      },
+      async getAvailableModels() {
+        return [
+          {
+            id: 'large',
+            name: 'Large',
+            provider: 'down',
+            contextLength: 100000,
+            inputCostPer1k: 0,
+            outputCostPer1k: 0,
+            capabilities: [],
+          },
+        ];
+      },
+    });
+
+    const agentId = await runtime.createAgent({ name: 'researcher', role: 'assistant' });
+    for (let i = 0; i < 8; i++) {
+      await runtime.run(agentId, { role: 'user', content: `Note ${i}: ${LONG}` });
+    }
+
+    expect(small.requests).toHaveLength(8);
+    for (const messages of small.requests) {
+      const tokens = messages.reduce((sum, m) => sum + Math.ceil(m.content.length / 4) + 4, 0);
+      expect(tokens).toBeLessThanOrEqual(800);
+    }
+  });
+});
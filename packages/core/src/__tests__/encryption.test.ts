@@ -0,0 +1,176 @@
+/**
+ * Data Encryption Tests
+ *
+ * Round-trips data through the encryption handlers and checks that tampered
+ * envelopes, wrong keys and rotated keys behave as expected.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DecryptionError,
+  createEnvelopeEncryptionHandler,
+  createFieldEncryptionHandler,
+  createKeyStore,
+  createKeyStoredEncryptionHandler,
+  createRotatingEncryptionHandler,
+  decryptData,
+  decryptEnvelopeData,
+  decryptFields,
+  encryptData,
+  parseEnvelope,
+  type EncryptionAlgorithm,
+} from '../hooks/security/encryption.js';
+import type { HookContext, HookResult } from '../types/hooks.js';
+
+const context: HookContext = { requestId: 'req-1', timestamp: Date.now(), metadata: {} };
+
+function unwrap<T>(result: HookResult<T>): T {
+  if (!result.success) {
+    throw result.error;
+  }
+  return result.data;
+}
+
+/**
+ * Flip one bit of a base64url envelope part
+ */
+function tamper(envelope: string, part: number): string {
+  const parts = envelope.split(':');
+  const bytes = Buffer.from(parts[part]!, 'base64url');
+  bytes[0] = bytes[0]! ^ 1;
+  parts[part] = bytes.toString('base64url');
+  return parts.join(':');
+}
+
+describe('Data encryption', () => {
+  const algorithms: EncryptionAlgorithm[] = ['aes-256-gcm', 'chacha20-poly1305'];
+
+  it.each(algorithms)('should encrypt and decrypt with %s', async (algorithm) => {
+    const keyStore = createKeyStore();
+    const handler = createKeyStoredEncryptionHandler(keyStore, algorithm);
+
+    const output = unwrap(await handler({ data: { user: 'ada', note: 'secret' } }, context));
+
+    expect(output.algorithm).toBe(algorithm);
+    expect(output.iv).toMatch(/^[0-9a-f]{24}$/);
+    expect(output.encrypted).not.toContain('secret');
+    expect(Buffer.from(output.encrypted, 'base64').toString()).not.toContain('secret');
+    expect(parseEnvelope(output.encrypted)).toEqual({
+      version: 'enc1',
+      algorithm,
+      keyId: output.keyId,
+    });
+    expect(JSON.parse(decryptData(output.encrypted, keyStore))).toEqual({
+      user: 'ada',
+      note: 'secret',
+    });
+  });
+
+  it('should use a fresh IV for every encryption', () => {
+    const key = new Uint8Array(32).fill(7);
+    const first = encryptData('same text', key, 'k1');
+    const second = encryptData('same text', key, 'k1');
+
+    expect(first).not.toBe(second);
+  });
+
+  it('should detect tampered ciphertext, IV, tag and key id', () => {
+    const keyStore = createKeyStore();
+    keyStore.setKey('k1', new Uint8Array(32).fill(1), 'aes-256-gcm');
+    keyStore.setKey('k2', new Uint8Array(32).fill(1), 'aes-256-gcm');
+    const envelope = encryptData('transfer 100 to bob', keyStore.getKey('k1')!.key, 'k1');
+
+    for (const part of [3, 4, 5]) {
+      expect(() => decryptData(tamper(envelope, part), keyStore)).toThrow(
+        'Ciphertext failed authentication'
+      );
+    }
+
+    // Same key material under another id still fails: the key id is authenticated
+    const swapped = envelope.replace(
+      Buffer.from('k1').toString('base64url'),
+      Buffer.from('k2').toString('base64url')
+    );
+    expect(() => decryptData(swapped, keyStore)).toThrow(DecryptionError);
+
+    expect(() => decryptData('enc1:aes-256-gcm:broken', keyStore)).toThrow(
+      'Malformed ciphertext envelope'
+    );
+  });
+
+  it('should fail to decrypt with a missing or wrong key', () => {
+    const keyStore = createKeyStore();
+    const envelope = encryptData('hello', new Uint8Array(32).fill(1), 'k1', 'chacha20-poly1305');
+
+    expect(() => decryptData(envelope, keyStore)).toThrow('Key not found: k1');
+
+    keyStore.setKey('k1', new Uint8Array(32).fill(2), 'chacha20-poly1305');
+    expect(() => decryptData(envelope, keyStore)).toThrow('Ciphertext failed authentication');
+
+    keyStore.setKey('k1', new Uint8Array(32).fill(1), 'aes-256-gcm');
+    expect(() => decryptData(envelope, keyStore)).toThrow('Key k1 is not a chacha20-poly1305 key');
+  });
+
+  it('should decrypt data encrypted before a key rotation', async () => {
+    const keyStore = createKeyStore();
+    const handler = createRotatingEncryptionHandler(keyStore, 0);
+
+    const before = unwrap(await handler({ data: 'first log' }, context));
+    const after = unwrap(await handler({ data: 'second log' }, context));
+
+    expect(after.keyId).not.toBe(before.keyId);
+    expect(keyStore.getKey(before.keyId)?.retired).toBe(true);
+    expect(keyStore.getKey(after.keyId)?.key).not.toEqual(keyStore.getKey(before.keyId)?.key);
+    expect(decryptData(before.encrypted, keyStore)).toBe('first log');
+    expect(decryptData(after.encrypted, keyStore)).toBe('second log');
+
+    const retired = await handler({ data: 'third log', keyId: before.keyId }, context);
+    expect(retired.success).toBe(false);
+  });
+
+  it('should encrypt and restore individual fields', async () => {
+    const keyStore = createKeyStore();
+    const handler = createFieldEncryptionHandler(['ssn', 'address'], keyStore);
+
+    const output = unwrap(
+      await handler(
+        { data: { name: 'Ada', ssn: '123-45-6789', address: { city: 'London' } } },
+        context
+      )
+    );
+    const record = JSON.parse(output.encrypted);
+
+    expect(record.name).toBe('Ada');
+    expect(output.encrypted).not.toContain('123-45-6789');
+    expect(decryptFields(record, keyStore)).toEqual({
+      name: 'Ada',
+      ssn: '123-45-6789',
+      address: { city: 'London' },
+    });
+  });
+
+  it('should wrap the data key with the master key', async () => {
+    const keyStore = createKeyStore();
+    keyStore.setKey('master', new Uint8Array(32).fill(9), 'aes-256-gcm');
+    const handler = createEnvelopeEncryptionHandler('master', keyStore);
+
+    const output = unwrap(await handler({ data: 'conversation log' }, context));
+
+    expect(output.keyId).toBe('master');
+    expect(decryptEnvelopeData(output.encrypted, keyStore)).toBe('conversation log');
+
+    const payload = JSON.parse(output.encrypted);
+    payload.encryptedDek = tamper(payload.encryptedDek, 5);
+    expect(() => decryptEnvelopeData(JSON.stringify(payload), keyStore)).toThrow(DecryptionError);
+
+    keyStore.deleteKey('master');
+    expect(() => decryptEnvelopeData(output.encrypted, keyStore)).toThrow('Key not found: master');
+  });
+
+  it('should reject unsupported algorithms', async () => {
+    const handler = createKeyStoredEncryptionHandler(createKeyStore());
+    const result = await handler({ data: 'x', algorithm: 'aes-256-cbc' }, context);
+
+    expect(result.success).toBe(false);
+  });
+});
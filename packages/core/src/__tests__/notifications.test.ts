@@ -0,0 +1,308 @@
+/**
+ * Alert Notification Tests
+ *
+ * Delivers alerts to a local webhook stub and the file, email and console
+ * channels, and checks routing, dedup and resolve notifications.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createAlertManager,
+  createNotifyingAlertHandler,
+  type AlertInstance,
+  type NotificationChannel,
+} from '../hooks/observability/alerts.js';
+import {
+  createAlertNotifier,
+  createConsoleChannel,
+  createEmailChannel,
+  createFileChannel,
+  createSlackChannel,
+  createWebhookChannel,
+  formatSmtpData,
+  NotificationError,
+  signPayload,
+  type AlertNotification,
+  type EmailMessage,
+} from '../hooks/observability/notifications.js';
+import type { AlertTriggerInput, HookContext } from '../types/hooks.js';
+
+const context: HookContext = { requestId: 'req-1', timestamp: Date.now(), metadata: {} };
+
+/**
+ * Webhook stub that answers with the given statuses in turn, then 200
+ */
+async function startWebhook(statuses: number[] = []): Promise<{
+  server: Server;
+  url: string;
+  requests: { headers: IncomingHttpHeaders; body: string }[];
+}> {
+  const requests: { headers: IncomingHttpHeaders; body: string }[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.writeHead(statuses.shift() ?? 200);
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${port}/hook`, requests };
+}
+
+function recordingChannel(name: string): NotificationChannel & { received: string[] } {
+  const received: string[] = [];
+  return {
+    name,
+    received,
+    send: async (alert) => {
+      received.push(`${alert.definition.name}:${alert.state}`);
+      return true;
+    },
+  };
+}
+
+function alertInput(currentValue: number): AlertTriggerInput {
+  return {
+    alertName: 'high-latency',
+    severity: 'critical',
+    condition: 'p99 latency > 500ms',
+    currentValue,
+    threshold: 500,
+  };
+}
+
+describe('Webhook channels', () => {
+  let stub: Awaited<ReturnType<typeof startWebhook>>;
+
+  afterEach(async () => {
+    await new Promise((resolve) => stub.server.close(resolve));
+  });
+
+  function firingAlert(): AlertInstance {
+    const manager = createAlertManager();
+    manager.registerAlert({
+      name: 'high-latency',
+      condition: 'p99 latency > 500ms',
+      threshold: 500,
+      severity: 'critical',
+      labels: { service: 'api' },
+    });
+    return manager.evaluate('high-latency', 900);
+  }
+
+  it('should post signed JSON and retry server errors', async () => {
+    stub = await startWebhook([503, 500]);
+    const channel = createWebhookChannel({ url: stub.url, secret: 's3cret', retryDelayMs: 1 });
+
+    expect(await channel.send(firingAlert())).toBe(true);
+
+    expect(stub.requests).toHaveLength(3);
+    const { headers, body } = stub.requests[2]!;
+    expect(headers['x-signature-256']).toBe(signPayload(body, 's3cret'));
+    expect(JSON.parse(body) as AlertNotification).toMatchObject({
+      status: 'firing',
+      dedupKey: 'high-latency{service=api}',
+      name: 'high-latency',
+      severity: 'critical',
+      value: 900,
+      labels: { service: 'api' },
+    });
+  });
+
+  it('should not retry client errors', async () => {
+    stub = await startWebhook([400, 400]);
+    const channel = createWebhookChannel({ url: stub.url, retryDelayMs: 1 });
+
+    const sent = channel.send(firingAlert());
+    await expect(sent).rejects.toBeInstanceOf(NotificationError);
+    await expect(sent).rejects.toMatchObject({ status: 400 });
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('should format Slack messages', async () => {
+    stub = await startWebhook();
+    const channel = createSlackChannel({ webhookUrl: stub.url, channel: '#alerts' });
+
+    await channel.send(firingAlert());
+
+    const payload = JSON.parse(stub.requests[0]!.body);
+    expect(channel.name).toBe('slack');
+    expect(payload).toMatchObject({
+      channel: '#alerts',
+      text: '[FIRING] high-latency (critical): p99 latency > 500ms: value 900, threshold 500',
+      attachments: [{ color: '#d00000', title: 'high-latency' }],
+    });
+    expect(payload.attachments[0].fields).toContainEqual({
+      title: 'service',
+      value: 'api',
+      short: true,
+    });
+  });
+});
+
+describe('Local channels', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'alerts-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append JSONL, email and log firing and resolved alerts', async () => {
+    const path = join(dir, 'logs', 'alerts.jsonl');
+    const emails: Array<[EmailMessage, string]> = [];
+    const logged: string[] = [];
+    const log = (level: string) => (line: string) => logged.push(`${level} ${line}`);
+    const handler = createNotifyingAlertHandler([
+      createFileChannel({ path }),
+      createEmailChannel({
+        from: 'alerts@example.com',
+        to: 'oncall@example.com',
+        transport: async (message, data) => {
+          emails.push([message, data]);
+        },
+      }),
+      createConsoleChannel({ logger: { log: log('log'), warn: log('warn'), error: log('error') } }),
+    ]);
+
+    const fired = await handler(alertInput(900), context);
+    await handler(alertInput(100), context);
+
+    expect(fired.success && fired.data.notificationsSent).toEqual(['file', 'email', 'console']);
+    const lines = (await readFile(path, 'utf8'))
+      .trim()
+      .split('\n')
+      .map((l) => JSON.parse(l));
+    expect(lines.map((line) => line.status)).toEqual(['firing', 'resolved']);
+
+    const alert = 'high-latency (critical): p99 latency > 500ms';
+    expect(emails.map(([message]) => message.subject)).toEqual([
+      `[open-agent] [FIRING] ${alert}: value 900, threshold 500`,
+      `[open-agent] [RESOLVED] ${alert}: value 100, threshold 500`,
+    ]);
+    expect(emails[0]![1]).toContain('To: oncall@example.com\r\n');
+    expect(logged).toEqual([
+      `error [FIRING] ${alert}: value 900, threshold 500`,
+      `log [RESOLVED] ${alert}: value 100, threshold 500`,
+    ]);
+  });
+
+  it('should dot-stuff SMTP data', () => {
+    const data = formatSmtpData(
+      { from: 'a@example.com', to: ['b@example.com'], subject: 'Hi\nthere', text: 'one\n.two' },
+      new Date(0)
+    );
+
+    expect(data).toContain('Subject: Hi there\r\n');
+    expect(data.endsWith('\r\n\r\none\r\n..two')).toBe(true);
+  });
+});
+
+describe('createAlertNotifier', () => {
+  it('should route by severity and label', async () => {
+    const pager = recordingChannel('pager');
+    const team = recordingChannel('team');
+    const fallback = recordingChannel('fallback');
+    const notifier = createAlertNotifier({
+      channels: [pager, team, fallback],
+      routes: [
+        { severity: ['critical'], channels: ['pager'], continue: true },
+        { labels: { team: 'search' }, channels: ['team'] },
+      ],
+      defaultChannels: ['fallback'],
+    });
+    const manager = createAlertManager();
+    manager.registerAlert({ name: 'a', condition: '', threshold: 0, severity: 'critical' });
+    manager.registerAlert({
+      name: 'b',
+      condition: '',
+      threshold: 0,
+      severity: 'warning',
+      labels: { team: 'search' },
+    });
+    manager.registerAlert({ name: 'c', condition: '', threshold: 0, severity: 'info' });
+
+    for (const name of ['a', 'b', 'c']) {
+      await notifier.notify(manager.evaluate(name, 1));
+    }
+
+    expect(pager.received).toEqual(['a:firing']);
+    expect(team.received).toEqual(['b:firing']);
+    expect(fallback.received).toEqual(['c:firing']);
+  });
+
+  it('should send each notification once per dedup key and retry failed ones', async () => {
+    let failures = 1;
+    const received: string[] = [];
+    const flaky: NotificationChannel = {
+      name: 'flaky',
+      send: async (alert) => {
+        if (failures-- > 0) {
+          throw new Error('down');
+        }
+        received.push(alert.definition.name);
+        return true;
+      },
+    };
+    const errors: string[] = [];
+    const notifier = createAlertNotifier({
+      channels: [flaky],
+      onError: (channel, error) => errors.push(`${channel}: ${error.message}`),
+    });
+    const manager = createAlertManager();
+    for (const name of ['x', 'y']) {
+      manager.registerAlert({ name, condition: '', threshold: 0, severity: 'info', dedupKey: 'k' });
+    }
+
+    expect(await notifier.notify(manager.evaluate('x', 1))).toEqual([]);
+    expect(await notifier.notify(manager.evaluate('x', 1))).toEqual(['flaky']);
+    expect(await notifier.notify(manager.evaluate('y', 1))).toEqual([]);
+    expect(received).toEqual(['x']);
+    expect(errors).toEqual(['flaky: down']);
+  });
+
+  it('should notify a re-fire on channels that skip resolves', async () => {
+    const channel = recordingChannel('pager');
+    const notifier = createAlertNotifier({
+      channels: [channel],
+      routes: [{ channels: ['pager'], sendResolved: false }],
+    });
+    const manager = createAlertManager();
+    manager.registerAlert({ name: 'r', condition: '', threshold: 0, severity: 'critical' });
+
+    await notifier.notify(manager.evaluate('r', 1));
+    manager.resolveAlert('r');
+    await notifier.notify(manager.getAlert('r')!);
+    await notifier.notify(manager.evaluate('r', 1));
+
+    expect(channel.received).toEqual(['r:firing', 'r:firing']);
+  });
+
+  it('should notify resolves from a watched manager once the alert fired', async () => {
+    const channel = recordingChannel('ops');
+    const notifier = createAlertNotifier({ channels: [channel] });
+    const manager = createAlertManager();
+    manager.registerAlert({ name: 'q', condition: '', threshold: 0, severity: 'warning' });
+    const stop = notifier.watch(manager);
+
+    manager.resolveAlert('q');
+    manager.evaluate('q', 1);
+    manager.resolveAlert('q');
+    await new Promise((resolve) => setImmediate(resolve));
+    stop();
+    manager.evaluate('q', 1);
+
+    expect(channel.received).toEqual(['q:firing', 'q:resolved']);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Pricing Catalog Tests
+ *
+ * Merges bundled, adapter and override prices, resolves model id aliases and
+ * prices requests through the cost tracking handlers and the runtime.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createPricingCatalog,
+  getDefaultPricingCatalog,
+  resetDefaultPricingCatalog,
+} from '../hooks/observability/pricing.js';
+import {
+  createBudgetedCostHandler,
+  createPricedCostHandler,
+  defaultCostTrackingHandler,
+} from '../hooks/observability/cost-tracking.js';
+import { HookRegistry } from '../hooks/registry.js';
+import { AgentRuntime } from '../runtime/agent-runtime.js';
+import type { LLMAdapter } from '../runtime/types.js';
+import type { HookContext, LLMResponse, ModelInfo } from '../types/hooks.js';
+
+const context: HookContext = { requestId: 'req-1', timestamp: Date.now(), metadata: {} };
+
+function modelInfo(id: string, input: number, output: number): ModelInfo {
+  return {
+    id,
+    name: id,
+    provider: 'test',
+    contextLength: 1000,
+    inputCostPer1k: input,
+    outputCostPer1k: output,
+    capabilities: [],
+  };
+}
+
+describe('createPricingCatalog', () => {
+  it('should price current models from the bundled prices', () => {
+    const catalog = createPricingCatalog();
+
+    expect(catalog.getPrice('claude-sonnet-4-5')).toMatchObject({ input: 0.003, output: 0.015 });
+    expect(catalog.getPrice('gpt-4.1-mini')).toMatchObject({ input: 0.0004, output: 0.0016 });
+  });
+
+  it('should normalize provider prefixes, dates, case and aliases', () => {
+    const catalog = createPricingCatalog();
+    const sonnet = catalog.getPrice('claude-3.5-sonnet');
+
+    expect(catalog.getPrice('anthropic/claude-3.5-sonnet')).toBe(sonnet);
+    expect(catalog.getPrice('claude-3-5-sonnet-20241022')).toBe(sonnet);
+    expect(catalog.getPrice('Claude-3-5-Sonnet-Latest')).toBe(sonnet);
+    expect(catalog.getPrice('gpt-4o-2024-08-06')).toBe(catalog.getPrice('gpt-4o'));
+    expect(catalog.getPrice('unknown-model')).toBeUndefined();
+  });
+
+  it('should prefer overrides over adapter prices over bundled prices', () => {
+    const catalog = createPricingCatalog({ overrides: { 'GPT-4o': { input: 1, output: 2 } } });
+    catalog.addModels([modelInfo('gpt-4o', 0.5, 0.5), modelInfo('claude-3-haiku', 0.2, 0.4)]);
+
+    expect(catalog.getPrice('openai/gpt-4o')).toEqual({ input: 1, output: 2 });
+    expect(catalog.getPrice('claude-3-haiku')).toEqual({ input: 0.2, output: 0.4 });
+
+    catalog.setPrice('claude-3-haiku', { input: 3, output: 3 });
+    catalog.addAlias('house-model', 'claude-3-haiku');
+    expect(catalog.getPrice('house-model')).toEqual({ input: 3, output: 3 });
+  });
+
+  it('should price cached tokens and requests', () => {
+    const catalog = createPricingCatalog({
+      overrides: {
+        cached: { input: 0.01, output: 0.02, cachedInput: 0.001 },
+        search: { input: 0, output: 0, request: 0.005 },
+      },
+    });
+
+    const cost = catalog.calculateCost('cached', {
+      inputTokens: 2000,
+      outputTokens: 1000,
+      cachedTokens: 1000,
+    });
+    expect(cost.inputCost).toBeCloseTo(0.02);
+    expect(cost.cacheDiscount).toBeCloseTo(0.009);
+    expect(cost.outputCost).toBeCloseTo(0.02);
+    expect(cost.totalCost).toBeCloseTo(0.031);
+
+    expect(catalog.calculateCost('search', { inputTokens: 10, outputTokens: 10 })).toMatchObject({
+      requestCost: 0.005,
+      totalCost: 0.005,
+    });
+  });
+
+  it('should use the fallback price for unknown models unless disabled', () => {
+    const usage = { inputTokens: 1000, outputTokens: 1000 };
+
+    expect(createPricingCatalog().calculateCost('mystery', usage).totalCost).toBeCloseTo(0.003);
+    expect(
+      createPricingCatalog({ fallbackPrice: null }).calculateCost('mystery', usage).totalCost
+    ).toBe(0);
+  });
+});
+
+describe('Cost tracking handlers', () => {
+  afterEach(() => {
+    resetDefaultPricingCatalog();
+  });
+
+  const input = {
+    provider: 'openrouter',
+    model: 'anthropic/claude-sonnet-4',
+    inputTokens: 1000,
+    outputTokens: 1000,
+  };
+
+  it('should price OpenRouter model ids with the default catalog', async () => {
+    const result = await defaultCostTrackingHandler(input, context);
+
+    expect(result.success && result.data.cost).toBeCloseTo(0.018);
+  });
+
+  it('should honour prices set on the default catalog', async () => {
+    getDefaultPricingCatalog().setPrice('claude-sonnet-4', { input: 0.1, output: 0 });
+
+    const result = await defaultCostTrackingHandler(input, context);
+
+    expect(result.success && result.data.cost).toBeCloseTo(0.1);
+  });
+
+  it('should take custom prices or a catalog', async () => {
+    const priced = await createPricedCostHandler({ 'claude-sonnet-4': { input: 0, output: 0.5 } })(
+      { ...input, cachedTokens: 500 },
+      context
+    );
+    expect(priced.success && priced.data.cost).toBeCloseTo(0.5);
+
+    const catalog = createPricingCatalog({
+      overrides: { 'claude-sonnet-4': { input: 1, output: 1 } },
+    });
+    const budgeted = createBudgetedCostHandler(
+      { perRequestLimit: 1 },
+      undefined,
+      undefined,
+      catalog
+    );
+    const result = await budgeted(input, context);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('Runtime pricing', () => {
+  let runtime: AgentRuntime;
+
+  afterEach(async () => {
+    await runtime.shutdown();
+  });
+
+  it('should add the prices adapters report to the runtime catalog', async () => {
+    runtime = new AgentRuntime(
+      { enableStreaming: false, enableHealthChecks: false },
+      new HookRegistry()
+    );
+    const adapter: LLMAdapter = {
+      id: 'router',
+      name: 'Router',
+      models: ['vendor/model-x'],
+      async complete(): Promise<LLMResponse> {
+        return {
+          id: 'resp-1',
+          model: 'vendor/model-x',
+          content: 'Hi',
+          usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+          finishReason: 'stop',
+        };
+      },
+      async *stream() {},
+      async healthCheck(): Promise<boolean> {
+        return true;
+      },
+      async getAvailableModels() {
+        return [{ ...modelInfo('vendor/model-x', 0.002, 0.004), requestCost: 0.01 }];
+      },
+    };
+    runtime.registerAdapter(adapter);
+
+    const agentId = await runtime.createAgent({ name: 'a', role: 'test', model: 'vendor/model-x' });
+    await runtime.run(agentId, { role: 'user', content: 'Hello' });
+
+    expect(runtime.pricing.getPrice('vendor/model-x')).toEqual({
+      input: 0.002,
+      output: 0.004,
+      request: 0.01,
+    });
+  });
+});
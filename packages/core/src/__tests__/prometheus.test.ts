@@ -0,0 +1,206 @@
+/**
+ * Prometheus Exporter Tests
+ *
+ * Formats a MetricStore in the text exposition format, scrapes it from the
+ * metrics server and checks the metrics an AgentRuntime records.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createMetricStore } from '../hooks/observability/metrics.js';
+import {
+  createMetricsServer,
+  formatPrometheusMetrics,
+  PROMETHEUS_CONTENT_TYPE,
+  type MetricsServer,
+} from '../hooks/observability/prometheus.js';
+import { HookRegistry, HOOK_NAMES } from '../hooks/registry.js';
+import { AgentRuntime } from '../runtime/agent-runtime.js';
+import type { LLMAdapter } from '../runtime/types.js';
+import type { LLMResponse } from '../types/hooks.js';
+
+describe('formatPrometheusMetrics', () => {
+  it('should add up counters per label set', () => {
+    const store = createMetricStore();
+    store.define({ name: 'requests_total', type: 'counter', description: 'Requests', labels: [] });
+    store.record('requests_total', 1, { route: '/a' });
+    store.record('requests_total', 2, { route: '/a' });
+    store.record('requests_total', 1, { route: 'say "hi"\n' });
+
+    expect(formatPrometheusMetrics(store, { prefix: 'app_' })).toBe(
+      [
+        '# HELP app_requests_total Requests',
+        '# TYPE app_requests_total counter',
+        'app_requests_total{route="/a"} 3',
+        'app_requests_total{route="say \\"hi\\"\\n"} 1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should keep the latest gauge value and treat undefined metrics as gauges', () => {
+    const store = createMetricStore();
+    store.record('queue.depth', 5, {});
+    store.record('queue.depth', 2, {});
+
+    expect(formatPrometheusMetrics(store, { defaultLabels: { service: 'api' } })).toBe(
+      '# TYPE queue_depth gauge\nqueue_depth{service="api"} 2\n'
+    );
+  });
+
+  it('should drop data recorded before a metric is redefined', () => {
+    const store = createMetricStore();
+    store.record('queue.depth', 5, {});
+    store.define({ name: 'queue.depth', type: 'counter', description: 'Depth', labels: [] });
+
+    expect(store.get('queue.depth')).toBeUndefined();
+    expect(store.getAggregated('queue.depth')).toBeUndefined();
+
+    store.record('queue.depth', 2, {});
+    expect(store.getAggregated('queue.depth')).toMatchObject({ sum: 2, count: 1 });
+    expect(formatPrometheusMetrics(store)).toBe(
+      '# HELP queue_depth Depth\n# TYPE queue_depth counter\nqueue_depth 2\n'
+    );
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const store = createMetricStore();
+    store.define({
+      name: 'latency_seconds',
+      type: 'histogram',
+      description: 'Latency',
+      labels: ['model'],
+      buckets: [0.1, 1],
+    });
+    for (const value of [0.05, 0.5, 0.7, 3]) {
+      store.record('latency_seconds', value, { model: 'm' });
+    }
+
+    expect(formatPrometheusMetrics(store)).toContain(
+      [
+        'latency_seconds_bucket{model="m",le="0.1"} 1',
+        'latency_seconds_bucket{model="m",le="1"} 3',
+        'latency_seconds_bucket{model="m",le="+Inf"} 4',
+        'latency_seconds_sum{model="m"} 4.25',
+        'latency_seconds_count{model="m"} 4',
+      ].join('\n')
+    );
+  });
+
+  it('should render summary quantiles from recent observations', () => {
+    const store = createMetricStore({ maxValues: 10 });
+    store.define({
+      name: 'size',
+      type: 'summary',
+      description: 'Size',
+      labels: [],
+      quantiles: [0.5, 1],
+    });
+    for (let i = 1; i <= 20; i++) {
+      store.record('size', i, {});
+    }
+
+    const output = formatPrometheusMetrics(store);
+    expect(output).toContain('size{quantile="0.5"} 15\nsize{quantile="1"} 20\n');
+    expect(output).toContain('size_sum 210\nsize_count 20\n');
+    expect(store.metrics.get('size')!.values).toHaveLength(10);
+  });
+});
+
+describe('MetricsServer', () => {
+  let server: MetricsServer;
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should serve the store on /metrics', async () => {
+    const store = createMetricStore();
+    store.record('up', 1, {});
+    server = createMetricsServer(store, { port: 0 });
+    await server.start();
+    const base = `http://localhost:${server.getPort()}`;
+
+    const response = await fetch(`${base}/metrics`);
+    expect(response.headers.get('content-type')).toBe(PROMETHEUS_CONTENT_TYPE);
+    expect(await response.text()).toBe('# TYPE up gauge\nup 1\n');
+
+    expect((await fetch(`${base}/other`)).status).toBe(404);
+    expect((await fetch(`${base}/metrics`, { method: 'POST' })).status).toBe(405);
+  });
+});
+
+describe('Runtime metrics', () => {
+  let runtime: AgentRuntime;
+
+  afterEach(async () => {
+    await runtime.shutdown();
+  });
+
+  it('should record iterations, LLM calls, tokens, tool errors and hook durations', async () => {
+    const registry = new HookRegistry();
+    registry.register(
+      HOOK_NAMES.REQUEST_TRANSFORM,
+      { id: 'passthrough', name: 'Passthrough', priority: 'normal' },
+      async (input) => ({ success: true, data: input as never })
+    );
+    runtime = new AgentRuntime(
+      { enableStreaming: false, enableHealthChecks: false, metrics: {} },
+      registry
+    );
+
+    let calls = 0;
+    const adapter: LLMAdapter = {
+      id: 'fake',
+      name: 'Fake',
+      models: ['fake-model'],
+      async complete(): Promise<LLMResponse> {
+        calls++;
+        return {
+          id: `resp-${calls}`,
+          model: 'fake-model',
+          content: calls === 1 ? '' : 'Done.',
+          usage: { promptTokens: 10, completionTokens: 4, totalTokens: 14 },
+          finishReason: calls === 1 ? 'tool_calls' : 'stop',
+          ...(calls === 1 ? { toolCalls: [{ id: 'call_1', name: 'broken', arguments: {} }] } : {}),
+        };
+      },
+      async *stream() {},
+      async healthCheck(): Promise<boolean> {
+        return true;
+      },
+    };
+    runtime.registerAdapter(adapter);
+    await runtime.toolExecutor.register(
+      { name: 'broken', description: 'Always fails', parameters: { type: 'object' } },
+      async () => {
+        throw new Error('boom');
+      }
+    );
+
+    const agentId = await runtime.createAgent({
+      name: 'worker',
+      role: 'test',
+      model: 'fake-model',
+    });
+    await runtime.sendMessage(agentId, {
+      type: 'request',
+      payload: { task: 'go' },
+      timestamp: Date.now(),
+    });
+    await runtime.run(agentId, { role: 'user', content: 'Go' });
+
+    const output = formatPrometheusMetrics(runtime.metrics.store);
+    expect(output).toContain('open_agent_agent_iterations_total{agent="worker"} 2\n');
+    const llmLabels = '{provider="fake",model="fake-model",outcome="success"}';
+    expect(output).toContain(`open_agent_llm_requests_total${llmLabels} 2\n`);
+    expect(output).toContain(`open_agent_llm_request_duration_seconds_count${llmLabels} 2\n`);
+    expect(output).toContain(
+      'open_agent_llm_tokens_total{agent="worker",model="fake-model",type="prompt"} 20\n'
+    );
+    expect(output).toContain('open_agent_tool_errors_total{tool="broken",reason="error"} 1\n');
+    expect(output).toContain('open_agent_message_queue_depth{agent="worker"} 0\n');
+    const hookLabels = '{hook="gateway:request-transform",hook_id="passthrough",status="success"}';
+    expect(output).toContain(`open_agent_hook_duration_seconds_count${hookLabels} 2\n`);
+    expect(output).toContain('# TYPE open_agent_llm_request_duration_seconds histogram\n');
+  });
+});
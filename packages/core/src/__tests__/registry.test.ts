@@ -295,9 +295,16 @@ describe('HookRegistry', () => {
       const handler = vi.fn().mockResolvedValue({ success: true, data: 'result' });
       registry.register(HOOK_NAMES.REQUEST_TRANSFORM, { id: 'test-hook', priority: 'normal' }, handler);
 
-      await registry.execute(HOOK_NAMES.REQUEST_TRANSFORM, 'input', createContext());
+      const context = createContext();
+      await registry.execute(HOOK_NAMES.REQUEST_TRANSFORM, 'input', context);
 
-      expect(listener).toHaveBeenCalledWith('test-hook', expect.any(Number), true);
+      expect(listener).toHaveBeenCalledWith(
+        'test-hook',
+        expect.any(Number),
+        true,
+        HOOK_NAMES.REQUEST_TRANSFORM,
+        context
+      );
     });
   });
 
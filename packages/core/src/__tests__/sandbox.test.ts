@@ -0,0 +1,113 @@
+/**
+ * Sandbox Tests
+ *
+ * Runs tool code in the worker sandbox and checks isolation, limits and
+ * the measurements reported back.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSandbox, createSandboxedHandler } from '../tools/sandbox.js';
+
+describe('Sandbox.run', () => {
+  const sandbox = createSandbox({ maxExecutionTime: 2000, maxMemory: 32 * 1024 * 1024 });
+
+  it('should run code with arguments and report usage', async () => {
+    const result = await sandbox.run(
+      'console.log("adding", args.a, args.b);\nreturn { sum: Math.max(args.a, 0) + args.b };',
+      { a: 2, b: 3 }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ sum: 5 });
+    expect(result.logs).toEqual(['adding 2 3']);
+    expect(result.memoryUsed).toBeGreaterThanOrEqual(0);
+    expect(result.cpuTime).toBeGreaterThanOrEqual(0);
+    expect(result.executionTime).toBeGreaterThan(0);
+  });
+
+  it('should await async code and surface thrown errors', async () => {
+    const ok = await sandbox.run('return await Promise.resolve(args.value * 2);', { value: 21 });
+    expect(ok.result).toBe(42);
+
+    const failed = await sandbox.run('throw new TypeError("bad input");');
+    expect(failed.success).toBe(false);
+    expect(failed.error?.name).toBe('TypeError');
+    expect(failed.error?.message).toBe('bad input');
+    expect(failed.terminated).toBeUndefined();
+  });
+
+  it('should only expose allowed globals', async () => {
+    const result = await sandbox.run(
+      'return ["JSON", "Math", "Map", "setTimeout", "WebAssembly", "Buffer", "globalThis"]' +
+        '.filter((name) => typeof globalThis[name] !== "undefined");'
+    );
+    expect(result.result).toEqual(['JSON', 'Math', 'globalThis']);
+
+    const narrow = createSandbox({ allowedGlobals: ['JSON'] });
+    expect((await narrow.run('return typeof Math;')).result).toBe('undefined');
+  });
+
+  it('should block modules, process and code generation', async () => {
+    const modules = await sandbox.run('return globalThis["req" + "uire"]("node:child_process");');
+    expect(modules.error?.message).toBe('Module access is blocked: node:child_process');
+
+    const dynamicImport = await sandbox.run('return await import("node:fs");');
+    expect(dynamicImport.success).toBe(false);
+
+    const escape = await sandbox.run('return (() => {}).constructor("return this")();');
+    expect(escape.success).toBe(false);
+    expect(escape.error?.name).toBe('EvalError');
+
+    const proc = await sandbox.run('return typeof globalThis["pro" + "cess"];');
+    expect(proc.result).toBe('undefined');
+  });
+
+  it('should keep the worker realm out of reach through the global object', async () => {
+    const escape = await sandbox.run(
+      'return globalThis.constructor.constructor("return pro" + "cess")().pid;'
+    );
+    expect(escape.success).toBe(false);
+    expect(escape.result).toBeUndefined();
+
+    const proto = await sandbox.run('return Object.getPrototypeOf(globalThis);');
+    expect(proto.result).toBeNull();
+  });
+
+  it('should reject code using blocked APIs before running it', async () => {
+    const result = await sandbox.run('return process.env;');
+    expect(result).toMatchObject({
+      success: false,
+      terminated: true,
+      terminationReason: 'blocked',
+    });
+  });
+
+  it('should terminate code that exceeds the time limit', async () => {
+    const fast = createSandbox({ maxExecutionTime: 200 });
+
+    const spin = await fast.run('while (true) {}');
+    expect(spin).toMatchObject({ success: false, terminated: true, terminationReason: 'timeout' });
+
+    const hang = await fast.run('await new Promise(() => {});');
+    expect(hang).toMatchObject({ success: false, terminated: true, terminationReason: 'timeout' });
+    expect(hang.executionTime).toBeLessThan(2000);
+  });
+
+  it('should terminate code that exceeds the memory limit', async () => {
+    const small = createSandbox({ maxExecutionTime: 10000, maxMemory: 16 * 1024 * 1024 });
+    const result = await small.run(
+      'const chunks = [];\nwhile (true) { chunks.push(new Array(100000).fill(chunks.length)); }'
+    );
+
+    expect(result).toMatchObject({ success: false, terminated: true, terminationReason: 'memory' });
+    expect(result.error?.message).toBe('Memory limit exceeded');
+  }, 20000);
+
+  it('should run tool handlers built from code', async () => {
+    const handler = createSandboxedHandler('return args.text.toUpperCase();');
+    await expect(handler({ text: 'hi' }, {} as never)).resolves.toBe('HI');
+
+    const failing = createSandboxedHandler('throw new Error("nope");');
+    await expect(failing({}, {} as never)).rejects.toThrow('nope');
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * State Store Tests
+ *
+ * Round-trip tests for the file and SQLite state stores, and for runtime
+ * persistence and resumption across a simulated restart.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { HookRegistry } from '../hooks/registry.js';
+import { AgentRuntime } from '../runtime/agent-runtime.js';
+import {
+  FileStateStore,
+  SqliteStateStore,
+  encodeState,
+  decodeState,
+} from '../runtime/state-store.js';
+import type { AgentInstance, LLMAdapter, StateStore } from '../runtime/types.js';
+import type { LLMResponse, StreamChunk, ToolCall } from '../types/hooks.js';
+
+function createAgentInstance(id: string): AgentInstance {
+  return {
+    id,
+    config: { name: id, role: 'test' },
+    state: 'thinking',
+    childAgentIds: [],
+    createdAt: 1,
+    lastActiveAt: 2,
+    iterationCount: 3,
+    messageHistory: [{ role: 'user', content: 'Hi' }],
+    pendingToolCalls: [],
+    completedToolCalls: new Map<string, unknown>([
+      ['call_1', { toolCallId: 'call_1', success: true, result: { ok: true } }],
+      ['call_2', { toolCallId: 'call_2', success: false, error: new Error('boom') }],
+    ]),
+    metadata: { tag: 'persisted' },
+  };
+}
+
+function createEchoAdapter(): LLMAdapter {
+  return {
+    id: 'echo',
+    name: 'Echo',
+    models: ['echo-model'],
+    async complete(messages): Promise<LLMResponse> {
+      return {
+        id: 'resp',
+        model: 'echo-model',
+        content: `echo: ${messages[messages.length - 1]?.content}`,
+        usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+        finishReason: 'stop',
+      };
+    },
+    async *stream(): AsyncIterable<StreamChunk> {},
+    async healthCheck(): Promise<boolean> {
+      return true;
+    },
+  };
+}
+
+/**
+ * Adapter that requests the given tool calls once, then answers with text
+ */
+function createToolCallingAdapter(toolCalls: ToolCall[]): LLMAdapter & { calls: number } {
+  const adapter = {
+    id: 'tools',
+    name: 'Tools',
+    models: ['tools-model'],
+    calls: 0,
+    async complete(): Promise<LLMResponse> {
+      const first = adapter.calls++ === 0;
+      return {
+        id: `resp-${adapter.calls}`,
+        model: 'tools-model',
+        content: first ? '' : 'done',
+        toolCalls: first ? toolCalls : undefined,
+        usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+        finishReason: first ? 'tool_calls' : 'stop',
+      };
+    },
+    async *stream(): AsyncIterable<StreamChunk> {},
+    async healthCheck(): Promise<boolean> {
+      return true;
+    },
+  };
+  return adapter;
+}
+
+describe('encodeState/decodeState', () => {
+  it('should round-trip Maps and Errors', () => {
+    const agent = decodeState<AgentInstance>(encodeState(createAgentInstance('agent-1')));
+
+    expect(agent.completedToolCalls).toBeInstanceOf(Map);
+    expect(agent.completedToolCalls.get('call_1')).toEqual({
+      toolCallId: 'call_1',
+      success: true,
+      result: { ok: true },
+    });
+
+    const failed = agent.completedToolCalls.get('call_2') as { error: Error };
+    expect(failed.error).toBeInstanceOf(Error);
+    expect(failed.error.message).toBe('boom');
+  });
+});
+
+describe.each([
+  ['FileStateStore', (dir: string) => new FileStateStore({ path: join(dir, 'state.json') })],
+  ['SqliteStateStore', (dir: string) => new SqliteStateStore({ filename: join(dir, 'state.db') })],
+])('%s', (_name, createStore) => {
+  let dir: string;
+  let store: StateStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'oas-state-'));
+    store = createStore(dir);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return nothing before anything is saved', async () => {
+    expect(await store.loadAll()).toEqual([]);
+  });
+
+  it('should save, replace and delete agents across store instances', async () => {
+    await store.save(createAgentInstance('agent-1'));
+    await store.save(createAgentInstance('agent-2'));
+    await store.save({ ...createAgentInstance('agent-1'), iterationCount: 9 });
+    await store.delete('agent-2');
+    await store.close();
+
+    store = createStore(dir);
+    const agents = await store.loadAll();
+
+    expect(agents.map((a) => a.id)).toEqual(['agent-1']);
+    expect(agents[0]?.iterationCount).toBe(9);
+    expect(agents[0]?.completedToolCalls.get('call_1')).toMatchObject({ success: true });
+  });
+});
+
+describe('SqliteStateStore', () => {
+  it('should use an opened database and leave it open on close', async () => {
+    const { default: Database } = await import('better-sqlite3');
+    const database = new Database(':memory:');
+    const store = new SqliteStateStore({ database, tableName: 'snapshots' });
+
+    await store.save(createAgentInstance('agent-1'));
+    await store.close();
+
+    expect(database.open).toBe(true);
+    expect(database.prepare('SELECT id FROM snapshots').all()).toEqual([{ id: 'agent-1' }]);
+    database.close();
+  });
+});
+
+describe('AgentRuntime state persistence', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'oas-runtime-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const createRuntime = (path: string): AgentRuntime => {
+    const runtime = new AgentRuntime(
+      {
+        enableHealthChecks: false,
+        enableStreaming: false,
+        enableStatePersistence: true,
+        stateStore: new FileStateStore({ path }),
+      },
+      new HookRegistry()
+    );
+    runtime.registerAdapter(createEchoAdapter());
+    return runtime;
+  };
+
+  it('should persist on every transition and restore agents on start', async () => {
+    const path = join(dir, 'state.json');
+    const first = createRuntime(path);
+    await first.start();
+
+    const agentId = await first.createAgent({ name: 'survivor', role: 'test' });
+    await first.run(agentId, { role: 'user', content: 'remember me' });
+
+    // Written without an explicit persist() call
+    const saved = decodeState<Record<string, AgentInstance>>(await readFile(path, 'utf8'));
+    expect(saved[agentId]?.state).toBe('idle');
+    expect(saved[agentId]?.messageHistory).toHaveLength(2);
+
+    // Simulate a crash: drop the runtime without shutting it down
+    const second = createRuntime(path);
+    await second.start();
+
+    const restored = second.getAgent(agentId);
+    expect(restored?.state).toBe('idle');
+    expect(restored?.iterationCount).toBe(1);
+    expect(restored?.completedToolCalls).toBeInstanceOf(Map);
+    expect(restored?.messageHistory.map((m) => m.content)).toEqual([
+      'remember me',
+      'echo: remember me',
+    ]);
+
+    await second.shutdown();
+  });
+
+  it('should keep agents resumable after a graceful shutdown', async () => {
+    const path = join(dir, 'state.json');
+    const first = createRuntime(path);
+    await first.start();
+
+    const agentId = await first.createAgent({ name: 'sleeper', role: 'test' });
+    await first.run(agentId, { role: 'user', content: 'Hi' });
+    await first.shutdown();
+
+    const second = createRuntime(path);
+    await second.start();
+
+    expect(second.getAgent(agentId)?.state).toBe('idle');
+    await second.shutdown();
+  });
+});
+
+describe('AgentRuntime resume', () => {
+  let dir: string;
+  let path: string;
+
+  const toolCalls: ToolCall[] = [
+    { id: 'call_1', name: 'send_email', arguments: { to: 'a@example.com' } },
+    { id: 'call_2', name: 'fetch_report', arguments: {} },
+  ];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'oas-resume-'));
+    path = join(dir, 'state.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const createRuntime = (adapter: LLMAdapter, defaultToolTimeout = 30000): AgentRuntime => {
+    const runtime = new AgentRuntime(
+      {
+        enableHealthChecks: false,
+        enableStreaming: false,
+        enableStatePersistence: true,
+        parallelToolExecution: false,
+        defaultToolTimeout,
+        stateStore: new FileStateStore({ path }),
+      },
+      new HookRegistry()
+    );
+    runtime.registerAdapter(adapter);
+    return runtime;
+  };
+
+  const tool = (name: string) => ({
+    name,
+    description: name,
+    parameters: { type: 'object' as const, properties: {} },
+  });
+
+  it('should checkpoint after every tool completion and iteration', async () => {
+    const runtime = createRuntime(createToolCallingAdapter(toolCalls));
+    runtime.toolExecutor.register(tool('send_email'), async () => ({ sent: true }));
+    runtime.toolExecutor.register(tool('fetch_report'), async () => ({ rows: 3 }));
+
+    const checkpoints: number[] = [];
+    runtime.on('agent:checkpoint', (agentId) => {
+      checkpoints.push(runtime.getAgent(agentId)!.completedToolCalls.size);
+    });
+
+    const agentId = await runtime.createAgent({ name: 'worker', role: 'test' });
+    await runtime.run(agentId, { role: 'user', content: 'go' });
+
+    // One per tool, then one per iteration
+    expect(checkpoints).toEqual([1, 2, 2, 2]);
+    await runtime.shutdown();
+  });
+
+  it('should resume after a crash without re-running completed tool calls', async () => {
+    const sent: unknown[] = [];
+
+    // First process: crashes while the second tool is running
+    const first = createRuntime(createToolCallingAdapter(toolCalls), 50);
+    first.toolExecutor.register(tool('send_email'), async (args) => {
+      sent.push(args);
+      return { sent: true };
+    });
+    first.toolExecutor.register(tool('fetch_report'), () => new Promise(() => {}));
+    first.on('agent:checkpoint', (agentId) => {
+      if (first.getAgent(agentId)?.completedToolCalls.has('call_1')) {
+        // Nothing the dying process does after this point reaches the store
+        first.stateManager.setStore(undefined);
+      }
+    });
+
+    const agentId = await first.createAgent({ name: 'researcher', role: 'test' });
+    await first.run(agentId, { role: 'user', content: 'go' }).catch(() => undefined);
+
+    // Second process: resume straight from the store
+    const adapter = createToolCallingAdapter(toolCalls);
+    adapter.calls = 1;
+    const second = createRuntime(adapter);
+    const resumed: ToolCall[][] = [];
+    second.on('agent:resumed', (_agentId, pending) => resumed.push(pending));
+    second.toolExecutor.register(tool('send_email'), async (args) => {
+      sent.push(args);
+      return { sent: true };
+    });
+    second.toolExecutor.register(tool('fetch_report'), async () => ({ rows: 3 }));
+
+    const response = await second.resume(agentId);
+
+    expect(response.content).toBe('done');
+    expect(sent).toHaveLength(1);
+    expect(resumed).toEqual([[toolCalls[1]]]);
+
+    const agent = second.getAgent(agentId)!;
+    expect(agent.state).toBe('idle');
+    expect(agent.iterationCount).toBe(2);
+    expect(agent.pendingToolCalls).toEqual([]);
+    expect(agent.messageHistory.map((m) => m.toolCallId ?? m.content)).toEqual([
+      'go',
+      '',
+      'call_1',
+      'call_2',
+      'done',
+    ]);
+
+    await second.shutdown();
+  });
+
+  it('should refuse to resume an agent whose run finished', async () => {
+    const runtime = createRuntime(createEchoAdapter());
+    const agentId = await runtime.createAgent({ name: 'finished', role: 'test' });
+    await runtime.run(agentId, { role: 'user', content: 'Hi' });
+
+    await expect(runtime.resume(agentId)).rejects.toThrow('no interrupted run');
+    await expect(runtime.resume('agent-missing')).rejects.toThrow('Agent not found');
+    await runtime.shutdown();
+  });
+});
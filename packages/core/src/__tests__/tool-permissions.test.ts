@@ -0,0 +1,135 @@
+/**
+ * Tool Permission Tests
+ *
+ * Checks that the runtime only advertises and runs the tools an agent is
+ * allowed, and that refused calls reach the model as structured results.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AgentRuntime } from '../runtime/agent-runtime.js';
+import { matchesToolPattern, isToolAllowed } from '../runtime/tool-executor.js';
+import { HookRegistry, HOOK_NAMES } from '../hooks/registry.js';
+import type { CompletionOptions, LLMAdapter } from '../runtime/types.js';
+import type { LLMResponse, Message, ToolCall } from '../types/hooks.js';
+
+describe('Tool allowlists', () => {
+  let runtime: AgentRuntime;
+  let registry: HookRegistry;
+  let advertised: string[][];
+  let toolCalls: ToolCall[];
+  let ran: string[];
+
+  beforeEach(async () => {
+    registry = new HookRegistry();
+    runtime = new AgentRuntime({ enableStreaming: false, enableHealthChecks: false }, registry);
+    advertised = [];
+    ran = [];
+
+    let calls = 0;
+    const adapter: LLMAdapter = {
+      id: 'scripted',
+      name: 'Scripted',
+      models: ['model-a'],
+      async complete(_messages: Message[], options: CompletionOptions): Promise<LLMResponse> {
+        advertised.push((options.tools ?? []).map((tool) => tool.name));
+        const first = calls++ === 0;
+        return {
+          id: `resp-${calls}`,
+          model: 'model-a',
+          content: first ? '' : 'Done.',
+          toolCalls: first ? toolCalls : undefined,
+          usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+          finishReason: first ? 'tool_calls' : 'stop',
+        };
+      },
+      async *stream() {},
+      async healthCheck(): Promise<boolean> {
+        return true;
+      },
+    };
+    runtime.registerAdapter(adapter);
+
+    for (const name of ['read_file', 'run_command', 'github__search', 'github__create_issue']) {
+      await runtime.toolExecutor.register(
+        { name, description: name, parameters: { type: 'object' } },
+        async () => {
+          ran.push(name);
+          return `${name} ok`;
+        }
+      );
+    }
+  });
+
+  afterEach(async () => {
+    await runtime.shutdown();
+  });
+
+  it('should match names and glob patterns', () => {
+    expect(matchesToolPattern('github__search', 'github__*')).toBe(true);
+    expect(matchesToolPattern('gitlab__search', 'git?ub__*')).toBe(false);
+    expect(matchesToolPattern('read.file', 'read_file')).toBe(false);
+    expect(matchesToolPattern('read_file', 'read_file')).toBe(true);
+    expect(isToolAllowed('anything', undefined)).toBe(true);
+    expect(isToolAllowed('anything', [])).toBe(false);
+  });
+
+  it('should only advertise and run the tools an agent declares', async () => {
+    toolCalls = [
+      { id: 'call_1', name: 'github__search', arguments: {} },
+      { id: 'call_2', name: 'run_command', arguments: { command: 'rm -rf /' } },
+    ];
+    const denied: string[] = [];
+    runtime.on('tool:denied', (_agentId, toolCall) => denied.push(toolCall.name));
+
+    const agentId = await runtime.createAgent({
+      name: 'reviewer',
+      role: 'code reviewer',
+      tools: ['read_file', 'github__*'],
+    });
+    await runtime.run(agentId, { role: 'user', content: 'Review the change' });
+
+    expect(advertised[0]!.sort()).toEqual(['github__create_issue', 'github__search', 'read_file']);
+    expect(ran).toEqual(['github__search']);
+    expect(denied).toEqual(['run_command']);
+
+    const refusal = runtime
+      .getAgent(agentId)!
+      .messageHistory.find((message) => message.toolCallId === 'call_2');
+    expect(JSON.parse(refusal!.content)).toEqual({
+      error: 'tool_not_permitted',
+      tool: 'run_command',
+      reason: 'run_command is not in the tool allowlist of agent reviewer',
+    });
+  });
+
+  it('should refuse calls the permission check hook denies', async () => {
+    toolCalls = [
+      { id: 'call_1', name: 'read_file', arguments: { path: '/etc/shadow' } },
+      { id: 'call_2', name: 'github__search', arguments: {} },
+    ];
+    registry.register(
+      HOOK_NAMES.PERMISSION_CHECK,
+      { id: 'no-secrets', name: 'No secrets', priority: 'high' },
+      async (input: { resource: string; context?: { arguments?: { path?: string } } }) => ({
+        success: true,
+        data:
+          input.resource === 'tool:read_file' && input.context?.arguments?.path?.startsWith('/etc')
+            ? { allowed: false, reason: 'system files are off limits' }
+            : { allowed: true },
+      })
+    );
+
+    const agentId = await runtime.createAgent({ name: 'helper', role: 'assistant' });
+    await runtime.run(agentId, { role: 'user', content: 'Look around' });
+
+    expect(advertised[0]).toHaveLength(4);
+    expect(ran).toEqual(['github__search']);
+    const refusal = runtime
+      .getAgent(agentId)!
+      .messageHistory.find((message) => message.toolCallId === 'call_1');
+    expect(JSON.parse(refusal!.content)).toMatchObject({
+      error: 'tool_not_permitted',
+      reason: 'system files are off limits',
+    });
+  });
+});
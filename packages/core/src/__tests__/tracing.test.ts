@@ -0,0 +1,238 @@
+/**
+ * Tracing Tests
+ *
+ * Runs an agent with tracing enabled and checks the spans a local OTLP
+ * collector stub receives.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HookRegistry, HOOK_NAMES } from '../hooks/registry.js';
+import { AgentRuntime } from '../runtime/agent-runtime.js';
+import { createOtlpTraceExporter, OtlpExportError } from '../hooks/observability/otlp-exporter.js';
+import { createW3CTraceHandler, formatTraceparent } from '../hooks/observability/tracing.js';
+import type { LLMAdapter, ToolExecutionContext } from '../runtime/types.js';
+import type { LLMResponse } from '../types/hooks.js';
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  attributes: { key: string; value: Record<string, unknown> }[];
+  status: { code: number; message?: string };
+}
+
+/**
+ * Collector stub that keeps every span it receives
+ */
+async function startCollector(status = 200): Promise<{
+  server: Server;
+  endpoint: string;
+  spans: OtlpSpan[];
+  requests: Record<string, unknown>[];
+}> {
+  const spans: OtlpSpan[] = [];
+  const requests: Record<string, unknown>[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const request = JSON.parse(body);
+      requests.push(request);
+      for (const resourceSpans of request.resourceSpans) {
+        for (const scopeSpans of resourceSpans.scopeSpans) {
+          spans.push(...scopeSpans.spans);
+        }
+      }
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, endpoint: `http://127.0.0.1:${port}/v1/traces`, spans, requests };
+}
+
+/**
+ * Adapter that calls the lookup tool once, then answers
+ */
+function createToolCallingAdapter(): LLMAdapter {
+  let calls = 0;
+  return {
+    id: 'fake',
+    name: 'Fake',
+    models: ['fake-model'],
+    async complete(): Promise<LLMResponse> {
+      calls++;
+      return {
+        id: `resp-${calls}`,
+        model: 'fake-model-2024',
+        content: calls === 1 ? '' : 'Done.',
+        usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+        finishReason: calls === 1 ? 'tool_calls' : 'stop',
+        ...(calls === 1 ? { toolCalls: [{ id: 'call_1', name: 'lookup', arguments: {} }] } : {}),
+      };
+    },
+    async *stream() {},
+    async healthCheck(): Promise<boolean> {
+      return true;
+    },
+  };
+}
+
+function attribute(span: OtlpSpan, key: string): unknown {
+  const value = span.attributes.find((a) => a.key === key)?.value;
+  return value && Object.values(value)[0];
+}
+
+describe('Runtime tracing', () => {
+  let collector: Awaited<ReturnType<typeof startCollector>>;
+  let exporter: ReturnType<typeof createOtlpTraceExporter>;
+  let registry: HookRegistry;
+  let runtime: AgentRuntime;
+  let toolContexts: ToolExecutionContext[];
+
+  beforeEach(async () => {
+    collector = await startCollector();
+    exporter = createOtlpTraceExporter({ endpoint: collector.endpoint, serviceName: 'tests' });
+    registry = new HookRegistry();
+    registry.register(
+      HOOK_NAMES.REQUEST_TRANSFORM,
+      { id: 'passthrough', name: 'Passthrough', priority: 'normal' },
+      async (input) => ({ success: true, data: input as never })
+    );
+    runtime = new AgentRuntime(
+      { enableStreaming: false, enableHealthChecks: false, tracing: { exporter } },
+      registry
+    );
+    runtime.registerAdapter(createToolCallingAdapter());
+
+    toolContexts = [];
+    await runtime.toolExecutor.register(
+      { name: 'lookup', description: 'Lookup', parameters: { type: 'object' } },
+      async (_args, context) => {
+        toolContexts.push(context);
+        return 'found';
+      }
+    );
+  });
+
+  afterEach(async () => {
+    exporter.stop();
+    await runtime.shutdown();
+    await new Promise((resolve) => collector.server.close(resolve));
+  });
+
+  async function runAgent(): Promise<void> {
+    const agentId = await runtime.createAgent({
+      name: 'finder',
+      role: 'test',
+      model: 'fake-model',
+    });
+    await runtime.run(agentId, { role: 'user', content: 'Find it' });
+    await exporter.flush();
+  }
+
+  it('should export one trace per run with nested spans', async () => {
+    await runAgent();
+
+    const { spans } = collector;
+    expect(new Set(spans.map((s) => s.traceId)).size).toBe(1);
+
+    const root = spans.find((s) => s.name === 'invoke_agent finder')!;
+    expect(root.parentSpanId).toBeUndefined();
+    expect(attribute(root, 'gen_ai.operation.name')).toBe('invoke_agent');
+
+    const iterations = spans.filter((s) => s.name === 'agent.iteration');
+    expect(iterations).toHaveLength(2);
+    for (const iteration of iterations) {
+      expect(iteration.parentSpanId).toBe(root.spanId);
+    }
+
+    const chats = spans.filter((s) => s.name === 'chat fake-model');
+    expect(chats.map((s) => s.parentSpanId)).toEqual(iterations.map((s) => s.spanId));
+    expect(chats[0]!.kind).toBe(3);
+    expect(attribute(chats[0]!, 'gen_ai.system')).toBe('fake');
+    expect(attribute(chats[0]!, 'gen_ai.request.model')).toBe('fake-model');
+    expect(attribute(chats[0]!, 'gen_ai.response.model')).toBe('fake-model-2024');
+    expect(attribute(chats[0]!, 'gen_ai.usage.input_tokens')).toBe('12');
+    expect(attribute(chats[0]!, 'gen_ai.usage.output_tokens')).toBe('3');
+    expect(attribute(chats[0]!, 'gen_ai.response.finish_reasons')).toEqual({
+      values: [{ stringValue: 'tool_calls' }],
+    });
+
+    const tool = spans.find((s) => s.name === 'execute_tool lookup')!;
+    expect(tool.parentSpanId).toBe(iterations[0]!.spanId);
+    expect(attribute(tool, 'gen_ai.tool.call.id')).toBe('call_1');
+
+    const hooks = spans.filter((s) => s.name === 'hook gateway:request-transform');
+    expect(hooks).toHaveLength(2);
+    expect(hooks[0]!.parentSpanId).toBe(iterations[0]!.spanId);
+    expect(attribute(hooks[0]!, 'hook.id')).toBe('passthrough');
+
+    expect(collector.requests[0]).toMatchObject({
+      resourceSpans: [
+        {
+          resource: { attributes: [{ key: 'service.name', value: { stringValue: 'tests' } }] },
+          scopeSpans: [{ scope: { name: '@open-agent/core' } }],
+        },
+      ],
+    });
+  });
+
+  it('should take span IDs from the W3C handler and pass traceparent to tools', async () => {
+    registry.register(
+      HOOK_NAMES.TRACE_START,
+      { id: 'w3c', name: 'W3C', priority: 'normal' },
+      createW3CTraceHandler()
+    );
+
+    await runAgent();
+
+    const tool = collector.spans.find((s) => s.name === 'execute_tool lookup')!;
+    expect(toolContexts[0]!.hookContext.metadata['traceparent']).toBe(
+      formatTraceparent(tool.traceId, tool.spanId)
+    );
+    expect(new Set(collector.spans.map((s) => s.traceId)).size).toBe(1);
+  });
+
+  it('should not record runs the trace start hook leaves unsampled', async () => {
+    registry.register(
+      HOOK_NAMES.TRACE_START,
+      { id: 'unsampled', name: 'Unsampled', priority: 'normal' },
+      async () => ({ success: true, data: { traceId: '', spanId: '', sampled: false } })
+    );
+
+    await runAgent();
+
+    expect(collector.spans).toEqual([]);
+    expect(toolContexts[0]!.hookContext.metadata['traceparent']).toBeUndefined();
+  });
+});
+
+describe('createOtlpTraceExporter', () => {
+  it('should reject a flush the collector refuses', async () => {
+    const collector = await startCollector(503);
+    const exporter = createOtlpTraceExporter({ endpoint: collector.endpoint });
+    exporter.export({
+      traceId: 'a'.repeat(32),
+      spanId: 'b'.repeat(16),
+      operationName: 'op',
+      startTime: Date.now(),
+      endTime: Date.now(),
+      status: 'ok',
+      attributes: {},
+      events: [],
+    });
+
+    const error = await exporter.flush().catch((e: unknown) => e);
+    exporter.stop();
+    await new Promise((resolve) => collector.server.close(resolve));
+
+    expect(error).toBeInstanceOf(OtlpExportError);
+    expect((error as OtlpExportError).status).toBe(503);
+  });
+});
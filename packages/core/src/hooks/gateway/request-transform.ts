@@ -79,7 +79,7 @@ export function createMessageNormalizer(): HookHandler<
   return async (input, _context): Promise<HookResult<RequestTransformOutput>> => {
     const messages = input.messages.map((m) => ({
       ...m,
-      content: m.content.trim(),
+      content: typeof m.content === 'string' ? m.content.trim() : m.content,
     }));
 
     return {
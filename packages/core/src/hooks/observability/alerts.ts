@@ -12,6 +12,7 @@ import type {
   AlertTriggerOutput,
 } from '../../types/hooks.js';
 import { HookRegistry, HOOK_NAMES } from '../registry.js';
+import { createAlertNotifier, type AlertNotifier } from './notifications.js';
 
 /**
  * Generate a unique alert ID
@@ -55,6 +56,8 @@ export interface AlertDefinition {
   labels?: Record<string, string>;
   annotations?: Record<string, string>;
   notificationChannels?: string[];
+  /** Notifications with the same key are sent once per channel (default: name and labels) */
+  dedupKey?: string;
 }
 
 /**
@@ -84,14 +87,27 @@ export interface AlertManager {
   getAlert: (alertName: string) => AlertInstance | undefined;
   getActiveAlerts: () => AlertInstance[];
   resolveAlert: (alertName: string) => void;
+  /** Listen for alert state changes; returns a function that removes the listener */
+  onStateChange: (listener: AlertStateListener) => () => void;
 }
 
+export type AlertStateListener = (alert: AlertInstance, previous: AlertState) => void;
+
 /**
  * Creates an alert manager
  */
 export function createAlertManager(): AlertManager {
   const alerts = new Map<string, AlertInstance>();
   const definitions = new Map<string, AlertDefinition>();
+  const listeners = new Set<AlertStateListener>();
+
+  const changed = (instance: AlertInstance, previous: AlertState) => {
+    if (instance.state !== previous) {
+      for (const listener of listeners) {
+        listener(instance, previous);
+      }
+    }
+  };
 
   return {
     alerts,
@@ -125,6 +141,7 @@ export function createAlertManager(): AlertManager {
       instance.lastEvaluation = now;
 
       // Evaluate condition
+      const previous = instance.state;
       const exceeded = currentValue > definition.threshold;
 
       switch (instance.state) {
@@ -174,6 +191,7 @@ export function createAlertManager(): AlertManager {
           break;
       }
 
+      changed(instance, previous);
       return instance;
     },
     getAlert: (alertName) => alerts.get(alertName),
@@ -187,8 +205,15 @@ export function createAlertManager(): AlertManager {
       if (instance && instance.state === 'firing') {
         instance.state = 'resolved';
         instance.resolvedAt = Date.now();
+        changed(instance, 'firing');
       }
     },
+    onStateChange: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
   };
 }
 
@@ -197,6 +222,7 @@ export function createAlertManager(): AlertManager {
  */
 export interface NotificationChannel {
   name: string;
+  /** Deliver a firing or resolved alert; alert.state tells which */
   send: (alert: AlertInstance) => Promise<boolean>;
 }
 
@@ -234,13 +260,14 @@ export function createManagedAlertHandler(
 }
 
 /**
- * Creates an alert trigger handler with notifications
+ * Creates an alert trigger handler that notifies when alerts fire and resolve
  */
 export function createNotifyingAlertHandler(
-  channels: NotificationChannel[],
+  channels: NotificationChannel[] | AlertNotifier,
   manager?: AlertManager
 ): HookHandler<AlertTriggerInput, AlertTriggerOutput> {
   const alertManager = manager ?? createAlertManager();
+  const notifier = Array.isArray(channels) ? createAlertNotifier({ channels }) : channels;
 
   return async (input, _context): Promise<HookResult<AlertTriggerOutput>> => {
     // Register alert if not exists
@@ -250,25 +277,11 @@ export function createNotifyingAlertHandler(
         condition: input.condition,
         threshold: input.threshold,
         severity: input.severity,
-        notificationChannels: channels.map((c) => c.name),
       });
     }
 
     const instance = alertManager.evaluate(input.alertName, input.currentValue);
-    const notificationsSent: string[] = [];
-
-    // Send notifications if firing and not already notified
-    if (instance.state === 'firing') {
-      for (const channel of channels) {
-        if (!instance.notificationsSent.includes(channel.name)) {
-          const sent = await channel.send(instance);
-          if (sent) {
-            instance.notificationsSent.push(channel.name);
-            notificationsSent.push(channel.name);
-          }
-        }
-      }
-    }
+    const notificationsSent = await notifier.notify(instance);
 
     return {
       success: true,
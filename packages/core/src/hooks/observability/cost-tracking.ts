@@ -12,27 +12,38 @@ import type {
   CostTrackingOutput,
 } from '../../types/hooks.js';
 import { HookRegistry, HOOK_NAMES } from '../registry.js';
+import {
+  BUNDLED_PRICES,
+  createPricingCatalog,
+  getDefaultPricingCatalog,
+  type ModelPrice,
+  type PricingCatalog,
+} from './pricing.js';
 
 /**
- * Default pricing for common models (per 1K tokens)
+ * Bundled prices for common models (per 1K tokens)
  */
-export const DefaultPricing: Record<string, { input: number; output: number }> = {
-  // Anthropic
-  'claude-3-opus': { input: 0.015, output: 0.075 },
-  'claude-3-sonnet': { input: 0.003, output: 0.015 },
-  'claude-3-haiku': { input: 0.00025, output: 0.00125 },
-  'claude-3.5-sonnet': { input: 0.003, output: 0.015 },
-
-  // OpenAI
-  'gpt-4o': { input: 0.005, output: 0.015 },
-  'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
-  'gpt-4-turbo': { input: 0.01, output: 0.03 },
-
-  // Google
-  'gemini-pro': { input: 0.00025, output: 0.0005 },
-  'gemini-1.5-pro': { input: 0.00125, output: 0.005 },
-  'gemini-1.5-flash': { input: 0.000075, output: 0.0003 },
-};
+export const DefaultPricing: Record<string, { input: number; output: number }> =
+  Object.fromEntries(
+    Object.entries(BUNDLED_PRICES).map(([model, price]) => [
+      model,
+      { input: price.input, output: price.output },
+    ])
+  );
+
+/**
+ * Price a cost tracking input with a catalog
+ */
+export function calculateCost(
+  input: CostTrackingInput,
+  catalog: PricingCatalog = getDefaultPricingCatalog()
+): CostBreakdown {
+  return catalog.calculateCost(input.model, {
+    inputTokens: input.inputTokens,
+    outputTokens: input.outputTokens,
+    cachedTokens: input.cachedTokens ?? (input.cached ? input.inputTokens : 0),
+  });
+}
 
 /**
  * Default cost tracking handler
@@ -41,14 +52,7 @@ export const defaultCostTrackingHandler: HookHandler<
   CostTrackingInput,
   CostTrackingOutput
 > = async (input, _context): Promise<HookResult<CostTrackingOutput>> => {
-  const pricing = DefaultPricing[input.model] ?? { input: 0.001, output: 0.002 };
-
-  const inputCost = (input.inputTokens / 1000) * pricing.input;
-  const outputCost = (input.outputTokens / 1000) * pricing.output;
-
-  // Apply cache discount (typically 90% off for cached tokens)
-  const cacheDiscount = input.cached ? 0.9 : 0;
-  const totalCost = (inputCost * (1 - cacheDiscount)) + outputCost;
+  const { totalCost } = calculateCost(input);
 
   return {
     success: true,
@@ -66,6 +70,7 @@ export interface CostBreakdown {
   inputCost: number;
   outputCost: number;
   cacheDiscount: number;
+  requestCost: number;
   totalCost: number;
 }
 
@@ -169,55 +174,52 @@ export function createCostTracker(): CostTracker {
 }
 
 /**
- * Creates a cost tracking handler with custom pricing
+ * Creates a cost tracking handler with custom pricing, given as a catalog or
+ * as prices that override the default catalog's
  */
 export function createPricedCostHandler(
-  pricing: Record<string, { input: number; output: number }>
+  pricing: PricingCatalog | Record<string, ModelPrice>
 ): HookHandler<CostTrackingInput, CostTrackingOutput> {
-  return async (input, _context): Promise<HookResult<CostTrackingOutput>> => {
-    const modelPricing = pricing[input.model] ?? DefaultPricing[input.model] ?? { input: 0.001, output: 0.002 };
+  const catalog = isPricingCatalog(pricing)
+    ? pricing
+    : createPricingCatalog({ overrides: pricing });
 
-    const inputCost = (input.inputTokens / 1000) * modelPricing.input;
-    const outputCost = (input.outputTokens / 1000) * modelPricing.output;
-    const cacheDiscount = input.cached ? 0.9 : 0;
-    const totalCost = (inputCost * (1 - cacheDiscount)) + outputCost;
+  return async (input, _context): Promise<HookResult<CostTrackingOutput>> => {
+    const breakdown = calculateCost(input, catalog);
 
     return {
       success: true,
       data: {
-        cost: totalCost,
+        cost: breakdown.totalCost,
         currency: 'USD',
       },
       metadata: {
-        breakdown: {
-          inputCost,
-          outputCost,
-          cacheDiscount: inputCost * cacheDiscount,
-          totalCost,
-        },
+        breakdown,
       },
     };
   };
 }
 
+function isPricingCatalog(
+  pricing: PricingCatalog | Record<string, ModelPrice>
+): pricing is PricingCatalog {
+  return typeof pricing['calculateCost'] === 'function';
+}
+
 /**
  * Creates a cost tracking handler with budget management
  */
 export function createBudgetedCostHandler(
   budget: BudgetConfig,
   tracker?: CostTracker,
-  getUserId?: (context: { requestId: string; metadata: Record<string, unknown> }) => string
+  getUserId?: (context: { requestId: string; metadata: Record<string, unknown> }) => string,
+  catalog?: PricingCatalog
 ): HookHandler<CostTrackingInput, CostTrackingOutput> {
   const costTracker = tracker ?? createCostTracker();
 
   return async (input, context): Promise<HookResult<CostTrackingOutput>> => {
     const userId = getUserId ? getUserId(context) : 'default';
-    const pricing = DefaultPricing[input.model] ?? { input: 0.001, output: 0.002 };
-
-    const inputCost = (input.inputTokens / 1000) * pricing.input;
-    const outputCost = (input.outputTokens / 1000) * pricing.output;
-    const cacheDiscount = input.cached ? 0.9 : 0;
-    const totalCost = (inputCost * (1 - cacheDiscount)) + outputCost;
+    const { totalCost } = calculateCost(input, catalog);
 
     // Check per-request limit
     if (budget.perRequestLimit && totalCost > budget.perRequestLimit) {
@@ -282,18 +284,14 @@ export function createBudgetedCostHandler(
  * Creates a cost tracking handler with provider aggregation
  */
 export function createAggregatingCostHandler(
-  tracker?: CostTracker
+  tracker?: CostTracker,
+  catalog?: PricingCatalog
 ): HookHandler<CostTrackingInput, CostTrackingOutput> {
   const costTracker = tracker ?? createCostTracker();
 
   return async (input, context): Promise<HookResult<CostTrackingOutput>> => {
     const userId = (context.metadata['userId'] as string) ?? 'default';
-    const pricing = DefaultPricing[input.model] ?? { input: 0.001, output: 0.002 };
-
-    const inputCost = (input.inputTokens / 1000) * pricing.input;
-    const outputCost = (input.outputTokens / 1000) * pricing.output;
-    const cacheDiscount = input.cached ? 0.9 : 0;
-    const totalCost = (inputCost * (1 - cacheDiscount)) + outputCost;
+    const { totalCost } = calculateCost(input, catalog);
 
     costTracker.track(userId, input.provider, input.model, totalCost);
 
@@ -361,19 +359,15 @@ export function createAlertingCostHandler(
     amount: number;
     callback: (current: number, threshold: number) => void;
   }>,
-  tracker?: CostTracker
+  tracker?: CostTracker,
+  catalog?: PricingCatalog
 ): HookHandler<CostTrackingInput, CostTrackingOutput> {
   const costTracker = tracker ?? createCostTracker();
   const alertedThresholds = new Set<string>();
 
   return async (input, context): Promise<HookResult<CostTrackingOutput>> => {
     const userId = (context.metadata['userId'] as string) ?? 'default';
-    const pricing = DefaultPricing[input.model] ?? { input: 0.001, output: 0.002 };
-
-    const inputCost = (input.inputTokens / 1000) * pricing.input;
-    const outputCost = (input.outputTokens / 1000) * pricing.output;
-    const cacheDiscount = input.cached ? 0.9 : 0;
-    const totalCost = (inputCost * (1 - cacheDiscount)) + outputCost;
+    const { totalCost } = calculateCost(input, catalog);
 
     costTracker.track(userId, input.provider, input.model, totalCost);
 
@@ -9,3 +9,7 @@ export * from './log-enrichment.js';
 export * from './alerts.js';
 export * from './cost-tracking.js';
 export * from './performance-profiling.js';
+export * from './otlp-exporter.js';
+export * from './prometheus.js';
+export * from './pricing.js';
+export * from './notifications.js';
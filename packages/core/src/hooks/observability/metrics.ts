@@ -44,27 +44,64 @@ export interface MetricDefinition {
   labels: string[];
   unit?: string;
   buckets?: number[]; // For histograms
+  quantiles?: number[]; // For summaries
 }
 
+/**
+ * Aggregated values for one label set of a metric. Counters add each value,
+ * gauges keep the latest, histograms count observations per bucket and
+ * summaries keep recent observations for quantiles.
+ */
+export interface MetricSeries {
+  labels: Record<string, string>;
+  value: number;
+  sum: number;
+  count: number;
+  /** Cumulative count per definition bucket (histograms) */
+  bucketCounts?: number[];
+  /** Most recent observations (summaries) */
+  samples?: number[];
+}
+
+/**
+ * A metric, its raw values and its aggregations
+ */
+export interface StoredMetric {
+  definition: MetricDefinition;
+  values: Array<{
+    value: number;
+    labels: Record<string, string>;
+    timestamp: number;
+  }>;
+  aggregated: {
+    sum: number;
+    count: number;
+    min: number;
+    max: number;
+    avg: number;
+  };
+  /** Keyed by the metric's label values */
+  series: Map<string, MetricSeries>;
+}
+
+/**
+ * Metric store options
+ */
+export interface MetricStoreOptions {
+  /** Raw values and summary samples kept per metric and series (default: 1000) */
+  maxValues?: number;
+}
+
+export const DEFAULT_HISTOGRAM_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+export const DEFAULT_SUMMARY_QUANTILES = [0.5, 0.9, 0.99];
+
 /**
  * Metric store interface
  */
 export interface MetricStore {
-  metrics: Map<string, {
-    definition: MetricDefinition;
-    values: Array<{
-      value: number;
-      labels: Record<string, string>;
-      timestamp: number;
-    }>;
-    aggregated: {
-      sum: number;
-      count: number;
-      min: number;
-      max: number;
-      avg: number;
-    };
-  }>;
+  metrics: Map<string, StoredMetric>;
+  /** Declare a metric's type, help text, labels and buckets, dropping anything already recorded */
+  define: (definition: MetricDefinition) => void;
   record: (name: string, value: number, labels: Record<string, string>) => void;
   get: (name: string) => number | undefined;
   getAggregated: (name: string) => { sum: number; count: number; min: number; max: number; avg: number } | undefined;
@@ -72,25 +109,16 @@ export interface MetricStore {
   getAll: () => Record<string, unknown>;
 }
 
+function emptyAggregation(): StoredMetric['aggregated'] {
+  return { sum: 0, count: 0, min: Infinity, max: -Infinity, avg: 0 };
+}
+
 /**
- * Creates a metric store
+ * Creates a metric store. Metrics recorded without a definition are gauges.
  */
-export function createMetricStore(): MetricStore {
-  const metrics = new Map<string, {
-    definition: MetricDefinition;
-    values: Array<{
-      value: number;
-      labels: Record<string, string>;
-      timestamp: number;
-    }>;
-    aggregated: {
-      sum: number;
-      count: number;
-      min: number;
-      max: number;
-      avg: number;
-    };
-  }>();
+export function createMetricStore(options: MetricStoreOptions = {}): MetricStore {
+  const maxValues = options.maxValues ?? 1000;
+  const metrics = new Map<string, StoredMetric>();
 
   const ensureMetric = (name: string) => {
     if (!metrics.has(name)) {
@@ -102,17 +130,64 @@ export function createMetricStore(): MetricStore {
           labels: [],
         },
         values: [],
-        aggregated: { sum: 0, count: 0, min: Infinity, max: -Infinity, avg: 0 },
+        aggregated: emptyAggregation(),
+        series: new Map(),
       });
     }
     return metrics.get(name)!;
   };
 
+  const updateSeries = (metric: StoredMetric, value: number, labels: Record<string, string>) => {
+    const { definition } = metric;
+    const key = JSON.stringify(Object.keys(labels).sort().map((label) => [label, labels[label]]));
+
+    let series = metric.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, value: 0, sum: 0, count: 0 };
+      if (definition.type === 'histogram') {
+        series.bucketCounts = (definition.buckets ?? DEFAULT_HISTOGRAM_BUCKETS).map(() => 0);
+      } else if (definition.type === 'summary') {
+        series.samples = [];
+      }
+      metric.series.set(key, series);
+    }
+
+    series.value = definition.type === 'counter' ? series.value + value : value;
+    series.sum += value;
+    series.count++;
+
+    if (series.bucketCounts) {
+      const buckets = definition.buckets ?? DEFAULT_HISTOGRAM_BUCKETS;
+      buckets.forEach((bound, i) => {
+        if (value <= bound) {
+          series!.bucketCounts![i]!++;
+        }
+      });
+    }
+    if (series.samples) {
+      series.samples.push(value);
+      if (series.samples.length > maxValues) {
+        series.samples.shift();
+      }
+    }
+  };
+
   return {
     metrics,
+    define: (definition) => {
+      const metric = ensureMetric(definition.name);
+      metric.definition = { ...definition };
+      metric.values = [];
+      metric.aggregated = emptyAggregation();
+      metric.series.clear();
+    },
     record: (name, value, labels) => {
       const metric = ensureMetric(name);
       metric.values.push({ value, labels, timestamp: Date.now() });
+      if (metric.values.length > maxValues) {
+        metric.values.shift();
+      }
+      updateSeries(metric, value, labels);
 
       // Update aggregations
       metric.aggregated.sum += value;
@@ -135,7 +210,8 @@ export function createMetricStore(): MetricStore {
       const metric = metrics.get(name);
       if (metric) {
         metric.values = [];
-        metric.aggregated = { sum: 0, count: 0, min: Infinity, max: -Infinity, avg: 0 };
+        metric.aggregated = emptyAggregation();
+        metric.series.clear();
       }
     },
     getAll: () => {
@@ -144,7 +220,7 @@ export function createMetricStore(): MetricStore {
         result[name] = {
           latest: metric.values[metric.values.length - 1]?.value,
           aggregated: metric.aggregated,
-          count: metric.values.length,
+          count: metric.aggregated.count,
         };
       }
       return result;
@@ -0,0 +1,565 @@
+/**
+ * Alert Notifications
+ *
+ * Routes firing and resolved alerts to notification channels, sending each
+ * notification once per channel and dedup key. Built-in channels post to
+ * webhooks (optionally HMAC-signed, retried on failure) and Slack, format
+ * emails for an SMTP transport, append to a JSONL file or log to the console.
+ */
+
+import { createHmac } from 'node:crypto';
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type {
+  AlertDefinition,
+  AlertInstance,
+  AlertManager,
+  NotificationChannel,
+} from './alerts.js';
+
+/**
+ * An alert as delivered to channels
+ */
+export interface AlertNotification {
+  status: 'firing' | 'resolved';
+  dedupKey: string;
+  alertId: string;
+  name: string;
+  severity: AlertDefinition['severity'];
+  condition: string;
+  value: number;
+  threshold: number;
+  labels: Record<string, string>;
+  annotations: Record<string, string>;
+  firedAt?: number;
+  resolvedAt?: number;
+  timestamp: number;
+}
+
+/**
+ * Raised when a channel cannot deliver a notification
+ */
+export class NotificationError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'NotificationError';
+    this.status = status;
+  }
+}
+
+/**
+ * Key that identifies repeats of the same alert: its dedupKey, or its name and labels
+ */
+export function getDedupKey(alert: AlertInstance): string {
+  const { dedupKey, name, labels = {} } = alert.definition;
+  if (dedupKey) {
+    return dedupKey;
+  }
+
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((key) => `${key}=${labels[key]}`);
+  return pairs.length > 0 ? `${name}{${pairs.join(',')}}` : name;
+}
+
+export function toAlertNotification(alert: AlertInstance): AlertNotification {
+  const { definition } = alert;
+  return {
+    status: alert.state === 'resolved' ? 'resolved' : 'firing',
+    dedupKey: getDedupKey(alert),
+    alertId: alert.id,
+    name: definition.name,
+    severity: definition.severity,
+    condition: definition.condition,
+    value: alert.currentValue,
+    threshold: definition.threshold,
+    labels: definition.labels ?? {},
+    annotations: definition.annotations ?? {},
+    firedAt: alert.firedAt,
+    resolvedAt: alert.resolvedAt,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * One line describing the notification, e.g. for logs and message titles
+ */
+export function formatAlertSummary(notification: AlertNotification): string {
+  const { status, name, severity, condition, value, threshold } = notification;
+  const summary =
+    notification.annotations['summary'] ?? `${condition}: value ${value}, threshold ${threshold}`;
+  return `[${status.toUpperCase()}] ${name} (${severity}): ${summary}`;
+}
+
+// =============================================================================
+// Routing and Deduplication
+// =============================================================================
+
+/**
+ * Sends matching alerts to a set of channels
+ */
+export interface NotificationRoute {
+  channels: string[];
+  /** Severities the route matches (default: all) */
+  severity?: Array<AlertDefinition['severity']>;
+  /** Labels the alert must have, with these values */
+  labels?: Record<string, string>;
+  /** Keep matching later routes after this one (default: false) */
+  continue?: boolean;
+  /** Also notify these channels when the alert resolves (default: the notifier's setting) */
+  sendResolved?: boolean;
+}
+
+/**
+ * Alert notifier configuration
+ */
+export interface AlertNotifierConfig {
+  channels: NotificationChannel[];
+  /** Checked in order; alerts listing notificationChannels skip routing */
+  routes?: NotificationRoute[];
+  /** Channels for alerts no route matches (default: all channels when there are no routes) */
+  defaultChannels?: string[];
+  /** Notify channels when alerts resolve (default: true) */
+  sendResolved?: boolean;
+  /** Called when a channel throws while sending */
+  onError?: (channel: string, error: Error) => void;
+}
+
+/**
+ * Alert notifier interface
+ */
+export interface AlertNotifier {
+  /** Notify the alert's channels if it is firing or resolved; returns the channels notified */
+  notify: (alert: AlertInstance) => Promise<string[]>;
+  /** Channels the alert is routed to, with whether they get resolve notifications */
+  route: (alert: AlertInstance) => Array<{ channel: string; sendResolved: boolean }>;
+  /** Notify on every state change of a manager; returns a function that stops watching */
+  watch: (manager: AlertManager) => () => void;
+}
+
+function matchesRoute(alert: AlertInstance, route: NotificationRoute): boolean {
+  const { severity, labels = {} } = alert.definition;
+  if (route.severity && !route.severity.includes(severity)) {
+    return false;
+  }
+  return Object.entries(route.labels ?? {}).every(([key, value]) => labels[key] === value);
+}
+
+/**
+ * Creates an alert notifier
+ */
+export function createAlertNotifier(config: AlertNotifierConfig): AlertNotifier {
+  const channels = new Map(config.channels.map((channel) => [channel.name, channel]));
+  const sendResolved = config.sendResolved ?? true;
+  const routes = config.routes ?? [];
+  const defaultChannels =
+    config.defaultChannels ?? (routes.length === 0 ? [...channels.keys()] : []);
+  /** Last status per dedup key and channel; resolves count even when not sent */
+  const sent = new Map<string, AlertNotification['status']>();
+
+  const route: AlertNotifier['route'] = (alert) => {
+    const targets = new Map<string, boolean>();
+    const add = (names: string[], resolved = sendResolved) => {
+      for (const name of names) {
+        targets.set(name, (targets.get(name) ?? false) || resolved);
+      }
+    };
+
+    if (alert.definition.notificationChannels) {
+      add(alert.definition.notificationChannels);
+    } else {
+      for (const candidate of routes) {
+        if (matchesRoute(alert, candidate)) {
+          add(candidate.channels, candidate.sendResolved);
+          if (!candidate.continue) {
+            break;
+          }
+        }
+      }
+      if (targets.size === 0) {
+        add(defaultChannels);
+      }
+    }
+
+    return [...targets].map(([channel, resolved]) => ({ channel, sendResolved: resolved }));
+  };
+
+  const deliver = async (
+    channel: NotificationChannel,
+    alert: AlertInstance,
+    key: string,
+    status: AlertNotification['status']
+  ): Promise<boolean> => {
+    const previous = sent.get(key);
+    // Claim the notification first so concurrent calls do not send it twice
+    sent.set(key, status);
+
+    let delivered = false;
+    try {
+      delivered = await channel.send(alert);
+    } catch (error) {
+      config.onError?.(channel.name, error instanceof Error ? error : new Error(String(error)));
+    }
+
+    // A resolve that failed still ends the firing, so the next one is sent
+    if (!delivered && status === 'firing') {
+      if (previous === undefined) {
+        sent.delete(key);
+      } else {
+        sent.set(key, previous);
+      }
+    }
+    return delivered;
+  };
+
+  const notify: AlertNotifier['notify'] = async (alert) => {
+    if (alert.state !== 'firing' && alert.state !== 'resolved') {
+      return [];
+    }
+
+    const status = alert.state;
+    const dedupKey = getDedupKey(alert);
+    const deliveries = route(alert).map(async ({ channel: name, sendResolved: resolved }) => {
+      const channel = channels.get(name);
+      const key = `${dedupKey}\u0000${name}`;
+      // Resolve only what was notified as firing, and fire once until resolved
+      const firing = sent.get(key) === 'firing';
+      if (!channel || (status === 'firing' ? firing : !firing)) {
+        return null;
+      }
+      // Without a resolve notification, still end the firing so the next one is sent
+      if (status === 'resolved' && !resolved) {
+        sent.set(key, 'resolved');
+        return null;
+      }
+      return (await deliver(channel, alert, key, status)) ? name : null;
+    });
+
+    const notified = (await Promise.all(deliveries)).filter((name): name is string => !!name);
+    if (status === 'firing') {
+      for (const name of notified) {
+        if (!alert.notificationsSent.includes(name)) {
+          alert.notificationsSent.push(name);
+        }
+      }
+    }
+    return notified;
+  };
+
+  return {
+    notify,
+    route,
+    watch: (manager) =>
+      manager.onStateChange((alert) => {
+        void notify(alert);
+      }),
+  };
+}
+
+// =============================================================================
+// Webhook Channels
+// =============================================================================
+
+/**
+ * Webhook channel configuration
+ */
+export interface WebhookChannelConfig {
+  url: string;
+  /** Channel name used for routing (default: webhook) */
+  name?: string;
+  headers?: Record<string, string>;
+  /** Sign the body with HMAC-SHA256 using this secret */
+  secret?: string;
+  /** Header carrying the signature (default: X-Signature-256) */
+  signatureHeader?: string;
+  /** Retries after a network error, 429 or 5xx response (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled for each retry (default: 1000) */
+  retryDelayMs?: number;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Build the JSON body (default: the AlertNotification) */
+  format?: (notification: AlertNotification) => unknown;
+}
+
+/**
+ * Signature of a webhook body, as `sha256=<hex HMAC>`
+ */
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Creates a channel that POSTs alerts as JSON
+ */
+export function createWebhookChannel(config: WebhookChannelConfig): NotificationChannel {
+  const maxRetries = config.maxRetries ?? 3;
+  const retryDelayMs = config.retryDelayMs ?? 1000;
+  const format = config.format ?? ((notification: AlertNotification) => notification);
+
+  return {
+    name: config.name ?? 'webhook',
+    send: async (alert) => {
+      const body = JSON.stringify(format(toAlertNotification(alert)));
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...config.headers,
+      };
+      if (config.secret) {
+        headers[config.signatureHeader ?? 'X-Signature-256'] = signPayload(body, config.secret);
+      }
+
+      let failure: NotificationError | undefined;
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        if (attempt > 0) {
+          await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)));
+        }
+
+        let response: Response;
+        try {
+          response = await fetch(config.url, {
+            method: 'POST',
+            headers,
+            body,
+            signal: AbortSignal.timeout(config.timeoutMs ?? 10000),
+          });
+        } catch (error) {
+          failure = new NotificationError(
+            `Failed to post alert to ${config.url}`,
+            undefined,
+            error
+          );
+          continue;
+        }
+
+        if (response.ok) {
+          return true;
+        }
+
+        const detail = await response.text().catch(() => '');
+        failure = new NotificationError(
+          `Webhook rejected alert: ${response.status} ${detail}`.trim(),
+          response.status
+        );
+        if (!isRetryable(response.status)) {
+          break;
+        }
+      }
+
+      throw failure;
+    },
+  };
+}
+
+const SLACK_COLORS: Record<AlertDefinition['severity'] | 'resolved', string> = {
+  info: '#439fe0',
+  warning: '#daa038',
+  critical: '#d00000',
+  resolved: '#2eb886',
+};
+
+/**
+ * Slack incoming webhook payload for an alert
+ */
+export function formatSlackMessage(notification: AlertNotification): Record<string, unknown> {
+  const fields = [
+    { title: 'Severity', value: notification.severity, short: true },
+    { title: 'Value', value: String(notification.value), short: true },
+    { title: 'Threshold', value: String(notification.threshold), short: true },
+    ...Object.entries(notification.labels).map(([key, value]) => ({
+      title: key,
+      value,
+      short: true,
+    })),
+  ];
+
+  return {
+    text: formatAlertSummary(notification),
+    attachments: [
+      {
+        color:
+          SLACK_COLORS[notification.status === 'resolved' ? 'resolved' : notification.severity],
+        title: notification.name,
+        text: notification.annotations['description'] ?? notification.condition,
+        fields,
+        footer: notification.dedupKey,
+        ts: Math.floor(notification.timestamp / 1000),
+      },
+    ],
+  };
+}
+
+/**
+ * Slack channel configuration
+ */
+export interface SlackChannelConfig extends Omit<WebhookChannelConfig, 'url' | 'format'> {
+  /** Slack (or Slack-compatible) incoming webhook URL */
+  webhookUrl: string;
+  /** Override the webhook's default channel, e.g. #alerts */
+  channel?: string;
+  username?: string;
+}
+
+/**
+ * Creates a channel that posts alerts to a Slack incoming webhook
+ */
+export function createSlackChannel(config: SlackChannelConfig): NotificationChannel {
+  const { webhookUrl, channel, username, ...webhook } = config;
+  return createWebhookChannel({
+    ...webhook,
+    name: config.name ?? 'slack',
+    url: webhookUrl,
+    format: (notification) => ({
+      ...formatSlackMessage(notification),
+      ...(channel ? { channel } : {}),
+      ...(username ? { username } : {}),
+    }),
+  });
+}
+
+// =============================================================================
+// Email Channel
+// =============================================================================
+
+/**
+ * An alert email, ready to hand to an SMTP client
+ */
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+/**
+ * Email channel configuration
+ */
+export interface EmailChannelConfig {
+  from: string;
+  to: string | string[];
+  /** Channel name used for routing (default: email) */
+  name?: string;
+  /** Prepended to the subject (default: [open-agent]) */
+  subjectPrefix?: string;
+  /** Sends the message, e.g. with an SMTP client; data is the RFC 5322 message for DATA */
+  transport: (message: EmailMessage, data: string) => Promise<void>;
+}
+
+export function formatEmailMessage(
+  notification: AlertNotification,
+  options: Pick<EmailChannelConfig, 'from' | 'to' | 'subjectPrefix'>
+): EmailMessage {
+  const lines = [
+    formatAlertSummary(notification),
+    '',
+    `Alert: ${notification.name}`,
+    `Status: ${notification.status}`,
+    `Severity: ${notification.severity}`,
+    `Condition: ${notification.condition}`,
+    `Value: ${notification.value}`,
+    `Threshold: ${notification.threshold}`,
+    ...Object.entries(notification.labels).map(([key, value]) => `Label ${key}: ${value}`),
+    ...Object.entries(notification.annotations).map(([key, value]) => `${key}: ${value}`),
+    ...(notification.firedAt ? [`Fired at: ${new Date(notification.firedAt).toISOString()}`] : []),
+    ...(notification.resolvedAt
+      ? [`Resolved at: ${new Date(notification.resolvedAt).toISOString()}`]
+      : []),
+  ];
+
+  return {
+    from: options.from,
+    to: Array.isArray(options.to) ? options.to : [options.to],
+    subject: `${options.subjectPrefix ?? '[open-agent]'} ${formatAlertSummary(notification)}`,
+    text: lines.join('\n'),
+  };
+}
+
+/**
+ * The message as SMTP DATA: headers and body with CRLF line endings and
+ * leading dots doubled, without the terminating `.` line
+ */
+export function formatSmtpData(message: EmailMessage, date: Date = new Date()): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('.') ? `.${line}` : line));
+  return [...headers, '', ...body].join('\r\n');
+}
+
+/**
+ * Creates a channel that emails alerts through the given transport
+ */
+export function createEmailChannel(config: EmailChannelConfig): NotificationChannel {
+  return {
+    name: config.name ?? 'email',
+    send: async (alert) => {
+      const message = formatEmailMessage(toAlertNotification(alert), config);
+      await config.transport(message, formatSmtpData(message));
+      return true;
+    },
+  };
+}
+
+// =============================================================================
+// Local Channels
+// =============================================================================
+
+/**
+ * Creates a channel that appends each notification to a JSONL file
+ */
+export function createFileChannel(config: { path: string; name?: string }): NotificationChannel {
+  let ready: Promise<unknown> | undefined;
+
+  return {
+    name: config.name ?? 'file',
+    send: async (alert) => {
+      ready ??= mkdir(dirname(config.path), { recursive: true });
+      await ready;
+      await appendFile(config.path, `${JSON.stringify(toAlertNotification(alert))}\n`, 'utf8');
+      return true;
+    },
+  };
+}
+
+/**
+ * Creates a channel that logs alerts, at error level for critical ones
+ */
+export function createConsoleChannel(
+  config: {
+    name?: string;
+    logger?: Pick<Console, 'log' | 'warn' | 'error'>;
+  } = {}
+): NotificationChannel {
+  const logger = config.logger ?? console;
+
+  return {
+    name: config.name ?? 'console',
+    send: async (alert) => {
+      const notification = toAlertNotification(alert);
+      const log =
+        notification.status === 'resolved'
+          ? logger.log
+          : notification.severity === 'critical'
+            ? logger.error
+            : notification.severity === 'warning'
+              ? logger.warn
+              : logger.log;
+      log.call(logger, formatAlertSummary(notification));
+      return true;
+    },
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * OTLP Trace Exporter
+ *
+ * Sends finished spans to an OpenTelemetry collector using OTLP/HTTP with
+ * JSON encoding, so traces show up in any OTLP-compatible backend.
+ */
+
+import type { SpanExporter, SpanInfo, SpanKind } from './tracing.js';
+import { createTraceExporter } from './tracing.js';
+
+/**
+ * OTLP exporter configuration
+ */
+export interface OtlpExporterConfig {
+  /** Traces endpoint (default: http://localhost:4318/v1/traces) */
+  endpoint?: string;
+  /** Extra request headers, e.g. for collector authentication */
+  headers?: Record<string, string>;
+  /** Reported as the service.name resource attribute (default: open-agent) */
+  serviceName?: string;
+  resourceAttributes?: Record<string, unknown>;
+  batchSize?: number;
+  flushInterval?: number;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Called when a batch flushed in the background fails to export */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Raised when the collector rejects or cannot receive a batch
+ */
+export class OtlpExportError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'OtlpExportError';
+    this.status = status;
+  }
+}
+
+// =============================================================================
+// OTLP JSON Encoding
+// =============================================================================
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } };
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+const SPAN_KINDS: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const STATUS_CODES: Record<SpanInfo['status'], number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+function toAnyValue(value: unknown): OtlpAnyValue {
+  if (typeof value === 'string') {
+    return { stringValue: value };
+  }
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (typeof value === 'bigint') {
+    return { intValue: value.toString() };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toAnyValue) } };
+  }
+  return { stringValue: JSON.stringify(value) };
+}
+
+function toAttributes(attributes: Record<string, unknown> = {}): OtlpKeyValue[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+function toUnixNano(epochMs: number): string {
+  return (BigInt(Math.round(epochMs * 1000)) * 1000n).toString();
+}
+
+/**
+ * Encode spans as an OTLP/JSON ExportTraceServiceRequest
+ */
+export function toOtlpTraceRequest(
+  spans: SpanInfo[],
+  resourceAttributes: Record<string, unknown> = {}
+): Record<string, unknown> {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toAttributes(resourceAttributes) },
+        scopeSpans: [
+          {
+            scope: { name: '@open-agent/core' },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.operationName,
+              kind: SPAN_KINDS[span.kind ?? 'internal'],
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+              attributes: toAttributes(span.attributes),
+              events: span.events.map((event) => ({
+                name: event.name,
+                timeUnixNano: toUnixNano(event.timestamp),
+                attributes: toAttributes(event.attributes),
+              })),
+              status: {
+                code: STATUS_CODES[span.status],
+                ...(span.statusMessage ? { message: span.statusMessage } : {}),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+// =============================================================================
+// Exporter
+// =============================================================================
+
+/**
+ * Creates a batching exporter that posts spans to an OTLP/HTTP collector
+ */
+export function createOtlpTraceExporter(config: OtlpExporterConfig = {}): SpanExporter & {
+  flush: () => Promise<void>;
+  stop: () => void;
+} {
+  const endpoint = config.endpoint ?? 'http://localhost:4318/v1/traces';
+  const resourceAttributes = {
+    'service.name': config.serviceName ?? 'open-agent',
+    ...config.resourceAttributes,
+  };
+
+  const send = async (spans: SpanInfo[]): Promise<void> => {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...config.headers },
+        body: JSON.stringify(toOtlpTraceRequest(spans, resourceAttributes)),
+        signal: AbortSignal.timeout(config.timeoutMs ?? 10000),
+      });
+    } catch (error) {
+      throw new OtlpExportError(
+        `Failed to export ${spans.length} span(s) to ${endpoint}`,
+        undefined,
+        error
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new OtlpExportError(
+        `Collector rejected ${spans.length} span(s): ${response.status} ${detail}`.trim(),
+        response.status
+      );
+    }
+  };
+
+  return createTraceExporter(send, config.batchSize, config.flushInterval, config.onError);
+}
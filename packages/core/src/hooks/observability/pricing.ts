@@ -0,0 +1,176 @@
+/**
+ * Pricing Catalog
+ *
+ * Model prices for cost tracking, merged from the bundled pricing.json,
+ * prices reported by adapters and user overrides, in increasing precedence.
+ * Model ids are matched case-insensitively, with provider prefixes
+ * (`anthropic/...`), date suffixes and `-latest` stripped, and aliases
+ * resolved.
+ */
+
+import type { ModelInfo } from '../../types/hooks.js';
+import type { CostBreakdown } from './cost-tracking.js';
+import bundledPricing from './pricing.json' with { type: 'json' };
+
+/**
+ * Price of a model in USD per 1K tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Price of input tokens read from the prompt cache (default: 10% of input) */
+  cachedInput?: number;
+  /** Flat price per request, on top of token costs */
+  request?: number;
+}
+
+/**
+ * Token counts to price
+ */
+export interface PricedUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens read from the prompt cache; part of inputTokens */
+  cachedTokens?: number;
+}
+
+/**
+ * Pricing catalog configuration
+ */
+export interface PricingCatalogConfig {
+  /** Prices that win over adapter and bundled prices, keyed by model id */
+  overrides?: Record<string, ModelPrice>;
+  /** Extra aliases, mapped to the model id they are priced as */
+  aliases?: Record<string, string>;
+  /** Include the bundled prices (default: true) */
+  bundled?: boolean;
+  /** Price for unknown models; null prices them at zero (default: $0.001 / $0.002) */
+  fallbackPrice?: ModelPrice | null;
+}
+
+/**
+ * Pricing catalog interface
+ */
+export interface PricingCatalog {
+  /** Price of a model, or undefined when the catalog does not know it */
+  getPrice: (model: string) => ModelPrice | undefined;
+  /** Set a price that wins over adapter and bundled prices */
+  setPrice: (model: string, price: ModelPrice) => void;
+  /** Price a model id as another model */
+  addAlias: (alias: string, model: string) => void;
+  /** Add the prices an adapter reports for its models */
+  addModels: (models: ModelInfo[]) => void;
+  /** Cost of a request, using the fallback price for unknown models */
+  calculateCost: (model: string, usage: PricedUsage) => CostBreakdown;
+}
+
+export const DEFAULT_FALLBACK_PRICE: ModelPrice = { input: 0.001, output: 0.002 };
+
+/** Cached input is billed at 10% of the input price when no cached price is known */
+const DEFAULT_CACHE_RATE = 0.1;
+
+/** Prices shipped in pricing.json */
+export const BUNDLED_PRICES: Record<string, ModelPrice> = bundledPricing.models;
+const BUNDLED_ALIASES: Record<string, string> = bundledPricing.aliases;
+
+/**
+ * Ids to look a model up under, most specific first
+ */
+function candidateIds(model: string): string[] {
+  const id = model.trim().toLowerCase();
+  const bare = id.slice(id.lastIndexOf('/') + 1);
+  const undated = bare.replace(/-(latest|\d{8}|\d{4}-\d{2}-\d{2})$/, '');
+  return [...new Set([id, bare, undated])];
+}
+
+function lowerKeys<T>(record: Record<string, T> = {}): Map<string, T> {
+  return new Map(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value]));
+}
+
+/**
+ * Creates a pricing catalog
+ */
+export function createPricingCatalog(config: PricingCatalogConfig = {}): PricingCatalog {
+  const bundled =
+    config.bundled === false ? new Map<string, ModelPrice>() : lowerKeys(BUNDLED_PRICES);
+  const adapterPrices = new Map<string, ModelPrice>();
+  const overrides = lowerKeys(config.overrides);
+  const aliases = lowerKeys({
+    ...(config.bundled === false ? {} : BUNDLED_ALIASES),
+    ...config.aliases,
+  });
+  const fallbackPrice =
+    config.fallbackPrice === undefined ? DEFAULT_FALLBACK_PRICE : config.fallbackPrice;
+
+  const lookup = (id: string) => overrides.get(id) ?? adapterPrices.get(id) ?? bundled.get(id);
+
+  const getPrice = (model: string): ModelPrice | undefined => {
+    for (const id of candidateIds(model)) {
+      const alias = aliases.get(id);
+      const price = lookup(id) ?? (alias ? lookup(alias.toLowerCase()) : undefined);
+      if (price) {
+        return price;
+      }
+    }
+    return undefined;
+  };
+
+  return {
+    getPrice,
+    setPrice: (model, price) => {
+      overrides.set(model.toLowerCase(), price);
+    },
+    addAlias: (alias, model) => {
+      aliases.set(alias.toLowerCase(), model);
+    },
+    addModels: (models) => {
+      for (const model of models) {
+        adapterPrices.set(model.id.toLowerCase(), {
+          input: model.inputCostPer1k,
+          output: model.outputCostPer1k,
+          ...(model.cachedInputCostPer1k !== undefined
+            ? { cachedInput: model.cachedInputCostPer1k }
+            : {}),
+          ...(model.requestCost !== undefined ? { request: model.requestCost } : {}),
+        });
+      }
+    },
+    calculateCost: (model, usage) => {
+      const price = getPrice(model) ?? fallbackPrice;
+      if (!price) {
+        return { inputCost: 0, outputCost: 0, cacheDiscount: 0, requestCost: 0, totalCost: 0 };
+      }
+
+      const cachedTokens = Math.min(usage.cachedTokens ?? 0, usage.inputTokens);
+      const cachedPrice = price.cachedInput ?? price.input * DEFAULT_CACHE_RATE;
+      const inputCost = (usage.inputTokens / 1000) * price.input;
+      const outputCost = (usage.outputTokens / 1000) * price.output;
+      const cacheDiscount = (cachedTokens / 1000) * (price.input - cachedPrice);
+      const requestCost = price.request ?? 0;
+
+      return {
+        inputCost,
+        outputCost,
+        cacheDiscount,
+        requestCost,
+        totalCost: inputCost - cacheDiscount + outputCost + requestCost,
+      };
+    },
+  };
+}
+
+let defaultCatalog: PricingCatalog | null = null;
+
+/**
+ * The catalog cost handlers use when none is given
+ */
+export function getDefaultPricingCatalog(): PricingCatalog {
+  if (!defaultCatalog) {
+    defaultCatalog = createPricingCatalog();
+  }
+  return defaultCatalog;
+}
+
+export function resetDefaultPricingCatalog(): void {
+  defaultCatalog = null;
+}
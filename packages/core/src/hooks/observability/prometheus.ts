@@ -0,0 +1,226 @@
+/**
+ * Prometheus Exporter
+ *
+ * Renders a MetricStore in the Prometheus text exposition format and serves
+ * it from a small HTTP endpoint for scraping.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { MetricSeries, MetricStore, StoredMetric } from './metrics.js';
+import { DEFAULT_HISTOGRAM_BUCKETS, DEFAULT_SUMMARY_QUANTILES } from './metrics.js';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// =============================================================================
+// Text Format
+// =============================================================================
+
+/**
+ * Prometheus formatting options
+ */
+export interface PrometheusFormatOptions {
+  /** Prepended to every metric name, e.g. `open_agent_` */
+  prefix?: string;
+  /** Labels added to every series */
+  defaultLabels?: Record<string, string>;
+}
+
+function sanitizeName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_:]/g, '_');
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${sanitizeName(key)}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Quantile of a set of observations, by nearest rank
+ */
+function quantile(samples: number[], q: number): number {
+  if (samples.length === 0) return NaN;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = Math.ceil(q * sorted.length) - 1;
+  return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)]!;
+}
+
+function formatSeries(
+  name: string,
+  metric: StoredMetric,
+  series: MetricSeries,
+  defaultLabels: Record<string, string>
+): string[] {
+  const labels = { ...defaultLabels, ...series.labels };
+  const { definition } = metric;
+
+  switch (definition.type) {
+    case 'histogram': {
+      const buckets = definition.buckets ?? DEFAULT_HISTOGRAM_BUCKETS;
+      return [
+        ...buckets.map(
+          (bound, i) =>
+            `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ` +
+            formatValue(series.bucketCounts?.[i] ?? 0)
+        ),
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`,
+        `${name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`,
+        `${name}_count${formatLabels(labels)} ${series.count}`,
+      ];
+    }
+    case 'summary': {
+      const quantiles = definition.quantiles ?? DEFAULT_SUMMARY_QUANTILES;
+      return [
+        ...quantiles.map(
+          (q) =>
+            `${name}${formatLabels({ ...labels, quantile: String(q) })} ` +
+            formatValue(quantile(series.samples ?? [], q))
+        ),
+        `${name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`,
+        `${name}_count${formatLabels(labels)} ${series.count}`,
+      ];
+    }
+    default:
+      return [`${name}${formatLabels(labels)} ${formatValue(series.value)}`];
+  }
+}
+
+/**
+ * Render every metric in the store in the Prometheus text format
+ */
+export function formatPrometheusMetrics(
+  store: MetricStore,
+  options: PrometheusFormatOptions = {}
+): string {
+  const lines: string[] = [];
+
+  for (const metric of store.metrics.values()) {
+    const name = sanitizeName(`${options.prefix ?? ''}${metric.definition.name}`);
+    if (metric.definition.description) {
+      lines.push(`# HELP ${name} ${escapeHelp(metric.definition.description)}`);
+    }
+    lines.push(`# TYPE ${name} ${metric.definition.type}`);
+    for (const series of metric.series.values()) {
+      lines.push(...formatSeries(name, metric, series, options.defaultLabels ?? {}));
+    }
+  }
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+// =============================================================================
+// Metrics Server
+// =============================================================================
+
+/**
+ * Metrics server configuration
+ */
+export interface MetricsServerConfig extends PrometheusFormatOptions {
+  /** Port to listen on; 0 picks a free port (default: 9464) */
+  port?: number;
+  host?: string;
+  /** Endpoint path (default: /metrics) */
+  path?: string;
+}
+
+/**
+ * Metrics Server
+ *
+ * Serves the store on GET /metrics for Prometheus to scrape.
+ */
+export class MetricsServer {
+  private store: MetricStore;
+  private config: MetricsServerConfig;
+  private httpServer?: Server;
+
+  constructor(store: MetricStore, config: MetricsServerConfig = {}) {
+    this.store = store;
+    this.config = config;
+  }
+
+  async start(): Promise<void> {
+    if (this.httpServer) {
+      return;
+    }
+
+    const httpServer = createServer((req, res) => this.handleRequest(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.config.port ?? 9464, this.config.host ?? 'localhost', () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+  }
+
+  async stop(): Promise<void> {
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  isRunning(): boolean {
+    return this.httpServer !== undefined;
+  }
+
+  /**
+   * Get the port the server is listening on
+   */
+  getPort(): number {
+    const address = this.httpServer?.address();
+    return typeof address === 'object' && address ? address.port : (this.config.port ?? 9464);
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path !== (this.config.path ?? '/metrics')) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not Found\n');
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { 'Content-Type': 'text/plain', Allow: 'GET, HEAD' });
+      res.end('Method Not Allowed\n');
+      return;
+    }
+
+    const body = formatPrometheusMetrics(this.store, this.config);
+    res.writeHead(200, {
+      'Content-Type': PROMETHEUS_CONTENT_TYPE,
+      'Content-Length': Buffer.byteLength(body),
+    });
+    res.end(req.method === 'HEAD' ? undefined : body);
+  }
+}
+
+/**
+ * Create a metrics server for a store
+ */
+export function createMetricsServer(
+  store: MetricStore,
+  config?: MetricsServerConfig
+): MetricsServer {
+  return new MetricsServer(store, config);
+}
@@ -215,6 +215,22 @@ export const SemanticConventions = {
   LLM_OUTPUT_TOKENS: 'llm.output_tokens',
   LLM_TEMPERATURE: 'llm.temperature',
 
+  // OpenTelemetry GenAI semantic conventions
+  GEN_AI_SYSTEM: 'gen_ai.system',
+  GEN_AI_OPERATION_NAME: 'gen_ai.operation.name',
+  GEN_AI_REQUEST_MODEL: 'gen_ai.request.model',
+  GEN_AI_REQUEST_TEMPERATURE: 'gen_ai.request.temperature',
+  GEN_AI_REQUEST_MAX_TOKENS: 'gen_ai.request.max_tokens',
+  GEN_AI_RESPONSE_ID: 'gen_ai.response.id',
+  GEN_AI_RESPONSE_MODEL: 'gen_ai.response.model',
+  GEN_AI_RESPONSE_FINISH_REASONS: 'gen_ai.response.finish_reasons',
+  GEN_AI_USAGE_INPUT_TOKENS: 'gen_ai.usage.input_tokens',
+  GEN_AI_USAGE_OUTPUT_TOKENS: 'gen_ai.usage.output_tokens',
+  GEN_AI_AGENT_ID: 'gen_ai.agent.id',
+  GEN_AI_AGENT_NAME: 'gen_ai.agent.name',
+  GEN_AI_TOOL_NAME: 'gen_ai.tool.name',
+  GEN_AI_TOOL_CALL_ID: 'gen_ai.tool.call.id',
+
   // Agent
   AGENT_ID: 'agent.id',
   AGENT_NAME: 'agent.name',
@@ -225,6 +241,10 @@ export const SemanticConventions = {
   TOOL_DURATION: 'tool.duration',
   TOOL_SUCCESS: 'tool.success',
 
+  // Hook
+  HOOK_NAME: 'hook.name',
+  HOOK_ID: 'hook.id',
+
   // Error
   ERROR_TYPE: 'error.type',
   ERROR_MESSAGE: 'error.message',
@@ -16,7 +16,7 @@ import { HookRegistry, HOOK_NAMES } from '../registry.js';
 /**
  * Generate a random trace ID
  */
-function generateTraceId(): string {
+export function generateTraceId(): string {
   const bytes = new Uint8Array(16);
   crypto.getRandomValues(bytes);
   return Array.from(bytes)
@@ -27,7 +27,7 @@ function generateTraceId(): string {
 /**
  * Generate a random span ID
  */
-function generateSpanId(): string {
+export function generateSpanId(): string {
   const bytes = new Uint8Array(8);
   crypto.getRandomValues(bytes);
   return Array.from(bytes)
@@ -35,6 +35,32 @@ function generateSpanId(): string {
     .join('');
 }
 
+/**
+ * Format a W3C traceparent header
+ */
+export function formatTraceparent(traceId: string, spanId: string, sampled = true): string {
+  return `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
+}
+
+/**
+ * Parse a W3C traceparent header, or return undefined when it is malformed
+ */
+export function parseTraceparent(
+  traceparent: string
+): { traceId: string; spanId: string; sampled: boolean } | undefined {
+  const match = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})$/.exec(
+    traceparent.trim().toLowerCase()
+  );
+  if (!match || match[1] === 'ff' || /^0+$/.test(match[2]!) || /^0+$/.test(match[3]!)) {
+    return undefined;
+  }
+  return {
+    traceId: match[2]!,
+    spanId: match[3]!,
+    sampled: (parseInt(match[4]!, 16) & 0x01) === 1,
+  };
+}
+
 /**
  * Default trace start handler
  */
@@ -70,6 +96,28 @@ export interface SpanInfo {
   }>;
   status: 'unset' | 'ok' | 'error';
   statusMessage?: string;
+  /** Role of the span in the trace (default: internal) */
+  kind?: SpanKind;
+}
+
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+/**
+ * Options for starting a span
+ */
+export interface StartSpanOptions {
+  /** Use this span ID instead of generating one, e.g. one a trace start hook chose */
+  spanId?: string;
+  /** Start time in epoch milliseconds, for spans recorded after the fact */
+  startTime?: number;
+  kind?: SpanKind;
+}
+
+/**
+ * Receives finished spans, e.g. the exporter returned by createTraceExporter()
+ */
+export interface SpanExporter {
+  export: (span: SpanInfo) => void;
 }
 
 /**
@@ -78,7 +126,13 @@ export interface SpanInfo {
 export interface Tracer {
   traces: Map<string, SpanInfo[]>;
   activeSpans: Map<string, SpanInfo>;
-  startSpan: (traceId: string, operationName: string, parentSpanId?: string, attributes?: Record<string, unknown>) => SpanInfo;
+  startSpan: (
+    traceId: string,
+    operationName: string,
+    parentSpanId?: string,
+    attributes?: Record<string, unknown>,
+    options?: StartSpanOptions
+  ) => SpanInfo;
   endSpan: (spanId: string, status?: 'ok' | 'error', statusMessage?: string) => void;
   getSpan: (spanId: string) => SpanInfo | undefined;
   getTrace: (traceId: string) => SpanInfo[];
@@ -96,17 +150,18 @@ export function createTracer(): Tracer {
   return {
     traces,
     activeSpans,
-    startSpan: (traceId, operationName, parentSpanId, attributes = {}) => {
-      const spanId = generateSpanId();
+    startSpan: (traceId, operationName, parentSpanId, attributes = {}, options = {}) => {
+      const spanId = options.spanId ?? generateSpanId();
       const span: SpanInfo = {
         spanId,
         traceId,
         parentSpanId,
         operationName,
-        startTime: Date.now(),
+        startTime: options.startTime ?? Date.now(),
         attributes,
         events: [],
         status: 'unset',
+        ...(options.kind ? { kind: options.kind } : {}),
       };
 
       activeSpans.set(spanId, span);
@@ -319,16 +374,12 @@ export function createW3CTraceHandler(): HookHandler<TraceStartInput, TraceStart
     let parentSpanId: string | undefined;
     let sampled = true;
 
-    if (traceparent) {
-      const parts = traceparent.split('-');
-      if (parts.length === 4) {
-        // version-traceId-parentId-flags
-        traceId = parts[1] ?? generateTraceId();
-        parentSpanId = parts[2];
-        sampled = (parseInt(parts[3] ?? '01', 16) & 0x01) === 1;
-      } else {
-        traceId = generateTraceId();
-      }
+    // version-traceId-parentId-flags
+    const parent = traceparent ? parseTraceparent(traceparent) : undefined;
+    if (parent) {
+      traceId = parent.traceId;
+      parentSpanId = parent.spanId;
+      sampled = parent.sampled;
     } else {
       traceId = generateTraceId();
     }
@@ -343,7 +394,7 @@ export function createW3CTraceHandler(): HookHandler<TraceStartInput, TraceStart
         sampled,
       },
       metadata: {
-        traceparent: `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`,
+        traceparent: formatTraceparent(traceId, spanId, sampled),
         tracestate: input.attributes?.['tracestate'] ?? '',
         parentSpanId,
       },
@@ -352,14 +403,15 @@ export function createW3CTraceHandler(): HookHandler<TraceStartInput, TraceStart
 }
 
 /**
- * Creates a trace exporter
+ * Creates a trace exporter. Batches flushed on a timer or when full report
+ * export failures to onError; flush() rejects with them.
  */
 export function createTraceExporter(
   exportFn: (spans: SpanInfo[]) => Promise<void>,
   batchSize: number = 100,
-  flushInterval: number = 5000
-): {
-  export: (span: SpanInfo) => void;
+  flushInterval: number = 5000,
+  onError: (error: Error) => void = () => {}
+): SpanExporter & {
   flush: () => Promise<void>;
   stop: () => void;
 } {
@@ -372,13 +424,19 @@ export function createTraceExporter(
     await exportFn(toExport);
   };
 
-  intervalId = setInterval(flush, flushInterval);
+  const flushInBackground = () => {
+    flush().catch((error) => onError(error instanceof Error ? error : new Error(String(error))));
+  };
+
+  intervalId = setInterval(flushInBackground, flushInterval);
+  // Don't keep the process alive just to flush spans
+  intervalId.unref?.();
 
   return {
     export: (span) => {
       buffer.push(span);
       if (buffer.length >= batchSize) {
-        flush();
+        flushInBackground();
       }
     },
     flush,
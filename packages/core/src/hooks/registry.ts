@@ -106,7 +106,13 @@ interface HookRegistryEvents {
   'hook:unregistered': (hookId: string) => void;
   'hook:enabled': (hookId: string) => void;
   'hook:disabled': (hookId: string) => void;
-  'hook:executed': (hookId: string, duration: number, success: boolean) => void;
+  'hook:executed': (
+    hookId: string,
+    duration: number,
+    success: boolean,
+    hookName: HookName,
+    context: HookContext
+  ) => void;
   'hook:error': (hookId: string, error: Error) => void;
 }
 
@@ -244,7 +250,7 @@ export class HookRegistry extends EventEmitter<HookRegistryEvents> {
         )) as HookResult<TOutput>;
 
         const duration = performance.now() - startTime;
-        this.emit('hook:executed', hookId, duration, lastResult.success);
+        this.emit('hook:executed', hookId, duration, lastResult.success, hookName, context);
 
         // If a hook fails and is not recoverable, stop the chain
         if (!lastResult.success && !lastResult.recoverable) {
@@ -255,7 +261,7 @@ export class HookRegistry extends EventEmitter<HookRegistryEvents> {
         const duration = performance.now() - startTime;
         const err = error instanceof Error ? error : new Error(String(error));
 
-        this.emit('hook:executed', hookId, duration, false);
+        this.emit('hook:executed', hookId, duration, false, hookName, context);
         this.emit('hook:error', hookId, err);
 
         return {
@@ -304,12 +310,19 @@ export class HookRegistry extends EventEmitter<HookRegistryEvents> {
         try {
           const result = (await registration.handler(input, context)) as HookResult<TOutput>;
           const duration = performance.now() - startTime;
-          this.emit('hook:executed', registration.metadata.id, duration, result.success);
+          this.emit(
+            'hook:executed',
+            registration.metadata.id,
+            duration,
+            result.success,
+            hookName,
+            context
+          );
           return result;
         } catch (error) {
           const duration = performance.now() - startTime;
           const err = error instanceof Error ? error : new Error(String(error));
-          this.emit('hook:executed', registration.metadata.id, duration, false);
+          this.emit('hook:executed', registration.metadata.id, duration, false, hookName, context);
           this.emit('hook:error', registration.metadata.id, err);
           return {
             success: false,
@@ -5,6 +5,7 @@
  * Use cases: data at rest encryption, field-level encryption, key management.
  */
 
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
 import type {
   HookHandler,
   HookResult,
@@ -14,7 +15,8 @@ import type {
 import { HookRegistry, HOOK_NAMES } from '../registry.js';
 
 /**
- * Supported encryption algorithms
+ * Supported encryption algorithms. Both are AEAD ciphers: decryption fails
+ * when the ciphertext, IV, tag, algorithm or key id has been altered.
  */
 export const SupportedAlgorithms = {
   'aes-256-gcm': {
@@ -23,12 +25,6 @@ export const SupportedAlgorithms = {
     ivLength: 12,
     tagLength: 16,
   },
-  'aes-256-cbc': {
-    name: 'AES-CBC',
-    keyLength: 256,
-    ivLength: 16,
-    tagLength: 0,
-  },
   'chacha20-poly1305': {
     name: 'ChaCha20-Poly1305',
     keyLength: 256,
@@ -39,13 +35,36 @@ export const SupportedAlgorithms = {
 
 export type EncryptionAlgorithm = keyof typeof SupportedAlgorithms;
 
+/**
+ * Raised when ciphertext cannot be decrypted: a malformed envelope, an unknown
+ * key or a failed authentication check
+ */
+export class DecryptionError extends Error {
+  keyId?: string;
+
+  constructor(message: string, keyId?: string, cause?: Error) {
+    super(message, { cause });
+    this.name = 'DecryptionError';
+    this.keyId = keyId;
+  }
+}
+
 /**
  * Key store interface for managing encryption keys
  */
 export interface KeyStore {
-  keys: Map<string, { key: Uint8Array; algorithm: EncryptionAlgorithm; createdAt: number }>;
-  getKey: (keyId: string) => { key: Uint8Array; algorithm: EncryptionAlgorithm } | undefined;
+  keys: Map<
+    string,
+    { key: Uint8Array; algorithm: EncryptionAlgorithm; createdAt: number; retiredAt?: number }
+  >;
+  getKey: (
+    keyId: string
+  ) => { key: Uint8Array; algorithm: EncryptionAlgorithm; retired?: boolean } | undefined;
   setKey: (keyId: string, key: Uint8Array, algorithm: EncryptionAlgorithm) => void;
+  /**
+   * Create a fresh key under the new id. The old key is retired: it still
+   * decrypts existing ciphertext but is no longer used to encrypt.
+   */
   rotateKey: (oldKeyId: string, newKeyId: string) => void;
   deleteKey: (keyId: string) => void;
   listKeys: () => string[];
@@ -55,14 +74,14 @@ export interface KeyStore {
  * Creates a key store
  */
 export function createKeyStore(): KeyStore {
-  const keys = new Map<string, { key: Uint8Array; algorithm: EncryptionAlgorithm; createdAt: number }>();
+  const keys: KeyStore['keys'] = new Map();
 
   return {
     keys,
     getKey: (keyId) => {
       const entry = keys.get(keyId);
       if (!entry) return undefined;
-      return { key: entry.key, algorithm: entry.algorithm };
+      return { key: entry.key, algorithm: entry.algorithm, retired: entry.retiredAt !== undefined };
     },
     setKey: (keyId, key, algorithm) => {
       keys.set(keyId, { key, algorithm, createdAt: Date.now() });
@@ -70,8 +89,13 @@ export function createKeyStore(): KeyStore {
     rotateKey: (oldKeyId, newKeyId) => {
       const oldEntry = keys.get(oldKeyId);
       if (oldEntry) {
-        keys.set(newKeyId, { ...oldEntry, createdAt: Date.now() });
-        keys.delete(oldKeyId);
+        const now = Date.now();
+        keys.set(newKeyId, {
+          key: generateKey(oldEntry.algorithm),
+          algorithm: oldEntry.algorithm,
+          createdAt: now,
+        });
+        oldEntry.retiredAt ??= now;
       }
     },
     deleteKey: (keyId) => {
@@ -82,70 +106,241 @@ export function createKeyStore(): KeyStore {
 }
 
 /**
- * Generate a random IV
+ * Key store used by the default handler
  */
-function generateIV(length: number): string {
-  const bytes = new Uint8Array(length);
-  crypto.getRandomValues(bytes);
-  return Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
-}
+export const defaultKeyStore: KeyStore = createKeyStore();
 
 /**
  * Generate a random key ID
  */
 function generateKeyId(): string {
-  const bytes = new Uint8Array(8);
-  crypto.getRandomValues(bytes);
-  return 'key-' + Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
+  return 'key-' + randomBytes(8).toString('hex');
 }
 
 /**
- * Simple XOR-based encryption for demonstration (NOT SECURE FOR PRODUCTION)
- * In production, use WebCrypto API or a proper crypto library
+ * Generate a random key for an algorithm
  */
-function simpleEncrypt(data: string, _key: Uint8Array, iv: string): string {
-  // Base64 encode with IV prefix for demonstration
-  const combined = iv + ':' + btoa(data);
-  return combined;
+function generateKey(algorithm: EncryptionAlgorithm): Uint8Array {
+  return new Uint8Array(randomBytes(SupportedAlgorithms[algorithm].keyLength / 8));
+}
+
+function isSupportedAlgorithm(algorithm: string): algorithm is EncryptionAlgorithm {
+  return Object.prototype.hasOwnProperty.call(SupportedAlgorithms, algorithm);
+}
+
+function serialize(data: unknown): string {
+  return typeof data === 'string' ? data : JSON.stringify(data);
 }
 
+function failure(message: string): HookResult<DataEncryptionOutput> {
+  return { success: false, error: new Error(message), recoverable: false };
+}
+
+// =============================================================================
+// Ciphertext Envelopes
+// =============================================================================
+
 /**
- * Default data encryption handler
+ * Envelope format version. An envelope is
+ * `enc1:<algorithm>:<key id>:<iv>:<tag>:<ciphertext>`, with every part after
+ * the algorithm base64url-encoded. The first three parts are authenticated
+ * as additional data, so the key id cannot be swapped.
  */
-export const defaultDataEncryptionHandler: HookHandler<
-  DataEncryptionInput,
-  DataEncryptionOutput
-> = async (input, _context): Promise<HookResult<DataEncryptionOutput>> => {
-  const algorithm = (input.algorithm ?? 'aes-256-gcm') as EncryptionAlgorithm;
-  const keyId = input.keyId ?? generateKeyId();
+const ENVELOPE_VERSION = 'enc1';
+
+/**
+ * Key id and algorithm recorded in an envelope
+ */
+export interface EnvelopeInfo {
+  version: string;
+  algorithm: EncryptionAlgorithm;
+  keyId: string;
+}
 
-  const algInfo = SupportedAlgorithms[algorithm] ?? SupportedAlgorithms['aes-256-gcm'];
-  const iv = generateIV(algInfo.ivLength);
+interface ParsedEnvelope extends EnvelopeInfo {
+  header: string;
+  iv: Buffer;
+  tag: Buffer;
+  ciphertext: Buffer;
+}
 
-  // Serialize data to string
-  const dataStr = typeof input.data === 'string' ? input.data : JSON.stringify(input.data);
+function createCipher(algorithm: EncryptionAlgorithm, key: Uint8Array, iv: Buffer) {
+  const authTagLength = SupportedAlgorithms[algorithm].tagLength;
+  return algorithm === 'chacha20-poly1305'
+    ? createCipheriv(algorithm, key, iv, { authTagLength })
+    : createCipheriv(algorithm, key, iv, { authTagLength });
+}
 
-  // Generate a placeholder key for demonstration
-  const key = new Uint8Array(algInfo.keyLength / 8);
-  crypto.getRandomValues(key);
+function createDecipher(algorithm: EncryptionAlgorithm, key: Uint8Array, iv: Buffer) {
+  const authTagLength = SupportedAlgorithms[algorithm].tagLength;
+  return algorithm === 'chacha20-poly1305'
+    ? createDecipheriv(algorithm, key, iv, { authTagLength })
+    : createDecipheriv(algorithm, key, iv, { authTagLength });
+}
 
-  // Encrypt (placeholder implementation)
-  const encrypted = simpleEncrypt(dataStr, key, iv);
+/**
+ * Encrypt and return the envelope along with its IV
+ */
+function seal(
+  plaintext: string,
+  key: Uint8Array,
+  keyId: string,
+  algorithm: EncryptionAlgorithm
+): { envelope: string; iv: Buffer } {
+  const { keyLength, ivLength } = SupportedAlgorithms[algorithm];
+  if (key.length !== keyLength / 8) {
+    throw new Error(`${algorithm} requires a ${keyLength / 8}-byte key`);
+  }
+
+  const iv = randomBytes(ivLength);
+  const header = [
+    ENVELOPE_VERSION,
+    algorithm,
+    Buffer.from(keyId, 'utf8').toString('base64url'),
+  ].join(':');
+  const cipher = createCipher(algorithm, key, iv);
+  cipher.setAAD(Buffer.from(header, 'utf8'), {
+    plaintextLength: Buffer.byteLength(plaintext, 'utf8'),
+  });
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  const envelope = [header, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join(':');
+  return { envelope, iv };
+}
+
+function parse(envelope: string): ParsedEnvelope {
+  const parts = envelope.split(':');
+  const [version, algorithm, keyId, iv, tag, ciphertext] = parts;
+  if (
+    parts.length !== 6 ||
+    version !== ENVELOPE_VERSION ||
+    !isSupportedAlgorithm(algorithm!) ||
+    !keyId ||
+    !iv ||
+    !tag
+  ) {
+    throw new DecryptionError('Malformed ciphertext envelope');
+  }
 
   return {
-    success: true,
-    data: {
-      encrypted,
-      algorithm,
-      keyId,
-      iv,
-    },
+    version,
+    algorithm,
+    keyId: Buffer.from(keyId, 'base64url').toString('utf8'),
+    header: parts.slice(0, 3).join(':'),
+    iv: Buffer.from(iv, 'base64url'),
+    tag: Buffer.from(tag, 'base64url'),
+    ciphertext: Buffer.from(ciphertext!, 'base64url'),
   };
-};
+}
+
+function open(
+  parsed: ParsedEnvelope,
+  stored: { key: Uint8Array; algorithm: EncryptionAlgorithm } | undefined
+): string {
+  const { algorithm, keyId } = parsed;
+  if (!stored) {
+    throw new DecryptionError(`Key not found: ${keyId}`, keyId);
+  }
+  if (stored.algorithm !== algorithm) {
+    throw new DecryptionError(`Key ${keyId} is not a ${algorithm} key`, keyId);
+  }
+
+  try {
+    const decipher = createDecipher(algorithm, stored.key, parsed.iv);
+    decipher.setAAD(Buffer.from(parsed.header, 'utf8'), {
+      plaintextLength: parsed.ciphertext.length,
+    });
+    decipher.setAuthTag(parsed.tag);
+    return Buffer.concat([decipher.update(parsed.ciphertext), decipher.final()]).toString('utf8');
+  } catch (error) {
+    throw new DecryptionError(
+      'Ciphertext failed authentication',
+      keyId,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Encrypt a string into a key-id-tagged envelope
+ */
+export function encryptData(
+  plaintext: string,
+  key: Uint8Array,
+  keyId: string,
+  algorithm: EncryptionAlgorithm = 'aes-256-gcm'
+): string {
+  return seal(plaintext, key, keyId, algorithm).envelope;
+}
+
+/**
+ * Decrypt an envelope with the key it names. Throws DecryptionError when the
+ * key is missing or the envelope was tampered with.
+ */
+export function decryptData(envelope: string, keyStore: KeyStore): string {
+  const parsed = parse(envelope);
+  return open(parsed, keyStore.getKey(parsed.keyId));
+}
+
+/**
+ * Read the algorithm and key id of an envelope without decrypting it
+ */
+export function parseEnvelope(envelope: string): EnvelopeInfo {
+  const { version, algorithm, keyId } = parse(envelope);
+  return { version, algorithm, keyId };
+}
+
+/**
+ * Check whether a value looks like an encryption envelope
+ */
+export function isEncryptedEnvelope(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(`${ENVELOPE_VERSION}:`);
+}
+
+/**
+ * Decrypt the fields of a record encrypted by the field encryption handler.
+ * Fields that are not envelopes are returned unchanged.
+ */
+export function decryptFields(
+  data: Record<string, unknown>,
+  keyStore: KeyStore,
+  fields: string[] = Object.keys(data)
+): Record<string, unknown> {
+  const decrypted: Record<string, unknown> = { ...data };
+  for (const field of fields) {
+    const value = data[field];
+    if (isEncryptedEnvelope(value)) {
+      decrypted[field] = JSON.parse(decryptData(value, keyStore));
+    }
+  }
+  return decrypted;
+}
+
+/**
+ * Decrypt the output of the envelope encryption handler: unwrap the data key
+ * with the master key, then decrypt the data with it
+ */
+export function decryptEnvelopeData(encrypted: string, keyStore: KeyStore): string {
+  let payload: { data?: unknown; encryptedDek?: unknown };
+  try {
+    payload = JSON.parse(encrypted);
+  } catch (error) {
+    throw new DecryptionError('Malformed envelope encryption payload', undefined, error as Error);
+  }
+  if (!isEncryptedEnvelope(payload.data) || !isEncryptedEnvelope(payload.encryptedDek)) {
+    throw new DecryptionError('Malformed envelope encryption payload');
+  }
+
+  const dek = Buffer.from(decryptData(payload.encryptedDek, keyStore), 'base64');
+  const parsed = parse(payload.data);
+  return open(parsed, { key: dek, algorithm: parsed.algorithm });
+}
+
+// =============================================================================
+// Handlers
+// =============================================================================
 
 /**
  * Creates an encryption handler with a key store
@@ -155,73 +350,79 @@ export function createKeyStoredEncryptionHandler(
   defaultAlgorithm: EncryptionAlgorithm = 'aes-256-gcm'
 ): HookHandler<DataEncryptionInput, DataEncryptionOutput> {
   return async (input, _context): Promise<HookResult<DataEncryptionOutput>> => {
-    const algorithm = (input.algorithm as EncryptionAlgorithm) ?? defaultAlgorithm;
+    const requested = input.algorithm ?? defaultAlgorithm;
+    if (!isSupportedAlgorithm(requested)) {
+      return failure(`Unsupported encryption algorithm: ${requested}`);
+    }
+
     let keyId = input.keyId;
+    let algorithm: EncryptionAlgorithm = requested;
     let key: Uint8Array;
 
     if (keyId) {
       const stored = keyStore.getKey(keyId);
       if (!stored) {
-        return {
-          success: false,
-          error: new Error(`Key not found: ${keyId}`),
-          recoverable: false,
-        };
+        return failure(`Key not found: ${keyId}`);
+      }
+      if (stored.retired) {
+        return failure(`Key is retired: ${keyId}`);
+      }
+      if (input.algorithm && stored.algorithm !== input.algorithm) {
+        return failure(`Key ${keyId} is not a ${input.algorithm} key`);
       }
       key = stored.key;
+      algorithm = stored.algorithm;
     } else {
       // Generate new key
       keyId = generateKeyId();
-      const algInfo = SupportedAlgorithms[algorithm] ?? SupportedAlgorithms['aes-256-gcm'];
-      key = new Uint8Array(algInfo.keyLength / 8);
-      crypto.getRandomValues(key);
+      key = generateKey(algorithm);
       keyStore.setKey(keyId, key, algorithm);
     }
 
-    const algInfo = SupportedAlgorithms[algorithm] ?? SupportedAlgorithms['aes-256-gcm'];
-    const iv = generateIV(algInfo.ivLength);
-
-    const dataStr = typeof input.data === 'string' ? input.data : JSON.stringify(input.data);
-    const encrypted = simpleEncrypt(dataStr, key, iv);
+    const { envelope, iv } = seal(serialize(input.data), key, keyId, algorithm);
 
     return {
       success: true,
       data: {
-        encrypted,
+        encrypted: envelope,
         algorithm,
         keyId,
-        iv,
+        iv: iv.toString('hex'),
       },
     };
   };
 }
 
+/**
+ * Default data encryption handler. Keys are kept in `defaultKeyStore`, which
+ * decryptData() needs to read the output back.
+ */
+export const defaultDataEncryptionHandler: HookHandler<
+  DataEncryptionInput,
+  DataEncryptionOutput
+> = createKeyStoredEncryptionHandler(defaultKeyStore);
+
 /**
  * Creates an encryption handler with key rotation support
  */
 export function createRotatingEncryptionHandler(
   keyStore: KeyStore,
-  rotationIntervalMs: number = 86400000 // 24 hours
+  rotationIntervalMs: number = 86400000, // 24 hours
+  algorithm: EncryptionAlgorithm = 'aes-256-gcm'
 ): HookHandler<DataEncryptionInput, DataEncryptionOutput> {
   let lastRotation = Date.now();
   let currentKeyId = generateKeyId();
 
   // Initialize first key
-  const initKey = new Uint8Array(32);
-  crypto.getRandomValues(initKey);
-  keyStore.setKey(currentKeyId, initKey, 'aes-256-gcm');
+  keyStore.setKey(currentKeyId, generateKey(algorithm), algorithm);
 
   return async (input, _context): Promise<HookResult<DataEncryptionOutput>> => {
     const now = Date.now();
 
-    // Check if rotation needed
+    // Check if rotation needed; the old key is kept for decryption
     if (now - lastRotation >= rotationIntervalMs) {
       const newKeyId = generateKeyId();
-      const newKey = new Uint8Array(32);
-      crypto.getRandomValues(newKey);
-
-      keyStore.setKey(newKeyId, newKey, 'aes-256-gcm');
-      // Keep old key for decryption
+      keyStore.rotateKey(currentKeyId, newKeyId);
       currentKeyId = newKeyId;
       lastRotation = now;
     }
@@ -230,24 +431,21 @@ export function createRotatingEncryptionHandler(
     const stored = keyStore.getKey(keyId);
 
     if (!stored) {
-      return {
-        success: false,
-        error: new Error(`Key not found: ${keyId}`),
-        recoverable: false,
-      };
+      return failure(`Key not found: ${keyId}`);
+    }
+    if (stored.retired) {
+      return failure(`Key is retired: ${keyId}`);
     }
 
-    const iv = generateIV(12);
-    const dataStr = typeof input.data === 'string' ? input.data : JSON.stringify(input.data);
-    const encrypted = simpleEncrypt(dataStr, stored.key, iv);
+    const { envelope, iv } = seal(serialize(input.data), stored.key, keyId, stored.algorithm);
 
     return {
       success: true,
       data: {
-        encrypted,
+        encrypted: envelope,
         algorithm: stored.algorithm,
         keyId,
-        iv,
+        iv: iv.toString('hex'),
       },
       metadata: {
         rotationDue: lastRotation + rotationIntervalMs,
@@ -258,7 +456,8 @@ export function createRotatingEncryptionHandler(
 }
 
 /**
- * Creates a field-level encryption handler
+ * Creates a field-level encryption handler. Each listed field is replaced by
+ * an envelope of its JSON value; decryptFields() restores the record.
  */
 export function createFieldEncryptionHandler(
   fieldsToEncrypt: string[],
@@ -266,21 +465,22 @@ export function createFieldEncryptionHandler(
 ): HookHandler<DataEncryptionInput, DataEncryptionOutput> {
   return async (input, _context): Promise<HookResult<DataEncryptionOutput>> => {
     if (typeof input.data !== 'object' || input.data === null) {
-      return {
-        success: false,
-        error: new Error('Field encryption requires object input'),
-        recoverable: false,
-      };
+      return failure('Field encryption requires object input');
     }
 
     const keyId = input.keyId ?? generateKeyId();
 
     // Generate or get key
-    let key = keyStore.getKey(keyId)?.key;
-    if (!key) {
-      key = new Uint8Array(32);
-      crypto.getRandomValues(key);
-      keyStore.setKey(keyId, key, 'aes-256-gcm');
+    let stored = keyStore.getKey(keyId);
+    if (!stored) {
+      const algorithm = input.algorithm ?? 'aes-256-gcm';
+      if (!isSupportedAlgorithm(algorithm)) {
+        return failure(`Unsupported encryption algorithm: ${algorithm}`);
+      }
+      keyStore.setKey(keyId, generateKey(algorithm), algorithm);
+      stored = keyStore.getKey(keyId)!;
+    } else if (stored.retired) {
+      return failure(`Key is retired: ${keyId}`);
     }
 
     const data = input.data as Record<string, unknown>;
@@ -289,12 +489,12 @@ export function createFieldEncryptionHandler(
 
     for (const field of fieldsToEncrypt) {
       if (field in data) {
-        const iv = generateIV(12);
-        const fieldValue = typeof data[field] === 'string'
-          ? data[field] as string
-          : JSON.stringify(data[field]);
-        const encrypted = simpleEncrypt(fieldValue, key, iv);
-        encryptedData[field] = { encrypted, iv, keyId };
+        encryptedData[field] = encryptData(
+          JSON.stringify(data[field] ?? null),
+          stored.key,
+          keyId,
+          stored.algorithm
+        );
         encryptedFields.push(field);
       }
     }
@@ -303,7 +503,7 @@ export function createFieldEncryptionHandler(
       success: true,
       data: {
         encrypted: JSON.stringify(encryptedData),
-        algorithm: 'aes-256-gcm',
+        algorithm: stored.algorithm,
         keyId,
       },
       metadata: {
@@ -315,7 +515,8 @@ export function createFieldEncryptionHandler(
 }
 
 /**
- * Creates an envelope encryption handler (encrypt data key with master key)
+ * Creates an envelope encryption handler (encrypt data key with master key).
+ * decryptEnvelopeData() reverses it.
  */
 export function createEnvelopeEncryptionHandler(
   masterKeyId: string,
@@ -324,42 +525,36 @@ export function createEnvelopeEncryptionHandler(
   return async (input, _context): Promise<HookResult<DataEncryptionOutput>> => {
     const masterKey = keyStore.getKey(masterKeyId);
     if (!masterKey) {
-      return {
-        success: false,
-        error: new Error(`Master key not found: ${masterKeyId}`),
-        recoverable: false,
-      };
+      return failure(`Master key not found: ${masterKeyId}`);
+    }
+
+    const algorithm = input.algorithm ?? 'aes-256-gcm';
+    if (!isSupportedAlgorithm(algorithm)) {
+      return failure(`Unsupported encryption algorithm: ${algorithm}`);
     }
 
     // Generate data encryption key (DEK)
-    const dek = new Uint8Array(32);
-    crypto.getRandomValues(dek);
+    const dek = generateKey(algorithm);
     const dekId = generateKeyId();
 
     // Encrypt data with DEK
-    const iv = generateIV(12);
-    const dataStr = typeof input.data === 'string' ? input.data : JSON.stringify(input.data);
-    const encryptedData = simpleEncrypt(dataStr, dek, iv);
+    const { envelope: data, iv } = seal(serialize(input.data), dek, dekId, algorithm);
 
     // Encrypt DEK with master key
-    const dekIv = generateIV(12);
-    const encryptedDek = simpleEncrypt(
-      Array.from(dek).map((b) => b.toString(16).padStart(2, '0')).join(''),
+    const encryptedDek = encryptData(
+      Buffer.from(dek).toString('base64'),
       masterKey.key,
-      dekIv
+      masterKeyId,
+      masterKey.algorithm
     );
 
     return {
       success: true,
       data: {
-        encrypted: JSON.stringify({
-          data: encryptedData,
-          encryptedDek,
-          dekIv,
-        }),
-        algorithm: 'aes-256-gcm',
+        encrypted: JSON.stringify({ data, encryptedDek }),
+        algorithm,
         keyId: masterKeyId,
-        iv,
+        iv: iv.toString('hex'),
       },
       metadata: {
         dekId,
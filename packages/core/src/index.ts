@@ -146,8 +146,13 @@ export type {
 
   // Supporting Types
   Message,
+  ContentPart,
+  TextContentPart,
+  ImageContentPart,
   ToolDefinition,
   LLMResponse,
+  LLMResponseMetadata,
+  GatewayAttempt,
   ToolCall,
   TokenUsage,
   ModelInfo,
@@ -158,6 +163,7 @@ export type {
   ValidationError,
   McpServerInfo,
   ResourceLimits,
+  BudgetLimits,
   AgentConfig,
   AgentState,
   AgentMessage,
@@ -165,6 +171,7 @@ export type {
   AgentSelectionCriteria,
   HealthMetrics,
   StreamChunk,
+  ToolCallDelta,
   StreamMetrics,
   SanitizationRule,
   SanitizationModification,
@@ -187,23 +194,93 @@ export {
   createStateManager,
   DefaultToolExecutor,
   createToolExecutor as createRuntimeToolExecutor,
+  matchesToolPattern,
+  isToolAllowed,
   DefaultMessageQueue,
   createMessageQueue,
+  DefaultGateway,
+  GatewayError,
+  createGateway,
+  DefaultMessageGuard,
+  SecurityError,
+  createMessageGuard,
+  DefaultContextManager,
+  createContextManager,
+  estimateTokens,
+  getTextContent,
+  mapTextContent,
+  DefaultRunTracer,
+  createRunTracer,
+  DefaultRuntimeMetrics,
+  createRuntimeMetrics,
+  DefaultBudgetManager,
+  createBudgetManager,
+  FileStateStore,
+  SqliteStateStore,
+  createFileStateStore,
+  createSqliteStateStore,
+  encodeState,
+  decodeState,
+  type FileStateStoreOptions,
+  type SqliteStateStoreOptions,
+  type SqliteDatabase,
   DEFAULT_RUNTIME_CONFIG,
+  DEFAULT_SECURITY_ACTIONS,
   type RuntimeConfig,
   type RuntimeEvents,
   type AgentInstance,
   type LLMAdapter,
   type CompletionOptions,
+  type CircuitState,
+  type Gateway,
+  type GatewayRequest,
+  type GatewayCall,
+  type GatewayTarget,
+  type ProviderHealth,
+  type SecurityCheck,
+  type SecurityAction,
+  type SecurityConfig,
+  type SecurityDecision,
+  type ContentSource,
+  type ScreenResult,
+  type MessageGuard,
+  type ContextStrategy,
+  type ContextConfig,
+  type ContextRequest,
+  type ContextCompaction,
+  type ContextManager,
+  type TracingConfig,
+  type TraceScope,
+  type RunTracer,
+  type MetricsConfig,
+  type RuntimeMetrics,
+  type AgentUsage,
+  type BudgetStatus,
+  type BudgetCheck,
+  type BudgetManager,
   type ToolExecutor as RuntimeToolExecutor,
   type ToolExecutionContext,
   type ToolExecutionResult as RuntimeToolExecutionResult,
   type ToolHandler as RuntimeToolHandler,
   type MessageQueue,
   type StateManager,
+  type StateStore,
   type Runtime,
 } from './runtime/index.js';
 
+// Pricing
+export {
+  createPricingCatalog,
+  getDefaultPricingCatalog,
+  resetDefaultPricingCatalog,
+  BUNDLED_PRICES,
+  DEFAULT_FALLBACK_PRICE,
+  type PricingCatalog,
+  type PricingCatalogConfig,
+  type ModelPrice,
+  type PricedUsage,
+} from './hooks/observability/pricing.js';
+
 // Tool Framework
 export {
   ToolRegistry,
@@ -218,6 +295,7 @@ export {
   createStrictSandboxHandler,
   createPermissiveSandboxHandler,
   createResourceLimitedSandboxHandler,
+  createSandboxedHandler,
   registerDefaultToolSandbox,
   DEFAULT_SANDBOX_CONFIG,
   type ToolContext,
@@ -12,6 +12,19 @@ import type {
   Message,
   LLMResponse,
   HookContext,
+  ToolCall,
+  TokenUsage,
+  StreamStartOutput,
+  ChunkProcessOutput,
+  BackpressureOutput,
+  PartialResultOutput,
+  StreamErrorOutput,
+  ModelInfo,
+  ModelSelectionOutput,
+  ProviderRoutingOutput,
+  PermissionCheckInput,
+  PermissionCheckOutput,
+  CostTrackingOutput,
 } from '../types/hooks.js';
 import { HookRegistry, HOOK_NAMES } from '../hooks/registry.js';
 import type {
@@ -21,11 +34,42 @@ import type {
   AgentInstance,
   LLMAdapter,
   CompletionOptions,
+  GatewayTarget,
+  SecurityDecision,
+  StateStore,
+  ToolExecutionResult,
+  TraceScope,
+  BudgetStatus,
 } from './types.js';
 import { DEFAULT_RUNTIME_CONFIG } from './types.js';
 import { DefaultStateManager, createStateManager } from './state-manager.js';
-import { DefaultToolExecutor, createToolExecutor } from './tool-executor.js';
+import { DefaultToolExecutor, createToolExecutor, isToolAllowed } from './tool-executor.js';
 import { DefaultMessageQueue, createMessageQueue } from './message-queue.js';
+import { DefaultGateway, createGateway } from './gateway.js';
+import { DefaultMessageGuard, SecurityError, createMessageGuard } from './message-guard.js';
+import {
+  DefaultContextManager,
+  createContextManager,
+  estimateTokens,
+} from './context-manager.js';
+import { mapTextContent } from './message-content.js';
+import { DefaultRunTracer, createRunTracer } from './run-tracer.js';
+import { DefaultRuntimeMetrics, createRuntimeMetrics } from './runtime-metrics.js';
+import {
+  BudgetExceededError,
+  DefaultBudgetManager,
+  createBudgetManager,
+} from './budget-manager.js';
+import { createFileStateStore } from './state-store.js';
+import { detectStructure } from '../hooks/streaming/partial-result.js';
+import { SemanticConventions } from '../hooks/observability/span-annotation.js';
+import { createPricingCatalog, type PricingCatalog } from '../hooks/observability/pricing.js';
+
+/** Upper bound on stream restarts requested by the stream:error hook */
+const MAX_STREAM_RESTARTS = 2;
+
+/** Where agent state is kept when persistence is on and no store is configured */
+const DEFAULT_STATE_PATH = '.open-agent/state.json';
 
 // =============================================================================
 // Agent Runtime Implementation
@@ -37,24 +81,57 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
   stateManager: DefaultStateManager;
   toolExecutor: DefaultToolExecutor;
   messageQueue: DefaultMessageQueue;
+  gateway: DefaultGateway;
+  messageGuard: DefaultMessageGuard;
+  contextManager: DefaultContextManager;
+  tracing: DefaultRunTracer;
+  metrics: DefaultRuntimeMetrics;
+  pricing: PricingCatalog;
+  budgets: DefaultBudgetManager;
 
   private adapters: Map<string, LLMAdapter> = new Map();
   private defaultAdapter?: LLMAdapter;
+  private stateStore?: StateStore;
+  private modelCatalogs: Map<string, ModelInfo[]> = new Map();
   private healthCheckInterval?: ReturnType<typeof setInterval>;
   private shuttingDown = false;
+  /** Root span of each agent's current run */
+  private runScopes: Map<string, TraceScope> = new Map();
 
   constructor(config: Partial<RuntimeConfig> = {}, registry?: HookRegistry) {
     super();
     this.config = { ...DEFAULT_RUNTIME_CONFIG, ...config };
     this.registry = registry ?? new HookRegistry();
-    this.stateManager = createStateManager(this.registry);
+    this.stateStore = this.config.enableStatePersistence
+      ? this.config.stateStore ?? createFileStateStore(DEFAULT_STATE_PATH)
+      : undefined;
+    this.stateManager = createStateManager(this.registry, this.stateStore);
     this.toolExecutor = createToolExecutor(this.registry, this.config.defaultToolTimeout);
     this.messageQueue = createMessageQueue(this.registry, this.config.maxQueueSize);
+    this.gateway = createGateway(this.registry, this.config.maxAttemptsPerProvider);
+    this.messageGuard = createMessageGuard(this.registry, this.config.security);
+    this.contextManager = createContextManager(this.config.contextManagement);
+    this.tracing = createRunTracer(this.registry, this.config.tracing);
+    this.metrics = createRuntimeMetrics(this.registry, this.config.metrics);
+    this.metrics.observe(this);
+    this.pricing = this.config.pricing ?? createPricingCatalog();
+    this.budgets = createBudgetManager(this.stateManager, this.config.budget);
 
     // Wire up state manager events
     this.stateManager.on('agent:transition', (agentId, from, to) => {
       this.emit('agent:state-changed', agentId, from, to);
     });
+    this.stateManager.on('agent:persist-error', (agentId, error) => {
+      this.emit('agent:persist-error', agentId, error);
+    });
+    this.stateManager.on('agent:checkpoint', (agentId) => {
+      this.emit('agent:checkpoint', agentId);
+    });
+
+    // Wire up gateway events
+    this.gateway.on('circuit:state-changed', (provider, from, to) => {
+      this.emit('gateway:circuit-changed', provider, from, to);
+    });
 
     // Start health checks if enabled
     if (this.config.enableHealthChecks) {
@@ -62,6 +139,13 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
     }
   }
 
+  /**
+   * Start the runtime, restoring persisted agents when persistence is enabled
+   */
+  async start(): Promise<void> {
+    await this.stateManager.load();
+  }
+
   /**
    * Generate a unique agent ID
    */
@@ -197,44 +281,62 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
       return null;
     }
 
-    // Add input to message history
-    if (input) {
-      agent.messageHistory.push(input);
-      this.emit('agent:message', agentId, input);
+    // Check token, cost and time budgets before calling the model
+    if (!(await this.enforceBudget(agentId))) {
+      return null;
     }
 
-    // Process any queued messages
-    if (this.config.enableMessageQueue) {
-      let queuedMessage = this.messageQueue.dequeue(agentId);
-      while (queuedMessage) {
-        // Convert AgentMessage to Message and add to history
-        const message: Message = {
-          role: 'user',
-          content: JSON.stringify(queuedMessage.payload),
-        };
+    // Create hook context, inside the iteration's span when tracing
+    const iteration = await this.tracing.startSpan(
+      'agent.iteration',
+      this.tracing.inherit(
+        {
+          requestId: `iteration-${agentId}-${agent.iterationCount}`,
+          timestamp: Date.now(),
+          metadata: {
+            agentId,
+            iteration: agent.iterationCount,
+          },
+        },
+        this.runScopes.get(agentId)?.context
+      ),
+      {
+        [SemanticConventions.GEN_AI_AGENT_ID]: agentId,
+        [SemanticConventions.GEN_AI_AGENT_NAME]: agent.config.name,
+        'agent.iteration': agent.iterationCount,
+      }
+    );
+    const context = iteration.context;
+
+    try {
+      // Add input to message history once the security hooks have screened it
+      if (input) {
+        const message = await this.screenInbound(agentId, input, 'user', context);
         agent.messageHistory.push(message);
-        this.emit('message:delivered', agentId, queuedMessage);
-        queuedMessage = this.messageQueue.dequeue(agentId);
+        this.emit('agent:message', agentId, message);
       }
-    }
 
-    // Transition to thinking state
-    await this.stateManager.transition(agentId, 'thinking');
+      // Process any queued messages
+      if (this.config.enableMessageQueue) {
+        let queuedMessage = this.messageQueue.dequeue(agentId);
+        while (queuedMessage) {
+          // Convert AgentMessage to Message and add to history
+          const message = await this.screenInbound(
+            agentId,
+            { role: 'user', content: JSON.stringify(queuedMessage.payload) },
+            'external',
+            context
+          );
+          agent.messageHistory.push(message);
+          this.emit('message:delivered', agentId, queuedMessage);
+          queuedMessage = this.messageQueue.dequeue(agentId);
+        }
+      }
 
-    // Create hook context
-    const context: HookContext = {
-      requestId: `iteration-${agentId}-${agent.iterationCount}`,
-      timestamp: Date.now(),
-      metadata: {
-        agentId,
-        iteration: agent.iterationCount,
-      },
-    };
+      // Transition to thinking state
+      await this.stateManager.transition(agentId, 'thinking');
 
-    try {
-      // Get adapter
-      const adapter = this.getAdapterForAgent(agent);
-      if (!adapter) {
+      if (!this.defaultAdapter) {
         throw new Error('No LLM adapter available');
       }
 
@@ -245,7 +347,9 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
       const options: CompletionOptions = {
         model: agent.config.model ?? 'default',
         temperature: 0.7,
-        tools: this.toolExecutor.getTools(),
+        tools: this.toolExecutor
+          .getTools()
+          .filter((tool) => isToolAllowed(tool.name, agent.config.tools)),
         systemPrompt: agent.config.systemPrompt,
       };
 
@@ -265,8 +369,30 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
         throw transformedRequest.error;
       }
 
-      // Call LLM
-      const response = await adapter.complete(messages, options);
+      // Pick the model and provider, followed by the fallback chain
+      const targets = await this.resolveTargets(agent, messages, options, context);
+
+      // Compact history that would outgrow any target's context window
+      const requestMessages = await this.fitContext(agent, messages, options, targets, context);
+
+      // Call LLM through the gateway; retries and fallbacks stop once a budget runs out
+      const response = await this.gateway.execute(
+        {
+          targets,
+          messages: requestMessages,
+          options,
+          beforeAttempt: async () => {
+            const exceeded = this.checkBudget(agentId);
+            if (exceeded) {
+              throw new BudgetExceededError(exceeded);
+            }
+          },
+        },
+        (adapter, requestMessages, requestOptions) =>
+          this.callModel(agentId, adapter, requestMessages, requestOptions, context),
+        context,
+        (attempt) => this.emit('gateway:attempt', agentId, attempt)
+      );
 
       // Execute response transform hook
       const transformedResponse = await this.registry.execute(
@@ -278,14 +404,42 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
         context
       );
 
-      const finalResponse = transformedResponse.success
+      const transformed = transformedResponse.success
         ? (transformedResponse.data as { response?: LLMResponse })?.response ?? response
         : response;
 
-      // Add assistant message to history
+      // Screen the output before it reaches history or the caller
+      const finalResponse = transformed.content
+        ? { ...transformed, content: await this.screenOutbound(agentId, transformed, context) }
+        : transformed;
+
+      // Streamed chunks are held back while output is screened; send the screened text instead
+      if (
+        this.config.enableStreaming &&
+        finalResponse.content &&
+        this.messageGuard.screensOutput()
+      ) {
+        this.emit(
+          'stream:chunk',
+          agentId,
+          {
+            id: finalResponse.id,
+            model: finalResponse.model,
+            content: finalResponse.content,
+            isFirst: true,
+            isLast: true,
+          },
+          0
+        );
+      }
+      this.emit('agent:response', agentId, finalResponse);
+
+      // Add assistant message to history, keeping its tool calls so the tool
+      // messages that follow reference them
       const assistantMessage: Message = {
         role: 'assistant',
         content: finalResponse.content,
+        ...(finalResponse.toolCalls?.length ? { toolCalls: finalResponse.toolCalls } : {}),
       };
       agent.messageHistory.push(assistantMessage);
       this.emit('agent:message', agentId, assistantMessage);
@@ -300,16 +454,25 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
         iterationCount: agent.iterationCount + 1,
       });
 
-      this.emit('agent:iteration', agentId, agent.iterationCount + 1);
+      this.emit('agent:iteration', agentId, agent.iterationCount);
+      await this.stateManager.checkpoint(agentId);
 
       // Transition back to idle or thinking based on tool calls
       if (!finalResponse.toolCalls || finalResponse.toolCalls.length === 0) {
         await this.stateManager.transition(agentId, 'idle');
       }
 
+      this.tracing.endSpan(iteration);
       return finalResponse;
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        this.tracing.endSpan(iteration);
+        await this.stopOverBudget(agentId, error.status);
+        return null;
+      }
+
       const err = error instanceof Error ? error : new Error(String(error));
+      this.tracing.endSpan(iteration, err);
       this.emit('agent:error', agentId, err);
 
       // Transition to error state
@@ -323,13 +486,109 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
    */
   async run(agentId: string, input?: Message): Promise<LLMResponse> {
     const startTime = Date.now();
-    let lastResponse: LLMResponse | null = null;
 
     await this.startAgent(agentId);
 
-    // Initial iteration with input
-    lastResponse = await this.runIteration(agentId, input);
+    return this.withRun(agentId, async () => {
+      // Initial iteration with input
+      const lastResponse = await this.runIteration(agentId, input);
+
+      return this.continueRun(agentId, lastResponse, startTime);
+    });
+  }
+
+  /**
+   * Resume an interrupted run from its last checkpoint, skipping completed tool calls
+   */
+  async resume(agentId: string): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const agent =
+      this.stateManager.getState(agentId) ?? (await this.stateManager.restore(agentId));
+    if (!agent) {
+      throw new Error(`Agent not found: ${agentId}`);
+    }
+
+    // Idle and completed agents finished their last run
+    if (agent.state === 'idle' || agent.state === 'completed') {
+      throw new Error(`Agent has no interrupted run to resume: ${agentId}`);
+    }
+
+    this.emit('agent:resumed', agentId, [...agent.pendingToolCalls]);
+
+    // Recover agents whose last iteration failed
+    if (agent.state === 'error') {
+      await this.stateManager.transition(agentId, 'idle');
+    }
+
+    return this.withRun(agentId, async () => {
+      // Finish the tool calls the interrupted iteration was executing
+      if (agent.pendingToolCalls.length > 0) {
+        const context = this.tracing.inherit(
+          {
+            requestId: `resume-${agentId}-${agent.iterationCount}`,
+            timestamp: Date.now(),
+            metadata: {
+              agentId,
+              iteration: agent.iterationCount,
+            },
+          },
+          this.runScopes.get(agentId)?.context
+        );
+        await this.handleToolCalls(agentId, agent.pendingToolCalls, context);
+
+        // The interrupted iteration is only counted once its tools are done
+        this.stateManager.setState(agentId, {
+          iterationCount: agent.iterationCount + 1,
+        });
+        this.emit('agent:iteration', agentId, agent.iterationCount);
+        await this.stateManager.checkpoint(agentId);
+      }
+
+      const lastResponse = await this.runIteration(agentId);
+      return this.continueRun(agentId, lastResponse, startTime);
+    });
+  }
 
+  /**
+   * Run fn as one run of the agent, inside a root span and counted toward the run budget
+   */
+  private async withRun(agentId: string, fn: () => Promise<LLMResponse>): Promise<LLMResponse> {
+    const agent = this.stateManager.getState(agentId);
+    const scope = await this.tracing.startSpan(
+      `invoke_agent ${agent?.config.name ?? agentId}`,
+      { requestId: `run-${agentId}`, timestamp: Date.now(), metadata: { agentId } },
+      {
+        [SemanticConventions.GEN_AI_OPERATION_NAME]: 'invoke_agent',
+        [SemanticConventions.GEN_AI_AGENT_ID]: agentId,
+        [SemanticConventions.GEN_AI_AGENT_NAME]: agent?.config.name,
+      }
+    );
+    this.runScopes.set(agentId, scope);
+    this.budgets.startRun(agentId);
+
+    try {
+      const response = await fn();
+      this.tracing.endSpan(scope, undefined, {
+        [SemanticConventions.AGENT_STATE]: this.stateManager.getState(agentId)?.state,
+      });
+      return response;
+    } catch (error) {
+      this.tracing.endSpan(scope, error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    } finally {
+      this.runScopes.delete(agentId);
+      this.budgets.endRun(agentId);
+    }
+  }
+
+  /**
+   * Keep iterating after a first response until the agent is done or hits a limit
+   */
+  private async continueRun(
+    agentId: string,
+    lastResponse: LLMResponse | null,
+    startTime: number
+  ): Promise<LLMResponse> {
     // Continue until done
     while (true) {
       const agent = this.stateManager.getState(agentId);
@@ -408,6 +667,7 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
    */
   registerAdapter(adapter: LLMAdapter): void {
     this.adapters.set(adapter.id, adapter);
+    this.modelCatalogs.delete(adapter.id);
     if (!this.defaultAdapter) {
       this.defaultAdapter = adapter;
     }
@@ -432,6 +692,12 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
       this.healthCheckInterval = undefined;
     }
 
+    // Save agents as they are, not as stopped, so a restart picks up where they left off
+    if (this.stateStore) {
+      await this.stateManager.persist();
+      this.stateManager.setStore(undefined);
+    }
+
     // Stop all agents
     for (const agentId of this.stateManager.getAgentIds()) {
       await this.stopAgent(agentId, 'shutdown');
@@ -442,6 +708,9 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
 
     // Clear state
     this.stateManager.clear();
+    await this.stateStore?.close();
+    this.tracing.close();
+    this.metrics.close();
   }
 
   // =============================================================================
@@ -465,11 +734,11 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
       return;
     }
 
-    // Transition to executing-tool state
-    await this.stateManager.transition(agentId, 'executing-tool');
+    // Store pending tool calls, skipping any a resumed run already completed
+    agent.pendingToolCalls = toolCalls.filter((tc) => !agent.completedToolCalls.has(tc.id));
 
-    // Store pending tool calls
-    agent.pendingToolCalls = [...toolCalls];
+    // Transition to executing-tool state, checkpointing the pending calls
+    await this.stateManager.transition(agentId, 'executing-tool');
 
     // Execute tools
     const executionContext = {
@@ -479,12 +748,8 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
       sandbox: true,
     };
 
-    const results = this.config.parallelToolExecution
-      ? await this.toolExecutor.executeParallel(toolCalls, executionContext)
-      : await Promise.all(toolCalls.map((tc) => this.toolExecutor.execute(tc, executionContext)));
-
-    // Process results
-    for (const result of results) {
+    // Process each result as it completes so a crash loses at most the calls in flight
+    const processResult = async (result: ToolExecutionResult): Promise<void> => {
       this.emit(
         result.success ? 'tool:completed' : 'tool:error',
         agentId,
@@ -500,20 +765,409 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
         (tc) => tc.id !== result.toolCallId
       );
 
-      // Add tool result to message history
+      // Add tool result to message history; refusals are structured so the model can adapt
       const toolMessage: Message = {
         role: 'tool',
-        content: result.success ? JSON.stringify(result.result) : String(result.error),
+        content: result.success
+          ? JSON.stringify(result.result)
+          : result.permissionDenied !== undefined
+            ? JSON.stringify({
+                error: 'tool_not_permitted',
+                tool: result.toolName,
+                reason: result.permissionDenied,
+              })
+            : String(result.error),
         toolCallId: result.toolCallId,
       };
+      // Error text can carry tool output too; only the runtime's own refusals skip screening
+      if (result.permissionDenied === undefined) {
+        toolMessage.content = (
+          await this.screenInbound(agentId, toolMessage, 'tool', context)
+        ).content;
+      }
       agent.messageHistory.push(toolMessage);
       this.emit('agent:message', agentId, toolMessage);
+
+      await this.stateManager.checkpoint(agentId);
+    };
+
+    const executeInSpan = async (
+      tc: ToolCall,
+      toolContext: HookContext
+    ): Promise<ToolExecutionResult> => {
+      const denied = await this.checkToolPermission(agent, tc, toolContext);
+      if (denied !== undefined) {
+        this.emit('tool:denied', agentId, tc, denied);
+        return {
+          toolCallId: tc.id,
+          toolName: tc.name,
+          success: false,
+          error: new Error(`Tool not permitted: ${tc.name} (${denied})`),
+          duration: 0,
+          permissionDenied: denied,
+        };
+      }
+
+      this.emit('tool:executing', agentId, tc);
+      return this.toolExecutor.execute(tc, { ...executionContext, hookContext: toolContext });
+    };
+
+    const execute = async (tc: ToolCall): Promise<ToolExecutionResult> => {
+      const scope = await this.tracing.startSpan(`execute_tool ${tc.name}`, context, {
+        [SemanticConventions.GEN_AI_OPERATION_NAME]: 'execute_tool',
+        [SemanticConventions.GEN_AI_TOOL_NAME]: tc.name,
+        [SemanticConventions.GEN_AI_TOOL_CALL_ID]: tc.id,
+      });
+      const result = await executeInSpan(tc, scope.context);
+      this.tracing.endSpan(scope, result.success ? undefined : result.error);
+      return result;
+    };
+
+    const pending = [...agent.pendingToolCalls];
+    if (this.config.parallelToolExecution) {
+      await Promise.all(pending.map(async (tc) => processResult(await execute(tc))));
+    } else {
+      for (const tc of pending) {
+        await processResult(await execute(tc));
+      }
     }
 
     // Transition back to thinking
     await this.stateManager.transition(agentId, 'thinking');
   }
 
+  /**
+   * Make one LLM call for the gateway, inside a span with GenAI attributes
+   */
+  private async callModel(
+    agentId: string,
+    adapter: LLMAdapter,
+    messages: Message[],
+    options: CompletionOptions,
+    context: HookContext
+  ): Promise<LLMResponse> {
+    const scope = await this.tracing.startSpan(
+      `chat ${options.model}`,
+      context,
+      {
+        [SemanticConventions.GEN_AI_OPERATION_NAME]: 'chat',
+        [SemanticConventions.GEN_AI_SYSTEM]: adapter.id,
+        [SemanticConventions.GEN_AI_REQUEST_MODEL]: options.model,
+        [SemanticConventions.GEN_AI_REQUEST_TEMPERATURE]: options.temperature,
+        [SemanticConventions.GEN_AI_REQUEST_MAX_TOKENS]: options.maxTokens,
+      },
+      'client'
+    );
+
+    try {
+      const response = this.config.enableStreaming
+        ? await this.streamCompletion(agentId, adapter, messages, options, scope.context)
+        : await adapter.complete(messages, options);
+      this.tracing.endSpan(scope, undefined, {
+        [SemanticConventions.GEN_AI_RESPONSE_ID]: response.id,
+        [SemanticConventions.GEN_AI_RESPONSE_MODEL]: response.model,
+        [SemanticConventions.GEN_AI_RESPONSE_FINISH_REASONS]: [response.finishReason],
+        [SemanticConventions.GEN_AI_USAGE_INPUT_TOKENS]: response.usage.promptTokens,
+        [SemanticConventions.GEN_AI_USAGE_OUTPUT_TOKENS]: response.usage.completionTokens,
+      });
+      await this.recordUsage(agentId, adapter, response, context);
+      return response;
+    } catch (error) {
+      this.tracing.endSpan(scope, error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Count a response's tokens and cost toward the budgets of the agent and its ancestors
+   */
+  private async recordUsage(
+    agentId: string,
+    adapter: LLMAdapter,
+    response: LLMResponse,
+    context: HookContext
+  ): Promise<void> {
+    const { promptTokens, completionTokens, cachedTokens, totalTokens } = response.usage;
+    let cost = this.pricing.calculateCost(response.model, {
+      inputTokens: promptTokens,
+      outputTokens: completionTokens,
+      cachedTokens,
+    }).totalCost;
+
+    // Cost tracking hooks, when registered, price the request instead
+    if (this.registry.hasHandlers(HOOK_NAMES.COST_TRACKING)) {
+      const result = await this.registry.execute(
+        HOOK_NAMES.COST_TRACKING,
+        {
+          provider: adapter.id,
+          model: response.model,
+          inputTokens: promptTokens,
+          outputTokens: completionTokens,
+          cachedTokens,
+        },
+        context
+      );
+      if (result.success) {
+        cost = (result.data as Partial<CostTrackingOutput>).cost ?? cost;
+      }
+    }
+
+    this.budgets.record(agentId, totalTokens, cost);
+    for (const status of this.budgets.check(agentId).warnings) {
+      this.emit('agent:budget-warning', agentId, status);
+    }
+  }
+
+  /**
+   * Emit budget warnings and stop the agent when a budget is used up
+   */
+  private async enforceBudget(agentId: string): Promise<boolean> {
+    const exceeded = this.checkBudget(agentId);
+    if (exceeded) {
+      await this.stopOverBudget(agentId, exceeded);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Emit budget warnings and return the budget that is used up, if any
+   */
+  private checkBudget(agentId: string): BudgetStatus | undefined {
+    const { exceeded, warnings } = this.budgets.check(agentId);
+    for (const status of warnings) {
+      this.emit('agent:budget-warning', agentId, status);
+    }
+    return exceeded;
+  }
+
+  /**
+   * Stop an agent whose budget is used up
+   */
+  private async stopOverBudget(agentId: string, status: BudgetStatus): Promise<void> {
+    this.emit('agent:budget-exceeded', agentId, status);
+    await this.stopAgent(agentId, 'resource-limit');
+  }
+
+  /**
+   * Stream a completion through the streaming hooks and assemble the final response
+   */
+  private async streamCompletion(
+    agentId: string,
+    adapter: LLMAdapter,
+    messages: Message[],
+    options: CompletionOptions,
+    context: HookContext
+  ): Promise<LLMResponse> {
+    // Execute stream start hook
+    const startResult = await this.registry.execute(
+      HOOK_NAMES.STREAM_START,
+      {
+        requestId: context.requestId,
+        model: options.model,
+      },
+      context
+    );
+
+    if (!startResult.success) {
+      throw startResult.error;
+    }
+
+    const streamId =
+      (startResult.data as Partial<StreamStartOutput>)?.streamId ?? `stream-${context.requestId}`;
+    // Unscreened output must not reach listeners; runIteration emits it once screened
+    const holdBack = this.messageGuard.screensOutput();
+    // A restart replays the response from the start; listeners only get chunks they haven't seen
+    let emittedChunks = 0;
+
+    for (let restarts = 0; ; restarts++) {
+      const startTime = Date.now();
+      let chunkIndex = 0;
+      let content = '';
+
+      try {
+        let id = '';
+        let model = options.model;
+        let usage: TokenUsage | undefined;
+        let finishReason: string | undefined;
+        let streamedTokens = 0;
+        let processingTime = 0;
+        const toolCallParts = new Map<number, { id: string; name: string; arguments: string }>();
+
+        for await (const rawChunk of adapter.stream(messages, options)) {
+          const processingStart = Date.now();
+
+          // Execute chunk process hook
+          const chunkResult = await this.registry.execute(
+            HOOK_NAMES.CHUNK_PROCESS,
+            {
+              streamId,
+              chunk: rawChunk,
+              chunkIndex,
+            },
+            context
+          );
+
+          const chunk = chunkResult.success
+            ? (chunkResult.data as Partial<ChunkProcessOutput>)?.transformedChunk ?? rawChunk
+            : rawChunk;
+
+          id = id || chunk.id;
+          model = chunk.model ?? model;
+          usage = chunk.usage ?? usage;
+          finishReason = chunk.finishReason ?? finishReason;
+          streamedTokens += chunk.tokenCount ?? 0;
+          content += chunk.content;
+
+          for (const delta of chunk.toolCallDeltas ?? []) {
+            const part = toolCallParts.get(delta.index) ?? { id: '', name: '', arguments: '' };
+            part.id = delta.id ?? part.id;
+            part.name = delta.name ?? part.name;
+            part.arguments += delta.argumentsDelta ?? '';
+            toolCallParts.set(delta.index, part);
+          }
+
+          // Execute partial result hook
+          if (chunk.content && this.registry.hasHandlers(HOOK_NAMES.PARTIAL_RESULT)) {
+            const partialResult = await this.registry.execute(
+              HOOK_NAMES.PARTIAL_RESULT,
+              {
+                streamId,
+                accumulatedContent: content,
+                structureDetected: detectStructure(content),
+              },
+              context
+            );
+
+            if (partialResult.success && !holdBack && chunkIndex >= emittedChunks) {
+              this.emit('stream:partial', agentId, partialResult.data as PartialResultOutput);
+            }
+          }
+
+          // Execute backpressure hook; rates are chunks per second, and utilization
+          // is how much of the consumer's processing capacity the stream is using
+          processingTime += Date.now() - processingStart;
+          const elapsedSeconds = Math.max(Date.now() - startTime, 1) / 1000;
+          const incomingRate = (chunkIndex + 1) / elapsedSeconds;
+          const processingRate = (chunkIndex + 1) / (Math.max(processingTime, 1) / 1000);
+
+          const backpressureResult = await this.registry.execute(
+            HOOK_NAMES.BACKPRESSURE,
+            {
+              streamId,
+              bufferUtilization: Math.min(incomingRate / processingRate, 1),
+              processingRate,
+              incomingRate,
+            },
+            context
+          );
+
+          const backpressure = backpressureResult.success
+            ? (backpressureResult.data as Partial<BackpressureOutput>)
+            : undefined;
+
+          // Dropped chunks are withheld from listeners but still count towards the response
+          if (backpressure?.action !== 'drop' && !holdBack && chunkIndex >= emittedChunks) {
+            this.emit('stream:chunk', agentId, chunk, chunkIndex);
+          }
+          emittedChunks = Math.max(emittedChunks, chunkIndex + 1);
+
+          if (backpressure?.action === 'slow' && backpressure.targetRate) {
+            await this.delay(1000 / backpressure.targetRate);
+          } else if (backpressure?.action === 'pause') {
+            await this.delay(processingTime / (chunkIndex + 1));
+          }
+
+          chunkIndex++;
+        }
+
+        const toolCalls: ToolCall[] = [];
+        for (const [, part] of [...toolCallParts].sort(([a], [b]) => a - b)) {
+          toolCalls.push({
+            id: part.id,
+            name: part.name,
+            arguments: this.parseToolArguments(part.name, part.arguments),
+          });
+        }
+
+        const finalUsage: TokenUsage = usage ?? {
+          promptTokens: 0,
+          completionTokens: streamedTokens,
+          totalTokens: streamedTokens,
+        };
+
+        // Execute stream complete hook
+        await this.registry.execute(
+          HOOK_NAMES.STREAM_COMPLETE,
+          {
+            streamId,
+            totalChunks: chunkIndex,
+            totalTokens: finalUsage.totalTokens,
+            duration: Date.now() - startTime,
+          },
+          context
+        );
+
+        return {
+          id: id || streamId,
+          model,
+          content,
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+          usage: finalUsage,
+          finishReason: finishReason ?? (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+        };
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+
+        // Execute stream error hook
+        const errorResult = await this.registry.execute(
+          HOOK_NAMES.STREAM_ERROR,
+          {
+            streamId,
+            error: err,
+            chunksReceived: chunkIndex,
+            partialContent: content,
+          },
+          context
+        );
+
+        // Provider streams can't be picked up mid-way, so 'resume' restarts too
+        const recovery = errorResult.success
+          ? (errorResult.data as Partial<StreamErrorOutput>)?.recovery
+          : undefined;
+
+        if ((recovery === 'restart' || recovery === 'resume') && restarts < MAX_STREAM_RESTARTS) {
+          this.emit('stream:restart', agentId, err);
+          continue;
+        }
+
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * Parse streamed tool call arguments
+   */
+  private parseToolArguments(toolName: string, raw: string): Record<string, unknown> {
+    if (!raw.trim()) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(raw) as Record<string, unknown>;
+    } catch {
+      throw new Error(`Invalid arguments streamed for tool call: ${toolName}`);
+    }
+  }
+
+  /**
+   * Sleep for the given number of milliseconds
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
   /**
    * Wait for tool completion
    */
@@ -532,6 +1186,102 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
     }
   }
 
+  /**
+   * Screen inbound content with the security hooks. Blocked user input fails
+   * the run; blocked tool results and queued messages are withheld from the
+   * model and replaced by a notice.
+   */
+  private async screenInbound(
+    agentId: string,
+    message: Message,
+    source: 'user' | 'tool' | 'external',
+    context: HookContext
+  ): Promise<Message> {
+    // Each text part is screened on its own; other parts pass through
+    let blocked: SecurityDecision | undefined;
+    const content = await mapTextContent(message.content, async (text) => {
+      if (blocked) {
+        return text;
+      }
+      const screened = await this.messageGuard.screenInput(text, source, context);
+      for (const decision of screened.decisions) {
+        this.emit('security:decision', agentId, {
+          ...decision,
+          ...(message.toolCallId !== undefined ? { toolCallId: message.toolCallId } : {}),
+        });
+      }
+      blocked = screened.blocked;
+      return screened.content;
+    });
+
+    if (blocked) {
+      if (source === 'user') {
+        throw new SecurityError(blocked);
+      }
+      const { check, reason } = blocked;
+      return { ...message, content: JSON.stringify({ error: 'content_blocked', check, reason }) };
+    }
+    return content === message.content ? message : { ...message, content };
+  }
+
+  /**
+   * Screen model output with the security hooks, returning the content to keep
+   */
+  private async screenOutbound(
+    agentId: string,
+    response: LLMResponse,
+    context: HookContext
+  ): Promise<string> {
+    const screened = await this.messageGuard.screenOutput(response.content, context);
+    for (const decision of screened.decisions) {
+      this.emit('security:decision', agentId, decision);
+    }
+
+    if (screened.blocked) {
+      throw new SecurityError(screened.blocked);
+    }
+    return screened.content;
+  }
+
+  /**
+   * Check a tool call against the agent's allowlist and the permission check
+   * hook. Returns why the call is refused, or undefined when it may run.
+   */
+  private async checkToolPermission(
+    agent: AgentInstance,
+    toolCall: ToolCall,
+    context: HookContext
+  ): Promise<string | undefined> {
+    if (!isToolAllowed(toolCall.name, agent.config.tools)) {
+      return `${toolCall.name} is not in the tool allowlist of agent ${agent.config.name}`;
+    }
+
+    const result = await this.registry.execute<PermissionCheckInput, PermissionCheckOutput>(
+      HOOK_NAMES.PERMISSION_CHECK,
+      {
+        userId: agent.id,
+        resource: `tool:${toolCall.name}`,
+        action: 'execute',
+        context: {
+          agentName: agent.config.name,
+          role: agent.config.role,
+          toolCallId: toolCall.id,
+          arguments: toolCall.arguments,
+        },
+      },
+      { ...context, metadata: { ...context.metadata, toolName: toolCall.name } }
+    );
+
+    // Fail closed: a permission check that errors refuses the call
+    if (!result.success) {
+      return `permission check failed: ${result.error.message}`;
+    }
+    if (result.data.allowed === false) {
+      return result.data.reason ?? 'denied by permission check';
+    }
+    return undefined;
+  }
+
   /**
    * Build messages for LLM request
    */
@@ -552,6 +1302,59 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
     return messages;
   }
 
+  /**
+   * Compact the agent's history when the prompt would not fit the context
+   * window of every target model. Returns the messages to send.
+   */
+  private async fitContext(
+    agent: AgentInstance,
+    messages: Message[],
+    options: CompletionOptions,
+    targets: GatewayTarget[],
+    context: HookContext
+  ): Promise<Message[]> {
+    // Fit the smallest known window so every fallback can take the same request
+    let target = targets[0]!;
+    let contextLength: number | undefined;
+    for (const candidate of targets) {
+      const catalog = await this.getModelCatalog(candidate.adapter);
+      const length = catalog.find((model) => model.id === candidate.model)?.contextLength;
+      if (length && (contextLength === undefined || length < contextLength)) {
+        target = candidate;
+        contextLength = length;
+      }
+    }
+    const budget = this.contextManager.getBudget(contextLength);
+    if (budget === undefined) {
+      return messages;
+    }
+
+    // The system prompt and tool definitions are sent with every request
+    const fixedTokens =
+      (agent.config.systemPrompt
+        ? await this.contextManager.countTokens(
+            { role: 'system', content: agent.config.systemPrompt },
+            target.adapter,
+            target.model
+          )
+        : 0) + estimateTokens(JSON.stringify(options.tools ?? []));
+
+    const result = await this.contextManager.compact(agent.messageHistory, {
+      budget: budget - fixedTokens,
+      adapter: target.adapter,
+      model: target.model,
+      pendingToolCalls: agent.pendingToolCalls.length > 0,
+      onResponse: (response) => this.recordUsage(agent.id, target.adapter, response, context),
+    });
+    if (!result) {
+      return messages;
+    }
+
+    agent.messageHistory = result.history;
+    this.emit('agent:context-compacted', agent.id, result.compaction);
+    return this.buildMessages(agent);
+  }
+
   /**
    * Get adapter for an agent
    */
@@ -561,6 +1364,143 @@ export class AgentRuntime extends EventEmitter<RuntimeEvents> implements Runtime
     return this.defaultAdapter;
   }
 
+  /**
+   * Run the model selection and provider routing hooks to build the gateway targets
+   */
+  private async resolveTargets(
+    agent: AgentInstance,
+    messages: Message[],
+    options: CompletionOptions,
+    context: HookContext
+  ): Promise<GatewayTarget[]> {
+    const adapters = [...this.adapters.values()];
+    const catalogs = new Map<string, ModelInfo[]>();
+    for (const adapter of adapters) {
+      catalogs.set(adapter.id, await this.getModelCatalog(adapter));
+    }
+
+    const servingAdapters = (model: string): LLMAdapter[] =>
+      model === 'default'
+        ? adapters
+        : adapters.filter((adapter) => catalogs.get(adapter.id)?.some((m) => m.id === model));
+
+    let model = options.model;
+    let fallbackModels: string[] = [];
+
+    // Execute model selection hook unless the agent pins a model
+    if (!agent.config.model) {
+      const selection = await this.registry.execute(
+        HOOK_NAMES.MODEL_SELECTION,
+        {
+          request: {
+            messages,
+            model: options.model,
+            temperature: options.temperature,
+            tools: options.tools,
+          },
+          availableModels: [...catalogs.values()].flat(),
+          constraints: agent.config.modelConstraints,
+        },
+        context
+      );
+
+      if (!selection.success) {
+        throw selection.error;
+      }
+
+      const selected = selection.data as Partial<ModelSelectionOutput>;
+      model = selected.selectedModel ?? model;
+      fallbackModels = selected.fallbackModels ?? [];
+    }
+
+    // Models no adapter lists (e.g. newly released ones) go to the default adapter
+    const defaultAdapter = this.getAdapterForAgent(agent)!;
+    const candidates = servingAdapters(model);
+    if (candidates.length === 0) {
+      candidates.push(defaultAdapter);
+    }
+
+    // Execute provider routing hook
+    const routing = await this.registry.execute(
+      HOOK_NAMES.PROVIDER_ROUTING,
+      {
+        model,
+        availableProviders: candidates.map((adapter) => ({
+          id: adapter.id,
+          name: adapter.name,
+          ...this.gateway.getProviderHealth(adapter.id),
+        })),
+        preferences: agent.config.providerPreferences,
+      },
+      context
+    );
+
+    if (!routing.success) {
+      throw routing.error;
+    }
+
+    const routed = routing.data as Partial<ProviderRoutingOutput>;
+    const primary =
+      candidates.find((adapter) => adapter.id === routed.provider) ??
+      (candidates.includes(defaultAdapter) ? defaultAdapter : candidates[0]!);
+    const routedFallbacks = (routed.fallbackProviders ?? [])
+      .map((id) => candidates.find((adapter) => adapter.id === id))
+      .filter((adapter): adapter is LLMAdapter => adapter !== undefined);
+
+    // Configured fallback adapters run their own default model; by default every
+    // adapter other than the primary does
+    const fallbackAdapters = this.config.fallbackAdapters
+      ? this.config.fallbackAdapters
+          .map((id) => this.adapters.get(id))
+          .filter((adapter): adapter is LLMAdapter => adapter !== undefined)
+      : adapters.filter((adapter) => adapter !== primary);
+
+    const targets: GatewayTarget[] = [
+      { adapter: primary, model },
+      ...routedFallbacks.map((adapter) => ({ adapter, model })),
+      ...fallbackModels.flatMap((fallbackModel) =>
+        servingAdapters(fallbackModel)
+          .slice(0, 1)
+          .map((adapter) => ({ adapter, model: fallbackModel }))
+      ),
+      ...fallbackAdapters.map((adapter) => ({ adapter, model: 'default' })),
+    ];
+
+    const seen = new Set<string>();
+    return targets.filter((target) => {
+      const key = `${target.adapter.id}:${target.model}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Get the models an adapter offers, cached per adapter
+   */
+  private async getModelCatalog(adapter: LLMAdapter): Promise<ModelInfo[]> {
+    let catalog = this.modelCatalogs.get(adapter.id);
+    if (!catalog) {
+      if (adapter.getAvailableModels) {
+        catalog = await adapter.getAvailableModels();
+        this.pricing.addModels(catalog);
+      }
+      catalog ??= adapter.models.map((id) => ({
+        id,
+        name: id,
+        provider: adapter.id,
+        contextLength: 0,
+        inputCostPer1k: 0,
+        outputCostPer1k: 0,
+        capabilities: [],
+      }));
+      this.modelCatalogs.set(adapter.id, catalog);
+    }
+    return catalog;
+  }
+
   /**
    * Start health check interval
    */
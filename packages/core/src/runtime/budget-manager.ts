@@ -0,0 +1,171 @@
+/**
+ * Budget Manager
+ *
+ * Tracks the tokens, spend and running time of each agent, rolling usage up
+ * from child agents to their parents, and checks it against the agent's
+ * lifetime budget and the runtime's per-run budget.
+ */
+
+import type { BudgetLimits } from '../types/hooks.js';
+import type { DefaultStateManager } from './state-manager.js';
+import type { AgentUsage, BudgetCheck, BudgetManager, BudgetStatus } from './types.js';
+
+const DEFAULT_WARN_AT = 0.8;
+
+interface ActiveRun {
+  startedAt: number;
+  /** The agent's usage when the run started */
+  tokens: number;
+  cost: number;
+}
+
+// =============================================================================
+// Budget Error
+// =============================================================================
+
+/**
+ * Raised when a budget runs out while a request is still being retried
+ */
+export class BudgetExceededError extends Error {
+  status: BudgetStatus;
+
+  constructor(status: BudgetStatus) {
+    super(`${status.scope} ${status.limit} budget exceeded: ${status.used} of ${status.max}`);
+    this.name = 'BudgetExceededError';
+    this.status = status;
+  }
+}
+
+// =============================================================================
+// Default Budget Manager Implementation
+// =============================================================================
+
+export class DefaultBudgetManager implements BudgetManager {
+  private stateManager: DefaultStateManager;
+  private runBudget?: BudgetLimits;
+  private runs: Map<string, ActiveRun> = new Map();
+  /** Limits already warned about, by agent, scope and limit */
+  private warned: Set<string> = new Set();
+
+  constructor(stateManager: DefaultStateManager, runBudget?: BudgetLimits) {
+    this.stateManager = stateManager;
+    this.runBudget = runBudget;
+  }
+
+  startRun(agentId: string): void {
+    const usage = this.getUsage(agentId);
+    if (!usage) {
+      return;
+    }
+
+    this.runs.set(agentId, { startedAt: Date.now(), tokens: usage.tokens, cost: usage.cost });
+    for (const key of this.warned) {
+      if (key.startsWith(`${agentId}:run:`)) {
+        this.warned.delete(key);
+      }
+    }
+  }
+
+  endRun(agentId: string): void {
+    const run = this.runs.get(agentId);
+    const usage = this.getUsage(agentId);
+    this.runs.delete(agentId);
+    if (run && usage) {
+      usage.durationMs += Date.now() - run.startedAt;
+    }
+  }
+
+  record(agentId: string, tokens: number, cost: number): void {
+    for (const id of this.stateManager.getHierarchy(agentId)) {
+      const usage = this.getUsage(id);
+      if (usage) {
+        usage.tokens += tokens;
+        usage.cost += cost;
+      }
+    }
+  }
+
+  check(agentId: string): BudgetCheck {
+    const result: BudgetCheck = { warnings: [] };
+
+    // The agent's own budgets first, then its ancestors'
+    for (const id of this.stateManager.getHierarchy(agentId).reverse()) {
+      const agent = this.stateManager.getState(id);
+      if (!agent) {
+        continue;
+      }
+
+      const scopes: Array<[BudgetStatus['scope'], BudgetLimits | undefined]> = [
+        ['agent', agent.config.budget],
+        ['run', this.runs.has(id) ? this.runBudget : undefined],
+      ];
+      for (const [scope, budget] of scopes) {
+        if (!budget) {
+          continue;
+        }
+
+        for (const status of this.measure(id, scope, budget)) {
+          const key = `${id}:${scope}:${status.limit}`;
+          if (
+            status.used >= status.max * (budget.warnAt ?? DEFAULT_WARN_AT) &&
+            !this.warned.has(key)
+          ) {
+            this.warned.add(key);
+            result.warnings.push(status);
+          }
+          if (status.used >= status.max) {
+            result.exceeded ??= status;
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The agent's usage, created on first use
+   */
+  getUsage(agentId: string): AgentUsage | undefined {
+    const agent = this.stateManager.getState(agentId);
+    if (agent) {
+      agent.usage ??= { tokens: 0, cost: 0, durationMs: 0 };
+    }
+    return agent?.usage;
+  }
+
+  private measure(
+    agentId: string,
+    scope: BudgetStatus['scope'],
+    budget: BudgetLimits
+  ): BudgetStatus[] {
+    const usage = this.getUsage(agentId)!;
+    const run = this.runs.get(agentId);
+    const running = run ? Date.now() - run.startedAt : 0;
+    const used =
+      scope === 'agent'
+        ? { tokens: usage.tokens, cost: usage.cost, duration: usage.durationMs + running }
+        : { tokens: usage.tokens - run!.tokens, cost: usage.cost - run!.cost, duration: running };
+
+    const statuses: BudgetStatus[] = [];
+    const add = (limit: BudgetStatus['limit'], max: number | undefined) => {
+      if (max !== undefined) {
+        statuses.push({ agentId, scope, limit, used: used[limit], max });
+      }
+    };
+    add('tokens', budget.maxTokens);
+    add('cost', budget.maxCost);
+    add('duration', budget.maxDurationMs);
+    return statuses;
+  }
+}
+
+/**
+ * Create a budget manager
+ */
+export function createBudgetManager(
+  stateManager: DefaultStateManager,
+  runBudget?: BudgetLimits
+): DefaultBudgetManager {
+  return new DefaultBudgetManager(stateManager, runBudget);
+}
@@ -0,0 +1,254 @@
+/**
+ * Context Manager
+ *
+ * Keeps an agent's history within the model's context window by dropping
+ * old turns, emptying old tool results or summarizing older turns.
+ */
+
+import type { Message } from '../types/hooks.js';
+import type {
+  ContextCompaction,
+  ContextConfig,
+  ContextManager,
+  ContextRequest,
+  ContextStrategy,
+  LLMAdapter,
+} from './types.js';
+import { getTextContent } from './message-content.js';
+
+/** Tokens added per message for role and formatting */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Content left in place of a dropped tool result */
+const DROPPED_TOOL_RESULT = '[Tool result removed to save context]';
+
+const DEFAULT_SUMMARY_PROMPT =
+  'Summarize the conversation so far for the assistant continuing it. Keep the task, ' +
+  'decisions, facts learned from tools and any open questions. Be concise.';
+
+/**
+ * Estimate tokens from text length, at roughly four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// =============================================================================
+// Default Context Manager Implementation
+// =============================================================================
+
+export class DefaultContextManager implements ContextManager {
+  private config: ContextConfig;
+  private counts: WeakMap<Message, number> = new WeakMap();
+
+  constructor(config: ContextConfig = {}) {
+    this.config = config;
+  }
+
+  get strategy(): ContextStrategy {
+    return this.config.strategy ?? 'sliding-window';
+  }
+
+  /**
+   * Prompt token budget for a model's context length, or undefined when
+   * neither the model nor the config sets a limit
+   */
+  getBudget(contextLength?: number): number | undefined {
+    const limits = [
+      contextLength ? Math.floor(contextLength * (this.config.threshold ?? 0.8)) : undefined,
+      this.config.maxContextTokens,
+    ].filter((limit): limit is number => limit !== undefined && limit > 0);
+    return limits.length > 0 ? Math.min(...limits) : undefined;
+  }
+
+  async countTokens(message: Message, adapter?: LLMAdapter, model?: string): Promise<number> {
+    const cached = this.counts.get(message);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    // Tool calls are sent back to the model as part of the assistant turn
+    const text =
+      getTextContent(message.content) +
+      (message.toolCalls?.length ? JSON.stringify(message.toolCalls) : '');
+    const tokens =
+      (adapter?.countTokens ? await adapter.countTokens(text, model) : estimateTokens(text)) +
+      MESSAGE_OVERHEAD_TOKENS;
+    this.counts.set(message, tokens);
+    return tokens;
+  }
+
+  async compact(
+    history: Message[],
+    request: ContextRequest
+  ): Promise<{ history: Message[]; compaction: ContextCompaction } | undefined> {
+    const tokensBefore = await this.total(history, request);
+    if (this.strategy === 'none' || tokensBefore <= request.budget) {
+      return undefined;
+    }
+
+    const recentStart = this.recentStart(history, request.pendingToolCalls);
+    let strategy = this.strategy;
+    let compacted = history;
+    let toolResultsDropped = 0;
+    let summary: Message | undefined;
+
+    if (strategy === 'drop-tool-results') {
+      ({ history: compacted, dropped: toolResultsDropped } = await this.dropToolResults(
+        history,
+        recentStart,
+        request
+      ));
+    } else if (strategy === 'summarize') {
+      try {
+        compacted = await this.summarize(history, recentStart, request);
+        summary = compacted.find((message) => !history.includes(message));
+      } catch {
+        // Without a summary, fall back to dropping turns
+        strategy = 'sliding-window';
+      }
+    }
+
+    // Drop the oldest turns from whatever is still over budget
+    if ((await this.total(compacted, request)) > request.budget) {
+      compacted = await this.slideWindow(
+        compacted,
+        compacted.length - (history.length - recentStart),
+        request
+      );
+    }
+
+    return {
+      history: compacted,
+      compaction: {
+        strategy,
+        tokensBefore,
+        tokensAfter: await this.total(compacted, request),
+        messagesRemoved:
+          history.length - compacted.length + (summary && compacted.includes(summary) ? 1 : 0),
+        toolResultsDropped,
+      },
+    };
+  }
+
+  /**
+   * Index of the first message that is never compacted. The window starts on
+   * a turn boundary so tool results stay with the call that produced them.
+   */
+  private recentStart(history: Message[], pendingToolCalls: boolean): number {
+    let start = Math.max(0, history.length - (this.config.keepRecent ?? 4));
+    if (pendingToolCalls) {
+      const lastAssistant = history.map((m) => m.role).lastIndexOf('assistant');
+      if (lastAssistant !== -1) {
+        start = Math.min(start, lastAssistant);
+      }
+    }
+    while (start > 0 && history[start]!.role === 'tool') {
+      start--;
+    }
+    return start;
+  }
+
+  private async slideWindow(
+    history: Message[],
+    recentStart: number,
+    request: ContextRequest
+  ): Promise<Message[]> {
+    // System messages are kept wherever they are
+    const window = (start: number) =>
+      history.filter((message, i) => i >= start || message.role === 'system');
+
+    let start = 0;
+    while (start < recentStart && (await this.total(window(start), request)) > request.budget) {
+      start++;
+      while (start < recentStart && history[start]!.role === 'tool') {
+        start++;
+      }
+    }
+    return window(start);
+  }
+
+  private async dropToolResults(
+    history: Message[],
+    recentStart: number,
+    request: ContextRequest
+  ): Promise<{ history: Message[]; dropped: number }> {
+    const result = [...history];
+    let dropped = 0;
+
+    for (let i = 0; i < recentStart; i++) {
+      if ((await this.total(result, request)) <= request.budget) {
+        break;
+      }
+      const message = result[i]!;
+      if (message.role === 'tool' && message.content !== DROPPED_TOOL_RESULT) {
+        result[i] = { ...message, content: DROPPED_TOOL_RESULT };
+        dropped++;
+      }
+    }
+    return { history: result, dropped };
+  }
+
+  private async summarize(
+    history: Message[],
+    recentStart: number,
+    request: ContextRequest
+  ): Promise<Message[]> {
+    const older = history.slice(0, recentStart).filter((m) => m.role !== 'system');
+    if (older.length === 0) {
+      return history;
+    }
+
+    // Keep the transcript within the budget; the latest turns matter most
+    const transcript = older
+      .map((m) => {
+        const name = m.name ? ` (${m.name})` : '';
+        const calls = (m.toolCalls ?? []).map(
+          (tc) => `\n-> ${tc.name}(${JSON.stringify(tc.arguments)})`
+        );
+        return `${m.role}${name}: ${getTextContent(m.content)}${calls.join('')}`;
+      })
+      .join('\n\n')
+      .slice(-request.budget * 4);
+
+    const response = await request.adapter.complete(
+      [
+        {
+          role: 'user',
+          content: `${transcript}\n\n${this.config.summaryPrompt ?? DEFAULT_SUMMARY_PROMPT}`,
+        },
+      ],
+      {
+        model: request.model,
+        temperature: 0,
+        maxTokens: this.config.summaryMaxTokens ?? 1024,
+      }
+    );
+    await request.onResponse?.(response);
+
+    const summary: Message = {
+      role: 'user',
+      content: `Summary of the earlier conversation:\n${response.content}`,
+    };
+    return [
+      ...history.slice(0, recentStart).filter((m) => m.role === 'system'),
+      summary,
+      ...history.slice(recentStart),
+    ];
+  }
+
+  private async total(messages: Message[], request: ContextRequest): Promise<number> {
+    let tokens = 0;
+    for (const message of messages) {
+      tokens += await this.countTokens(message, request.adapter, request.model);
+    }
+    return tokens;
+  }
+}
+
+/**
+ * Create a context manager
+ */
+export function createContextManager(config?: ContextConfig): DefaultContextManager {
+  return new DefaultContextManager(config);
+}
@@ -0,0 +1,422 @@
+/**
+ * Gateway
+ *
+ * Executes LLM requests with circuit breaking, retries and provider fallback
+ * driven by the gateway hooks.
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import type {
+  HookContext,
+  LLMResponse,
+  Message,
+  FailureRecord,
+  GatewayAttempt,
+  CircuitBreakerOutput,
+  RetryDecisionOutput,
+  FallbackTriggerOutput,
+} from '../types/hooks.js';
+import type { HookRegistry } from '../hooks/registry.js';
+import { HOOK_NAMES } from '../hooks/registry.js';
+import type {
+  CircuitState,
+  CompletionOptions,
+  Gateway,
+  GatewayCall,
+  GatewayRequest,
+  GatewayTarget,
+  ProviderHealth,
+} from './types.js';
+
+/** Failures kept per provider for the circuit breaker hook */
+const MAX_FAILURE_RECORDS = 100;
+
+// =============================================================================
+// Gateway Events
+// =============================================================================
+
+interface GatewayEvents {
+  'circuit:state-changed': (provider: string, from: CircuitState, to: CircuitState) => void;
+}
+
+// =============================================================================
+// Gateway Error
+// =============================================================================
+
+/**
+ * Raised when no provider in the chain produced a response
+ */
+export class GatewayError extends Error {
+  attempts: GatewayAttempt[];
+
+  constructor(message: string, attempts: GatewayAttempt[], cause?: Error) {
+    super(message, { cause });
+    this.name = 'GatewayError';
+    this.attempts = attempts;
+  }
+}
+
+// =============================================================================
+// Circuit Tracking
+// =============================================================================
+
+interface Circuit {
+  state: CircuitState;
+  failures: FailureRecord[];
+  successCount: number;
+  failureCount: number;
+  totalLatency: number;
+  /** When an open circuit's cooldown ends, as reported by the circuit breaker hook */
+  openUntil?: number;
+}
+
+// =============================================================================
+// Default Gateway Implementation
+// =============================================================================
+
+export class DefaultGateway extends EventEmitter<GatewayEvents> implements Gateway {
+  private circuits: Map<string, Circuit> = new Map();
+  private registry: HookRegistry;
+  private maxAttemptsPerProvider: number;
+
+  constructor(registry: HookRegistry, maxAttemptsPerProvider: number = 3) {
+    super();
+    this.registry = registry;
+    this.maxAttemptsPerProvider = maxAttemptsPerProvider;
+  }
+
+  /**
+   * Execute a request with circuit breaking, retries and fallback
+   */
+  async execute(
+    request: GatewayRequest,
+    call: GatewayCall,
+    context: HookContext,
+    onAttempt?: (attempt: GatewayAttempt) => void
+  ): Promise<LLMResponse> {
+    const attempts: GatewayAttempt[] = [];
+    const record = (attempt: GatewayAttempt): void => {
+      attempts.push(attempt);
+      onAttempt?.(attempt);
+    };
+
+    const remaining = [...request.targets];
+    let target = remaining.shift();
+    let messages = request.messages;
+    let options = request.options;
+    let lastError: Error | undefined;
+
+    while (target) {
+      const { adapter } = target;
+      const provider = adapter.id;
+      options = { ...options, model: target.model };
+
+      for (let attemptNumber = 1; attemptNumber <= this.maxAttemptsPerProvider; attemptNumber++) {
+        await request.beforeAttempt?.();
+
+        if (!(await this.allowRequest(provider, options.model, context))) {
+          lastError = new Error(`Circuit open for provider: ${provider}`);
+          record({
+            provider,
+            model: options.model,
+            attemptNumber,
+            outcome: 'circuit-open',
+            error: lastError.message,
+            duration: 0,
+          });
+          break;
+        }
+
+        const startTime = Date.now();
+        try {
+          const response = await call(adapter, messages, options);
+          const duration = Date.now() - startTime;
+          this.recordSuccess(provider, duration);
+          record({
+            provider,
+            model: options.model,
+            attemptNumber,
+            outcome: 'success',
+            duration,
+          });
+
+          return {
+            ...response,
+            metadata: { ...response.metadata, attempts },
+          };
+        } catch (error) {
+          lastError = error instanceof Error ? error : new Error(String(error));
+          this.recordFailure(provider, options.model, lastError);
+          record({
+            provider,
+            model: options.model,
+            attemptNumber,
+            outcome: 'error',
+            error: lastError.message,
+            duration: Date.now() - startTime,
+          });
+
+          const retry = await this.decideRetry(
+            lastError,
+            attemptNumber,
+            messages,
+            options,
+            context
+          );
+          if (!retry?.shouldRetry) {
+            break;
+          }
+
+          if (retry.modifiedRequest) {
+            messages = retry.modifiedRequest.messages;
+            options = {
+              ...options,
+              model: retry.modifiedRequest.model ?? options.model,
+              temperature: retry.modifiedRequest.temperature ?? options.temperature,
+              maxTokens: retry.modifiedRequest.maxTokens ?? options.maxTokens,
+              tools: retry.modifiedRequest.tools ?? options.tools,
+            };
+          }
+
+          await this.delay(retry.delay ?? 0);
+        }
+      }
+
+      if (remaining.length === 0) {
+        break;
+      }
+
+      const fallback = await this.decideFallback(
+        lastError!,
+        provider,
+        options.model,
+        attempts.length,
+        remaining,
+        context
+      );
+      if (!fallback?.shouldFallback) {
+        break;
+      }
+
+      const nextIndex = remaining.findIndex((t) => t.adapter.id === fallback.nextProvider);
+      target = remaining.splice(Math.max(nextIndex, 0), 1)[0];
+      if (target && fallback.nextModel) {
+        target = { ...target, model: fallback.nextModel };
+      }
+
+      await this.delay(fallback.delay ?? 0);
+    }
+
+    throw new GatewayError(lastError?.message ?? 'No LLM adapter available', attempts, lastError);
+  }
+
+  /**
+   * Get the circuit state for a provider
+   */
+  getCircuitState(provider: string): CircuitState {
+    return this.circuits.get(provider)?.state ?? 'closed';
+  }
+
+  /**
+   * Get measured health for a provider
+   */
+  getProviderHealth(provider: string): ProviderHealth {
+    const circuit = this.circuits.get(provider);
+    if (!circuit) {
+      return { status: 'available', latency: 0, reliability: 1 };
+    }
+
+    // An open circuit past its cooldown is ready for a probe request
+    const coolingDown = circuit.state === 'open' && Date.now() < (circuit.openUntil ?? Infinity);
+
+    const total = circuit.successCount + circuit.failureCount;
+    return {
+      status: coolingDown ? 'unavailable' : circuit.state === 'closed' ? 'available' : 'degraded',
+      latency: circuit.successCount > 0 ? circuit.totalLatency / circuit.successCount : 0,
+      reliability: total > 0 ? circuit.successCount / total : 1,
+    };
+  }
+
+  /**
+   * Reset the circuit for a provider
+   */
+  resetCircuit(provider: string): void {
+    this.setCircuitState(provider, 'closed');
+    this.circuits.delete(provider);
+  }
+
+  // =============================================================================
+  // Private Methods
+  // =============================================================================
+
+  /**
+   * Consult the circuit breaker hook before calling a provider
+   */
+  private async allowRequest(
+    provider: string,
+    model: string,
+    context: HookContext
+  ): Promise<boolean> {
+    const circuit = this.getCircuit(provider);
+
+    // Execute circuit breaker hook
+    const result = await this.registry.execute(
+      HOOK_NAMES.CIRCUIT_BREAKER,
+      {
+        provider,
+        model,
+        recentFailures: [...circuit.failures],
+        currentState: circuit.state,
+      },
+      context
+    );
+
+    // A failing breaker handler shouldn't take the provider down with it
+    if (!result.success) {
+      return true;
+    }
+
+    const decision = result.data as Partial<CircuitBreakerOutput>;
+    this.setCircuitState(provider, decision.newState ?? circuit.state);
+    if (decision.cooldownMs !== undefined) {
+      circuit.openUntil = Date.now() + decision.cooldownMs;
+    }
+    return decision.allowRequest !== false;
+  }
+
+  /**
+   * Ask the retry decision hook whether to retry a failed attempt
+   */
+  private async decideRetry(
+    error: Error,
+    attemptNumber: number,
+    messages: Message[],
+    options: CompletionOptions,
+    context: HookContext
+  ): Promise<Partial<RetryDecisionOutput> | undefined> {
+    if (attemptNumber >= this.maxAttemptsPerProvider) {
+      return undefined;
+    }
+
+    // Execute retry decision hook
+    const result = await this.registry.execute(
+      HOOK_NAMES.RETRY_DECISION,
+      {
+        error,
+        attemptNumber,
+        maxAttempts: this.maxAttemptsPerProvider,
+        request: {
+          messages,
+          model: options.model,
+          temperature: options.temperature,
+          maxTokens: options.maxTokens,
+          tools: options.tools,
+        },
+      },
+      context
+    );
+
+    return result.success ? (result.data as Partial<RetryDecisionOutput>) : undefined;
+  }
+
+  /**
+   * Ask the fallback trigger hook whether to move on to another provider
+   */
+  private async decideFallback(
+    error: Error,
+    failedProvider: string,
+    failedModel: string,
+    attemptNumber: number,
+    remaining: GatewayTarget[],
+    context: HookContext
+  ): Promise<Partial<FallbackTriggerOutput> | undefined> {
+    // Execute fallback trigger hook
+    const result = await this.registry.execute(
+      HOOK_NAMES.FALLBACK_TRIGGER,
+      {
+        error,
+        failedProvider,
+        failedModel,
+        attemptNumber,
+        remainingFallbacks: remaining.map((t) => t.adapter.id),
+      },
+      context
+    );
+
+    return result.success ? (result.data as Partial<FallbackTriggerOutput>) : undefined;
+  }
+
+  /**
+   * Record a successful call; a successful probe closes a half-open circuit
+   */
+  private recordSuccess(provider: string, latency: number): void {
+    const circuit = this.getCircuit(provider);
+    circuit.successCount++;
+    circuit.totalLatency += latency;
+
+    if (circuit.state === 'half-open') {
+      circuit.failures = [];
+      this.setCircuitState(provider, 'closed');
+    }
+  }
+
+  /**
+   * Record a failed call; a failed probe reopens a half-open circuit
+   */
+  private recordFailure(provider: string, model: string, error: Error): void {
+    const circuit = this.getCircuit(provider);
+    circuit.failureCount++;
+    circuit.failures.push({
+      timestamp: Date.now(),
+      error: error.message,
+      provider,
+      model,
+    });
+
+    if (circuit.failures.length > MAX_FAILURE_RECORDS) {
+      circuit.failures.shift();
+    }
+
+    if (circuit.state === 'half-open') {
+      this.setCircuitState(provider, 'open');
+    }
+  }
+
+  private getCircuit(provider: string): Circuit {
+    let circuit = this.circuits.get(provider);
+    if (!circuit) {
+      circuit = {
+        state: 'closed',
+        failures: [],
+        successCount: 0,
+        failureCount: 0,
+        totalLatency: 0,
+      };
+      this.circuits.set(provider, circuit);
+    }
+    return circuit;
+  }
+
+  private setCircuitState(provider: string, state: CircuitState): void {
+    const circuit = this.getCircuit(provider);
+    const from = circuit.state;
+    if (from !== state) {
+      circuit.state = state;
+      this.emit('circuit:state-changed', provider, from, state);
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+  }
+}
+
+/**
+ * Create a gateway
+ */
+export function createGateway(
+  registry: HookRegistry,
+  maxAttemptsPerProvider?: number
+): DefaultGateway {
+  return new DefaultGateway(registry, maxAttemptsPerProvider);
+}
@@ -15,6 +15,8 @@ export {
 export {
   DefaultToolExecutor,
   createToolExecutor,
+  matchesToolPattern,
+  isToolAllowed,
 } from './tool-executor.js';
 
 export {
@@ -22,18 +24,97 @@ export {
   createMessageQueue,
 } from './message-queue.js';
 
+export {
+  FileStateStore,
+  SqliteStateStore,
+  createFileStateStore,
+  createSqliteStateStore,
+  encodeState,
+  decodeState,
+  type FileStateStoreOptions,
+  type SqliteStateStoreOptions,
+  type SqliteDatabase,
+} from './state-store.js';
+
+export {
+  DefaultGateway,
+  GatewayError,
+  createGateway,
+} from './gateway.js';
+
+export {
+  DefaultMessageGuard,
+  SecurityError,
+  createMessageGuard,
+} from './message-guard.js';
+
+export {
+  DefaultContextManager,
+  createContextManager,
+  estimateTokens,
+} from './context-manager.js';
+
+export {
+  getTextContent,
+  mapTextContent,
+} from './message-content.js';
+
+export {
+  DefaultRunTracer,
+  createRunTracer,
+} from './run-tracer.js';
+
+export {
+  DefaultRuntimeMetrics,
+  createRuntimeMetrics,
+} from './runtime-metrics.js';
+
+export {
+  DefaultBudgetManager,
+  createBudgetManager,
+} from './budget-manager.js';
+
 export {
   DEFAULT_RUNTIME_CONFIG,
+  DEFAULT_SECURITY_ACTIONS,
   type RuntimeConfig,
   type RuntimeEvents,
   type AgentInstance,
   type LLMAdapter,
   type CompletionOptions,
+  type CircuitState,
+  type Gateway,
+  type GatewayRequest,
+  type GatewayCall,
+  type GatewayTarget,
+  type ProviderHealth,
+  type SecurityCheck,
+  type SecurityAction,
+  type SecurityConfig,
+  type SecurityDecision,
+  type ContentSource,
+  type ScreenResult,
+  type MessageGuard,
+  type ContextStrategy,
+  type ContextConfig,
+  type ContextRequest,
+  type ContextCompaction,
+  type ContextManager,
+  type TracingConfig,
+  type TraceScope,
+  type RunTracer,
+  type MetricsConfig,
+  type RuntimeMetrics,
+  type AgentUsage,
+  type BudgetStatus,
+  type BudgetCheck,
+  type BudgetManager,
   type ToolExecutor,
   type ToolExecutionContext,
   type ToolExecutionResult,
   type ToolHandler,
   type MessageQueue,
   type StateManager,
+  type StateStore,
   type Runtime,
 } from './types.js';
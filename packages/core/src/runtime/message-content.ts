@@ -0,0 +1,39 @@
+/**
+ * Message Content
+ *
+ * Helpers for message content that is either plain text or a list of
+ * content parts.
+ */
+
+import type { ContentPart, Message, TextContentPart } from '../types/hooks.js';
+
+/**
+ * The text of a message's content, with non-text parts left out
+ */
+export function getTextContent(content: Message['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((part): part is TextContentPart => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Rewrite the text of a message's content, keeping non-text parts in place
+ */
+export async function mapTextContent(
+  content: Message['content'],
+  transform: (text: string) => Promise<string>
+): Promise<Message['content']> {
+  if (typeof content === 'string') {
+    return transform(content);
+  }
+
+  const parts: ContentPart[] = [];
+  for (const part of content) {
+    parts.push(part.type === 'text' ? { ...part, text: await transform(part.text) } : part);
+  }
+  return parts;
+}
@@ -0,0 +1,302 @@
+/**
+ * Message Guard
+ *
+ * Screens the content entering and leaving an agent with the security hooks:
+ * inbound content through sanitization and prompt injection detection, model
+ * output through output filtering, PII detection and moderation.
+ */
+
+import type {
+  HookContext,
+  InputSanitizationInput,
+  InputSanitizationOutput,
+  PromptInjectionInput,
+  PromptInjectionOutput,
+  OutputFilteringInput,
+  OutputFilteringOutput,
+  PiiDetectionInput,
+  PiiDetectionOutput,
+  ContentModerationInput,
+  ContentModerationOutput,
+  PiiType,
+  ModerationCategory,
+} from '../types/hooks.js';
+import type { HookRegistry, HookName } from '../hooks/registry.js';
+import { HOOK_NAMES } from '../hooks/registry.js';
+import type {
+  ContentSource,
+  MessageGuard,
+  ScreenResult,
+  SecurityAction,
+  SecurityCheck,
+  SecurityConfig,
+  SecurityDecision,
+} from './types.js';
+import { DEFAULT_SECURITY_ACTIONS } from './types.js';
+
+const ALL_PII_TYPES: PiiType[] = [
+  'email',
+  'phone',
+  'ssn',
+  'credit-card',
+  'address',
+  'name',
+  'ip-address',
+  'date-of-birth',
+];
+
+const ALL_MODERATION_CATEGORIES: ModerationCategory[] = [
+  'hate',
+  'violence',
+  'sexual',
+  'self-harm',
+  'illegal',
+  'harassment',
+];
+
+// =============================================================================
+// Security Error
+// =============================================================================
+
+/**
+ * Raised when a security check blocks a user message or model output
+ */
+export class SecurityError extends Error {
+  decision: SecurityDecision;
+
+  constructor(decision: SecurityDecision) {
+    super(`Blocked by ${decision.check} check: ${decision.reason}`);
+    this.name = 'SecurityError';
+    this.decision = decision;
+  }
+}
+
+// =============================================================================
+// Default Message Guard Implementation
+// =============================================================================
+
+/**
+ * A finding from one check, with the redacted content it proposes
+ */
+interface Finding {
+  reason: string;
+  redacted: string;
+}
+
+type Screen = (content: string) => Promise<Finding | undefined>;
+
+export class DefaultMessageGuard implements MessageGuard {
+  private registry: HookRegistry;
+  private config: SecurityConfig;
+  private actions: Record<SecurityCheck, SecurityAction>;
+
+  constructor(registry: HookRegistry, config: SecurityConfig = {}) {
+    this.registry = registry;
+    this.config = config;
+    this.actions = { ...DEFAULT_SECURITY_ACTIONS, ...config.actions };
+  }
+
+  async screenInput(
+    content: string,
+    source: Exclude<ContentSource, 'model'>,
+    context: HookContext
+  ): Promise<ScreenResult> {
+    if (this.config.screenInput === false) {
+      return { content, decisions: [] };
+    }
+
+    return this.screen(content, source, [
+      [
+        'sanitization',
+        async (text) => {
+          const data = await this.run<InputSanitizationInput, InputSanitizationOutput>(
+            HOOK_NAMES.INPUT_SANITIZATION,
+            { content: text, contentType: source === 'tool' ? 'tool-result' : 'user-message' },
+            context
+          );
+          const modifications = data.modifications ?? [];
+          if (!data.blocked && modifications.length === 0) {
+            return undefined;
+          }
+          return {
+            reason: data.blocked
+              ? 'content matched a blocking sanitization rule'
+              : `${modifications.length} sanitization rule match(es): ` +
+                Array.from(new Set(modifications.map((m) => m.rule))).join(', '),
+            redacted: data.sanitized ?? '[Removed: input sanitization]',
+          };
+        },
+      ],
+      [
+        'injection',
+        async (text) => {
+          const data = await this.run<PromptInjectionInput, PromptInjectionOutput>(
+            HOOK_NAMES.PROMPT_INJECTION,
+            { content: text, source: source === 'user' || source === 'tool' ? source : 'external' },
+            context
+          );
+          if (!data.detected || data.action === 'allow') {
+            return undefined;
+          }
+          const patterns = data.patterns?.length ? `: ${data.patterns.join(', ')}` : '';
+          return {
+            reason: `possible prompt injection (confidence ${data.confidence ?? 1})${patterns}`,
+            redacted: '[Removed: possible prompt injection]',
+          };
+        },
+      ],
+    ]);
+  }
+
+  screensOutput(): boolean {
+    return (
+      this.config.screenOutput !== false &&
+      [HOOK_NAMES.OUTPUT_FILTERING, HOOK_NAMES.PII_DETECTION, HOOK_NAMES.CONTENT_MODERATION].some(
+        (hookName) => this.registry.hasHandlers(hookName)
+      )
+    );
+  }
+
+  async screenOutput(content: string, context: HookContext): Promise<ScreenResult> {
+    if (this.config.screenOutput === false) {
+      return { content, decisions: [] };
+    }
+
+    return this.screen(content, 'model', [
+      [
+        'output-filter',
+        async (text) => {
+          const data = await this.run<OutputFilteringInput, OutputFilteringOutput>(
+            HOOK_NAMES.OUTPUT_FILTERING,
+            { content: text, filters: this.config.outputFilters ?? [] },
+            context
+          );
+          const redactions = data.redactions ?? [];
+          if (!data.blocked && redactions.length === 0) {
+            return undefined;
+          }
+          return {
+            reason: data.blocked
+              ? 'content matched a blocking output filter'
+              : `${redactions.length} output filter match(es): ` +
+                Array.from(new Set(redactions.map((r) => r.reason))).join(', '),
+            redacted: data.filtered ?? '[Removed: output filtering]',
+          };
+        },
+      ],
+      [
+        'pii',
+        async (text) => {
+          const data = await this.run<PiiDetectionInput, PiiDetectionOutput>(
+            HOOK_NAMES.PII_DETECTION,
+            { content: text, piiTypes: this.config.piiTypes ?? ALL_PII_TYPES },
+            context
+          );
+          const detected = data.detected ?? [];
+          if (detected.length === 0) {
+            return undefined;
+          }
+
+          // Replace from the end so earlier offsets stay valid
+          let redacted = text;
+          for (const match of [...detected].sort((a, b) => b.start - a.start)) {
+            redacted =
+              redacted.slice(0, match.start) +
+              `[REDACTED:${match.type}]` +
+              redacted.slice(match.end);
+          }
+          return {
+            reason: `PII detected: ${Array.from(new Set(detected.map((m) => m.type))).join(', ')}`,
+            redacted,
+          };
+        },
+      ],
+      [
+        'moderation',
+        async (text) => {
+          const data = await this.run<ContentModerationInput, ContentModerationOutput>(
+            HOOK_NAMES.CONTENT_MODERATION,
+            {
+              content: text,
+              categories: this.config.moderationCategories ?? ALL_MODERATION_CATEGORIES,
+              strictness: this.config.moderationStrictness ?? 'moderate',
+            },
+            context
+          );
+          if (data.passed !== false) {
+            return undefined;
+          }
+          const categories = Array.from(new Set((data.violations ?? []).map((v) => v.category)));
+          return {
+            reason: categories.length
+              ? `moderation violation: ${categories.join(', ')}`
+              : 'moderation violation',
+            redacted: '[Removed: content moderation]',
+          };
+        },
+      ],
+    ]);
+  }
+
+  /**
+   * Run the checks in order, applying each check's action to its findings
+   */
+  private async screen(
+    content: string,
+    source: ContentSource,
+    checks: Array<[SecurityCheck, Screen]>
+  ): Promise<ScreenResult> {
+    const decisions: SecurityDecision[] = [];
+    let current = content;
+
+    for (const [check, run] of checks) {
+      const finding = await run(current);
+      if (!finding) {
+        continue;
+      }
+
+      const decision: SecurityDecision = {
+        check,
+        action: this.actions[check],
+        source,
+        reason: finding.reason,
+      };
+      decisions.push(decision);
+
+      if (decision.action === 'block') {
+        return { content: current, decisions, blocked: decision };
+      }
+      if (decision.action === 'redact') {
+        current = finding.redacted;
+      }
+    }
+
+    return { content: current, decisions };
+  }
+
+  /**
+   * Execute a security hook; with no handlers registered the hook passes its
+   * input through, which none of the checks treat as a finding
+   */
+  private async run<TInput, TOutput>(
+    hookName: HookName,
+    input: TInput,
+    context: HookContext
+  ): Promise<Partial<TOutput>> {
+    const result = await this.registry.execute<TInput, TOutput>(hookName, input, context);
+    if (!result.success) {
+      throw result.error;
+    }
+    return (result.data ?? {}) as Partial<TOutput>;
+  }
+}
+
+/**
+ * Create a message guard
+ */
+export function createMessageGuard(
+  registry: HookRegistry,
+  config?: SecurityConfig
+): DefaultMessageGuard {
+  return new DefaultMessageGuard(registry, config);
+}
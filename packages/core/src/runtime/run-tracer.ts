@@ -0,0 +1,190 @@
+/**
+ * Run Tracer
+ *
+ * Records a trace per agent run: a root span for the run with child spans for
+ * each iteration, LLM call, tool execution and hook execution. Span IDs come
+ * from the trace start hook when one is registered, and the W3C traceparent
+ * of the current span travels in the hook context metadata.
+ */
+
+import type { HookContext, TraceStartInput, TraceStartOutput } from '../types/hooks.js';
+import type { HookName, HookRegistry } from '../hooks/registry.js';
+import { HOOK_NAMES } from '../hooks/registry.js';
+import type { SpanInfo, SpanKind, Tracer } from '../hooks/observability/tracing.js';
+import {
+  createTracer,
+  formatTraceparent,
+  generateTraceId,
+} from '../hooks/observability/tracing.js';
+import { SemanticConventions } from '../hooks/observability/span-annotation.js';
+import type { RunTracer, TraceScope, TracingConfig } from './types.js';
+
+/** Context metadata marking work inside a trace that was not sampled */
+const UNSAMPLED_KEY = 'traceSampled';
+
+// =============================================================================
+// Default Run Tracer Implementation
+// =============================================================================
+
+export class DefaultRunTracer implements RunTracer {
+  readonly tracer: Tracer;
+
+  private registry: HookRegistry;
+  private config?: TracingConfig;
+  private rootSpanIds: Set<string> = new Set();
+  private onHookExecuted = (
+    hookId: string,
+    duration: number,
+    success: boolean,
+    hookName: HookName,
+    context: HookContext
+  ) => {
+    // Only hooks run inside a traced span belong to a trace, and the trace
+    // start hook is part of starting the span itself
+    if (!context.traceId || !context.spanId || hookName === HOOK_NAMES.TRACE_START) {
+      return;
+    }
+
+    const span = this.tracer.startSpan(
+      context.traceId,
+      `hook ${hookName}`,
+      context.spanId,
+      { [SemanticConventions.HOOK_NAME]: hookName, [SemanticConventions.HOOK_ID]: hookId },
+      { startTime: Date.now() - duration }
+    );
+    this.tracer.endSpan(span.spanId, success ? 'ok' : 'error');
+    this.finish(span);
+  };
+
+  constructor(registry: HookRegistry, config?: TracingConfig) {
+    this.registry = registry;
+    this.config = config;
+    this.tracer = config?.tracer ?? createTracer();
+
+    if (config && config.traceHooks !== false) {
+      registry.on('hook:executed', this.onHookExecuted);
+    }
+  }
+
+  get enabled(): boolean {
+    return this.config !== undefined;
+  }
+
+  async startSpan(
+    name: string,
+    context: HookContext,
+    attributes: Record<string, unknown> = {},
+    kind: SpanKind = 'internal'
+  ): Promise<TraceScope> {
+    if (!this.config || context.metadata[UNSAMPLED_KEY] === false) {
+      return { context };
+    }
+
+    let traceId = context.traceId;
+    let spanId: string | undefined;
+
+    // A trace start hook may pick the IDs, continue a remote trace from the
+    // traceparent in the context, or decide not to sample
+    if (this.registry.hasHandlers(HOOK_NAMES.TRACE_START)) {
+      const result = await this.registry.execute<TraceStartInput, Partial<TraceStartOutput>>(
+        HOOK_NAMES.TRACE_START,
+        { operationName: name, parentSpanId: context.spanId, attributes },
+        context
+      );
+      if (result.success) {
+        if (result.data.sampled === false) {
+          return {
+            context: { ...context, metadata: { ...context.metadata, [UNSAMPLED_KEY]: false } },
+          };
+        }
+        traceId ??= result.data.traceId || undefined;
+        spanId = result.data.spanId || undefined;
+      }
+    }
+
+    const span = this.tracer.startSpan(
+      traceId ?? generateTraceId(),
+      name,
+      context.spanId,
+      { ...attributes },
+      { spanId, kind }
+    );
+    if (!context.spanId) {
+      this.rootSpanIds.add(span.spanId);
+    }
+
+    return {
+      span,
+      context: {
+        ...context,
+        traceId: span.traceId,
+        spanId: span.spanId,
+        metadata: {
+          ...context.metadata,
+          traceparent: formatTraceparent(span.traceId, span.spanId),
+        },
+      },
+    };
+  }
+
+  endSpan(scope: TraceScope, error?: Error, attributes: Record<string, unknown> = {}): void {
+    const { span } = scope;
+    if (!span) {
+      return;
+    }
+
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) {
+        span.attributes[key] = value;
+      }
+    }
+    if (error) {
+      span.attributes[SemanticConventions.ERROR_TYPE] = error.name;
+    }
+    this.tracer.endSpan(span.spanId, error ? 'error' : 'ok', error?.message);
+    this.finish(span);
+  }
+
+  /**
+   * Carry the trace of a parent context over to a new context
+   */
+  inherit(context: HookContext, parent?: HookContext): HookContext {
+    if (!parent) {
+      return context;
+    }
+
+    const metadata = { ...context.metadata };
+    if (parent.metadata['traceparent'] !== undefined) {
+      metadata['traceparent'] = parent.metadata['traceparent'];
+    }
+    if (parent.metadata[UNSAMPLED_KEY] === false) {
+      metadata[UNSAMPLED_KEY] = false;
+    }
+    return parent.traceId
+      ? { ...context, traceId: parent.traceId, spanId: parent.spanId, metadata }
+      : { ...context, metadata };
+  }
+
+  /**
+   * Stop recording hook spans
+   */
+  close(): void {
+    this.registry.off('hook:executed', this.onHookExecuted);
+  }
+
+  private finish(span: SpanInfo): void {
+    this.config?.exporter?.export(span);
+
+    // The root span ends last; once it is exported the trace is done with
+    if (this.rootSpanIds.delete(span.spanId) && this.config?.exporter) {
+      this.tracer.traces.delete(span.traceId);
+    }
+  }
+}
+
+/**
+ * Create a run tracer
+ */
+export function createRunTracer(registry: HookRegistry, config?: TracingConfig): DefaultRunTracer {
+  return new DefaultRunTracer(registry, config);
+}
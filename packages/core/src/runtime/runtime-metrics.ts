@@ -0,0 +1,191 @@
+/**
+ * Runtime Metrics
+ *
+ * Records counters, gauges and histograms for agent runs from runtime and
+ * hook registry events: iterations, LLM latency and tokens, tool calls and
+ * errors, message queue depth and hook durations.
+ */
+
+import type { EventEmitter } from 'eventemitter3';
+import type { HookName, HookRegistry } from '../hooks/registry.js';
+import type { MetricStore } from '../hooks/observability/metrics.js';
+import { createMetricStore, DEFAULT_HISTOGRAM_BUCKETS } from '../hooks/observability/metrics.js';
+import type { MetricsConfig, Runtime, RuntimeEvents, RuntimeMetrics } from './types.js';
+
+type RuntimeEmitter = Runtime & EventEmitter<RuntimeEvents>;
+
+// =============================================================================
+// Default Runtime Metrics Implementation
+// =============================================================================
+
+export class DefaultRuntimeMetrics implements RuntimeMetrics {
+  readonly store: MetricStore;
+
+  private registry: HookRegistry;
+  private config?: MetricsConfig;
+  private detach: Array<() => void> = [];
+  private onHookExecuted = (
+    hookId: string,
+    duration: number,
+    success: boolean,
+    hookName: HookName
+  ) => {
+    this.store.record(this.name('hook_duration_seconds'), duration / 1000, {
+      hook: hookName,
+      hook_id: hookId,
+      status: success ? 'success' : 'error',
+    });
+  };
+
+  constructor(registry: HookRegistry, config?: MetricsConfig) {
+    this.registry = registry;
+    this.config = config;
+    this.store = config?.store ?? createMetricStore();
+
+    if (config) {
+      this.defineMetrics(config.durationBuckets ?? DEFAULT_HISTOGRAM_BUCKETS);
+      if (config.hookMetrics !== false) {
+        registry.on('hook:executed', this.onHookExecuted);
+      }
+    }
+  }
+
+  get enabled(): boolean {
+    return this.config !== undefined;
+  }
+
+  /**
+   * Record metrics from a runtime's events
+   */
+  observe(runtime: RuntimeEmitter): void {
+    if (!this.config) {
+      return;
+    }
+
+    const agentName = (agentId: string) => runtime.getAgent(agentId)?.config.name ?? agentId;
+    const listen = <E extends EventEmitter.EventNames<RuntimeEvents>>(
+      event: E,
+      listener: EventEmitter.EventListener<RuntimeEvents, E>
+    ) => {
+      runtime.on(event, listener);
+      this.detach.push(() => runtime.off(event, listener));
+    };
+    const updateQueueDepth = (agentId: string) => {
+      this.store.record(this.name('message_queue_depth'), runtime.messageQueue.getLength(agentId), {
+        agent: agentName(agentId),
+      });
+    };
+
+    listen('agent:iteration', (agentId) => {
+      this.store.record(this.name('agent_iterations_total'), 1, { agent: agentName(agentId) });
+    });
+    listen('agent:error', (agentId) => {
+      this.store.record(this.name('agent_errors_total'), 1, { agent: agentName(agentId) });
+    });
+    listen('gateway:attempt', (_agentId, attempt) => {
+      const labels = { provider: attempt.provider, model: attempt.model, outcome: attempt.outcome };
+      this.store.record(this.name('llm_requests_total'), 1, labels);
+      // Attempts refused by an open circuit never reached the provider
+      if (attempt.outcome !== 'circuit-open') {
+        this.store.record(
+          this.name('llm_request_duration_seconds'),
+          attempt.duration / 1000,
+          labels
+        );
+      }
+    });
+    listen('agent:response', (agentId, response) => {
+      const labels = { agent: agentName(agentId), model: response.model };
+      this.store.record(this.name('llm_tokens_total'), response.usage.promptTokens, {
+        ...labels,
+        type: 'prompt',
+      });
+      this.store.record(this.name('llm_tokens_total'), response.usage.completionTokens, {
+        ...labels,
+        type: 'completion',
+      });
+    });
+    listen('tool:completed', (_agentId, toolCall) => {
+      this.store.record(this.name('tool_calls_total'), 1, { tool: toolCall.name });
+    });
+    listen('tool:error', (_agentId, toolCall) => {
+      this.store.record(this.name('tool_calls_total'), 1, { tool: toolCall.name });
+      this.store.record(this.name('tool_errors_total'), 1, {
+        tool: toolCall.name,
+        reason: 'error',
+      });
+    });
+    listen('tool:denied', (_agentId, toolCall) => {
+      this.store.record(this.name('tool_errors_total'), 1, {
+        tool: toolCall.name,
+        reason: 'denied',
+      });
+    });
+    listen('message:queued', updateQueueDepth);
+    listen('message:delivered', updateQueueDepth);
+  }
+
+  /**
+   * Stop recording
+   */
+  close(): void {
+    this.registry.off('hook:executed', this.onHookExecuted);
+    for (const detach of this.detach.splice(0)) {
+      detach();
+    }
+  }
+
+  private name(metric: string): string {
+    return `${this.config?.prefix ?? 'open_agent_'}${metric}`;
+  }
+
+  private defineMetrics(buckets: number[]): void {
+    const define = (
+      metric: string,
+      type: 'counter' | 'gauge' | 'histogram',
+      description: string,
+      labels: string[]
+    ) => {
+      const name = this.name(metric);
+      // Keep what an earlier runtime recorded into a shared store
+      if (!this.store.metrics.has(name)) {
+        this.store.define({ name, type, description, labels, buckets });
+      }
+    };
+
+    define('agent_iterations_total', 'counter', 'Completed agent iterations', ['agent']);
+    define('agent_errors_total', 'counter', 'Agent iterations that failed', ['agent']);
+    define('llm_requests_total', 'counter', 'LLM requests by outcome', [
+      'provider',
+      'model',
+      'outcome',
+    ]);
+    define('llm_request_duration_seconds', 'histogram', 'LLM request latency in seconds', [
+      'provider',
+      'model',
+      'outcome',
+    ]);
+    define('llm_tokens_total', 'counter', 'LLM tokens used', ['agent', 'model', 'type']);
+    define('tool_calls_total', 'counter', 'Tool calls executed', ['tool']);
+    define('tool_errors_total', 'counter', 'Tool calls that failed or were denied', [
+      'tool',
+      'reason',
+    ]);
+    define('message_queue_depth', 'gauge', 'Messages waiting in the agent queue', ['agent']);
+    define('hook_duration_seconds', 'histogram', 'Hook handler execution time in seconds', [
+      'hook',
+      'hook_id',
+      'status',
+    ]);
+  }
+}
+
+/**
+ * Create runtime metrics
+ */
+export function createRuntimeMetrics(
+  registry: HookRegistry,
+  config?: MetricsConfig
+): DefaultRuntimeMetrics {
+  return new DefaultRuntimeMetrics(registry, config);
+}
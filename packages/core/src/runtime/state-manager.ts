@@ -12,7 +12,7 @@ import type {
 } from '../types/hooks.js';
 import type { HookRegistry } from '../hooks/registry.js';
 import { HOOK_NAMES } from '../hooks/registry.js';
-import type { AgentInstance, StateManager } from './types.js';
+import type { AgentInstance, StateManager, StateStore } from './types.js';
 
 // =============================================================================
 // State Manager Events
@@ -23,6 +23,8 @@ interface StateManagerEvents {
   'agent:removed': (agentId: string) => void;
   'agent:transition': (agentId: string, from: AgentState, to: AgentState) => void;
   'agent:updated': (agentId: string, fields: string[]) => void;
+  'agent:persist-error': (agentId: string, error: Error) => void;
+  'agent:checkpoint': (agentId: string) => void;
 }
 
 // =============================================================================
@@ -49,10 +51,19 @@ export class DefaultStateManager
 {
   private agents: Map<string, AgentInstance> = new Map();
   private registry: HookRegistry;
+  private store?: StateStore;
 
-  constructor(registry: HookRegistry) {
+  constructor(registry: HookRegistry, store?: StateStore) {
     super();
     this.registry = registry;
+    this.store = store;
+  }
+
+  /**
+   * Set the store agents are persisted to on every change; undefined stops persisting
+   */
+  setStore(store: StateStore | undefined): void {
+    this.store = store;
   }
 
   /**
@@ -89,6 +100,7 @@ export class DefaultStateManager
     }
 
     this.emit('agent:created', agentId);
+    void this.persistAgent(agentId);
     return agent;
   }
 
@@ -177,6 +189,7 @@ export class DefaultStateManager
     agent.lastActiveAt = Date.now();
 
     this.emit('agent:transition', agentId, oldState, finalState);
+    await this.persistAgent(agentId);
     return true;
   }
 
@@ -226,6 +239,12 @@ export class DefaultStateManager
 
     this.agents.delete(agentId);
     this.emit('agent:removed', agentId);
+
+    if (this.store) {
+      this.store.delete(agentId).catch((error: unknown) => {
+        this.emit('agent:persist-error', agentId, toError(error));
+      });
+    }
     return true;
   }
 
@@ -306,7 +325,7 @@ export class DefaultStateManager
     for (const [id, agent] of this.agents) {
       state[id] = {
         ...agent,
-        // Convert Map to object for serialization
+        // Copy the Map; encodeState() keeps it intact when serializing
         completedToolCalls: new Map(agent.completedToolCalls),
       };
     }
@@ -321,16 +340,103 @@ export class DefaultStateManager
     for (const [id, agent] of Object.entries(state)) {
       this.agents.set(id, {
         ...agent,
-        completedToolCalls: new Map(Object.entries(agent.completedToolCalls || {})),
+        completedToolCalls: toCompletedToolCalls(agent.completedToolCalls),
       });
       this.emit('agent:created', id);
     }
   }
+
+  /**
+   * Persist every agent to the store
+   */
+  async persist(): Promise<void> {
+    for (const agentId of this.agents.keys()) {
+      await this.persistAgent(agentId);
+    }
+  }
+
+  /**
+   * Replace in-memory state with the agents saved in the store
+   */
+  async load(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const agents = await this.store.loadAll();
+    this.importState(Object.fromEntries(agents.map((agent) => [agent.id, agent])));
+  }
+
+  /**
+   * Save an agent mid-run so an interrupted run can be resumed from this point
+   */
+  async checkpoint(agentId: string): Promise<void> {
+    if (!this.store || !this.agents.has(agentId)) {
+      return;
+    }
+
+    await this.persistAgent(agentId);
+    this.emit('agent:checkpoint', agentId);
+  }
+
+  /**
+   * Restore a single agent from the store without touching other agents
+   */
+  async restore(agentId: string): Promise<AgentInstance | undefined> {
+    if (!this.store) {
+      return undefined;
+    }
+
+    const saved = (await this.store.loadAll()).find((agent) => agent.id === agentId);
+    if (!saved) {
+      return undefined;
+    }
+
+    const agent: AgentInstance = {
+      ...saved,
+      completedToolCalls: toCompletedToolCalls(saved.completedToolCalls),
+    };
+    this.agents.set(agentId, agent);
+    this.emit('agent:created', agentId);
+    return agent;
+  }
+
+  /**
+   * Save one agent; failures are reported as events so they never break a transition
+   */
+  private async persistAgent(agentId: string): Promise<void> {
+    const agent = this.agents.get(agentId);
+    if (!this.store || !agent) {
+      return;
+    }
+
+    try {
+      await this.store.save(agent);
+    } catch (error) {
+      this.emit('agent:persist-error', agentId, toError(error));
+    }
+  }
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Copy completed tool calls; older snapshots stored them as a plain object
+ */
+function toCompletedToolCalls(value: unknown): Map<string, unknown> {
+  return value instanceof Map
+    ? new Map(value as Map<string, unknown>)
+    : new Map(Object.entries((value as Record<string, unknown> | undefined) || {}));
 }
 
 /**
  * Create a state manager
  */
-export function createStateManager(registry: HookRegistry): DefaultStateManager {
-  return new DefaultStateManager(registry);
+export function createStateManager(
+  registry: HookRegistry,
+  store?: StateStore
+): DefaultStateManager {
+  return new DefaultStateManager(registry, store);
 }
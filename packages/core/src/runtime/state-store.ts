@@ -0,0 +1,275 @@
+/**
+ * State Stores
+ *
+ * Persistence backends for agent state: a JSON file store and a SQLite store.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { AgentInstance, StateStore } from './types.js';
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Encode agent state as JSON, keeping Maps (completedToolCalls) and Errors
+ * (failed tool results) intact
+ */
+export function encodeState(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) => {
+    if (item instanceof Map) {
+      return { __type: 'Map', entries: [...item] };
+    }
+    if (item instanceof Error) {
+      return { __type: 'Error', name: item.name, message: item.message, stack: item.stack };
+    }
+    return item;
+  });
+}
+
+/**
+ * Decode JSON produced by encodeState
+ */
+export function decodeState<T = unknown>(json: string): T {
+  return JSON.parse(json, (_key, item: unknown) => {
+    if (item && typeof item === 'object' && '__type' in item) {
+      const tagged = item as { __type: string } & Record<string, unknown>;
+      if (tagged.__type === 'Map') {
+        return new Map(tagged['entries'] as [unknown, unknown][]);
+      }
+      if (tagged.__type === 'Error') {
+        const error = new Error(String(tagged['message']));
+        error.name = String(tagged['name']);
+        error.stack = tagged['stack'] as string | undefined;
+        return error;
+      }
+    }
+    return item;
+  }) as T;
+}
+
+// =============================================================================
+// File State Store
+// =============================================================================
+
+export interface FileStateStoreOptions {
+  /** Path of the JSON file holding every agent */
+  path: string;
+}
+
+/**
+ * Stores all agents in a single JSON file, rewritten atomically on each change
+ */
+export class FileStateStore implements StateStore {
+  private path: string;
+  private agents?: Map<string, AgentInstance>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: FileStateStoreOptions) {
+    this.path = options.path;
+  }
+
+  /**
+   * Save an agent snapshot
+   */
+  async save(agent: AgentInstance): Promise<void> {
+    const agents = await this.read();
+    agents.set(agent.id, agent);
+    await this.write(agents);
+  }
+
+  /**
+   * Delete an agent snapshot
+   */
+  async delete(agentId: string): Promise<void> {
+    const agents = await this.read();
+    if (agents.delete(agentId)) {
+      await this.write(agents);
+    }
+  }
+
+  /**
+   * Load every saved agent
+   */
+  async loadAll(): Promise<AgentInstance[]> {
+    return [...(await this.read()).values()];
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  async close(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  private async read(): Promise<Map<string, AgentInstance>> {
+    if (!this.agents) {
+      try {
+        const state = decodeState<Record<string, AgentInstance>>(await readFile(this.path, 'utf8'));
+        this.agents = new Map(Object.entries(state));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+        this.agents = new Map();
+      }
+    }
+    return this.agents;
+  }
+
+  private write(agents: Map<string, AgentInstance>): Promise<void> {
+    // Snapshot now so later mutations don't leak into this write
+    const json = encodeState(Object.fromEntries(agents));
+
+    // Serialize writes and write through a temp file so a crash never leaves a torn file
+    const write = this.writeQueue.then(async () => {
+      const tempPath = `${this.path}.tmp`;
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(tempPath, json, 'utf8');
+      await rename(tempPath, this.path);
+    });
+
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+// =============================================================================
+// SQLite State Store
+// =============================================================================
+
+/**
+ * The parts of a better-sqlite3 database the store uses, so the optional
+ * package's types stay out of the public API
+ */
+export interface SqliteDatabase {
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+  exec(sql: string): unknown;
+  close(): unknown;
+}
+
+export interface SqliteStateStoreOptions {
+  /** Database file, or ':memory:' */
+  filename?: string;
+  /** An already opened better-sqlite3 database */
+  database?: SqliteDatabase;
+  /** Table holding agent snapshots */
+  tableName?: string;
+}
+
+/**
+ * Stores one row per agent in SQLite via the optional better-sqlite3 package
+ */
+export class SqliteStateStore implements StateStore {
+  private options: SqliteStateStoreOptions;
+  private tableName: string;
+  private db?: SqliteDatabase;
+
+  constructor(options: SqliteStateStoreOptions) {
+    if (!options.filename && !options.database) {
+      throw new Error('SqliteStateStore requires a filename or database');
+    }
+    if (options.tableName && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(options.tableName)) {
+      throw new Error(`Invalid table name: ${options.tableName}`);
+    }
+
+    this.options = options;
+    this.tableName = options.tableName ?? 'agent_state';
+  }
+
+  /**
+   * Save an agent snapshot
+   */
+  async save(agent: AgentInstance): Promise<void> {
+    const db = await this.open();
+    db.prepare(
+      `INSERT INTO ${this.tableName} (id, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    ).run(agent.id, encodeState(agent), Date.now());
+  }
+
+  /**
+   * Delete an agent snapshot
+   */
+  async delete(agentId: string): Promise<void> {
+    const db = await this.open();
+    db.prepare(`DELETE FROM ${this.tableName} WHERE id = ?`).run(agentId);
+  }
+
+  /**
+   * Load every saved agent
+   */
+  async loadAll(): Promise<AgentInstance[]> {
+    const db = await this.open();
+    const rows = db.prepare(`SELECT data FROM ${this.tableName} ORDER BY updated_at`).all() as {
+      data: string;
+    }[];
+    return rows.map((row) => decodeState<AgentInstance>(row.data));
+  }
+
+  /**
+   * Close the database if this store opened it
+   */
+  async close(): Promise<void> {
+    if (this.db && !this.options.database) {
+      this.db.close();
+    }
+    this.db = undefined;
+  }
+
+  private async open(): Promise<SqliteDatabase> {
+    if (this.db) {
+      return this.db;
+    }
+
+    let db = this.options.database;
+    if (!db) {
+      let Database: typeof import('better-sqlite3');
+      try {
+        Database = (await import('better-sqlite3')).default;
+      } catch {
+        throw new Error('SqliteStateStore requires the optional "better-sqlite3" package');
+      }
+
+      if (this.options.filename !== ':memory:') {
+        await mkdir(dirname(this.options.filename!), { recursive: true });
+      }
+      db = new Database(this.options.filename);
+    }
+
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`
+    );
+
+    this.db = db;
+    return db;
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create a JSON file state store
+ */
+export function createFileStateStore(path: string): FileStateStore {
+  return new FileStateStore({ path });
+}
+
+/**
+ * Create a SQLite state store
+ */
+export function createSqliteStateStore(
+  options: SqliteStateStoreOptions | string
+): SqliteStateStore {
+  return new SqliteStateStore(typeof options === 'string' ? { filename: options } : options);
+}
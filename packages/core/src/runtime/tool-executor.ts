@@ -5,7 +5,12 @@
  */
 
 import { EventEmitter } from 'eventemitter3';
-import type { ToolDefinition, ToolCall, HookContext } from '../types/hooks.js';
+import type {
+  ToolDefinition,
+  ToolCall,
+  HookContext,
+  ToolRegistrationInput,
+} from '../types/hooks.js';
 import type { HookRegistry } from '../hooks/registry.js';
 import { HOOK_NAMES } from '../hooks/registry.js';
 import type {
@@ -55,9 +60,13 @@ export class DefaultToolExecutor
   }
 
   /**
-   * Register a tool
+   * Register a tool; `source` is reported to the registration hook
    */
-  async register(tool: ToolDefinition, handler: ToolHandler): Promise<void> {
+  async register(
+    tool: ToolDefinition,
+    handler: ToolHandler,
+    source: ToolRegistrationInput['source'] = 'custom'
+  ): Promise<void> {
     // Create hook context for registration
     const context: HookContext = {
       requestId: `register-${tool.name}-${Date.now()}`,
@@ -70,7 +79,7 @@ export class DefaultToolExecutor
       HOOK_NAMES.TOOL_REGISTRATION,
       {
         tool,
-        source: 'custom' as const,
+        source,
       },
       context
     );
@@ -318,3 +327,32 @@ export function createToolExecutor(
 ): DefaultToolExecutor {
   return new DefaultToolExecutor(registry, defaultTimeout);
 }
+
+// =============================================================================
+// Tool Allowlists
+// =============================================================================
+
+/**
+ * Check a tool name against a name or glob pattern; `*` matches any run of
+ * characters and `?` a single character
+ */
+export function matchesToolPattern(toolName: string, pattern: string): boolean {
+  if (!/[*?]/.test(pattern)) {
+    return toolName === pattern;
+  }
+  const source = pattern
+    .split('')
+    .map((char) =>
+      char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('');
+  return new RegExp(`^${source}$`).test(toolName);
+}
+
+/**
+ * Check whether an allowlist admits a tool. An unset allowlist admits every
+ * tool; an empty one admits none.
+ */
+export function isToolAllowed(toolName: string, allowlist?: string[]): boolean {
+  return allowlist === undefined || allowlist.some((p) => matchesToolPattern(toolName, p));
+}
@@ -8,16 +8,34 @@ import type {
   AgentConfig,
   AgentState,
   AgentMessage,
+  BudgetLimits,
   Message,
   ToolDefinition,
   ToolCall,
+  ToolRegistrationInput,
   LLMResponse,
   HookContext,
   StreamChunk,
+  PartialResultOutput,
+  GatewayAttempt,
+  ModelInfo,
+  ProviderInfo,
+  PiiType,
+  OutputFilter,
+  ModerationCategory,
+  ContentModerationInput,
 } from '../types/hooks.js';
 
 export type { StreamChunk };
 import type { HookRegistry } from '../hooks/registry.js';
+import type {
+  SpanExporter,
+  SpanInfo,
+  SpanKind,
+  Tracer,
+} from '../hooks/observability/tracing.js';
+import type { MetricStore } from '../hooks/observability/metrics.js';
+import type { PricingCatalog } from '../hooks/observability/pricing.js';
 
 // =============================================================================
 // Runtime Configuration
@@ -28,7 +46,7 @@ export interface RuntimeConfig {
   maxIterations: number;
   /** Maximum execution time in milliseconds */
   maxExecutionTime: number;
-  /** Enable streaming responses */
+  /** Stream LLM responses through the streaming hooks instead of a single completion */
   enableStreaming: boolean;
   /** Enable parallel tool execution */
   parallelToolExecution: boolean;
@@ -44,6 +62,24 @@ export interface RuntimeConfig {
   maxQueueSize: number;
   /** Enable automatic state persistence */
   enableStatePersistence: boolean;
+  /** Store used for persistence; defaults to a JSON file under .open-agent/ */
+  stateStore?: StateStore;
+  /** Maximum attempts against a single provider before falling back */
+  maxAttemptsPerProvider: number;
+  /** Adapter ids to fall back to, in order; defaults to every other registered adapter */
+  fallbackAdapters?: string[];
+  /** How the security hooks screen message content; they run whenever handlers are registered */
+  security?: SecurityConfig;
+  /** How history is compacted when it outgrows the model's context window */
+  contextManagement?: ContextConfig;
+  /** Record a trace per agent run; tracing is off when unset */
+  tracing?: TracingConfig;
+  /** Record runtime metrics into a MetricStore; metrics are off when unset */
+  metrics?: MetricsConfig;
+  /** Model prices; adapters' reported prices are added to it (default: a new catalog) */
+  pricing?: PricingCatalog;
+  /** Limits for each run of an agent; the agent stops with `resource-limit` past them */
+  budget?: BudgetLimits;
 }
 
 export const DEFAULT_RUNTIME_CONFIG: RuntimeConfig = {
@@ -57,6 +93,7 @@ export const DEFAULT_RUNTIME_CONFIG: RuntimeConfig = {
   enableMessageQueue: true,
   maxQueueSize: 1000,
   enableStatePersistence: false,
+  maxAttemptsPerProvider: 3,
 };
 
 // =============================================================================
@@ -76,6 +113,16 @@ export interface AgentInstance {
   pendingToolCalls: ToolCall[];
   completedToolCalls: Map<string, unknown>;
   metadata: Record<string, unknown>;
+  /** What the agent and the agents it spawned have used so far */
+  usage?: AgentUsage;
+}
+
+export interface AgentUsage {
+  tokens: number;
+  /** Spend in USD */
+  cost: number;
+  /** Time spent in finished runs, in milliseconds; child runs are not added */
+  durationMs: number;
 }
 
 // =============================================================================
@@ -90,12 +137,26 @@ export interface RuntimeEvents {
   'agent:state-changed': (agentId: string, oldState: AgentState, newState: AgentState) => void;
   'agent:iteration': (agentId: string, iteration: number) => void;
   'agent:message': (agentId: string, message: Message) => void;
+  'agent:response': (agentId: string, response: LLMResponse) => void;
+  'agent:persist-error': (agentId: string, error: Error) => void;
+  'agent:checkpoint': (agentId: string) => void;
+  'agent:resumed': (agentId: string, pendingToolCalls: ToolCall[]) => void;
+  'stream:chunk': (agentId: string, chunk: StreamChunk, chunkIndex: number) => void;
+  'stream:partial': (agentId: string, partial: PartialResultOutput) => void;
+  'stream:restart': (agentId: string, error: Error) => void;
   'tool:executing': (agentId: string, toolCall: ToolCall) => void;
   'tool:completed': (agentId: string, toolCall: ToolCall, result: unknown) => void;
   'tool:error': (agentId: string, toolCall: ToolCall, error: Error) => void;
+  'tool:denied': (agentId: string, toolCall: ToolCall, reason: string) => void;
+  'security:decision': (agentId: string, decision: SecurityDecision) => void;
+  'agent:context-compacted': (agentId: string, compaction: ContextCompaction) => void;
   'message:queued': (agentId: string, message: AgentMessage) => void;
   'message:delivered': (agentId: string, message: AgentMessage) => void;
   'health:check': (agentId: string, healthy: boolean) => void;
+  'gateway:attempt': (agentId: string, attempt: GatewayAttempt) => void;
+  'agent:budget-warning': (agentId: string, status: BudgetStatus) => void;
+  'agent:budget-exceeded': (agentId: string, status: BudgetStatus) => void;
+  'gateway:circuit-changed': (provider: string, oldState: CircuitState, newState: CircuitState) => void;
 }
 
 // =============================================================================
@@ -124,6 +185,12 @@ export interface LLMAdapter {
 
   /** Check if the adapter is healthy */
   healthCheck(): Promise<boolean>;
+
+  /** Describe the supported models for model selection */
+  getAvailableModels?(): Promise<ModelInfo[]>;
+
+  /** Count the tokens of a text for a model; the runtime estimates when absent */
+  countTokens?(text: string, model?: string): Promise<number>;
 }
 
 export interface CompletionOptions {
@@ -136,6 +203,290 @@ export interface CompletionOptions {
   signal?: AbortSignal;
 }
 
+// =============================================================================
+// Gateway Interface
+// =============================================================================
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface GatewayTarget {
+  adapter: LLMAdapter;
+  model: string;
+}
+
+export interface GatewayRequest {
+  /** Targets to try, primary first followed by the fallback chain */
+  targets: GatewayTarget[];
+  messages: Message[];
+  options: CompletionOptions;
+  /** Runs before every attempt; an error it throws ends the request as is */
+  beforeAttempt?: () => Promise<void>;
+}
+
+export interface ProviderHealth {
+  status: ProviderInfo['status'];
+  /** Average latency of successful calls (ms) */
+  latency: number;
+  /** Share of successful calls, 1 when nothing has been recorded */
+  reliability: number;
+}
+
+/** Performs a single call against one adapter */
+export type GatewayCall = (
+  adapter: LLMAdapter,
+  messages: Message[],
+  options: CompletionOptions
+) => Promise<LLMResponse>;
+
+export interface Gateway {
+  /** Execute a request with circuit breaking, retries and fallback */
+  execute(
+    request: GatewayRequest,
+    call: GatewayCall,
+    context: HookContext,
+    onAttempt?: (attempt: GatewayAttempt) => void
+  ): Promise<LLMResponse>;
+
+  /** Get the circuit state for a provider */
+  getCircuitState(provider: string): CircuitState;
+
+  /** Get measured health for a provider */
+  getProviderHealth(provider: string): ProviderHealth;
+
+  /** Reset the circuit for a provider */
+  resetCircuit(provider: string): void;
+}
+
+// =============================================================================
+// Message Guard Interface
+// =============================================================================
+
+/** Security hooks whose findings the runtime acts on */
+export type SecurityCheck = 'sanitization' | 'injection' | 'pii' | 'output-filter' | 'moderation';
+
+/**
+ * What to do with a finding: `block` stops the content (the run fails, or a
+ * tool result is withheld from the model), `redact` replaces it with the
+ * hook's cleaned version or a placeholder, `warn` only reports it
+ */
+export type SecurityAction = 'block' | 'redact' | 'warn';
+
+/** Where screened content came from */
+export type ContentSource = 'user' | 'tool' | 'external' | 'model';
+
+export interface SecurityConfig {
+  /** Screen user messages, queued messages and tool results (default: true) */
+  screenInput?: boolean;
+  /** Screen model output (default: true) */
+  screenOutput?: boolean;
+  /** Action per check, over DEFAULT_SECURITY_ACTIONS */
+  actions?: Partial<Record<SecurityCheck, SecurityAction>>;
+  /** PII types to detect (default: all) */
+  piiTypes?: PiiType[];
+  /** Filters passed to the output filtering hook */
+  outputFilters?: OutputFilter[];
+  /** Categories to moderate (default: all) */
+  moderationCategories?: ModerationCategory[];
+  /** Moderation strictness (default: moderate) */
+  moderationStrictness?: ContentModerationInput['strictness'];
+}
+
+export const DEFAULT_SECURITY_ACTIONS: Record<SecurityCheck, SecurityAction> = {
+  sanitization: 'redact',
+  injection: 'block',
+  pii: 'redact',
+  'output-filter': 'redact',
+  moderation: 'block',
+};
+
+export interface SecurityDecision {
+  check: SecurityCheck;
+  action: SecurityAction;
+  source: ContentSource;
+  /** What the check found */
+  reason: string;
+  /** Set when the content was a tool result */
+  toolCallId?: string;
+}
+
+export interface ScreenResult {
+  /** Content after redactions */
+  content: string;
+  /** One decision per finding, in check order */
+  decisions: SecurityDecision[];
+  /** The decision that blocked the content, if any; later checks did not run */
+  blocked?: SecurityDecision;
+}
+
+export interface MessageGuard {
+  /** Run sanitization and injection detection over inbound content */
+  screenInput(
+    content: string,
+    source: Exclude<ContentSource, 'model'>,
+    context: HookContext
+  ): Promise<ScreenResult>;
+
+  /** Run output filtering, PII detection and moderation over model output */
+  screenOutput(content: string, context: HookContext): Promise<ScreenResult>;
+
+  /** Whether screenOutput can change or block output: it is on and has hooks to run */
+  screensOutput(): boolean;
+}
+
+// =============================================================================
+// Budget Manager Interface
+// =============================================================================
+
+/**
+ * How much of one budget limit is used. The budget belongs to agentId, which
+ * is the checked agent or one of its ancestors.
+ */
+export interface BudgetStatus {
+  agentId: string;
+  /** The agent's lifetime budget or the budget of its current run */
+  scope: 'agent' | 'run';
+  limit: 'tokens' | 'cost' | 'duration';
+  used: number;
+  max: number;
+}
+
+export interface BudgetCheck {
+  /** First limit found used up, if any */
+  exceeded?: BudgetStatus;
+  /** Limits past their warning threshold that have not been reported yet */
+  warnings: BudgetStatus[];
+}
+
+export interface BudgetManager {
+  /** Start counting a run of the agent toward the run budget */
+  startRun(agentId: string): void;
+
+  /** Stop counting the agent's run and add its duration to the agent's usage */
+  endRun(agentId: string): void;
+
+  /** Add usage to the agent and each of its ancestors */
+  record(agentId: string, tokens: number, cost: number): void;
+
+  /** Check the budgets of the agent and its ancestors */
+  check(agentId: string): BudgetCheck;
+}
+
+// =============================================================================
+// Context Manager Interface
+// =============================================================================
+
+/**
+ * How older history is compacted: `sliding-window` drops the oldest turns,
+ * `drop-tool-results` first empties old tool results, `summarize` replaces
+ * older turns with an LLM-written summary, `none` leaves history alone
+ */
+export type ContextStrategy = 'sliding-window' | 'drop-tool-results' | 'summarize' | 'none';
+
+export interface ContextConfig {
+  /** Compaction strategy (default: sliding-window) */
+  strategy?: ContextStrategy;
+  /** Share of the model's context length the prompt may fill (default: 0.8) */
+  threshold?: number;
+  /** Cap on prompt tokens; the only limit when the model's context length is unknown */
+  maxContextTokens?: number;
+  /** Most recent messages never compacted (default: 4) */
+  keepRecent?: number;
+  /** Instructions for the summarize strategy */
+  summaryPrompt?: string;
+  /** Token limit for a summary (default: 1024) */
+  summaryMaxTokens?: number;
+}
+
+export interface ContextRequest {
+  /** Prompt tokens available to the history */
+  budget: number;
+  /** Adapter used to count tokens and write summaries */
+  adapter: LLMAdapter;
+  model: string;
+  /** Keep the last assistant turn whole because its tool calls are unresolved */
+  pendingToolCalls: boolean;
+  /** Receives each summary response, e.g. to count its usage */
+  onResponse?: (response: LLMResponse) => Promise<void>;
+}
+
+export interface ContextCompaction {
+  strategy: ContextStrategy;
+  tokensBefore: number;
+  tokensAfter: number;
+  /** Messages removed or replaced by a summary */
+  messagesRemoved: number;
+  /** Tool results whose content was dropped */
+  toolResultsDropped: number;
+}
+
+export interface ContextManager {
+  /** Estimate the tokens of a message, counting with the adapter when it can */
+  countTokens(message: Message, adapter?: LLMAdapter, model?: string): Promise<number>;
+
+  /** Compact history to fit the budget; undefined when it already fits */
+  compact(
+    history: Message[],
+    request: ContextRequest
+  ): Promise<{ history: Message[]; compaction: ContextCompaction } | undefined>;
+}
+
+// =============================================================================
+// Run Tracer Interface
+// =============================================================================
+
+export interface TracingConfig {
+  /** Receives each span as it ends, e.g. createOtlpTraceExporter() */
+  exporter?: SpanExporter;
+  /** Tracer that records the spans (default: a new tracer) */
+  tracer?: Tracer;
+  /** Record a span for every hook handler execution (default: true) */
+  traceHooks?: boolean;
+}
+
+/**
+ * A started span and the hook context for work inside it. The span is
+ * undefined when tracing is off or the trace is not sampled.
+ */
+export interface TraceScope {
+  span?: SpanInfo;
+  context: HookContext;
+}
+
+export interface RunTracer {
+  /** Start a span as a child of the span in the context, if any */
+  startSpan(
+    name: string,
+    context: HookContext,
+    attributes?: Record<string, unknown>,
+    kind?: SpanKind
+  ): Promise<TraceScope>;
+
+  /** End a span, marking it failed when an error is given, and export it */
+  endSpan(scope: TraceScope, error?: Error, attributes?: Record<string, unknown>): void;
+}
+
+// =============================================================================
+// Runtime Metrics Interface
+// =============================================================================
+
+export interface MetricsConfig {
+  /** Store the metrics are recorded into (default: a new store) */
+  store?: MetricStore;
+  /** Prepended to every metric name (default: open_agent_) */
+  prefix?: string;
+  /** Histogram buckets for durations, in seconds */
+  durationBuckets?: number[];
+  /** Record a duration for every hook handler execution (default: true) */
+  hookMetrics?: boolean;
+}
+
+export interface RuntimeMetrics {
+  /** Store holding the recorded metrics, ready for formatPrometheusMetrics() */
+  readonly store: MetricStore;
+
+  /** Stop recording */
+  close(): void;
+}
 
 // =============================================================================
 // Tool Executor Interface
@@ -155,7 +506,11 @@ export interface ToolExecutor {
   ): Promise<ToolExecutionResult[]>;
 
   /** Register a tool */
-  register(tool: ToolDefinition, handler: ToolHandler): void;
+  register(
+    tool: ToolDefinition,
+    handler: ToolHandler,
+    source?: ToolRegistrationInput['source']
+  ): void;
 
   /** Unregister a tool */
   unregister(toolName: string): boolean;
@@ -181,6 +536,8 @@ export interface ToolExecutionResult {
   result?: unknown;
   error?: Error;
   duration: number;
+  /** Why the call was refused; set when the tool was not run */
+  permissionDenied?: string;
 }
 
 export type ToolHandler = (
@@ -246,6 +603,27 @@ export interface StateManager {
 
   /** Load state from storage */
   load?(): Promise<void>;
+
+  /** Save an agent mid-run */
+  checkpoint?(agentId: string): Promise<void>;
+}
+
+// =============================================================================
+// State Store Interface
+// =============================================================================
+
+export interface StateStore {
+  /** Save an agent snapshot, replacing any previous one */
+  save(agent: AgentInstance): Promise<void>;
+
+  /** Delete an agent snapshot */
+  delete(agentId: string): Promise<void>;
+
+  /** Load every saved agent */
+  loadAll(): Promise<AgentInstance[]>;
+
+  /** Flush pending writes and release resources */
+  close(): Promise<void>;
 }
 
 // =============================================================================
@@ -268,6 +646,9 @@ export interface Runtime {
   /** Message queue */
   messageQueue: MessageQueue;
 
+  /** Start the runtime, restoring persisted state */
+  start(): Promise<void>;
+
   /** Create a new agent */
   createAgent(config: AgentConfig, parentAgentId?: string): Promise<string>;
 
@@ -283,6 +664,9 @@ export interface Runtime {
   /** Run agent until completion or limit */
   run(agentId: string, input?: Message): Promise<LLMResponse>;
 
+  /** Continue an interrupted run from its last checkpoint */
+  resume(agentId: string): Promise<LLMResponse>;
+
   /** Send a message to an agent */
   sendMessage(toAgentId: string, message: AgentMessage, fromAgentId?: string): Promise<boolean>;
 
@@ -21,6 +21,7 @@ export {
   createStrictSandboxHandler,
   createPermissiveSandboxHandler,
   createResourceLimitedSandboxHandler,
+  createSandboxedHandler,
   registerDefaultToolSandbox,
   type SandboxContext,
   type SandboxResult,
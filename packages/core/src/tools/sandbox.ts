@@ -2,11 +2,14 @@
  * Tool Sandbox
  *
  * Provides sandboxed execution environment for tools with resource limits.
+ * Tool code passed to `run()` executes in a worker thread, inside a `vm`
+ * context holding only the allowed globals.
  */
 
+import { Worker } from 'node:worker_threads';
 import type { HookHandler, HookResult, ToolSandboxInput, ToolSandboxOutput } from '../types/hooks.js';
 import { HookRegistry, HOOK_NAMES } from '../hooks/registry.js';
-import type { SandboxConfig } from './types.js';
+import type { SandboxConfig, ToolHandler } from './types.js';
 import { DEFAULT_SANDBOX_CONFIG } from './types.js';
 
 // =============================================================================
@@ -25,7 +28,7 @@ export interface SandboxContext {
   startTime: number;
   /** Maximum execution time */
   maxTime: number;
-  /** Memory tracking (simulated) */
+  /** Memory used by the last execution, in bytes */
   memoryUsed: number;
   /** Max memory limit */
   maxMemory: number;
@@ -39,11 +42,123 @@ export interface SandboxResult {
   result?: unknown;
   error?: Error;
   executionTime: number;
+  /** Heap used by the execution, in bytes */
   memoryUsed: number;
+  /** CPU time used while the code ran, in milliseconds */
+  cpuTime?: number;
+  /** Lines written through `console` by sandboxed code */
+  logs?: string[];
   terminated?: boolean;
-  terminationReason?: string;
+  terminationReason?: 'timeout' | 'memory' | 'blocked' | 'crashed';
 }
 
+/**
+ * Globals every sandboxed context keeps; the language cannot run without them
+ */
+const CORE_GLOBALS = [
+  'globalThis',
+  'undefined',
+  'NaN',
+  'Infinity',
+  'Promise',
+  'Error',
+  'TypeError',
+  'RangeError',
+  'SyntaxError',
+  'ReferenceError',
+  'Boolean',
+  'Symbol',
+];
+
+/**
+ * Worker bootstrap. It builds a vm context with code generation disabled,
+ * deletes every global outside the allowlist, runs the tool code as the
+ * body of `async (args) => { ... }` and reports the result with the heap
+ * and CPU time it used. Only data crosses into the context, never functions
+ * from the worker's realm, so sandboxed code cannot reach `process`.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const vm = require('node:vm');
+const v8 = require('node:v8');
+const { code, args, keep, timeout } = workerData;
+
+const cpu = () => {
+  const usage = process.threadCpuUsage ? process.threadCpuUsage() : process.cpuUsage();
+  return (usage.user + usage.system) / 1000;
+};
+
+// A plain {} would give the global the worker's Object.prototype, and through
+// its constructors the worker's unrestricted Function
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+});
+vm.runInContext(\`(() => {
+  const keep = \${JSON.stringify(keep)};
+  const logs = [];
+  // Captured before the globals holding them are deleted
+  const { defineProperty, getOwnPropertyNames, setPrototypeOf } = Object;
+  setPrototypeOf(globalThis, null);
+  const toText = String;
+  const format = (values) => values
+    .map((v) => (typeof v === 'string' ? v : toText(v)))
+    .join(' ');
+  for (const name of getOwnPropertyNames(globalThis)) {
+    if (!keep.includes(name)) {
+      delete globalThis[name];
+    }
+  }
+  const log = (...values) => { logs.push(format(values)); };
+  globalThis.console = { log, info: log, warn: log, error: log, debug: log };
+  globalThis.require = (name) => {
+    throw new Error('Module access is blocked: ' + name);
+  };
+  defineProperty(globalThis, '__logs', { value: logs });
+})()\`, context);
+
+// Keeps the worker alive when the code awaits a promise that never settles,
+// so the parent's timer reports a timeout rather than an early exit
+const keepAlive = setInterval(() => {}, timeout);
+
+const startCpu = cpu();
+const startHeap = v8.getHeapStatistics().used_heap_size;
+const finish = (message) => {
+  const heap = v8.getHeapStatistics().used_heap_size;
+  clearInterval(keepAlive);
+  parentPort.postMessage({
+    ...message,
+    logs: Array.from(context.__logs),
+    memoryUsed: Math.max(0, heap - startHeap),
+    cpuTime: cpu() - startCpu,
+  });
+};
+
+(async () => {
+  try {
+    const run = vm.runInContext(
+      '(async (args) => {\\n' + code + '\\n})(' + JSON.stringify(args) + ')',
+      context,
+      { timeout, filename: 'sandboxed-tool.js' }
+    );
+    const result = await run;
+    try {
+      finish({ success: true, result });
+    } catch {
+      finish({ success: true, result: JSON.parse(JSON.stringify(result ?? null)) });
+    }
+  } catch (error) {
+    finish({
+      success: false,
+      error: {
+        name: String(error && error.name || 'Error'),
+        message: String(error && error.message || error),
+      },
+      timedOut: error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT',
+    });
+  }
+})();
+`;
+
 // =============================================================================
 // Sandbox Implementation
 // =============================================================================
@@ -160,14 +275,131 @@ export class Sandbox {
   }
 
   /**
-   * Execute in sandbox (simplified implementation)
-   * Note: Full sandboxing requires VM2 or similar in production
+   * Run tool code in an isolated worker. The code is the body of an async
+   * function receiving `args` and may only use the context's allowed globals;
+   * the worker is terminated when it exceeds the time or memory limits.
+   */
+  async run(
+    code: string,
+    args: Record<string, unknown> = {},
+    context: SandboxContext = this.createContext()
+  ): Promise<SandboxResult> {
+    const startTime = Date.now();
+
+    const codeCheck = this.checkCode(code);
+    if (!codeCheck.safe) {
+      return {
+        success: false,
+        error: new Error(`Blocked APIs used: ${codeCheck.violations.join(', ')}`),
+        executionTime: 0,
+        memoryUsed: 0,
+        terminated: true,
+        terminationReason: 'blocked',
+      };
+    }
+
+    const keep = [...CORE_GLOBALS, ...Object.keys(context.globals)].filter(
+      (name) => !context.blocked.has(name)
+    );
+    const maxMemoryMb = Math.max(1, Math.ceil(context.maxMemory / (1024 * 1024)));
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { code, args, keep, timeout: context.maxTime },
+      env: {},
+      argv: [],
+      execArgv: [],
+      stdout: true,
+      stderr: true,
+      resourceLimits: {
+        maxOldGenerationSizeMb: maxMemoryMb,
+        maxYoungGenerationSizeMb: Math.min(16, maxMemoryMb),
+        stackSizeMb: 4,
+      },
+    });
+
+    return new Promise<SandboxResult>((resolve) => {
+      let settled = false;
+      const settle = (result: Omit<SandboxResult, 'executionTime'>): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        context.memoryUsed = result.memoryUsed;
+        resolve({ ...result, executionTime: Date.now() - startTime });
+        worker.terminate().catch(() => {});
+      };
+
+      // Hard stop for code that never yields, or awaits forever
+      const timer = setTimeout(() => {
+        settle({
+          success: false,
+          error: new Error('Execution timeout exceeded'),
+          memoryUsed: 0,
+          terminated: true,
+          terminationReason: 'timeout',
+        });
+      }, context.maxTime);
+
+      worker.on('message', (message: WorkerMessage) => {
+        const timedOut = message.timedOut === true;
+        settle({
+          success: message.success,
+          result: message.result,
+          error: message.error
+            ? Object.assign(new Error(message.error.message), { name: message.error.name })
+            : undefined,
+          memoryUsed: message.memoryUsed,
+          cpuTime: message.cpuTime,
+          logs: message.logs,
+          ...(timedOut ? { terminated: true, terminationReason: 'timeout' as const } : {}),
+        });
+      });
+
+      worker.on('error', (error: Error & { code?: string }) => {
+        const outOfMemory = error.code === 'ERR_WORKER_OUT_OF_MEMORY';
+        settle({
+          success: false,
+          error: outOfMemory ? new Error('Memory limit exceeded') : error,
+          memoryUsed: outOfMemory ? context.maxMemory : 0,
+          terminated: true,
+          terminationReason: outOfMemory ? 'memory' : 'crashed',
+        });
+      });
+
+      worker.on('exit', (exitCode) => {
+        settle({
+          success: false,
+          error: new Error(`Sandbox worker exited with code ${exitCode}`),
+          memoryUsed: 0,
+          terminated: true,
+          terminationReason: 'crashed',
+        });
+      });
+    });
+  }
+
+  /**
+   * Execute a handler in-process with a time limit. The handler is not
+   * isolated and keeps running after a timeout; use `run()` for untrusted code.
    */
   async execute(
     handler: () => Promise<unknown>,
     context: SandboxContext
   ): Promise<SandboxResult> {
     const startTime = Date.now();
+    const startCpu = process.cpuUsage();
+    const startHeap = process.memoryUsage().heapUsed;
+    const measure = () => {
+      const cpu = process.cpuUsage(startCpu);
+      context.memoryUsed = Math.max(0, process.memoryUsage().heapUsed - startHeap);
+      return {
+        executionTime: Date.now() - startTime,
+        memoryUsed: context.memoryUsed,
+        cpuTime: (cpu.user + cpu.system) / 1000,
+      };
+    };
 
     return new Promise((resolve) => {
       // Set timeout for max execution time
@@ -175,8 +407,7 @@ export class Sandbox {
         resolve({
           success: false,
           error: new Error('Execution timeout exceeded'),
-          executionTime: context.maxTime,
-          memoryUsed: context.memoryUsed,
+          ...measure(),
           terminated: true,
           terminationReason: 'timeout',
         });
@@ -185,20 +416,14 @@ export class Sandbox {
       handler()
         .then((result) => {
           clearTimeout(timer);
-          resolve({
-            success: true,
-            result,
-            executionTime: Date.now() - startTime,
-            memoryUsed: context.memoryUsed,
-          });
+          resolve({ success: true, result, ...measure() });
         })
         .catch((error) => {
           clearTimeout(timer);
           resolve({
             success: false,
             error: error instanceof Error ? error : new Error(String(error)),
-            executionTime: Date.now() - startTime,
-            memoryUsed: context.memoryUsed,
+            ...measure(),
           });
         });
     });
@@ -248,6 +473,36 @@ export class Sandbox {
   }
 }
 
+/**
+ * Message the sandbox worker posts when the code settles
+ */
+interface WorkerMessage {
+  success: boolean;
+  result?: unknown;
+  error?: { name: string; message: string };
+  timedOut?: boolean;
+  logs: string[];
+  memoryUsed: number;
+  cpuTime: number;
+}
+
+/**
+ * Create a tool handler that runs tool source code in a sandbox worker
+ */
+export function createSandboxedHandler(
+  code: string,
+  config?: Partial<SandboxConfig>
+): ToolHandler {
+  const sandbox = new Sandbox(config);
+  return async (args) => {
+    const result = await sandbox.run(code, args);
+    if (!result.success) {
+      throw result.error ?? new Error('Sandboxed tool failed');
+    }
+    return result.result;
+  };
+}
+
 // =============================================================================
 // Default Sandbox Hook Handler
 // =============================================================================
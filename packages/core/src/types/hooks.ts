@@ -582,7 +582,10 @@ export interface CostTrackingInput {
   model: string;
   inputTokens: number;
   outputTokens: number;
+  /** Every input token was read from the prompt cache */
   cached?: boolean;
+  /** Input tokens read from the prompt cache; part of inputTokens */
+  cachedTokens?: number;
 }
 
 export interface CostTrackingOutput {
@@ -612,7 +615,7 @@ export interface PerformanceProfilingOutput {
 
 export interface InputSanitizationInput {
   content: string;
-  contentType: 'user-message' | 'system-prompt' | 'tool-argument';
+  contentType: 'user-message' | 'system-prompt' | 'tool-argument' | 'tool-result';
   rules?: SanitizationRule[];
 }
 
@@ -715,11 +718,29 @@ export interface ThreatDetectionOutput {
 
 export interface Message {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  /** Plain text, or content parts for images and other non-text input */
+  content: string | ContentPart[];
   name?: string;
+  /** Tool calls made by an assistant turn; each is answered by a 'tool' message */
+  toolCalls?: ToolCall[];
+  /** The tool call a 'tool' message answers */
   toolCallId?: string;
 }
 
+export type ContentPart = TextContentPart | ImageContentPart;
+
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageContentPart {
+  type: 'image';
+  /** An http(s) URL or a data: URL holding the base64 image */
+  url: string;
+  mediaType?: string;
+}
+
 export interface ToolDefinition {
   name: string;
   description: string;
@@ -734,6 +755,23 @@ export interface LLMResponse {
   toolCalls?: ToolCall[];
   usage: TokenUsage;
   finishReason: string;
+  metadata?: LLMResponseMetadata;
+}
+
+export interface LLMResponseMetadata {
+  /** Every provider attempt made to produce this response, in order */
+  attempts?: GatewayAttempt[];
+  [key: string]: unknown;
+}
+
+export interface GatewayAttempt {
+  provider: string;
+  model: string;
+  /** Attempt number against this provider, starting at 1 */
+  attemptNumber: number;
+  outcome: 'success' | 'error' | 'circuit-open';
+  error?: string;
+  duration: number;
 }
 
 export interface ToolCall {
@@ -756,6 +794,10 @@ export interface ModelInfo {
   contextLength: number;
   inputCostPer1k: number;
   outputCostPer1k: number;
+  /** Price of input tokens read from the prompt cache */
+  cachedInputCostPer1k?: number;
+  /** Flat price per request, on top of token costs */
+  requestCost?: number;
   capabilities: string[];
 }
 
@@ -809,14 +851,41 @@ export interface ResourceLimits {
   maxNetworkRequests?: number;
 }
 
+/**
+ * Spending limits for an agent or a run. Usage of child agents counts toward
+ * their parent's limits.
+ */
+export interface BudgetLimits {
+  /** Prompt and completion tokens */
+  maxTokens?: number;
+  /** Spend in USD */
+  maxCost?: number;
+  /** Time spent running, in milliseconds */
+  maxDurationMs?: number;
+  /** Fraction of a limit at which a warning is emitted (default: 0.8) */
+  warnAt?: number;
+}
+
 export interface AgentConfig {
   name: string;
   role: string;
   systemPrompt?: string;
+  /**
+   * Tools the agent may see and call, by name or glob pattern (`*` matches any
+   * run of characters, `?` one character), e.g. `github__*` for every tool of
+   * an MCP server. When unset the agent can use every registered tool.
+   */
   tools?: string[];
+  /** Pins the model; when unset the model selection hook picks one */
   model?: string;
+  /** Constraints passed to the model selection hook */
+  modelConstraints?: ModelConstraints;
+  /** Preferences passed to the provider routing hook */
+  providerPreferences?: ProviderPreferences;
   maxIterations?: number;
   timeout?: number;
+  /** Limits over the agent's lifetime; the agent stops with `resource-limit` past them */
+  budget?: BudgetLimits;
 }
 
 export type AgentState =
@@ -864,6 +933,20 @@ export interface StreamChunk {
   isFirst: boolean;
   isLast: boolean;
   tokenCount?: number;
+  model?: string;
+  toolCallDeltas?: ToolCallDelta[];
+  usage?: TokenUsage;
+  finishReason?: string;
+}
+
+/**
+ * Incremental piece of a tool call; deltas sharing an index belong to the same call
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  argumentsDelta?: string;
 }
 
 export interface StreamMetrics {
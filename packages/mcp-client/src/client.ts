@@ -14,6 +14,7 @@ import type {
   RemoteTool,
   RemoteResource,
   RemotePrompt,
+  ToolCallOptions,
   ToolCallResult,
   ResourceContents,
   PromptMessage,
@@ -165,12 +166,17 @@ export class MCPClient extends EventEmitter<MCPClientEvents> {
   /**
    * Call a tool
    */
-  async callTool(name: string, args: Record<string, unknown> = {}): Promise<ToolCallResult> {
+  async callTool(
+    name: string,
+    args: Record<string, unknown> = {},
+    options: ToolCallOptions = {}
+  ): Promise<ToolCallResult> {
     this.ensureReady();
 
     const response = await this.request('tools/call', {
       name,
       arguments: args,
+      ...(options.traceparent ? { _meta: { traceparent: options.traceparent } } : {}),
     });
 
     return response.result as ToolCallResult;
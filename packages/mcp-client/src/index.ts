@@ -21,6 +21,18 @@ export {
   type PoolServerConfig,
 } from './pool.js';
 
+// Tool Bridge
+export {
+  MCPToolBridge,
+  connectMCPTools,
+  remoteToolToDefinition,
+  toolContentToText,
+  toolCallResultToOutput,
+  type MCPToolTarget,
+  type MCPToolBridgeOptions,
+  type MCPToolBridgeEvents,
+} from './tool-bridge.js';
+
 // Transport
 export {
   type MCPClientTransport,
@@ -39,6 +51,7 @@ export {
   type ServerInfo,
   type RemoteTool,
   type PropertySchema,
+  type ToolCallOptions,
   type ToolCallResult,
   type ToolContent,
   type TextContent,
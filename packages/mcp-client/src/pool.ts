@@ -25,6 +25,7 @@ export interface ConnectionPoolEvents {
   'connection:acquired': (connection: PooledConnection) => void;
   'connection:released': (connection: PooledConnection) => void;
   'connection:closed': (connection: PooledConnection) => void;
+  'tools:changed': (serverId: string, tools: RemoteTool[]) => void;
   'error': (error: Error, serverId?: string) => void;
 }
 
@@ -107,6 +108,13 @@ export class MCPConnectionPool extends EventEmitter<ConnectionPoolEvents> {
     this.waitingQueue.delete(serverId);
   }
 
+  /**
+   * Get the ids of all registered servers
+   */
+  getServerIds(): string[] {
+    return Array.from(this.servers.keys());
+  }
+
   /**
    * Acquire a connection to a server
    */
@@ -246,6 +254,11 @@ export class MCPConnectionPool extends EventEmitter<ConnectionPoolEvents> {
 
     await client.connect();
 
+    // Surface tools/list_changed from any connection to the server
+    client.on('tools:changed', (tools) => {
+      this.emit('tools:changed', server.id, tools);
+    });
+
     const entry: ConnectionEntry = {
       id,
       serverId: server.id,
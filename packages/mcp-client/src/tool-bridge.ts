@@ -0,0 +1,260 @@
+/**
+ * MCP Tool Bridge
+ *
+ * Registers the tools of pooled MCP servers with core's ToolRegistry or the
+ * runtime's tool executor, so agents can call them like local tools.
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import {
+  ToolRegistry,
+  type HookContext,
+  type RuntimeToolExecutor,
+  type ToolDefinition,
+} from '@open-agent/core';
+import type { ConnectionPoolOptions, RemoteTool, ToolCallResult, ToolContent } from './types.js';
+import { MCPConnectionPool, type PoolServerConfig } from './pool.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Where bridged tools are registered
+ */
+export type MCPToolTarget = ToolRegistry | RuntimeToolExecutor;
+
+/**
+ * Tool bridge options
+ */
+export interface MCPToolBridgeOptions {
+  /** Options for the pool the bridge creates when given server configs */
+  pool?: Partial<ConnectionPoolOptions>;
+  /** Separator between the server id and the tool name (default: `__`) */
+  separator?: string;
+  /** Only bridge tools this returns true for */
+  filter?: (serverId: string, tool: RemoteTool) => boolean;
+}
+
+/**
+ * Tool bridge events
+ */
+export interface MCPToolBridgeEvents {
+  'tools:synced': (serverId: string, toolNames: string[]) => void;
+  error: (error: Error, serverId: string) => void;
+}
+
+// =============================================================================
+// Tool Bridge Implementation
+// =============================================================================
+
+/**
+ * MCP Tool Bridge
+ *
+ * Keeps the target's tools in step with each server's tool list, re-syncing
+ * when a server sends `notifications/tools/list_changed`. Given server configs
+ * instead of a pool, the bridge creates its own pool and closes it on close().
+ */
+export class MCPToolBridge extends EventEmitter<MCPToolBridgeEvents> {
+  private pool: MCPConnectionPool;
+  private ownsPool: boolean;
+  private target: MCPToolTarget;
+  private options: Required<Pick<MCPToolBridgeOptions, 'separator'>> & MCPToolBridgeOptions;
+  private toolNames: Map<string, Set<string>> = new Map();
+  private onToolsChanged = (serverId: string, tools: RemoteTool[]) => {
+    this.apply(serverId, tools).catch((error) => this.emitError(error, serverId));
+  };
+
+  constructor(
+    pool: MCPConnectionPool | PoolServerConfig[],
+    target: MCPToolTarget,
+    options: MCPToolBridgeOptions = {}
+  ) {
+    super();
+    this.ownsPool = Array.isArray(pool);
+    if (Array.isArray(pool)) {
+      this.pool = new MCPConnectionPool(options.pool);
+      for (const server of pool) {
+        this.pool.registerServer(server);
+      }
+    } else {
+      this.pool = pool;
+    }
+    this.target = target;
+    this.options = { separator: '__', ...options };
+    this.pool.on('tools:changed', this.onToolsChanged);
+  }
+
+  /**
+   * Fetch the tool list of one server, or of every registered server, and
+   * register the tools. Servers that fail are reported through 'error'.
+   */
+  async sync(serverId?: string): Promise<void> {
+    const serverIds = serverId !== undefined ? [serverId] : this.pool.getServerIds();
+
+    await Promise.all(
+      serverIds.map(async (id) => {
+        try {
+          const tools = await this.pool.withConnection(id, (client) => client.listTools());
+          await this.apply(id, tools);
+        } catch (error) {
+          this.emitError(error, id);
+        }
+      })
+    );
+  }
+
+  /**
+   * Get the bridged tool names, by server id
+   */
+  getToolNames(): Map<string, string[]> {
+    return new Map(
+      Array.from(this.toolNames, ([serverId, names]) => [serverId, Array.from(names)])
+    );
+  }
+
+  /**
+   * Unregister every bridged tool and stop following tool list changes
+   */
+  async close(): Promise<void> {
+    this.pool.off('tools:changed', this.onToolsChanged);
+    for (const names of this.toolNames.values()) {
+      for (const name of names) {
+        this.target.unregister(name);
+      }
+    }
+    this.toolNames.clear();
+
+    if (this.ownsPool) {
+      await this.pool.close();
+    }
+  }
+
+  /**
+   * Replace a server's bridged tools with a fresh tool list
+   */
+  private async apply(serverId: string, tools: RemoteTool[]): Promise<void> {
+    const previous = this.toolNames.get(serverId) ?? new Set<string>();
+    const current = new Set<string>();
+
+    for (const tool of tools) {
+      if (this.options.filter && !this.options.filter(serverId, tool)) {
+        continue;
+      }
+
+      const definition = remoteToolToDefinition(serverId, tool, this.options.separator);
+      // Continue the caller's trace on the server when the call is traced
+      const handler = (args: Record<string, unknown>, context?: { hookContext?: HookContext }) => {
+        const traceparent = context?.hookContext?.metadata['traceparent'];
+        return this.pool
+          .withConnection(serverId, (client) =>
+            client.callTool(tool.name, args, {
+              traceparent: typeof traceparent === 'string' ? traceparent : undefined,
+            })
+          )
+          .then(toolCallResultToOutput);
+      };
+
+      // Re-register so changed descriptions and schemas take effect
+      this.target.unregister(definition.name);
+      if (this.target instanceof ToolRegistry) {
+        this.target.register(definition, handler, { category: `mcp:${serverId}` });
+      } else {
+        await this.target.register(definition, handler, 'mcp');
+      }
+      current.add(definition.name);
+    }
+
+    for (const name of previous) {
+      if (!current.has(name)) {
+        this.target.unregister(name);
+      }
+    }
+
+    this.toolNames.set(serverId, current);
+    this.emit('tools:synced', serverId, Array.from(current));
+  }
+
+  private emitError(error: unknown, serverId: string): void {
+    this.emit('error', error instanceof Error ? error : new Error(String(error)), serverId);
+  }
+}
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Build a core tool definition for a remote tool, namespaced by server id
+ */
+export function remoteToolToDefinition(
+  serverId: string,
+  tool: RemoteTool,
+  separator: string = '__'
+): ToolDefinition {
+  return {
+    name: `${serverId.replace(/[^\w-]+/g, '_')}${separator}${tool.name}`,
+    description: tool.description,
+    parameters: tool.inputSchema as unknown as Record<string, unknown>,
+  };
+}
+
+/**
+ * Flatten tool content into text: embedded resources are inlined and binary
+ * content is described by its type and size
+ */
+export function toolContentToText(content: ToolContent[]): string {
+  return content
+    .map((item) => {
+      switch (item.type) {
+        case 'text':
+          return item.text;
+        case 'image':
+          return `[${item.mimeType} image, ${base64Size(item.data)} bytes]`;
+        case 'resource': {
+          const { uri, mimeType, text, blob } = item.resource;
+          if (text !== undefined) {
+            return `Resource ${uri}:\n${text}`;
+          }
+          const size = blob !== undefined ? `, ${base64Size(blob)} bytes` : '';
+          return `[Resource ${uri} (${mimeType ?? 'application/octet-stream'}${size})]`;
+        }
+        default:
+          return '';
+      }
+    })
+    .filter((text) => text !== '')
+    .join('\n');
+}
+
+/**
+ * Convert a tool call result into a tool output, throwing for error results
+ */
+export function toolCallResultToOutput(result: ToolCallResult): string {
+  const text = toolContentToText(result.content ?? []);
+  if (result.isError) {
+    throw new Error(text || 'MCP tool call failed');
+  }
+  return text;
+}
+
+function base64Size(data: string): number {
+  return Buffer.from(data, 'base64').length;
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Connect to a set of MCP servers and register their tools with a target
+ */
+export async function connectMCPTools(
+  target: MCPToolTarget,
+  servers: PoolServerConfig[],
+  options?: MCPToolBridgeOptions
+): Promise<MCPToolBridge> {
+  const bridge = new MCPToolBridge(servers, target, options);
+  await bridge.sync();
+  return bridge;
+}
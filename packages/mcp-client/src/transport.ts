@@ -243,6 +243,9 @@ export class StdioClientTransport extends BaseTransport {
  * HTTP transport for REST-style communication
  */
 export class HttpClientTransport extends BaseTransport {
+  /** Session id issued by a Streamable HTTP server on initialize */
+  private sessionId?: string;
+
   async connect(): Promise<void> {
     if (this.connected) {
       return;
@@ -265,7 +268,8 @@ export class HttpClientTransport extends BaseTransport {
         signal: controller.signal,
       });
 
-      if (!response.ok) {
+      // Servers that issue sessions answer 400 to anything sent before initialize
+      if (!response.ok && response.status !== 400) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
@@ -277,6 +281,7 @@ export class HttpClientTransport extends BaseTransport {
 
   async disconnect(): Promise<void> {
     this.connected = false;
+    this.sessionId = undefined;
     this.clearPendingRequests(new Error('Disconnected'));
   }
 
@@ -294,6 +299,7 @@ export class HttpClientTransport extends BaseTransport {
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
+    this.sessionId = response.headers.get('mcp-session-id') ?? this.sessionId;
 
     const responseData = await response.text();
     this.handleResponse(responseData);
@@ -303,6 +309,9 @@ export class HttpClientTransport extends BaseTransport {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
 
     if (this.options.auth) {
       switch (this.options.auth.type) {
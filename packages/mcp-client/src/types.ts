@@ -110,6 +110,14 @@ export interface PropertySchema {
   default?: unknown;
 }
 
+/**
+ * Options for a single tool call
+ */
+export interface ToolCallOptions {
+  /** W3C traceparent of the caller's span, sent as `_meta.traceparent` */
+  traceparent?: string;
+}
+
 /**
  * Tool call result
  */
@@ -0,0 +1,239 @@
+/**
+ * Tool Bridge Tests
+ *
+ * Bridges the tools of a local MCP server stub, over the HTTP transport, into
+ * core's ToolRegistry and an AgentRuntime.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  AgentRuntime,
+  HookRegistry,
+  ToolRegistry,
+  type HookContext,
+  type LLMAdapter,
+  type LLMResponse,
+  type ToolContext,
+} from '@open-agent/core';
+import { MCPConnectionPool, type PoolServerConfig } from '../src/pool.js';
+import { connectMCPTools, toolContentToText, MCPToolBridge } from '../src/tool-bridge.js';
+import type { RemoteTool, ToolCallResult } from '../src/types.js';
+
+interface ToolCallRequest {
+  name: string;
+  arguments: Record<string, unknown>;
+  _meta?: { traceparent?: string };
+}
+
+function tool(name: string): RemoteTool {
+  return {
+    name,
+    description: `The ${name} tool`,
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  };
+}
+
+/**
+ * MCP server stub answering JSON-RPC over HTTP; echo returns its text, anything else fails
+ */
+async function startServer(): Promise<{
+  server: Server;
+  url: string;
+  calls: ToolCallRequest[];
+}> {
+  const tools = [tool('echo'), tool('fail')];
+  const calls: ToolCallRequest[] = [];
+
+  const respond = (method: string, params: Record<string, unknown>): unknown => {
+    switch (method) {
+      case 'initialize':
+        return {
+          protocolVersion: '2024-11-05',
+          capabilities: { tools: { listChanged: true } },
+          serverInfo: { name: 'stub', version: '1.0.0' },
+        };
+      case 'tools/list':
+        return { tools };
+      case 'tools/call': {
+        const call = params as unknown as ToolCallRequest;
+        calls.push(call);
+        const result: ToolCallResult =
+          call.name === 'echo'
+            ? { content: [{ type: 'text', text: String(call.arguments['text']) }] }
+            : { content: [{ type: 'text', text: 'no such thing' }], isError: true };
+        return result;
+      }
+      default:
+        return {};
+    }
+  };
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const message = JSON.parse(body);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      // Notifications get an empty reply
+      if (message.id === undefined) {
+        res.end();
+        return;
+      }
+      res.end(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: respond(message.method, message.params ?? {}),
+        })
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${port}/mcp`, calls };
+}
+
+function toolContext(hookContext: HookContext): ToolContext {
+  return { agentId: 'agent-1', hookContext };
+}
+
+describe('MCPToolBridge', () => {
+  let stub: Awaited<ReturnType<typeof startServer>>;
+  let bridge: MCPToolBridge | undefined;
+  let servers: PoolServerConfig[];
+
+  beforeEach(async () => {
+    stub = await startServer();
+    servers = [{ id: 'remote', options: { transport: 'http', url: stub.url } }];
+  });
+
+  afterEach(async () => {
+    await bridge?.close();
+    bridge = undefined;
+    await new Promise((resolve) => stub.server.close(resolve));
+  });
+
+  it('should register namespaced tools with their schema', async () => {
+    const registry = new ToolRegistry();
+    bridge = await connectMCPTools(registry, servers);
+
+    expect(registry.getToolNames().sort()).toEqual(['remote__echo', 'remote__fail']);
+    expect(registry.get('remote__echo')?.definition).toEqual({
+      name: 'remote__echo',
+      description: 'The echo tool',
+      parameters: tool('echo').inputSchema,
+    });
+    expect(registry.getOptions('remote__echo')?.category).toBe('mcp:remote');
+
+    const context = toolContext({ requestId: 'req-1', timestamp: Date.now(), metadata: {} });
+    await expect(registry.getHandler('remote__echo')!({ text: 'hi' }, context)).resolves.toBe('hi');
+    await expect(registry.getHandler('remote__fail')!({}, context)).rejects.toThrow(
+      'no such thing'
+    );
+    expect(stub.calls[0]).toEqual({ name: 'echo', arguments: { text: 'hi' } });
+  });
+
+  it('should forward the caller traceparent to the server', async () => {
+    const registry = new ToolRegistry();
+    bridge = await connectMCPTools(registry, servers);
+    const traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+    await registry.getHandler('remote__echo')!(
+      { text: 'traced' },
+      toolContext({ requestId: 'req-1', timestamp: Date.now(), metadata: { traceparent } })
+    );
+
+    expect(stub.calls[0]?._meta).toEqual({ traceparent });
+  });
+
+  it('should re-sync when the server tool list changes', async () => {
+    const registry = new ToolRegistry();
+    const pool = new MCPConnectionPool();
+    pool.registerServer(servers[0]!);
+    bridge = new MCPToolBridge(pool, registry);
+    await bridge.sync();
+
+    // What the pool reports when a client receives notifications/tools/list_changed
+    pool.emit('tools:changed', 'remote', [tool('echo'), tool('shout')]);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(bridge.getToolNames().get('remote')?.sort()).toEqual(['remote__echo', 'remote__shout']);
+    expect(registry.has('remote__fail')).toBe(false);
+    await bridge.close();
+    await pool.close();
+  });
+
+  it('should let traced runtime agents call bridged tools', async () => {
+    const runtime = new AgentRuntime(
+      {
+        enableStreaming: false,
+        enableHealthChecks: false,
+        tracing: { exporter: { export: () => {} } },
+      },
+      new HookRegistry()
+    );
+    let calls = 0;
+    const adapter: LLMAdapter = {
+      id: 'scripted',
+      name: 'Scripted',
+      models: ['model-a'],
+      async complete(): Promise<LLMResponse> {
+        calls++;
+        return {
+          id: `resp-${calls}`,
+          model: 'model-a',
+          content: calls === 1 ? '' : 'Echoed.',
+          toolCalls:
+            calls === 1
+              ? [{ id: 'call_1', name: 'remote__echo', arguments: { text: 'ping' } }]
+              : undefined,
+          usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+          finishReason: calls === 1 ? 'tool_calls' : 'stop',
+        };
+      },
+      async *stream() {},
+      async healthCheck(): Promise<boolean> {
+        return true;
+      },
+    };
+    runtime.registerAdapter(adapter);
+
+    bridge = await connectMCPTools(runtime.toolExecutor, servers);
+    expect(runtime.toolExecutor.hasTool('remote__echo')).toBe(true);
+
+    const agentId = await runtime.createAgent({ name: 'caller', role: 'test' });
+    const response = await runtime.run(agentId, { role: 'user', content: 'echo ping' });
+
+    expect(response.content).toBe('Echoed.');
+    expect(runtime.getAgent(agentId)?.messageHistory).toContainEqual({
+      role: 'tool',
+      content: JSON.stringify('ping'),
+      toolCallId: 'call_1',
+    });
+    expect(stub.calls[0]?._meta?.traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+
+    await bridge.close();
+    expect(runtime.toolExecutor.hasTool('remote__echo')).toBe(false);
+    await runtime.shutdown();
+  });
+
+  it('should flatten text, image and resource content', () => {
+    expect(
+      toolContentToText([
+        { type: 'text', text: 'Summary' },
+        { type: 'image', data: Buffer.from('abcd').toString('base64'), mimeType: 'image/png' },
+        { type: 'resource', resource: { uri: 'file:///a.txt', text: 'contents' } },
+        { type: 'resource', resource: { uri: 'file:///b.bin', blob: 'AAAA' } },
+      ])
+    ).toBe(
+      [
+        'Summary',
+        '[image/png image, 4 bytes]',
+        'Resource file:///a.txt:\ncontents',
+        '[Resource file:///b.bin (application/octet-stream, 3 bytes)]',
+      ].join('\n')
+    );
+  });
+});
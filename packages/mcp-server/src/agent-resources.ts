@@ -0,0 +1,114 @@
+/**
+ * Agent Resources
+ *
+ * Publishes live agent state and message history from an AgentRuntime as
+ * MCP resources, notifying subscribers as agents change.
+ */
+
+import type { AgentInstance, AgentRuntime } from '@open-agent/core';
+import type { MCPServer } from './server.js';
+import { JSON_RPC_ERRORS } from './types.js';
+import { MCPProtocolError } from './protocol.js';
+
+/** URI template for an agent's state */
+export const AGENT_STATE_URI = 'agent://{id}/state';
+
+/** URI template for an agent's message history */
+export const AGENT_HISTORY_URI = 'agent://{id}/history';
+
+/**
+ * Register `agent://{id}/state` and `agent://{id}/history` resources for
+ * the agents in a runtime; returns a function that removes them again
+ */
+export function registerAgentResources(server: MCPServer, runtime: AgentRuntime): () => void {
+  const getAgent = (id: string): AgentInstance => {
+    const agent = runtime.getAgent(id);
+    if (!agent) {
+      throw new MCPProtocolError(`Agent not found: ${id}`, JSON_RPC_ERRORS.RESOURCE_NOT_FOUND);
+    }
+    return agent;
+  };
+
+  server.registerResourceTemplate(
+    {
+      uriTemplate: AGENT_STATE_URI,
+      name: 'Agent state',
+      description: 'Current state, iteration count and hierarchy of a running agent',
+      mimeType: 'application/json',
+    },
+    (_uri, { id }) => JSON.stringify(describeAgent(getAgent(id!)), null, 2),
+    {
+      list: () =>
+        runtime.getAllAgents().map((agent) => ({
+          uri: `agent://${agent.id}/state`,
+          name: `${agent.config.name} state`,
+          mimeType: 'application/json',
+        })),
+      complete: { id: (value) => agentIds(runtime, value) },
+    }
+  );
+
+  server.registerResourceTemplate(
+    {
+      uriTemplate: AGENT_HISTORY_URI,
+      name: 'Agent history',
+      description: 'Messages exchanged by a running agent',
+      mimeType: 'application/json',
+    },
+    (_uri, { id }) => JSON.stringify(getAgent(id!).messageHistory, null, 2),
+    {
+      list: () =>
+        runtime.getAllAgents().map((agent) => ({
+          uri: `agent://${agent.id}/history`,
+          name: `${agent.config.name} history`,
+          mimeType: 'application/json',
+        })),
+      complete: { id: (value) => agentIds(runtime, value) },
+    }
+  );
+
+  const onMessage = (agentId: string) => {
+    server.notifyResourceUpdated(`agent://${agentId}/history`);
+  };
+  const onStateChanged = (agentId: string) => {
+    server.notifyResourceUpdated(`agent://${agentId}/state`);
+  };
+  const onListChanged = () => {
+    server.notifyResourceListChanged();
+  };
+
+  runtime.on('agent:message', onMessage);
+  runtime.on('agent:state-changed', onStateChanged);
+  runtime.on('agent:created', onListChanged);
+  runtime.on('agent:stopped', onListChanged);
+
+  return () => {
+    runtime.off('agent:message', onMessage);
+    runtime.off('agent:state-changed', onStateChanged);
+    runtime.off('agent:created', onListChanged);
+    runtime.off('agent:stopped', onListChanged);
+    server.unregisterResourceTemplate(AGENT_STATE_URI);
+    server.unregisterResourceTemplate(AGENT_HISTORY_URI);
+  };
+}
+
+function describeAgent(agent: AgentInstance): Record<string, unknown> {
+  return {
+    id: agent.id,
+    name: agent.config.name,
+    state: agent.state,
+    iterationCount: agent.iterationCount,
+    parentAgentId: agent.parentAgentId,
+    childAgentIds: agent.childAgentIds,
+    createdAt: agent.createdAt,
+    lastActiveAt: agent.lastActiveAt,
+    messageCount: agent.messageHistory.length,
+  };
+}
+
+function agentIds(runtime: AgentRuntime, prefix: string): string[] {
+  return runtime
+    .getAllAgents()
+    .map((agent) => agent.id)
+    .filter((id) => id.startsWith(prefix));
+}
@@ -0,0 +1,174 @@
+/**
+ * Agent Tools
+ *
+ * Publishes the agents of an AgentRuntime as MCP tools: calls run the agent,
+ * report progress as it iterates and stop it when the client cancels.
+ */
+
+import type { AgentConfig, AgentInstance, AgentRuntime, Message } from '@open-agent/core';
+import type { MCPServer } from './server.js';
+import type { MCPTool, MCPToolCallResponse } from './types.js';
+import type { MCPToolCallContext } from './tool-registry.js';
+
+/**
+ * Runtime agent registration options
+ */
+export interface RuntimeAgentToolOptions {
+  /** Only publish agents this returns true for */
+  filter?: (agent: AgentInstance) => boolean;
+}
+
+/**
+ * Build the tool definition for a runtime agent
+ */
+export function runtimeAgentToMCPTool(name: string, config: AgentConfig): MCPTool {
+  return {
+    name,
+    description: config.systemPrompt
+      ? `${config.name} (${config.role}): ${config.systemPrompt}`
+      : `${config.name} (${config.role})`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        task: { type: 'string', description: 'What the agent should do' },
+        context: { type: 'string', description: 'Additional context for the task' },
+      },
+      required: ['task'],
+    },
+  };
+}
+
+/**
+ * Register every agent in a runtime, and each agent created later, as an MCP
+ * tool; tools are removed when their agent stops. Returns a function that
+ * removes them all.
+ */
+export function registerRuntimeAgents(
+  server: MCPServer,
+  runtime: AgentRuntime,
+  options: RuntimeAgentToolOptions = {}
+): () => void {
+  const toolNames = new Map<string, string>();
+
+  const add = (agentId: string) => {
+    const agent = runtime.getAgent(agentId);
+    if (!agent || toolNames.has(agentId) || (options.filter && !options.filter(agent))) {
+      return;
+    }
+
+    const name = uniqueToolName(agent, new Set(toolNames.values()));
+    toolNames.set(agentId, name);
+    server.registerTool(
+      runtimeAgentToMCPTool(name, agent.config),
+      (args, context) => runAgent(runtime, agentId, args, context),
+      { agentId }
+    );
+  };
+
+  const remove = (agentId: string) => {
+    const name = toolNames.get(agentId);
+    if (name !== undefined) {
+      toolNames.delete(agentId);
+      server.unregisterTool(name);
+    }
+  };
+
+  for (const agent of runtime.getAllAgents()) {
+    if (agent.state !== 'completed') {
+      add(agent.id);
+    }
+  }
+
+  runtime.on('agent:created', add);
+  runtime.on('agent:stopped', remove);
+
+  return () => {
+    runtime.off('agent:created', add);
+    runtime.off('agent:stopped', remove);
+    for (const agentId of Array.from(toolNames.keys())) {
+      remove(agentId);
+    }
+  };
+}
+
+/**
+ * Run an agent for one tool call
+ */
+async function runAgent(
+  runtime: AgentRuntime,
+  agentId: string,
+  args: Record<string, unknown>,
+  { signal, progress }: MCPToolCallContext
+): Promise<MCPToolCallResponse> {
+  const { task, context } = args;
+  if (typeof task !== 'string' || !task) {
+    return errorResponse('Missing required argument: task');
+  }
+
+  const agent = runtime.getAgent(agentId);
+  if (!agent) {
+    return errorResponse(`Agent not found: ${agentId}`);
+  }
+  if (agent.state !== 'idle') {
+    return errorResponse(`Agent ${agent.config.name} is ${agent.state}`);
+  }
+
+  let step = 0;
+  const onIteration = (id: string, iteration: number) => {
+    if (id === agentId) {
+      progress(++step, undefined, `Iteration ${iteration + 1}`);
+    }
+  };
+  const onToolExecuting = (id: string, toolCall: { name: string }) => {
+    if (id === agentId) {
+      progress(++step, undefined, `Running tool ${toolCall.name}`);
+    }
+  };
+  runtime.on('agent:iteration', onIteration);
+  runtime.on('tool:executing', onToolExecuting);
+
+  let onAbort: (() => void) | undefined;
+  const cancelled = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      reject(signal.reason instanceof Error ? signal.reason : new Error('Request cancelled'));
+      // The agent may be mid-transition; stopping is best effort
+      runtime.stopAgent(agentId, 'cancelled').catch(() => {});
+    };
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+
+  const input: Message = {
+    role: 'user',
+    content: typeof context === 'string' && context ? `${task}\n\nContext:\n${context}` : task,
+  };
+  const run = runtime.run(agentId, input);
+  run.catch(() => {});
+
+  try {
+    const response = await Promise.race([run, cancelled]);
+    return { content: [{ type: 'text', text: response.content }] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return errorResponse(signal.aborted ? `Cancelled: ${message}` : `Agent error: ${message}`);
+  } finally {
+    signal.removeEventListener('abort', onAbort!);
+    runtime.off('agent:iteration', onIteration);
+    runtime.off('tool:executing', onToolExecuting);
+  }
+}
+
+/**
+ * Tool name from the agent name, falling back to the agent id on collisions
+ */
+function uniqueToolName(agent: AgentInstance, taken: Set<string>): string {
+  const base = agent.config.name.replace(/[^\w-]+/g, '_') || agent.id;
+  return taken.has(base) ? `${base}_${agent.id}` : base;
+}
+
+function errorResponse(text: string): MCPToolCallResponse {
+  return { content: [{ type: 'text', text }], isError: true };
+}
@@ -6,7 +6,13 @@
  */
 
 import { createMCPServer } from './server.js';
-import { createStdioTransport } from './transport.js';
+import { loadAgentPrompts } from './prompt-registry.js';
+import {
+  createHTTPTransport,
+  createStdioTransport,
+  createWebSocketTransport,
+  type MCPTransport,
+} from './transport.js';
 
 // =============================================================================
 // CLI Implementation
@@ -20,6 +26,10 @@ async function main(): Promise<void> {
     name: 'open-agent-mcp',
     version: '0.1.0',
     prefix: '',
+    transport: 'stdio',
+    port: 3000,
+    host: 'localhost',
+    prompts: '',
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -37,6 +47,19 @@ async function main(): Promise<void> {
       case '-p':
         config.prefix = args[++i] ?? '';
         break;
+      case '--transport':
+      case '-t':
+        config.transport = args[++i] ?? config.transport;
+        break;
+      case '--port':
+        config.port = Number(args[++i]);
+        break;
+      case '--host':
+        config.host = args[++i] ?? config.host;
+        break;
+      case '--prompts':
+        config.prompts = args[++i] ?? '';
+        break;
       case '--help':
       case '-h':
         printHelp();
@@ -45,6 +68,16 @@ async function main(): Promise<void> {
     }
   }
 
+  if (!['stdio', 'http', 'websocket'].includes(config.transport)) {
+    console.error(`Unknown transport: ${config.transport}`);
+    process.exit(1);
+  }
+
+  if (!Number.isInteger(config.port) || config.port < 0 || config.port > 65535) {
+    console.error('Invalid port');
+    process.exit(1);
+  }
+
   // Create server
   const server = createMCPServer({
     name: config.name,
@@ -54,6 +87,15 @@ async function main(): Promise<void> {
     },
   });
 
+  // Publish agent definitions as prompts
+  if (config.prompts) {
+    const prompts = await loadAgentPrompts(config.prompts);
+    for (const { definition, renderer } of prompts) {
+      server.registerPrompt(definition, renderer);
+    }
+    console.error(`Loaded ${prompts.length} prompt(s) from ${config.prompts}`);
+  }
+
   // Set up event handlers
   server.on('error', (error) => {
     console.error('Server error:', error.message);
@@ -68,8 +110,21 @@ async function main(): Promise<void> {
   });
 
   // Create and start transport
-  const transport = createStdioTransport(server);
-  await transport.start();
+  let transport: MCPTransport;
+  if (config.transport === 'http') {
+    const httpTransport = createHTTPTransport(server, { port: config.port, host: config.host });
+    await httpTransport.start();
+    console.error(`Listening on http://${config.host}:${httpTransport.getPort()}/mcp`);
+    transport = httpTransport;
+  } else if (config.transport === 'websocket') {
+    const wsTransport = createWebSocketTransport(server, { port: config.port, host: config.host });
+    await wsTransport.start();
+    console.error(`Listening on ws://${config.host}:${wsTransport.getPort()}`);
+    transport = wsTransport;
+  } else {
+    transport = createStdioTransport(server);
+    await transport.start();
+  }
 
   // Handle shutdown
   process.on('SIGINT', async () => {
@@ -92,13 +147,22 @@ Usage: open-agent-mcp [options]
 Options:
   -n, --name <name>     Server name (default: open-agent-mcp)
   -p, --prefix <prefix> Tool name prefix
+  -t, --transport <transport>
+                        Transport: stdio, http or websocket (default: stdio)
+  --port <port>         HTTP/WebSocket port (default: 3000)
+  --host <host>         HTTP/WebSocket host (default: localhost)
+  --prompts <dir>       Publish the agent definitions (*.md) in a directory as prompts
   -v, --version         Show version
   -h, --help            Show help
 
 Example:
   open-agent-mcp --name my-server --prefix agent
+  open-agent-mcp --transport http --port 3000
+  open-agent-mcp --prompts open-agents/agents
 
-This starts an MCP server that communicates via stdin/stdout.
+This starts an MCP server that communicates via stdin/stdout, over
+Streamable HTTP at http://<host>:<port>/mcp with --transport http, or over
+WebSocket at ws://<host>:<port> with --transport websocket.
 Tools can be registered programmatically by importing the server module.
 `);
 }
@@ -22,11 +22,54 @@ export {
   createAgentToolHandler,
   resultToMCPResponse,
   type MCPToolHandler,
+  type MCPToolCallContext,
   type RegisteredMCPTool,
   type AgentForMapping,
   type AgentParameter,
 } from './tool-registry.js';
 
+// Prompt Registry
+export {
+  MCPPromptRegistry,
+  createMCPPromptRegistry,
+  renderTemplate,
+  agentDefinitionToPrompt,
+  loadAgentPrompts,
+  runCompleter,
+  MAX_COMPLETION_VALUES,
+  type MCPPromptRenderer,
+  type MCPArgumentCompleter,
+  type MCPPromptOptions,
+  type RegisteredMCPPrompt,
+  type AgentPrompt,
+} from './prompt-registry.js';
+
+// Resource Registry
+export {
+  MCPResourceRegistry,
+  createMCPResourceRegistry,
+  compileUriTemplate,
+  type MCPResourceReader,
+  type MCPResourceTemplateOptions,
+  type RegisteredMCPResource,
+  type RegisteredMCPResourceTemplate,
+  type UriTemplateMatcher,
+} from './resource-registry.js';
+
+// Agent Tools
+export {
+  registerRuntimeAgents,
+  runtimeAgentToMCPTool,
+  type RuntimeAgentToolOptions,
+} from './agent-tools.js';
+
+// Agent Resources
+export {
+  registerAgentResources,
+  AGENT_STATE_URI,
+  AGENT_HISTORY_URI,
+} from './agent-resources.js';
+
 // Transport
 export {
   type MCPTransport,
@@ -37,6 +80,7 @@ export {
   WebSocketTransport,
   createWebSocketTransport,
   type HTTPTransportConfig,
+  type HTTPCorsConfig,
   type WebSocketTransportConfig,
 } from './transport.js';
 
@@ -50,21 +94,28 @@ export {
   type MCPPropertySchema,
   type MCPToolCallRequest,
   type MCPToolCallResponse,
+  type MCPProgress,
   type MCPContent,
   type MCPTextContent,
   type MCPImageContent,
   type MCPResourceContent,
   type MCPResource,
   type MCPResourceTemplate,
+  type MCPResourceContents,
   type MCPPrompt,
   type MCPPromptArgument,
   type MCPPromptMessage,
+  type MCPGetPromptResult,
+  type MCPCompletionReference,
+  type MCPCompletionRequest,
+  type MCPCompletionResult,
   type MCPServerCapabilities,
   type MCPServerInfo,
   type MCPInitializeResult,
   type MCPServerConfig,
   type MCPAuthConfig,
   type MCPServerEvents,
+  type MCPSession,
   MCP_METHODS,
   JSON_RPC_ERRORS,
 } from './types.js';
@@ -0,0 +1,320 @@
+/**
+ * MCP Prompt Registry
+ *
+ * Manages MCP prompts, renders them from templates or functions, and
+ * publishes agent definitions as prompts.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { EventEmitter } from 'eventemitter3';
+import type { MCPContent, MCPGetPromptResult, MCPPrompt, MCPPromptMessage } from './types.js';
+import { JSON_RPC_ERRORS } from './types.js';
+import { MCPProtocolError } from './protocol.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Prompt renderer: a `{{arg}}` template for a single user message, templated
+ * messages, or a function building the messages from the arguments
+ */
+export type MCPPromptRenderer =
+  | string
+  | MCPPromptMessage[]
+  | ((args: Record<string, string>) => MCPPromptMessage[] | Promise<MCPPromptMessage[]>);
+
+/**
+ * Argument completer: candidate values filtered by prefix, or a function
+ * returning matches for the partial value
+ */
+export type MCPArgumentCompleter =
+  | string[]
+  | ((value: string, context: Record<string, string>) => string[] | Promise<string[]>);
+
+/**
+ * Prompt registration options
+ */
+export interface MCPPromptOptions {
+  /** Completers for argument values, by argument name */
+  complete?: Record<string, MCPArgumentCompleter>;
+}
+
+/**
+ * Registered prompt
+ */
+export interface RegisteredMCPPrompt {
+  definition: MCPPrompt;
+  renderer: MCPPromptRenderer;
+  options: MCPPromptOptions;
+}
+
+interface PromptRegistryEvents {
+  'prompt:registered': (prompt: MCPPrompt) => void;
+  'prompt:unregistered': (name: string) => void;
+}
+
+/** Most values a completion response may carry */
+export const MAX_COMPLETION_VALUES = 100;
+
+// =============================================================================
+// Prompt Registry Implementation
+// =============================================================================
+
+/**
+ * MCP Prompt Registry
+ *
+ * Manages prompt registration, rendering and argument completion.
+ */
+export class MCPPromptRegistry extends EventEmitter<PromptRegistryEvents> {
+  private prompts: Map<string, RegisteredMCPPrompt> = new Map();
+
+  /**
+   * Register a prompt
+   */
+  register(
+    definition: MCPPrompt,
+    renderer: MCPPromptRenderer,
+    options: MCPPromptOptions = {}
+  ): void {
+    this.prompts.set(definition.name, { definition, renderer, options });
+    this.emit('prompt:registered', definition);
+  }
+
+  /**
+   * Unregister a prompt
+   */
+  unregister(name: string): boolean {
+    if (!this.prompts.delete(name)) {
+      return false;
+    }
+
+    this.emit('prompt:unregistered', name);
+    return true;
+  }
+
+  /**
+   * List all prompt definitions
+   */
+  list(): MCPPrompt[] {
+    return Array.from(this.prompts.values()).map((p) => p.definition);
+  }
+
+  /**
+   * Get prompt count
+   */
+  get size(): number {
+    return this.prompts.size;
+  }
+
+  /**
+   * Render a prompt, validating its arguments
+   */
+  async render(name: string, args: Record<string, unknown> = {}): Promise<MCPGetPromptResult> {
+    const prompt = this.getPrompt(name);
+    const values = validateArguments(prompt.definition, args);
+
+    const { renderer } = prompt;
+    let messages: MCPPromptMessage[];
+    if (typeof renderer === 'string') {
+      messages = [
+        { role: 'user', content: { type: 'text', text: renderTemplate(renderer, values) } },
+      ];
+    } else if (Array.isArray(renderer)) {
+      messages = renderer.map((message) => renderMessage(message, values));
+    } else {
+      messages = await renderer(values);
+    }
+
+    return { description: prompt.definition.description, messages };
+  }
+
+  /**
+   * Complete a prompt argument value
+   */
+  async complete(
+    name: string,
+    argument: string,
+    value: string,
+    context: Record<string, string> = {}
+  ): Promise<string[]> {
+    const prompt = this.getPrompt(name);
+    if (!prompt.definition.arguments?.some((a) => a.name === argument)) {
+      throw new MCPProtocolError(
+        `Unknown argument for prompt ${name}: ${argument}`,
+        JSON_RPC_ERRORS.INVALID_PARAMS
+      );
+    }
+
+    const completer = prompt.options.complete?.[argument];
+    return completer ? runCompleter(completer, value, context) : [];
+  }
+
+  private getPrompt(name: string): RegisteredMCPPrompt {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new MCPProtocolError(`Prompt not found: ${name}`, JSON_RPC_ERRORS.INVALID_PARAMS);
+    }
+    return prompt;
+  }
+}
+
+/**
+ * Complete a value with an argument completer
+ */
+export async function runCompleter(
+  completer: MCPArgumentCompleter,
+  value: string,
+  context: Record<string, string>
+): Promise<string[]> {
+  if (Array.isArray(completer)) {
+    const prefix = value.toLowerCase();
+    return completer.filter((candidate) => candidate.toLowerCase().startsWith(prefix));
+  }
+  return completer(value, context);
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Replace `{{name}}` placeholders with argument values; unset arguments
+ * render as empty strings
+ */
+export function renderTemplate(template: string, args: Record<string, string>): string {
+  return template.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_match, name: string) => args[name] ?? '');
+}
+
+function renderMessage(message: MCPPromptMessage, args: Record<string, string>): MCPPromptMessage {
+  return { role: message.role, content: renderContent(message.content, args) };
+}
+
+function renderContent(content: MCPContent, args: Record<string, string>): MCPContent {
+  switch (content.type) {
+    case 'text':
+      return { type: 'text', text: renderTemplate(content.text, args) };
+    case 'resource':
+      return {
+        type: 'resource',
+        resource: {
+          ...content.resource,
+          uri: renderTemplate(content.resource.uri, args),
+          ...(content.resource.text !== undefined
+            ? { text: renderTemplate(content.resource.text, args) }
+            : {}),
+        },
+      };
+    default:
+      return content;
+  }
+}
+
+/**
+ * Check arguments against a prompt definition, returning them as strings
+ */
+function validateArguments(
+  prompt: MCPPrompt,
+  args: Record<string, unknown>
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(args)) {
+    if (typeof value !== 'string') {
+      throw new MCPProtocolError(
+        `Argument ${name} must be a string`,
+        JSON_RPC_ERRORS.INVALID_PARAMS
+      );
+    }
+    values[name] = value;
+  }
+
+  const missing = (prompt.arguments ?? [])
+    .filter((a) => a.required && !values[a.name])
+    .map((a) => a.name);
+  if (missing.length > 0) {
+    throw new MCPProtocolError(
+      `Missing required arguments for prompt ${prompt.name}: ${missing.join(', ')}`,
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      { prompt: prompt.name, missing }
+    );
+  }
+
+  return values;
+}
+
+// =============================================================================
+// Agent Definitions as Prompts
+// =============================================================================
+
+/**
+ * Agent definition prompt ready for registration
+ */
+export interface AgentPrompt {
+  definition: MCPPrompt;
+  renderer: MCPPromptRenderer;
+}
+
+/**
+ * Build a prompt from an agent definition in markdown: the `# Title`
+ * heading names it, the `## Purpose` section describes it, and rendering
+ * embeds the definition followed by the task
+ */
+export function agentDefinitionToPrompt(file: string, markdown: string): AgentPrompt {
+  const name = path.basename(file, path.extname(file));
+  const title = markdown.match(/^#\s+(.+)$/m)?.[1]?.trim() ?? name;
+  const purpose = markdown.match(/(?:^|\n)##\s+Purpose[^\n]*\n([\s\S]*?)(?=\n#|$)/)?.[1]?.trim();
+  const uri = pathToFileURL(path.resolve(file)).href;
+
+  return {
+    definition: {
+      name,
+      description: purpose ? `${title}: ${purpose}` : title,
+      arguments: [
+        { name: 'task', description: 'What the agent should do', required: true },
+        { name: 'context', description: 'Additional context for the task' },
+      ],
+    },
+    renderer: ({ task, context }) => [
+      {
+        role: 'user',
+        content: { type: 'resource', resource: { uri, mimeType: 'text/markdown', text: markdown } },
+      },
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text:
+            `Act as the ${title} defined above.\n\nTask: ${task}` +
+            (context ? `\n\nContext:\n${context}` : ''),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Load every `*.md` agent definition in a directory as a prompt
+ */
+export async function loadAgentPrompts(dir: string): Promise<AgentPrompt[]> {
+  const files = (await fs.readdir(dir)).filter((f) => f.endsWith('.md')).sort();
+
+  const prompts: AgentPrompt[] = [];
+  for (const file of files) {
+    const fullPath = path.join(dir, file);
+    prompts.push(agentDefinitionToPrompt(fullPath, await fs.readFile(fullPath, 'utf-8')));
+  }
+  return prompts;
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create a prompt registry
+ */
+export function createMCPPromptRegistry(): MCPPromptRegistry {
+  return new MCPPromptRegistry();
+}
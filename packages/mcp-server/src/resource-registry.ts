@@ -0,0 +1,300 @@
+/**
+ * MCP Resource Registry
+ *
+ * Manages static resources and URI-template resources, and reads their
+ * contents through provider callbacks.
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import type { MCPResource, MCPResourceContents, MCPResourceTemplate } from './types.js';
+import { JSON_RPC_ERRORS } from './types.js';
+import { MCPProtocolError } from './protocol.js';
+import { runCompleter, type MCPArgumentCompleter } from './prompt-registry.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Resource reader: returns text, or full contents, for a URI; template
+ * resources also receive the variables matched from the URI
+ */
+export type MCPResourceReader = (
+  uri: string,
+  variables: Record<string, string>
+) =>
+  | string
+  | MCPResourceContents
+  | MCPResourceContents[]
+  | Promise<string | MCPResourceContents | MCPResourceContents[]>;
+
+/**
+ * Resource template registration options
+ */
+export interface MCPResourceTemplateOptions {
+  /** Enumerate the concrete resources the template currently matches */
+  list?: () => MCPResource[] | Promise<MCPResource[]>;
+  /** Completers for template variables, by variable name */
+  complete?: Record<string, MCPArgumentCompleter>;
+}
+
+/**
+ * Registered static resource
+ */
+export interface RegisteredMCPResource {
+  definition: MCPResource;
+  reader?: MCPResourceReader;
+}
+
+/**
+ * Registered resource template
+ */
+export interface RegisteredMCPResourceTemplate {
+  definition: MCPResourceTemplate;
+  reader: MCPResourceReader;
+  options: MCPResourceTemplateOptions;
+  matcher: UriTemplateMatcher;
+}
+
+/**
+ * Compiled URI template
+ */
+export interface UriTemplateMatcher {
+  variables: string[];
+  match(uri: string): Record<string, string> | null;
+}
+
+interface ResourceRegistryEvents {
+  'resource:registered': (resource: MCPResource) => void;
+  'resource:unregistered': (uri: string) => void;
+  'template:registered': (template: MCPResourceTemplate) => void;
+  'template:unregistered': (uriTemplate: string) => void;
+}
+
+// =============================================================================
+// Resource Registry Implementation
+// =============================================================================
+
+/**
+ * MCP Resource Registry
+ *
+ * Resolves URIs to static resources first, then to templates in
+ * registration order.
+ */
+export class MCPResourceRegistry extends EventEmitter<ResourceRegistryEvents> {
+  private resources: Map<string, RegisteredMCPResource> = new Map();
+  private templates: Map<string, RegisteredMCPResourceTemplate> = new Map();
+
+  /**
+   * Register a static resource
+   */
+  register(definition: MCPResource, reader?: MCPResourceReader): void {
+    this.resources.set(definition.uri, { definition, reader });
+    this.emit('resource:registered', definition);
+  }
+
+  /**
+   * Unregister a static resource
+   */
+  unregister(uri: string): boolean {
+    if (!this.resources.delete(uri)) {
+      return false;
+    }
+
+    this.emit('resource:unregistered', uri);
+    return true;
+  }
+
+  /**
+   * Register a resource template
+   */
+  registerTemplate(
+    definition: MCPResourceTemplate,
+    reader: MCPResourceReader,
+    options: MCPResourceTemplateOptions = {}
+  ): void {
+    const matcher = compileUriTemplate(definition.uriTemplate);
+    this.templates.set(definition.uriTemplate, { definition, reader, options, matcher });
+    this.emit('template:registered', definition);
+  }
+
+  /**
+   * Unregister a resource template
+   */
+  unregisterTemplate(uriTemplate: string): boolean {
+    if (!this.templates.delete(uriTemplate)) {
+      return false;
+    }
+
+    this.emit('template:unregistered', uriTemplate);
+    return true;
+  }
+
+  /**
+   * List static resources followed by those enumerated by templates
+   */
+  async list(): Promise<MCPResource[]> {
+    const resources = Array.from(this.resources.values()).map((r) => r.definition);
+    for (const template of this.templates.values()) {
+      if (template.options.list) {
+        resources.push(...(await template.options.list()));
+      }
+    }
+    return resources;
+  }
+
+  /**
+   * List resource template definitions
+   */
+  listTemplates(): MCPResourceTemplate[] {
+    return Array.from(this.templates.values()).map((t) => t.definition);
+  }
+
+  /**
+   * Get the number of static resources and templates
+   */
+  get size(): number {
+    return this.resources.size + this.templates.size;
+  }
+
+  /**
+   * Check whether a URI resolves to a resource
+   */
+  has(uri: string): boolean {
+    return this.resolve(uri) !== null;
+  }
+
+  /**
+   * Read a resource's contents
+   */
+  async read(uri: string): Promise<MCPResourceContents[]> {
+    const resolved = this.resolve(uri);
+    if (!resolved) {
+      throw new MCPProtocolError(`Resource not found: ${uri}`, JSON_RPC_ERRORS.RESOURCE_NOT_FOUND, {
+        uri,
+      });
+    }
+
+    const { reader, mimeType, variables } = resolved;
+    const contents = reader ? await reader(uri, variables) : '';
+    if (typeof contents === 'string') {
+      return [{ uri, mimeType: mimeType ?? 'text/plain', text: contents }];
+    }
+    return (Array.isArray(contents) ? contents : [contents]).map((c) => ({
+      ...c,
+      mimeType: c.mimeType ?? mimeType,
+    }));
+  }
+
+  /**
+   * Complete a resource template variable
+   */
+  async complete(
+    uriTemplate: string,
+    variable: string,
+    value: string,
+    context: Record<string, string> = {}
+  ): Promise<string[]> {
+    const template = this.templates.get(uriTemplate);
+    if (!template) {
+      throw new MCPProtocolError(
+        `Resource template not found: ${uriTemplate}`,
+        JSON_RPC_ERRORS.INVALID_PARAMS
+      );
+    }
+    if (!template.matcher.variables.includes(variable)) {
+      throw new MCPProtocolError(
+        `Unknown variable for resource template ${uriTemplate}: ${variable}`,
+        JSON_RPC_ERRORS.INVALID_PARAMS
+      );
+    }
+
+    const completer = template.options.complete?.[variable];
+    return completer ? runCompleter(completer, value, context) : [];
+  }
+
+  private resolve(uri: string): {
+    reader?: MCPResourceReader;
+    mimeType?: string;
+    variables: Record<string, string>;
+  } | null {
+    const resource = this.resources.get(uri);
+    if (resource) {
+      return {
+        reader: resource.reader,
+        mimeType: resource.definition.mimeType,
+        variables: {},
+      };
+    }
+
+    for (const template of this.templates.values()) {
+      const variables = template.matcher.match(uri);
+      if (variables) {
+        return { reader: template.reader, mimeType: template.definition.mimeType, variables };
+      }
+    }
+    return null;
+  }
+}
+
+// =============================================================================
+// URI Templates
+// =============================================================================
+
+/**
+ * Compile a URI template: `{name}` matches one path segment and `{+name}`
+ * matches the rest of the URI, slashes included
+ */
+export function compileUriTemplate(uriTemplate: string): UriTemplateMatcher {
+  const variables: string[] = [];
+  let pattern = '';
+  let last = 0;
+
+  for (const match of uriTemplate.matchAll(/\{(\+?)([\w-]+)\}/g)) {
+    pattern += escapeRegExp(uriTemplate.slice(last, match.index));
+    pattern += match[1] ? '(.+)' : '([^/?#]+)';
+    variables.push(match[2]!);
+    last = match.index! + match[0].length;
+  }
+  pattern += escapeRegExp(uriTemplate.slice(last));
+
+  const regex = new RegExp(`^${pattern}$`);
+  return {
+    variables,
+    match(uri) {
+      const groups = regex.exec(uri);
+      if (!groups) {
+        return null;
+      }
+
+      const values: Record<string, string> = {};
+      variables.forEach((name, i) => {
+        values[name] = safeDecode(groups[i + 1]!);
+      });
+      return values;
+    },
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create a resource registry
+ */
+export function createMCPResourceRegistry(): MCPResourceRegistry {
+  return new MCPResourceRegistry();
+}
@@ -4,7 +4,9 @@
  * Model Context Protocol server implementation.
  */
 
+import { randomUUID } from 'node:crypto';
 import { EventEmitter } from 'eventemitter3';
+import type { AgentRuntime } from '@open-agent/core';
 import type {
   JsonRpcRequest,
   JsonRpcResponse,
@@ -15,9 +17,13 @@ import type {
   MCPTool,
   MCPToolCallRequest,
   MCPResource,
+  MCPResourceTemplate,
   MCPPrompt,
-  MCPPromptMessage,
+  MCPCompletionRequest,
+  MCPCompletionResult,
   MCPServerEvents,
+  MCPSession,
+  MCPProgress,
 } from './types.js';
 import { MCP_METHODS, JSON_RPC_ERRORS } from './types.js';
 import { MCPProtocolHandler, MCPProtocolError } from './protocol.js';
@@ -28,6 +34,23 @@ import {
   agentToMCPTool,
   createAgentToolHandler,
 } from './tool-registry.js';
+import {
+  MCPPromptRegistry,
+  MAX_COMPLETION_VALUES,
+  type MCPPromptRenderer,
+  type MCPPromptOptions,
+} from './prompt-registry.js';
+import {
+  MCPResourceRegistry,
+  type MCPResourceReader,
+  type MCPResourceTemplateOptions,
+} from './resource-registry.js';
+
+import { registerRuntimeAgents } from './agent-tools.js';
+import { registerAgentResources } from './agent-resources.js';
+
+/** Default items per page for list methods */
+const DEFAULT_PAGE_SIZE = 100;
 
 // =============================================================================
 // MCP Server Implementation
@@ -42,11 +65,13 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
   private config: MCPServerConfig;
   private protocol: MCPProtocolHandler;
   private toolRegistry: MCPToolRegistry;
-  private resources: Map<string, MCPResource> = new Map();
-  private prompts: Map<string, MCPPrompt> = new Map();
-  private initialized: boolean = false;
-  // Client capabilities stored for future use
-  protected clientCapabilities: Record<string, unknown> = {};
+  private resourceRegistry: MCPResourceRegistry;
+  private promptRegistry: MCPPromptRegistry;
+  private sessions: Map<string, MCPSession> = new Map();
+  /** Session for messages handled without one, e.g. a single embedded client */
+  private defaultSession: MCPSession = createSessionState('default');
+  /** Abort controllers for running tool calls, by session and request id */
+  private inFlight: Map<string, AbortController> = new Map();
 
   constructor(config: MCPServerConfig) {
     super();
@@ -57,16 +82,44 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
     // Forward tool registry events
     this.toolRegistry.on('tool:registered', (tool) => {
       this.emit('tool:registered', tool);
+      this.broadcast(MCP_METHODS.TOOLS_LIST_CHANGED);
+    });
+    this.toolRegistry.on('tool:unregistered', (name) => {
+      this.emit('tool:unregistered', name);
+      this.broadcast(MCP_METHODS.TOOLS_LIST_CHANGED);
     });
     this.toolRegistry.on('tool:called', (name, args) => {
       this.emit('tool:called', name, args);
     });
+
+    this.resourceRegistry = new MCPResourceRegistry();
+    for (const event of [
+      'resource:registered',
+      'resource:unregistered',
+      'template:registered',
+      'template:unregistered',
+    ] as const) {
+      this.resourceRegistry.on(event, () => {
+        this.notifyResourceListChanged();
+      });
+    }
+
+    this.promptRegistry = new MCPPromptRegistry();
+    this.promptRegistry.on('prompt:registered', () => {
+      this.broadcast(MCP_METHODS.PROMPTS_LIST_CHANGED);
+    });
+    this.promptRegistry.on('prompt:unregistered', () => {
+      this.broadcast(MCP_METHODS.PROMPTS_LIST_CHANGED);
+    });
   }
 
   /**
-   * Handle an incoming message
+   * Handle an incoming message within a client session
    */
-  async handleMessage(data: string): Promise<string | null> {
+  async handleMessage(
+    data: string,
+    session: MCPSession = this.defaultSession
+  ): Promise<string | null> {
     let message: JsonRpcRequest | JsonRpcNotification;
     let requestId: string | number | null = null;
 
@@ -76,11 +129,11 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
 
       if (this.protocol.isRequest(message)) {
         requestId = message.id;
-        const response = await this.handleRequest(message);
+        const response = await this.handleRequest(message, session);
         this.emit('response', response);
         return this.protocol.serialize(response);
       } else {
-        await this.handleNotification(message);
+        await this.handleNotification(message, session);
         return null;
       }
     } catch (error) {
@@ -100,6 +153,13 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
     this.toolRegistry.register(definition, handler, metadata);
   }
 
+  /**
+   * Unregister a tool
+   */
+  unregisterTool(name: string): boolean {
+    return this.toolRegistry.unregister(name);
+  }
+
   /**
    * Register an agent as a tool
    */
@@ -110,17 +170,87 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
   }
 
   /**
-   * Register a resource
+   * Publish a runtime's agents as tools (unless toolOptions.autoRegisterAgents
+   * is false) and as `agent://` resources; returns a function that detaches it
+   */
+  attachRuntime(runtime: AgentRuntime): () => void {
+    const detachTools =
+      this.config.toolOptions?.autoRegisterAgents !== false
+        ? registerRuntimeAgents(this, runtime)
+        : () => {};
+    const detachResources = registerAgentResources(this, runtime);
+
+    return () => {
+      detachTools();
+      detachResources();
+    };
+  }
+
+  /**
+   * Register a resource, with the reader that provides its contents
    */
-  registerResource(resource: MCPResource): void {
-    this.resources.set(resource.uri, resource);
+  registerResource(resource: MCPResource, reader?: MCPResourceReader): void {
+    this.resourceRegistry.register(resource, reader);
+  }
+
+  /**
+   * Unregister a resource
+   */
+  unregisterResource(uri: string): boolean {
+    return this.resourceRegistry.unregister(uri);
+  }
+
+  /**
+   * Register a resource template such as `agent://{id}/history`
+   */
+  registerResourceTemplate(
+    template: MCPResourceTemplate,
+    reader: MCPResourceReader,
+    options?: MCPResourceTemplateOptions
+  ): void {
+    this.resourceRegistry.registerTemplate(template, reader, options);
+  }
+
+  /**
+   * Unregister a resource template
+   */
+  unregisterResourceTemplate(uriTemplate: string): boolean {
+    return this.resourceRegistry.unregisterTemplate(uriTemplate);
+  }
+
+  /**
+   * Notify subscribed clients that a resource changed
+   */
+  notifyResourceUpdated(uri: string): void {
+    this.broadcast(MCP_METHODS.RESOURCES_UPDATED, { uri }, (session) =>
+      session.subscriptions.has(uri)
+    );
   }
 
   /**
-   * Register a prompt
+   * Notify clients that the resource list changed, e.g. when a template
+   * starts matching new resources
    */
-  registerPrompt(prompt: MCPPrompt): void {
-    this.prompts.set(prompt.name, prompt);
+  notifyResourceListChanged(): void {
+    this.broadcast(MCP_METHODS.RESOURCES_LIST_CHANGED);
+  }
+
+  /**
+   * Register a prompt with the renderer that builds its messages
+   */
+  registerPrompt(
+    prompt: MCPPrompt,
+    renderer: MCPPromptRenderer,
+    options?: MCPPromptOptions
+  ): void {
+    this.promptRegistry.register(prompt, renderer, options);
+  }
+
+  /**
+   * Unregister a prompt
+   */
+  unregisterPrompt(name: string): boolean {
+    return this.promptRegistry.unregister(name);
   }
 
   /**
@@ -131,13 +261,17 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
       tools: {
         listChanged: true,
       },
-      resources: this.resources.size > 0 ? {
-        subscribe: false,
+      resources: this.resourceRegistry.size > 0 ? {
+        subscribe: true,
         listChanged: true,
       } : undefined,
-      prompts: this.prompts.size > 0 ? {
+      prompts: this.promptRegistry.size > 0 ? {
         listChanged: true,
       } : undefined,
+      completions:
+        this.promptRegistry.size > 0 || this.resourceRegistry.listTemplates().length > 0
+          ? {}
+          : undefined,
     };
   }
 
@@ -152,10 +286,87 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
   }
 
   /**
-   * Check if server is initialized
+   * Check if a session, or any client when no id is given, is initialized
+   */
+  isInitialized(sessionId?: string): boolean {
+    if (sessionId !== undefined) {
+      return this.getSession(sessionId)?.initialized ?? false;
+    }
+    return (
+      this.defaultSession.initialized ||
+      Array.from(this.sessions.values()).some((session) => session.initialized)
+    );
+  }
+
+  // =============================================================================
+  // Sessions
+  // =============================================================================
+
+  /**
+   * Open a session for a newly connected client
+   */
+  createSession(send?: (message: string) => void): MCPSession {
+    const session = createSessionState(randomUUID(), send);
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Get a session by id
+   */
+  getSession(sessionId: string): MCPSession | undefined {
+    return sessionId === this.defaultSession.id
+      ? this.defaultSession
+      : this.sessions.get(sessionId);
+  }
+
+  /**
+   * Get all open sessions
+   */
+  getSessions(): MCPSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Close a session when its client goes away
+   */
+  closeSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    for (const [key, controller] of this.inFlight) {
+      if (key.startsWith(`${sessionId}:`)) {
+        controller.abort(new Error('Client disconnected'));
+      }
+    }
+    if (session.initialized) {
+      session.initialized = false;
+      this.emit('client:disconnected', sessionId);
+    }
+  }
+
+  /**
+   * Send a notification to every initialized session that can receive one
    */
-  isInitialized(): boolean {
-    return this.initialized;
+  broadcast(
+    method: string,
+    params?: unknown,
+    filter: (session: MCPSession) => boolean = () => true
+  ): void {
+    const recipients = Array.from(this.sessions.values()).filter(
+      (session) => session.initialized && session.send && filter(session)
+    );
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const notification = this.createNotification(method, params);
+    for (const session of recipients) {
+      session.send!(notification);
+    }
   }
 
   /**
@@ -171,7 +382,10 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
   // Request Handlers
   // =============================================================================
 
-  private async handleRequest(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+  private async handleRequest(
+    request: JsonRpcRequest,
+    session: MCPSession
+  ): Promise<JsonRpcResponse> {
     // Check authentication if required
     if (this.config.auth?.enabled && request.method !== MCP_METHODS.INITIALIZE) {
       const authHeader = (request.params as Record<string, unknown> | undefined)?.['_auth'] as string | undefined;
@@ -185,16 +399,19 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
 
     switch (request.method) {
       case MCP_METHODS.INITIALIZE:
-        return this.handleInitialize(request);
+        return this.handleInitialize(request, session);
 
       case MCP_METHODS.SHUTDOWN:
-        return this.handleShutdown(request);
+        return this.handleShutdown(request, session);
+
+      case MCP_METHODS.PING:
+        return this.protocol.createResponse(request.id, {});
 
       case MCP_METHODS.TOOLS_LIST:
         return this.handleToolsList(request);
 
       case MCP_METHODS.TOOLS_CALL:
-        return this.handleToolsCall(request);
+        return this.handleToolsCall(request, session);
 
       case MCP_METHODS.RESOURCES_LIST:
         return this.handleResourcesList(request);
@@ -202,12 +419,24 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
       case MCP_METHODS.RESOURCES_READ:
         return this.handleResourcesRead(request);
 
+      case MCP_METHODS.RESOURCES_TEMPLATES_LIST:
+        return this.handleResourceTemplatesList(request);
+
+      case MCP_METHODS.RESOURCES_SUBSCRIBE:
+        return this.handleResourcesSubscribe(request, session, true);
+
+      case MCP_METHODS.RESOURCES_UNSUBSCRIBE:
+        return this.handleResourcesSubscribe(request, session, false);
+
       case MCP_METHODS.PROMPTS_LIST:
         return this.handlePromptsList(request);
 
       case MCP_METHODS.PROMPTS_GET:
         return this.handlePromptsGet(request);
 
+      case MCP_METHODS.COMPLETION_COMPLETE:
+        return this.handleCompletion(request);
+
       default:
         throw new MCPProtocolError(
           `Method not found: ${request.method}`,
@@ -216,24 +445,39 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
     }
   }
 
-  private async handleNotification(notification: JsonRpcNotification): Promise<void> {
+  private async handleNotification(
+    notification: JsonRpcNotification,
+    session: MCPSession
+  ): Promise<void> {
     switch (notification.method) {
       case MCP_METHODS.INITIALIZED:
-        this.initialized = true;
-        this.emit('client:connected');
+        session.initialized = true;
+        this.emit('client:connected', session.id);
         break;
 
+      case MCP_METHODS.CANCELLED: {
+        const params = notification.params as
+          | { requestId?: string | number; reason?: string }
+          | undefined;
+        if (params?.requestId !== undefined) {
+          this.inFlight
+            .get(`${session.id}:${params.requestId}`)
+            ?.abort(new Error(params.reason ?? 'Request cancelled'));
+        }
+        break;
+      }
+
       default:
         // Unknown notifications are ignored
         break;
     }
   }
 
-  private handleInitialize(request: JsonRpcRequest): JsonRpcResponse {
+  private handleInitialize(request: JsonRpcRequest, session: MCPSession): JsonRpcResponse {
     const params = request.params as { protocolVersion?: string; capabilities?: Record<string, unknown> } | undefined;
 
     // Store client capabilities
-    this.clientCapabilities = params?.capabilities ?? {};
+    session.clientCapabilities = params?.capabilities ?? {};
 
     const result: MCPInitializeResult = {
       protocolVersion: params?.protocolVersion ?? '2024-11-05',
@@ -244,19 +488,25 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
     return this.protocol.createResponse(request.id, result);
   }
 
-  private handleShutdown(request: JsonRpcRequest): JsonRpcResponse {
-    this.initialized = false;
-    this.emit('client:disconnected');
+  private handleShutdown(request: JsonRpcRequest, session: MCPSession): JsonRpcResponse {
+    session.initialized = false;
+    session.subscriptions.clear();
+    this.emit('client:disconnected', session.id);
     return this.protocol.createResponse(request.id, null);
   }
 
   private handleToolsList(request: JsonRpcRequest): JsonRpcResponse {
-    const tools = this.toolRegistry.list();
-    return this.protocol.createResponse(request.id, { tools });
+    const { items: tools, nextCursor } = this.paginate(this.toolRegistry.list(), request);
+    return this.protocol.createResponse(request.id, { tools, nextCursor });
   }
 
-  private async handleToolsCall(request: JsonRpcRequest): Promise<JsonRpcResponse> {
-    const params = request.params as MCPToolCallRequest | undefined;
+  private async handleToolsCall(
+    request: JsonRpcRequest,
+    session: MCPSession
+  ): Promise<JsonRpcResponse> {
+    const params = request.params as
+      | (MCPToolCallRequest & { _meta?: { progressToken?: string | number } })
+      | undefined;
 
     if (!params || !params.name) {
       throw new MCPProtocolError(
@@ -265,20 +515,47 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
       );
     }
 
-    const result = await this.toolRegistry.call({
-      name: params.name,
-      arguments: params.arguments ?? {},
-    });
+    const key = `${session.id}:${request.id}`;
+    const controller = new AbortController();
+    this.inFlight.set(key, controller);
 
-    return this.protocol.createResponse(request.id, result);
+    const progressToken = params._meta?.progressToken;
+    const progress = (value: number, total?: number, message?: string) => {
+      if (progressToken === undefined || !session.send || controller.signal.aborted) {
+        return;
+      }
+      const update: MCPProgress = { progressToken, progress: value, total, message };
+      session.send(this.createNotification(MCP_METHODS.PROGRESS, update));
+    };
+
+    try {
+      const result = await this.toolRegistry.call(
+        { name: params.name, arguments: params.arguments ?? {} },
+        { signal: controller.signal, progress }
+      );
+      return this.protocol.createResponse(request.id, result);
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async handleResourcesList(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+    const { items: resources, nextCursor } = this.paginate(
+      await this.resourceRegistry.list(),
+      request
+    );
+    return this.protocol.createResponse(request.id, { resources, nextCursor });
   }
 
-  private handleResourcesList(request: JsonRpcRequest): JsonRpcResponse {
-    const resources = Array.from(this.resources.values());
-    return this.protocol.createResponse(request.id, { resources });
+  private handleResourceTemplatesList(request: JsonRpcRequest): JsonRpcResponse {
+    const { items: resourceTemplates, nextCursor } = this.paginate(
+      this.resourceRegistry.listTemplates(),
+      request
+    );
+    return this.protocol.createResponse(request.id, { resourceTemplates, nextCursor });
   }
 
-  private handleResourcesRead(request: JsonRpcRequest): JsonRpcResponse {
+  private async handleResourcesRead(request: JsonRpcRequest): Promise<JsonRpcResponse> {
     const params = request.params as { uri?: string } | undefined;
 
     if (!params?.uri) {
@@ -288,33 +565,49 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
       );
     }
 
-    const resource = this.resources.get(params.uri);
-    if (!resource) {
+    const contents = await this.resourceRegistry.read(params.uri);
+    return this.protocol.createResponse(request.id, { contents });
+  }
+
+  private handleResourcesSubscribe(
+    request: JsonRpcRequest,
+    session: MCPSession,
+    subscribe: boolean
+  ): JsonRpcResponse {
+    const params = request.params as { uri?: string } | undefined;
+
+    if (!params?.uri) {
       throw new MCPProtocolError(
-        `Resource not found: ${params.uri}`,
+        'Missing resource URI',
         JSON_RPC_ERRORS.INVALID_PARAMS
       );
     }
 
-    // In a real implementation, this would read the actual resource content
-    return this.protocol.createResponse(request.id, {
-      contents: [
-        {
-          uri: resource.uri,
-          mimeType: resource.mimeType ?? 'text/plain',
-          text: '', // Would be populated with actual content
-        },
-      ],
-    });
+    if (subscribe) {
+      if (!this.resourceRegistry.has(params.uri)) {
+        throw new MCPProtocolError(
+          `Resource not found: ${params.uri}`,
+          JSON_RPC_ERRORS.RESOURCE_NOT_FOUND,
+          { uri: params.uri }
+        );
+      }
+      session.subscriptions.add(params.uri);
+    } else {
+      session.subscriptions.delete(params.uri);
+    }
+
+    return this.protocol.createResponse(request.id, {});
   }
 
   private handlePromptsList(request: JsonRpcRequest): JsonRpcResponse {
-    const prompts = Array.from(this.prompts.values());
-    return this.protocol.createResponse(request.id, { prompts });
+    const { items: prompts, nextCursor } = this.paginate(this.promptRegistry.list(), request);
+    return this.protocol.createResponse(request.id, { prompts, nextCursor });
   }
 
-  private handlePromptsGet(request: JsonRpcRequest): JsonRpcResponse {
-    const params = request.params as { name?: string; arguments?: Record<string, string> } | undefined;
+  private async handlePromptsGet(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+    const params = request.params as
+      | { name?: string; arguments?: Record<string, unknown> }
+      | undefined;
 
     if (!params?.name) {
       throw new MCPProtocolError(
@@ -323,35 +616,83 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
       );
     }
 
-    const prompt = this.prompts.get(params.name);
-    if (!prompt) {
+    const result = await this.promptRegistry.render(params.name, params.arguments);
+    return this.protocol.createResponse(request.id, result);
+  }
+
+  private async handleCompletion(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+    const params = request.params as Partial<MCPCompletionRequest> | undefined;
+
+    if (!params?.ref || !params.argument?.name) {
+      throw new MCPProtocolError(
+        'Missing completion reference or argument',
+        JSON_RPC_ERRORS.INVALID_PARAMS
+      );
+    }
+
+    const { ref, argument, context } = params;
+    let values: string[];
+    if (ref.type === 'ref/prompt') {
+      values = await this.promptRegistry.complete(
+        ref.name,
+        argument.name,
+        argument.value ?? '',
+        context?.arguments
+      );
+    } else if (ref.type === 'ref/resource') {
+      values = await this.resourceRegistry.complete(
+        ref.uri,
+        argument.name,
+        argument.value ?? '',
+        context?.arguments
+      );
+    } else {
       throw new MCPProtocolError(
-        `Prompt not found: ${params.name}`,
+        `Unsupported completion reference: ${(ref as { type: string }).type}`,
         JSON_RPC_ERRORS.INVALID_PARAMS
       );
     }
 
-    // In a real implementation, this would generate the actual prompt messages
-    const messages: MCPPromptMessage[] = [
-      {
-        role: 'user',
-        content: {
-          type: 'text',
-          text: `Prompt: ${prompt.name}`,
-        },
+    const result: MCPCompletionResult = {
+      completion: {
+        values: values.slice(0, MAX_COMPLETION_VALUES),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETION_VALUES,
       },
-    ];
-
-    return this.protocol.createResponse(request.id, {
-      description: prompt.description,
-      messages,
-    });
+    };
+    return this.protocol.createResponse(request.id, result);
   }
 
   // =============================================================================
   // Helpers
   // =============================================================================
 
+  /**
+   * Slice a list into the page a request's cursor points at. Cursors are
+   * opaque to clients and encode the offset of the next page.
+   */
+  private paginate<T>(
+    items: T[],
+    request: JsonRpcRequest
+  ): { items: T[]; nextCursor?: string } {
+    const cursor = (request.params as { cursor?: unknown } | undefined)?.cursor;
+    const pageSize = this.config.pageSize ?? DEFAULT_PAGE_SIZE;
+
+    let offset = 0;
+    if (cursor !== undefined) {
+      offset = typeof cursor === 'string' ? decodeCursor(cursor) : NaN;
+      if (!Number.isInteger(offset) || offset < 0) {
+        throw new MCPProtocolError('Invalid cursor', JSON_RPC_ERRORS.INVALID_PARAMS, { cursor });
+      }
+    }
+
+    const end = offset + pageSize;
+    return {
+      items: items.slice(offset, end),
+      nextCursor: end < items.length ? encodeCursor(end) : undefined,
+    };
+  }
+
   private createErrorResponse(
     id: string | number | null,
     error: unknown
@@ -374,6 +715,29 @@ export class MCPServer extends EventEmitter<MCPServerEvents> {
   }
 }
 
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return typeof offset === 'number' ? offset : NaN;
+  } catch {
+    return NaN;
+  }
+}
+
+function createSessionState(id: string, send?: (message: string) => void): MCPSession {
+  return {
+    id,
+    initialized: false,
+    clientCapabilities: {},
+    subscriptions: new Set(),
+    send,
+  };
+}
+
 // =============================================================================
 // Factory Functions
 // =============================================================================
@@ -17,11 +17,22 @@ import type {
 // Types
 // =============================================================================
 
+/**
+ * Per-call context passed to tool handlers
+ */
+export interface MCPToolCallContext {
+  /** Aborted when the client cancels the request or disconnects */
+  signal: AbortSignal;
+  /** Report progress; sent only when the client asked for progress */
+  progress: (progress: number, total?: number, message?: string) => void;
+}
+
 /**
  * Tool handler function
  */
 export type MCPToolHandler = (
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  context: MCPToolCallContext
 ) => Promise<MCPToolCallResponse> | MCPToolCallResponse;
 
 /**
@@ -76,7 +87,12 @@ export class MCPToolRegistry extends EventEmitter<MCPServerEvents> {
    */
   unregister(name: string): boolean {
     const prefixedName = this.prefix ? `${this.prefix}_${name}` : name;
-    return this.tools.delete(prefixedName);
+    if (!this.tools.delete(prefixedName)) {
+      return false;
+    }
+
+    this.emit('tool:unregistered', prefixedName);
+    return true;
   }
 
   /**
@@ -103,7 +119,13 @@ export class MCPToolRegistry extends EventEmitter<MCPServerEvents> {
   /**
    * Execute a tool call
    */
-  async call(request: MCPToolCallRequest): Promise<MCPToolCallResponse> {
+  async call(
+    request: MCPToolCallRequest,
+    context: MCPToolCallContext = {
+      signal: new AbortController().signal,
+      progress: () => {},
+    }
+  ): Promise<MCPToolCallResponse> {
     const tool = this.tools.get(request.name);
 
     if (!tool) {
@@ -121,7 +143,7 @@ export class MCPToolRegistry extends EventEmitter<MCPServerEvents> {
     this.emit('tool:called', request.name, request.arguments);
 
     try {
-      const response = await tool.handler(request.arguments);
+      const response = await tool.handler(request.arguments, context);
       return response;
     } catch (error) {
       return {
@@ -4,7 +4,11 @@
  * Transport layer implementations for MCP communication.
  */
 
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
 import type { MCPServer } from './server.js';
+import type { MCPSession } from './types.js';
+import { JSON_RPC_ERRORS, MCP_METHODS } from './types.js';
 
 // =============================================================================
 // Transport Interface
@@ -37,6 +41,7 @@ export class StdioTransport implements MCPTransport {
   private server: MCPServer;
   private running: boolean = false;
   private inputBuffer: string = '';
+  private session?: MCPSession;
 
   constructor(server: MCPServer) {
     this.server = server;
@@ -48,6 +53,9 @@ export class StdioTransport implements MCPTransport {
     }
 
     this.running = true;
+    this.session = this.server.createSession((message) => {
+      void this.send(message);
+    });
     process.stdin.setEncoding('utf8');
     process.stdin.on('data', this.handleInput.bind(this));
     process.stdin.on('end', this.handleEnd.bind(this));
@@ -63,6 +71,11 @@ export class StdioTransport implements MCPTransport {
     process.stdin.pause();
     process.stdin.removeAllListeners('data');
     process.stdin.removeAllListeners('end');
+
+    if (this.session) {
+      this.server.closeSession(this.session.id);
+      this.session = undefined;
+    }
   }
 
   async send(message: string): Promise<void> {
@@ -101,7 +114,7 @@ export class StdioTransport implements MCPTransport {
 
   private async processMessage(data: string): Promise<void> {
     try {
-      const response = await this.server.handleMessage(data);
+      const response = await this.server.handleMessage(data, this.session);
       if (response) {
         await this.send(response);
       }
@@ -115,25 +128,58 @@ export class StdioTransport implements MCPTransport {
 // HTTP Transport
 // =============================================================================
 
+/**
+ * HTTP Transport CORS Configuration
+ */
+export interface HTTPCorsConfig {
+  /** Allowed origins, or '*' for any origin */
+  origin: string | string[];
+  /** Request headers allowed in addition to the MCP headers */
+  allowedHeaders?: string[];
+  /** How long browsers may cache a preflight response, in seconds */
+  maxAge?: number;
+}
+
 /**
  * HTTP Transport Configuration
  */
 export interface HTTPTransportConfig {
+  /** Port to listen on; 0 picks a free port */
   port: number;
   host?: string;
+  /** Endpoint path (default: /mcp) */
   path?: string;
+  /** CORS settings; requests carrying an Origin header are refused when unset */
+  cors?: HTTPCorsConfig;
+  /** Maximum request body size in bytes (default: 1 MiB) */
+  maxBodySize?: number;
+  /** Close sessions without an open event stream after this long idle, in ms (default: 30 min) */
+  sessionIdleTimeout?: number;
 }
 
+const SESSION_HEADER = 'mcp-session-id';
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
 /**
  * HTTP Transport
  *
- * Note: This is a placeholder for HTTP transport.
- * Full implementation would use Node.js http module.
+ * Implements the MCP Streamable HTTP transport on Node's http module: clients
+ * POST JSON-RPC messages (or batches) and open a GET event stream to receive
+ * server-to-client notifications. A session id is issued on initialize and
+ * returned in the Mcp-Session-Id header; every later POST must carry it.
  */
 export class HTTPTransport implements MCPTransport {
   private server: MCPServer;
   private config: HTTPTransportConfig;
   private running: boolean = false;
+  private httpServer?: Server;
+  private sessions: Map<string, MCPSession> = new Map();
+  /** Open event streams and the session each belongs to */
+  private streams: Map<ServerResponse, string | undefined> = new Map();
+  /** When each session last received a request */
+  private lastActive: Map<string, number> = new Map();
+  private sweepTimer?: ReturnType<typeof setInterval>;
 
   constructor(server: MCPServer, config: HTTPTransportConfig) {
     this.server = server;
@@ -145,9 +191,28 @@ export class HTTPTransport implements MCPTransport {
       return;
     }
 
-    // Placeholder - would start HTTP server
+    const httpServer = createServer((req, res) => {
+      void this.handleHttpRequest(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.config.port, this.config.host ?? 'localhost', () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
     this.running = true;
-    console.log(`HTTP transport ready on ${this.config.host ?? 'localhost'}:${this.config.port}`);
+
+    // Clients that go away without a DELETE would otherwise keep their session forever
+    const idleTimeout = this.config.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+    this.sweepTimer = setInterval(
+      () => this.closeIdleSessions(idleTimeout),
+      Math.min(idleTimeout, 60_000)
+    );
+    this.sweepTimer.unref();
   }
 
   async stop(): Promise<void> {
@@ -156,11 +221,35 @@ export class HTTPTransport implements MCPTransport {
     }
 
     this.running = false;
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+
+    // Event streams never finish on their own, so end them before closing
+    for (const stream of this.streams.keys()) {
+      stream.end();
+    }
+    this.streams.clear();
+    for (const sessionId of this.sessions.keys()) {
+      this.server.closeSession(sessionId);
+    }
+    this.sessions.clear();
+    this.lastActive.clear();
+
+    // Stop accepting connections and wait for in-flight requests to finish
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
   }
 
+  /**
+   * Push a message to every open event stream
+   */
   async send(message: string): Promise<void> {
-    // HTTP transport sends via response, not push
-    void message;
+    for (const stream of this.streams.keys()) {
+      this.writeEvent(stream, message);
+    }
   }
 
   isRunning(): boolean {
@@ -168,10 +257,325 @@ export class HTTPTransport implements MCPTransport {
   }
 
   /**
-   * Handle an HTTP request
+   * Get the port the server is listening on
    */
-  async handleRequest(body: string): Promise<string | null> {
-    return this.server.handleMessage(body);
+  getPort(): number {
+    const address = this.httpServer?.address();
+    return typeof address === 'object' && address ? address.port : this.config.port;
+  }
+
+  /**
+   * Handle a request body holding a JSON-RPC message or batch
+   */
+  async handleRequest(body: string, session?: MCPSession): Promise<string | null> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      // Let the server produce the parse error response
+      return this.server.handleMessage(body, session);
+    }
+    return this.dispatch(parsed, session);
+  }
+
+  // =============================================================================
+  // Request Handling
+  // =============================================================================
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (url.pathname !== (this.config.path ?? '/mcp')) {
+        this.writeError(res, 404, JSON_RPC_ERRORS.INVALID_REQUEST, 'Not found');
+        return;
+      }
+
+      // Refuse origins we don't trust to guard against DNS rebinding
+      const origin = req.headers.origin;
+      if (origin && !this.isAllowedOrigin(origin)) {
+        this.writeError(res, 403, JSON_RPC_ERRORS.INVALID_REQUEST, 'Origin not allowed');
+        return;
+      }
+      if (origin) {
+        this.setCorsHeaders(res, origin);
+      }
+
+      switch (req.method) {
+        case 'OPTIONS':
+          res.writeHead(204).end();
+          return;
+        case 'POST':
+          await this.handlePost(req, res);
+          return;
+        case 'GET':
+          this.handleGet(req, res);
+          return;
+        case 'DELETE':
+          this.handleDelete(req, res);
+          return;
+        default:
+          res.setHeader('Allow', 'GET, POST, DELETE, OPTIONS');
+          this.writeError(res, 405, JSON_RPC_ERRORS.INVALID_REQUEST, 'Method not allowed');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!res.headersSent) {
+        this.writeError(res, 500, JSON_RPC_ERRORS.INTERNAL_ERROR, message);
+      } else {
+        res.end();
+      }
+    }
+  }
+
+  /**
+   * Handle a JSON-RPC message or batch sent by the client
+   */
+  private async handlePost(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!req.headers['content-type']?.includes('application/json')) {
+      this.writeError(
+        res,
+        415,
+        JSON_RPC_ERRORS.INVALID_REQUEST,
+        'Content-Type must be application/json'
+      );
+      return;
+    }
+
+    const sessionId = this.getSessionId(req);
+    let session = sessionId !== undefined ? this.sessions.get(sessionId) : undefined;
+    if (sessionId !== undefined && !session) {
+      this.writeError(res, 404, JSON_RPC_ERRORS.INVALID_REQUEST, 'Session not found');
+      return;
+    }
+
+    const body = await this.readBody(req, this.config.maxBodySize ?? DEFAULT_MAX_BODY_SIZE);
+    if (body === null) {
+      res.setHeader('Connection', 'close');
+      this.writeError(res, 413, JSON_RPC_ERRORS.INVALID_REQUEST, 'Request body too large');
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      this.writeError(res, 400, JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error');
+      return;
+    }
+
+    // Start a session when a client initializes without one
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    const initializing = messages.some(
+      (m) => (m as { method?: unknown } | null)?.method === MCP_METHODS.INITIALIZE
+    );
+    if (initializing && !session) {
+      const newSession = this.server.createSession((message) => {
+        this.sendToSession(newSession.id, message);
+      });
+      this.sessions.set(newSession.id, newSession);
+      res.setHeader('Mcp-Session-Id', newSession.id);
+      session = newSession;
+    }
+    // Anything else needs a session, so clients cannot share state by skipping initialize
+    if (!session) {
+      this.writeError(res, 400, JSON_RPC_ERRORS.INVALID_REQUEST, 'Missing Mcp-Session-Id header');
+      return;
+    }
+    this.lastActive.set(session.id, Date.now());
+
+    const response = await this.dispatch(parsed, session);
+    if (response === null) {
+      // Notifications and responses only
+      res.writeHead(202).end();
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(response);
+  }
+
+  /**
+   * Open an event stream for server-to-client messages
+   */
+  private handleGet(req: IncomingMessage, res: ServerResponse): void {
+    if (!req.headers.accept?.includes('text/event-stream')) {
+      this.writeError(
+        res,
+        406,
+        JSON_RPC_ERRORS.INVALID_REQUEST,
+        'Accept must include text/event-stream'
+      );
+      return;
+    }
+
+    const sessionId = this.getSessionId(req);
+    if (sessionId !== undefined && !this.sessions.has(sessionId)) {
+      this.writeError(res, 404, JSON_RPC_ERRORS.INVALID_REQUEST, 'Session not found');
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+
+    if (sessionId !== undefined) {
+      this.lastActive.set(sessionId, Date.now());
+    }
+    this.streams.set(res, sessionId);
+    req.on('close', () => {
+      this.streams.delete(res);
+      // The idle timeout starts when the session's last stream closes
+      if (sessionId !== undefined && this.sessions.has(sessionId)) {
+        this.lastActive.set(sessionId, Date.now());
+      }
+    });
+  }
+
+  /**
+   * End a session and its event streams
+   */
+  private handleDelete(req: IncomingMessage, res: ServerResponse): void {
+    const sessionId = this.getSessionId(req);
+    if (sessionId === undefined) {
+      this.writeError(res, 400, JSON_RPC_ERRORS.INVALID_REQUEST, 'Missing Mcp-Session-Id header');
+      return;
+    }
+    if (!this.sessions.has(sessionId)) {
+      this.writeError(res, 404, JSON_RPC_ERRORS.INVALID_REQUEST, 'Session not found');
+      return;
+    }
+    this.closeSession(sessionId);
+
+    res.writeHead(204).end();
+  }
+
+  /**
+   * Close a session and end its event streams
+   */
+  private closeSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+    this.lastActive.delete(sessionId);
+    this.server.closeSession(sessionId);
+
+    for (const [stream, streamSessionId] of this.streams) {
+      if (streamSessionId === sessionId) {
+        stream.end();
+        this.streams.delete(stream);
+      }
+    }
+  }
+
+  /**
+   * Close sessions idle for longer than the timeout; an open event stream keeps one alive
+   */
+  private closeIdleSessions(idleTimeout: number): void {
+    const streaming = new Set(this.streams.values());
+    const now = Date.now();
+    for (const [sessionId, lastActive] of this.lastActive) {
+      if (now - lastActive >= idleTimeout && !streaming.has(sessionId)) {
+        this.closeSession(sessionId);
+      }
+    }
+  }
+
+  // =============================================================================
+  // Helpers
+  // =============================================================================
+
+  /**
+   * Run a parsed message or batch through the server
+   */
+  private async dispatch(parsed: unknown, session?: MCPSession): Promise<string | null> {
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      return this.server.handleMessage(JSON.stringify(parsed), session);
+    }
+
+    const responses = await Promise.all(
+      parsed.map((message) => this.server.handleMessage(JSON.stringify(message), session))
+    );
+    const results = responses.filter((response): response is string => response !== null);
+    return results.length > 0 ? `[${results.join(',')}]` : null;
+  }
+
+  /**
+   * Read a request body, or return null once it exceeds the size limit
+   */
+  private readBody(req: IncomingMessage, maxBodySize: number): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBodySize) {
+          req.removeAllListeners('data');
+          req.resume();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  /**
+   * Push a message to the event streams of one session
+   */
+  private sendToSession(sessionId: string, message: string): void {
+    for (const [stream, streamSessionId] of this.streams) {
+      if (streamSessionId === sessionId) {
+        this.writeEvent(stream, message);
+      }
+    }
+  }
+
+  private getSessionId(req: IncomingMessage): string | undefined {
+    const header = req.headers[SESSION_HEADER];
+    return Array.isArray(header) ? header[0] : header;
+  }
+
+  private isAllowedOrigin(origin: string): boolean {
+    const allowed = this.config.cors?.origin;
+    if (allowed === undefined) {
+      return false;
+    }
+    if (allowed === '*') {
+      return true;
+    }
+    return (Array.isArray(allowed) ? allowed : [allowed]).includes(origin);
+  }
+
+  private setCorsHeaders(res: ServerResponse, origin: string): void {
+    const cors = this.config.cors!;
+    res.setHeader('Access-Control-Allow-Origin', cors.origin === '*' ? '*' : origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader(
+      'Access-Control-Allow-Headers',
+      ['Content-Type', 'Accept', 'Authorization', 'Mcp-Session-Id', 'Mcp-Protocol-Version']
+        .concat(cors.allowedHeaders ?? [])
+        .join(', ')
+    );
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    if (cors.origin !== '*') {
+      res.setHeader('Vary', 'Origin');
+    }
+    if (cors.maxAge !== undefined) {
+      res.setHeader('Access-Control-Max-Age', String(cors.maxAge));
+    }
+  }
+
+  private writeEvent(stream: ServerResponse, message: string): void {
+    stream.write(`event: message\ndata: ${message}\n\n`);
+  }
+
+  private writeError(res: ServerResponse, status: number, code: number, message: string): void {
+    res
+      .writeHead(status, { 'Content-Type': 'application/json' })
+      .end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code, message } }));
   }
 }
 
@@ -183,22 +587,47 @@ export class HTTPTransport implements MCPTransport {
  * WebSocket Transport Configuration
  */
 export interface WebSocketTransportConfig {
+  /** Port to listen on; 0 picks a free port */
   port: number;
   host?: string;
+  /** Endpoint path; any path is accepted when unset */
   path?: string;
+  /** Maximum concurrent connections (default: 100) */
+  maxConnections?: number;
+  /** Interval between keepalive pings in ms; 0 disables them (default: 30000) */
+  pingInterval?: number;
+  /** Maximum message size in bytes (default: 1 MiB) */
+  maxPayload?: number;
+}
+
+/** Close code sent when the connection limit is reached */
+const CLOSE_TRY_AGAIN_LATER = 1013;
+/** Close code sent when the server shuts down */
+const CLOSE_GOING_AWAY = 1001;
+
+/**
+ * A connected WebSocket client and its protocol session
+ */
+interface WebSocketConnection {
+  socket: WebSocket;
+  session: MCPSession;
+  /** Cleared on each ping and set again by the pong */
+  alive: boolean;
 }
 
 /**
  * WebSocket Transport
  *
- * Note: This is a placeholder for WebSocket transport.
- * Full implementation would use ws module.
+ * Serves each WebSocket connection as its own MCP session, terminating
+ * connections that stop answering keepalive pings.
  */
 export class WebSocketTransport implements MCPTransport {
-  // Server stored for future use when full WebSocket implementation is added
-  protected server: MCPServer;
+  private server: MCPServer;
   private config: WebSocketTransportConfig;
   private running: boolean = false;
+  private wss?: WebSocketServer;
+  private connections: Set<WebSocketConnection> = new Set();
+  private pingTimer?: ReturnType<typeof setInterval>;
 
   constructor(server: MCPServer, config: WebSocketTransportConfig) {
     this.server = server;
@@ -210,9 +639,29 @@ export class WebSocketTransport implements MCPTransport {
       return;
     }
 
-    // Placeholder - would start WebSocket server
+    const wss = new WebSocketServer({
+      port: this.config.port,
+      host: this.config.host ?? 'localhost',
+      path: this.config.path,
+      maxPayload: this.config.maxPayload ?? DEFAULT_MAX_BODY_SIZE,
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      wss.once('error', reject);
+      wss.once('listening', () => {
+        wss.off('error', reject);
+        resolve();
+      });
+    });
+
+    wss.on('connection', (socket) => this.handleConnection(socket));
+    this.wss = wss;
     this.running = true;
-    console.log(`WebSocket transport ready on ${this.config.host ?? 'localhost'}:${this.config.port}`);
+
+    const pingInterval = this.config.pingInterval ?? 30000;
+    if (pingInterval > 0) {
+      this.pingTimer = setInterval(() => this.checkAlive(), pingInterval);
+    }
   }
 
   async stop(): Promise<void> {
@@ -221,16 +670,114 @@ export class WebSocketTransport implements MCPTransport {
     }
 
     this.running = false;
+
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = undefined;
+    }
+
+    // Close every connection; the server only finishes closing once they are gone
+    for (const connection of this.connections) {
+      connection.socket.close(CLOSE_GOING_AWAY, 'Server shutting down');
+    }
+
+    const wss = this.wss;
+    this.wss = undefined;
+    if (wss) {
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+    }
   }
 
+  /**
+   * Broadcast a message to every connected client
+   */
   async send(message: string): Promise<void> {
-    // Would broadcast to connected clients
-    void message;
+    for (const connection of this.connections) {
+      this.sendTo(connection, message);
+    }
   }
 
   isRunning(): boolean {
     return this.running;
   }
+
+  /**
+   * Get the port the server is listening on
+   */
+  getPort(): number {
+    const address = this.wss?.address();
+    return typeof address === 'object' && address ? address.port : this.config.port;
+  }
+
+  /**
+   * Get the number of open connections
+   */
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    if (this.connections.size >= (this.config.maxConnections ?? 100)) {
+      socket.close(CLOSE_TRY_AGAIN_LATER, 'Too many connections');
+      return;
+    }
+
+    const connection: WebSocketConnection = {
+      socket,
+      session: this.server.createSession((message) => this.sendTo(connection, message)),
+      alive: true,
+    };
+    this.connections.add(connection);
+
+    socket.on('pong', () => {
+      connection.alive = true;
+    });
+
+    socket.on('message', (data) => {
+      void this.processMessage(connection, data.toString());
+    });
+
+    socket.on('close', () => {
+      this.connections.delete(connection);
+      this.server.closeSession(connection.session.id);
+    });
+
+    socket.on('error', (error) => {
+      console.error('WebSocket error:', error.message);
+    });
+  }
+
+  private async processMessage(connection: WebSocketConnection, data: string): Promise<void> {
+    try {
+      const response = await this.server.handleMessage(data, connection.session);
+      if (response) {
+        this.sendTo(connection, response);
+      }
+    } catch (error) {
+      console.error('Error processing message:', error);
+    }
+  }
+
+  /**
+   * Terminate connections that missed the last ping, then ping the rest
+   */
+  private checkAlive(): void {
+    for (const connection of this.connections) {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        continue;
+      }
+
+      connection.alive = false;
+      connection.socket.ping();
+    }
+  }
+
+  private sendTo(connection: WebSocketConnection, message: string): void {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(message);
+    }
+  }
 }
 
 // =============================================================================
@@ -92,6 +92,18 @@ export interface MCPToolCallResponse {
   isError?: boolean;
 }
 
+/**
+ * notifications/progress params
+ */
+export interface MCPProgress {
+  /** Token the client sent in the request's `_meta.progressToken` */
+  progressToken: string | number;
+  /** Progress so far; increases with every notification */
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
 /**
  * MCP content types
  */
@@ -154,6 +166,17 @@ export interface MCPResourceTemplate {
   mimeType?: string;
 }
 
+/**
+ * Contents returned by resources/read
+ */
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  /** Base64-encoded binary content */
+  blob?: string;
+}
+
 // =============================================================================
 // MCP Prompt Types
 // =============================================================================
@@ -184,6 +207,51 @@ export interface MCPPromptMessage {
   content: MCPContent;
 }
 
+/**
+ * Result of prompts/get
+ */
+export interface MCPGetPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+// =============================================================================
+// MCP Completion Types
+// =============================================================================
+
+/**
+ * What a completion request is completing an argument for
+ */
+export type MCPCompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+/**
+ * completion/complete request params
+ */
+export interface MCPCompletionRequest {
+  ref: MCPCompletionReference;
+  argument: {
+    name: string;
+    value: string;
+  };
+  /** Values of arguments the client already filled in */
+  context?: {
+    arguments?: Record<string, string>;
+  };
+}
+
+/**
+ * completion/complete result
+ */
+export interface MCPCompletionResult {
+  completion: {
+    values: string[];
+    total?: number;
+    hasMore?: boolean;
+  };
+}
+
 // =============================================================================
 // MCP Server Info Types
 // =============================================================================
@@ -202,6 +270,7 @@ export interface MCPServerCapabilities {
   prompts?: {
     listChanged?: boolean;
   };
+  completions?: Record<string, never>;
   logging?: Record<string, never>;
 }
 
@@ -243,6 +312,8 @@ export interface MCPServerConfig {
     /** Tool name prefix */
     prefix?: string;
   };
+  /** Items per page for list methods before a cursor is returned (default: 100) */
+  pageSize?: number;
 }
 
 /**
@@ -257,6 +328,25 @@ export interface MCPAuthConfig {
   validator?: (credentials: string) => Promise<boolean> | boolean;
 }
 
+// =============================================================================
+// Session Types
+// =============================================================================
+
+/**
+ * Protocol state for one connected client
+ */
+export interface MCPSession {
+  id: string;
+  /** Whether the client completed the initialize handshake */
+  initialized: boolean;
+  /** Capabilities the client sent with initialize */
+  clientCapabilities: Record<string, unknown>;
+  /** Resource URIs the client subscribed to */
+  subscriptions: Set<string>;
+  /** Deliver a server-initiated message to this client */
+  send?: (message: string) => void;
+}
+
 // =============================================================================
 // MCP Protocol Methods
 // =============================================================================
@@ -269,6 +359,9 @@ export const MCP_METHODS = {
   INITIALIZE: 'initialize',
   INITIALIZED: 'notifications/initialized',
   SHUTDOWN: 'shutdown',
+  PING: 'ping',
+  PROGRESS: 'notifications/progress',
+  CANCELLED: 'notifications/cancelled',
 
   // Tools
   TOOLS_LIST: 'tools/list',
@@ -278,15 +371,20 @@ export const MCP_METHODS = {
   // Resources
   RESOURCES_LIST: 'resources/list',
   RESOURCES_READ: 'resources/read',
+  RESOURCES_TEMPLATES_LIST: 'resources/templates/list',
   RESOURCES_SUBSCRIBE: 'resources/subscribe',
   RESOURCES_UNSUBSCRIBE: 'resources/unsubscribe',
   RESOURCES_LIST_CHANGED: 'notifications/resources/list_changed',
+  RESOURCES_UPDATED: 'notifications/resources/updated',
 
   // Prompts
   PROMPTS_LIST: 'prompts/list',
   PROMPTS_GET: 'prompts/get',
   PROMPTS_LIST_CHANGED: 'notifications/prompts/list_changed',
 
+  // Completion
+  COMPLETION_COMPLETE: 'completion/complete',
+
   // Logging
   LOGGING_SET_LEVEL: 'logging/setLevel',
   LOGGING_MESSAGE: 'notifications/message',
@@ -301,6 +399,7 @@ export const JSON_RPC_ERRORS = {
   METHOD_NOT_FOUND: -32601,
   INVALID_PARAMS: -32602,
   INTERNAL_ERROR: -32603,
+  RESOURCE_NOT_FOUND: -32002,
 } as const;
 
 // =============================================================================
@@ -316,7 +415,8 @@ export interface MCPServerEvents {
   'notification': (notification: JsonRpcNotification) => void;
   'error': (error: Error) => void;
   'tool:registered': (tool: MCPTool) => void;
+  'tool:unregistered': (name: string) => void;
   'tool:called': (name: string, args: Record<string, unknown>) => void;
-  'client:connected': () => void;
-  'client:disconnected': () => void;
+  'client:connected': (sessionId: string) => void;
+  'client:disconnected': (sessionId: string) => void;
 }
@@ -0,0 +1,188 @@
+/**
+ * Agent Tool Tests
+ *
+ * Publishes the agents of a real AgentRuntime as MCP tools and drives them
+ * through MCPServer.handleMessage, including progress and cancellation.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AgentRuntime, HookRegistry, type LLMAdapter, type LLMResponse } from '@open-agent/core';
+import { createMCPServer, type MCPServer } from '../src/server.js';
+import type { MCPServerConfig, MCPSession } from '../src/types.js';
+
+/**
+ * Adapter that answers each completion with the next scripted response
+ */
+function createAdapter(respond: (call: number) => Promise<Partial<LLMResponse>>): LLMAdapter {
+  let calls = 0;
+  return {
+    id: 'scripted',
+    name: 'Scripted',
+    models: ['model-a'],
+    async complete(): Promise<LLMResponse> {
+      const response = await respond(calls++);
+      return {
+        id: `resp-${calls}`,
+        model: 'model-a',
+        content: '',
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        finishReason: 'stop',
+        ...response,
+      };
+    },
+    async *stream() {},
+    async healthCheck(): Promise<boolean> {
+      return true;
+    },
+  };
+}
+
+describe('Agent tools', () => {
+  let server: MCPServer;
+  let runtime: AgentRuntime;
+  let session: MCPSession;
+  let received: Array<{ method: string; params?: Record<string, unknown> }>;
+  let nextId = 1;
+
+  const send = async (message: Record<string, unknown>) =>
+    server.handleMessage(JSON.stringify({ jsonrpc: '2.0', ...message }), session);
+
+  const request = async (method: string, params?: unknown, id = nextId++) =>
+    JSON.parse((await send({ id, method, params }))!);
+
+  const setup = async (
+    respond: (call: number) => Promise<Partial<LLMResponse>>,
+    config: Partial<MCPServerConfig> = {}
+  ) => {
+    runtime = new AgentRuntime(
+      { enableStreaming: false, enableHealthChecks: false },
+      new HookRegistry()
+    );
+    runtime.registerAdapter(createAdapter(respond));
+
+    server = createMCPServer({ name: 'agent-server', version: '1.0.0', ...config });
+    server.attachRuntime(runtime);
+
+    received = [];
+    session = server.createSession((message) => received.push(JSON.parse(message)));
+    await request('initialize', {});
+    await send({ method: 'notifications/initialized' });
+  };
+
+  beforeEach(() => {
+    nextId = 1;
+  });
+
+  afterEach(async () => {
+    await runtime.shutdown().catch(() => {});
+  });
+
+  it('should register agents as tools as they are created', async () => {
+    await setup(async () => ({ content: 'ok' }));
+
+    await runtime.createAgent({ name: 'summarizer', role: 'writer', systemPrompt: 'Be brief.' });
+
+    const listed = await request('tools/list');
+    expect(listed.result.tools).toEqual([
+      {
+        name: 'summarizer',
+        description: 'summarizer (writer): Be brief.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            task: { type: 'string', description: 'What the agent should do' },
+            context: { type: 'string', description: 'Additional context for the task' },
+          },
+          required: ['task'],
+        },
+      },
+    ]);
+    expect(received).toContainEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/tools/list_changed',
+    });
+
+    await runtime.createAgent({ name: 'summarizer', role: 'writer' });
+    const names = (await request('tools/list')).result.tools.map((t: { name: string }) => t.name);
+    expect(names).toHaveLength(2);
+    expect(names[1]).toMatch(/^summarizer_agent-/);
+  });
+
+  it('should run the agent and report progress', async () => {
+    await setup(async () => ({ content: 'Summary: short.' }));
+    await runtime.createAgent({ name: 'summarizer', role: 'writer' });
+
+    const response = await request('tools/call', {
+      name: 'summarizer',
+      arguments: { task: 'Summarize this', context: 'Some text' },
+      _meta: { progressToken: 'p1' },
+    });
+
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'Summary: short.' }] });
+
+    const progress = received.filter((n) => n.method === 'notifications/progress');
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress[0]!.params).toMatchObject({ progressToken: 'p1', progress: 1 });
+
+    const history = runtime.getAllAgents()[0]!.messageHistory;
+    expect(history[0]).toEqual({ role: 'user', content: 'Summarize this\n\nContext:\nSome text' });
+  });
+
+  it('should reject calls without a task', async () => {
+    await setup(async () => ({ content: 'ok' }));
+    await runtime.createAgent({ name: 'summarizer', role: 'writer' });
+
+    const response = await request('tools/call', { name: 'summarizer', arguments: {} });
+    expect(response.result).toEqual({
+      content: [{ type: 'text', text: 'Missing required argument: task' }],
+      isError: true,
+    });
+  });
+
+  it('should stop the agent when the client cancels', async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    await setup(async () => {
+      await blocked;
+      return { content: 'too late' };
+    });
+    const agentId = await runtime.createAgent({ name: 'slow', role: 'worker' });
+
+    const pending = request('tools/call', { name: 'slow', arguments: { task: 'wait' } }, 42);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await send({ method: 'notifications/cancelled', params: { requestId: 42, reason: 'stop' } });
+
+    const response = await pending;
+    expect(response.result).toEqual({
+      content: [{ type: 'text', text: 'Cancelled: stop' }],
+      isError: true,
+    });
+    expect(runtime.getAgent(agentId)?.state).toBe('completed');
+    expect((await request('tools/list')).result.tools).toEqual([]);
+
+    release();
+  });
+
+  it('should unregister tools when their agent stops', async () => {
+    await setup(async () => ({ content: 'ok' }));
+    const agentId = await runtime.createAgent({ name: 'summarizer', role: 'writer' });
+    received.length = 0;
+
+    await runtime.stopAgent(agentId, 'completed');
+
+    expect((await request('tools/list')).result.tools).toEqual([]);
+    expect(received).toContainEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/tools/list_changed',
+    });
+  });
+
+  it('should not register tools when autoRegisterAgents is false', async () => {
+    await setup(async () => ({ content: 'ok' }), { toolOptions: { autoRegisterAgents: false } });
+    await runtime.createAgent({ name: 'summarizer', role: 'writer' });
+
+    expect((await request('tools/list')).result.tools).toEqual([]);
+  });
+});
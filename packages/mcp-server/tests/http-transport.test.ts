@@ -0,0 +1,209 @@
+/**
+ * HTTP Transport Tests
+ *
+ * Exercises the Streamable HTTP transport over a real socket with fetch.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MCPClient } from '@open-agent/mcp-client';
+import { createMCPServer, type MCPServer } from '../src/server.js';
+import { createHTTPTransport, type HTTPTransport } from '../src/transport.js';
+
+describe('HTTPTransport', () => {
+  let server: MCPServer;
+  let transport: HTTPTransport;
+  let url: string;
+
+  const post = (body: unknown, headers: Record<string, string> = {}): Promise<Response> =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  const initialize = async (): Promise<string> => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    return response.headers.get('mcp-session-id')!;
+  };
+
+  beforeEach(async () => {
+    server = createMCPServer({ name: 'test-server', version: '1.0.0' });
+    server.registerTool(
+      {
+        name: 'echo',
+        description: 'Echo the input',
+        inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+      },
+      async (args) => ({ content: [{ type: 'text', text: String(args['text']) }] })
+    );
+
+    transport = createHTTPTransport(server, {
+      port: 0,
+      cors: { origin: ['https://app.example.com'], maxAge: 600 },
+      maxBodySize: 1024,
+    });
+    await transport.start();
+    url = `http://localhost:${transport.getPort()}/mcp`;
+  });
+
+  afterEach(async () => {
+    await transport.stop();
+  });
+
+  it('should issue a session id on initialize', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toMatch(/^[0-9a-f-]{36}$/);
+    expect(body.result.serverInfo).toEqual({ name: 'test-server', version: '1.0.0' });
+  });
+
+  it('should answer batches and accept notifications with 202', async () => {
+    const sessionId = await initialize();
+    const headers = { 'Mcp-Session-Id': sessionId };
+
+    const batch = await post(
+      [
+        { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        {
+          jsonrpc: '2.0',
+          id: 3,
+          method: 'tools/call',
+          params: { name: 'echo', arguments: { text: 'hi' } },
+        },
+      ],
+      headers
+    );
+    const results = await batch.json();
+
+    expect(batch.status).toBe(200);
+    expect(results.map((r: { id: number }) => r.id)).toEqual([2, 3]);
+    expect(results[0].result.tools[0].name).toBe('echo');
+    expect(results[1].result.content[0].text).toBe('hi');
+
+    const notification = await post(
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      headers
+    );
+    expect(notification.status).toBe(202);
+    expect(await notification.text()).toBe('');
+  });
+
+  it('should reject unknown sessions, bad bodies and oversized bodies', async () => {
+    const unknown = await post(
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+      { 'Mcp-Session-Id': 'nope' }
+    );
+    expect(unknown.status).toBe(404);
+
+    const missing = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error.message).toBe('Missing Mcp-Session-Id header');
+
+    const malformed = await post('{not json');
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).error.code).toBe(-32700);
+
+    const oversized = await post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'x',
+      params: { pad: 'x'.repeat(2048) },
+    });
+    expect(oversized.status).toBe(413);
+
+    const wrongType = await fetch(url, { method: 'POST', body: '{}' });
+    expect(wrongType.status).toBe(415);
+  });
+
+  it('should apply the CORS policy', async () => {
+    const preflight = await fetch(url, {
+      method: 'OPTIONS',
+      headers: { Origin: 'https://app.example.com', 'Access-Control-Request-Method': 'POST' },
+    });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+    expect(preflight.headers.get('access-control-allow-headers')).toContain('Mcp-Session-Id');
+    expect(preflight.headers.get('access-control-max-age')).toBe('600');
+
+    const forbidden = await post(
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+      { Origin: 'https://evil.example.com' }
+    );
+    expect(forbidden.status).toBe(403);
+  });
+
+  it('should stream notifications over SSE until the session is deleted', async () => {
+    const sessionId = await initialize();
+    const stream = await fetch(url, {
+      headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+    });
+    expect(stream.headers.get('content-type')).toBe('text/event-stream');
+
+    await transport.send(server.createNotification('notifications/tools/list_changed'));
+
+    const reader = stream.body!.getReader();
+    const { value } = await reader.read();
+    expect(new TextDecoder().decode(value)).toBe(
+      'event: message\ndata: {"jsonrpc":"2.0","method":"notifications/tools/list_changed"}\n\n'
+    );
+
+    const deleted = await fetch(url, {
+      method: 'DELETE',
+      headers: { 'Mcp-Session-Id': sessionId },
+    });
+    expect(deleted.status).toBe(204);
+    expect((await reader.read()).done).toBe(true);
+
+    const afterDelete = await post(
+      { jsonrpc: '2.0', id: 4, method: 'tools/list' },
+      { 'Mcp-Session-Id': sessionId }
+    );
+    expect(afterDelete.status).toBe(404);
+  });
+
+  it('should serve mcp-client over the session it was issued', async () => {
+    const client = new MCPClient({ transport: 'http', url, autoReconnect: false });
+    await client.connect();
+
+    const result = await client.callTool('echo', { text: 'over http' });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'over http' }]);
+    expect(server.getSessions()).toHaveLength(1);
+    await client.disconnect();
+  });
+
+  it('should close sessions left idle', async () => {
+    await transport.stop();
+    transport = createHTTPTransport(server, { port: 0, sessionIdleTimeout: 50 });
+    await transport.start();
+    url = `http://localhost:${transport.getPort()}/mcp`;
+    const sessionId = await initialize();
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    const expired = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'Mcp-Session-Id': sessionId }
+    );
+    expect(expired.status).toBe(404);
+    expect(server.getSession(sessionId)).toBeUndefined();
+  });
+
+  it('should end open streams and free the port on stop', async () => {
+    const stream = await fetch(url, { headers: { Accept: 'text/event-stream' } });
+    const reader = stream.body!.getReader();
+
+    await transport.stop();
+
+    expect(transport.isRunning()).toBe(false);
+    expect((await reader.read()).done).toBe(true);
+    await expect(post({ jsonrpc: '2.0', id: 1, method: 'tools/list' })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Prompt Tests
+ *
+ * Covers prompt rendering, argument validation and completion through
+ * MCPServer.handleMessage, plus publishing agent definitions as prompts.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { createMCPServer, type MCPServer } from '../src/server.js';
+import { loadAgentPrompts, renderTemplate } from '../src/prompt-registry.js';
+import { JSON_RPC_ERRORS } from '../src/types.js';
+
+const AGENTS_DIR = fileURLToPath(new URL('../../../open-agents/agents', import.meta.url));
+
+describe('Prompts', () => {
+  let server: MCPServer;
+  let nextId = 1;
+
+  const request = async (method: string, params?: unknown) =>
+    JSON.parse(
+      (await server.handleMessage(
+        JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params })
+      ))!
+    );
+
+  beforeEach(() => {
+    server = createMCPServer({ name: 'prompt-server', version: '1.0.0' });
+
+    server.registerPrompt(
+      {
+        name: 'greet',
+        description: 'Greet someone',
+        arguments: [{ name: 'name', required: true }, { name: 'mood' }],
+      },
+      'Say hello to {{name}} in a {{ mood }} way.'
+    );
+
+    server.registerPrompt(
+      {
+        name: 'review',
+        arguments: [{ name: 'path', required: true }, { name: 'focus' }],
+      },
+      [
+        {
+          role: 'user',
+          content: {
+            type: 'resource',
+            resource: {
+              uri: 'file:///{{path}}',
+              mimeType: 'text/plain',
+              text: 'contents of {{path}}',
+            },
+          },
+        },
+        { role: 'assistant', content: { type: 'text', text: 'Got it.' } },
+        { role: 'user', content: { type: 'text', text: 'Review it for {{focus}}.' } },
+      ],
+      {
+        complete: {
+          focus: ['performance', 'privacy', 'security', 'style'],
+          path: (value) => ['src/a.ts', 'src/b.ts', 'test/a.ts'].filter((p) => p.includes(value)),
+        },
+      }
+    );
+  });
+
+  it('should substitute template arguments', () => {
+    expect(renderTemplate('{{a}}-{{ b }}-{{c}}', { a: '1', b: '2' })).toBe('1-2-');
+  });
+
+  it('should render a template string as a user message', async () => {
+    const response = await request('prompts/get', {
+      name: 'greet',
+      arguments: { name: 'Ada', mood: 'cheerful' },
+    });
+
+    expect(response.result).toEqual({
+      description: 'Greet someone',
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Say hello to Ada in a cheerful way.' } },
+      ],
+    });
+  });
+
+  it('should render multiple messages with embedded resources', async () => {
+    const response = await request('prompts/get', {
+      name: 'review',
+      arguments: { path: 'src/index.ts', focus: 'security' },
+    });
+
+    expect(response.result.messages).toEqual([
+      {
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: 'file:///src/index.ts',
+            mimeType: 'text/plain',
+            text: 'contents of src/index.ts',
+          },
+        },
+      },
+      { role: 'assistant', content: { type: 'text', text: 'Got it.' } },
+      { role: 'user', content: { type: 'text', text: 'Review it for security.' } },
+    ]);
+  });
+
+  it('should render prompts from a function', async () => {
+    server.registerPrompt({ name: 'count', arguments: [{ name: 'n' }] }, async ({ n }) =>
+      Array.from({ length: Number(n) }, (_, i) => ({
+        role: 'user' as const,
+        content: { type: 'text' as const, text: `#${i + 1}` },
+      }))
+    );
+
+    const response = await request('prompts/get', { name: 'count', arguments: { n: '2' } });
+
+    expect(
+      response.result.messages.map((m: { content: { text: string } }) => m.content.text)
+    ).toEqual(['#1', '#2']);
+  });
+
+  it('should reject missing required arguments and unknown prompts with INVALID_PARAMS', async () => {
+    const missing = await request('prompts/get', { name: 'review', arguments: { focus: 'style' } });
+    expect(missing.error).toEqual({
+      code: JSON_RPC_ERRORS.INVALID_PARAMS,
+      message: 'Missing required arguments for prompt review: path',
+      data: { prompt: 'review', missing: ['path'] },
+    });
+
+    const nonString = await request('prompts/get', { name: 'greet', arguments: { name: 42 } });
+    expect(nonString.error.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+
+    const unknown = await request('prompts/get', { name: 'nope' });
+    expect(unknown.error.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+  });
+
+  it('should complete argument values', async () => {
+    const listed = await request('completion/complete', {
+      ref: { type: 'ref/prompt', name: 'review' },
+      argument: { name: 'focus', value: 'p' },
+    });
+    expect(listed.result).toEqual({
+      completion: { values: ['performance', 'privacy'], total: 2, hasMore: false },
+    });
+
+    const computed = await request('completion/complete', {
+      ref: { type: 'ref/prompt', name: 'review' },
+      argument: { name: 'path', value: 'src/' },
+    });
+    expect(computed.result.completion.values).toEqual(['src/a.ts', 'src/b.ts']);
+
+    const noCompleter = await request('completion/complete', {
+      ref: { type: 'ref/prompt', name: 'greet' },
+      argument: { name: 'name', value: 'A' },
+    });
+    expect(noCompleter.result.completion.values).toEqual([]);
+
+    const unknownArgument = await request('completion/complete', {
+      ref: { type: 'ref/prompt', name: 'greet' },
+      argument: { name: 'nope', value: '' },
+    });
+    expect(unknownArgument.error.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+  });
+
+  it('should advertise prompts and completions', async () => {
+    const response = await request('initialize', {});
+
+    expect(response.result.capabilities.prompts).toEqual({ listChanged: true });
+    expect(response.result.capabilities.completions).toEqual({});
+  });
+
+  it('should publish agent definitions as prompts', async () => {
+    const prompts = await loadAgentPrompts(AGENTS_DIR);
+    for (const { definition, renderer } of prompts) {
+      server.registerPrompt(definition, renderer);
+    }
+
+    const listed = await request('prompts/list');
+    const researcher = listed.result.prompts.find((p: { name: string }) => p.name === 'researcher');
+    expect(researcher.description).toMatch(/^Researcher Agent: The Researcher agent gathers/);
+    expect(researcher.arguments.map((a: { name: string }) => a.name)).toEqual(['task', 'context']);
+
+    const rendered = await request('prompts/get', {
+      name: 'researcher',
+      arguments: { task: 'Compare MCP transports' },
+    });
+    const [definition, task] = rendered.result.messages;
+    expect(definition.content.resource.mimeType).toBe('text/markdown');
+    expect(definition.content.resource.text).toContain('# Researcher Agent');
+    expect(task.content.text).toBe(
+      'Act as the Researcher Agent defined above.\n\nTask: Compare MCP transports'
+    );
+  });
+});
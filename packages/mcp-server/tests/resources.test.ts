@@ -0,0 +1,225 @@
+/**
+ * Resource Tests
+ *
+ * Covers resource readers, URI templates, pagination and subscriptions
+ * through MCPServer.handleMessage, plus agent resources from a runtime.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AgentRuntime, HookRegistry, type LLMAdapter, type LLMResponse } from '@open-agent/core';
+import { createMCPServer, type MCPServer } from '../src/server.js';
+import { compileUriTemplate } from '../src/resource-registry.js';
+import { registerAgentResources } from '../src/agent-resources.js';
+import { JSON_RPC_ERRORS, type MCPSession } from '../src/types.js';
+
+describe('Resources', () => {
+  let server: MCPServer;
+  let nextId = 1;
+
+  const request = async (method: string, params?: unknown, session?: MCPSession) =>
+    JSON.parse(
+      (await server.handleMessage(
+        JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }),
+        session
+      ))!
+    );
+
+  const connect = async () => {
+    const received: Array<{ method: string; params?: unknown }> = [];
+    const session = server.createSession((message) => received.push(JSON.parse(message)));
+    await request('initialize', {}, session);
+    await server.handleMessage(
+      JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+      session
+    );
+    return { session, received };
+  };
+
+  const notes: Record<string, string> = { a: 'first note', b: 'second note' };
+
+  beforeEach(() => {
+    server = createMCPServer({ name: 'resource-server', version: '1.0.0', pageSize: 2 });
+
+    server.registerResource(
+      { uri: 'config://settings', name: 'Settings', mimeType: 'application/json' },
+      () => JSON.stringify({ theme: 'dark' })
+    );
+    server.registerResourceTemplate(
+      { uriTemplate: 'notes://{id}', name: 'Note', mimeType: 'text/plain' },
+      (_uri, { id }) => notes[id!] ?? '',
+      {
+        list: () => Object.keys(notes).map((id) => ({ uri: `notes://${id}`, name: `Note ${id}` })),
+        complete: { id: Object.keys(notes) },
+      }
+    );
+    server.registerResourceTemplate(
+      { uriTemplate: 'file:///{+path}', name: 'File' },
+      (uri, { path }) => ({ uri, mimeType: 'text/x-path', text: path! })
+    );
+  });
+
+  it('should match URI templates', () => {
+    const matcher = compileUriTemplate('agent://{id}/history{+rest}');
+    expect(matcher.variables).toEqual(['id', 'rest']);
+    expect(matcher.match('agent://a%201/history/x/y')).toEqual({ id: 'a 1', rest: '/x/y' });
+    expect(matcher.match('agent://a/b/history/x')).toBeNull();
+    expect(matcher.match('agent://a/state')).toBeNull();
+  });
+
+  it('should read resources through their readers', async () => {
+    const settings = await request('resources/read', { uri: 'config://settings' });
+    expect(settings.result.contents).toEqual([
+      { uri: 'config://settings', mimeType: 'application/json', text: '{"theme":"dark"}' },
+    ]);
+
+    const note = await request('resources/read', { uri: 'notes://b' });
+    expect(note.result.contents).toEqual([
+      { uri: 'notes://b', mimeType: 'text/plain', text: 'second note' },
+    ]);
+
+    const file = await request('resources/read', { uri: 'file:///src/index.ts' });
+    expect(file.result.contents[0]).toEqual({
+      uri: 'file:///src/index.ts',
+      mimeType: 'text/x-path',
+      text: 'src/index.ts',
+    });
+
+    const missing = await request('resources/read', { uri: 'nope://x' });
+    expect(missing.error).toEqual({
+      code: JSON_RPC_ERRORS.RESOURCE_NOT_FOUND,
+      message: 'Resource not found: nope://x',
+      data: { uri: 'nope://x' },
+    });
+  });
+
+  it('should list templates and page through resources', async () => {
+    const templates = await request('resources/templates/list');
+    expect(
+      templates.result.resourceTemplates.map((t: { uriTemplate: string }) => t.uriTemplate)
+    ).toEqual(['notes://{id}', 'file:///{+path}']);
+    expect(templates.result.nextCursor).toBeUndefined();
+
+    const first = await request('resources/list');
+    expect(first.result.resources.map((r: { uri: string }) => r.uri)).toEqual([
+      'config://settings',
+      'notes://a',
+    ]);
+    expect(first.result.nextCursor).toEqual(expect.any(String));
+
+    const second = await request('resources/list', { cursor: first.result.nextCursor });
+    expect(second.result.resources.map((r: { uri: string }) => r.uri)).toEqual(['notes://b']);
+    expect(second.result.nextCursor).toBeUndefined();
+
+    const invalid = await request('resources/list', { cursor: 'garbage' });
+    expect(invalid.error.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+  });
+
+  it('should notify subscribed clients only', async () => {
+    const subscriber = await connect();
+    const other = await connect();
+
+    const subscribed = await request(
+      'resources/subscribe',
+      { uri: 'notes://a' },
+      subscriber.session
+    );
+    expect(subscribed.result).toEqual({});
+
+    server.notifyResourceUpdated('notes://a');
+    server.notifyResourceUpdated('notes://b');
+
+    expect(subscriber.received).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'notes://a' } },
+    ]);
+    expect(other.received).toEqual([]);
+
+    await request('resources/unsubscribe', { uri: 'notes://a' }, subscriber.session);
+    server.notifyResourceUpdated('notes://a');
+    expect(subscriber.received).toHaveLength(1);
+
+    const unknown = await request('resources/subscribe', { uri: 'nope://x' }, subscriber.session);
+    expect(unknown.error.code).toBe(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND);
+  });
+
+  it('should complete template variables', async () => {
+    const response = await request('completion/complete', {
+      ref: { type: 'ref/resource', uri: 'notes://{id}' },
+      argument: { name: 'id', value: 'b' },
+    });
+    expect(response.result.completion.values).toEqual(['b']);
+
+    const unknown = await request('completion/complete', {
+      ref: { type: 'ref/resource', uri: 'notes://{id}' },
+      argument: { name: 'nope', value: '' },
+    });
+    expect(unknown.error.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+  });
+
+  describe('agent resources', () => {
+    let runtime: AgentRuntime;
+
+    const adapter: LLMAdapter = {
+      id: 'scripted',
+      name: 'Scripted',
+      models: ['model-a'],
+      async complete(): Promise<LLMResponse> {
+        return {
+          id: 'resp-1',
+          model: 'model-a',
+          content: 'All done.',
+          usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+          finishReason: 'stop',
+        };
+      },
+      async *stream() {},
+      async healthCheck(): Promise<boolean> {
+        return true;
+      },
+    };
+
+    beforeEach(() => {
+      runtime = new AgentRuntime(
+        { enableStreaming: false, enableHealthChecks: false },
+        new HookRegistry()
+      );
+      runtime.registerAdapter(adapter);
+    });
+
+    afterEach(async () => {
+      await runtime.shutdown().catch(() => {});
+    });
+
+    it('should expose agent state and history and notify on changes', async () => {
+      const dispose = registerAgentResources(server, runtime);
+      const { session, received } = await connect();
+
+      const agentId = await runtime.createAgent({ name: 'worker', role: 'test' });
+      await request('resources/subscribe', { uri: `agent://${agentId}/history` }, session);
+
+      await runtime.run(agentId, { role: 'user', content: 'do the thing' });
+
+      const history = await request('resources/read', { uri: `agent://${agentId}/history` });
+      const messages = JSON.parse(history.result.contents[0].text);
+      expect(messages.map((m: { content: string }) => m.content)).toEqual(
+        expect.arrayContaining(['do the thing', 'All done.'])
+      );
+
+      const state = await request('resources/read', { uri: `agent://${agentId}/state` });
+      expect(JSON.parse(state.result.contents[0].text)).toMatchObject({
+        id: agentId,
+        name: 'worker',
+      });
+
+      expect(received).toContainEqual({
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri: `agent://${agentId}/history` },
+      });
+      expect(received.some((n) => n.method === 'notifications/resources/list_changed')).toBe(true);
+
+      dispose();
+      const gone = await request('resources/read', { uri: `agent://${agentId}/history` });
+      expect(gone.error.code).toBe(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND);
+    });
+  });
+});
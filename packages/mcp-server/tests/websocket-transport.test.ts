@@ -0,0 +1,189 @@
+/**
+ * WebSocket Transport Tests
+ *
+ * End-to-end tests driving the WebSocket transport with the mcp-client
+ * WebSocketClientTransport, plus raw sockets for keepalive and limits.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { WebSocket } from 'ws';
+import { MCPClient, WebSocketClientTransport } from '@open-agent/mcp-client';
+import { createMCPServer, type MCPServer } from '../src/server.js';
+import { createWebSocketTransport, type WebSocketTransport } from '../src/transport.js';
+import type { MCPTool } from '../src/types.js';
+
+function tool(name: string): MCPTool {
+  return {
+    name,
+    description: `The ${name} tool`,
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+  };
+}
+
+function waitFor(predicate: () => boolean, timeout = 2000): Promise<void> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const check = (): void => {
+      if (predicate()) {
+        resolve();
+      } else if (Date.now() - start > timeout) {
+        reject(new Error('Timed out waiting for condition'));
+      } else {
+        setTimeout(check, 10);
+      }
+    };
+    check();
+  });
+}
+
+describe('WebSocketTransport', () => {
+  let server: MCPServer;
+  let transport: WebSocketTransport;
+  let url: string;
+  const clients: MCPClient[] = [];
+
+  const connectClient = async (): Promise<MCPClient> => {
+    const client = new MCPClient({ transport: 'websocket', url, autoReconnect: false });
+    clients.push(client);
+    await client.connect();
+    return client;
+  };
+
+  beforeAll(() => {
+    // Node 20 has no global WebSocket; the client transport expects one
+    globalThis.WebSocket ??= WebSocket as unknown as typeof globalThis.WebSocket;
+  });
+
+  beforeEach(async () => {
+    server = createMCPServer({ name: 'ws-server', version: '1.0.0' });
+    server.registerTool(tool('echo'), async (args) => ({
+      content: [{ type: 'text', text: String(args['text']) }],
+    }));
+
+    transport = createWebSocketTransport(server, { port: 0, maxConnections: 2, pingInterval: 50 });
+    await transport.start();
+    url = `ws://localhost:${transport.getPort()}`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      await client.disconnect();
+    }
+    await transport.stop();
+  });
+
+  it('should serve the client transport end to end', async () => {
+    const clientTransport = new WebSocketClientTransport({ transport: 'websocket', url });
+    await clientTransport.connect();
+
+    const response = await clientTransport.request({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { capabilities: {} },
+    });
+    expect(response.result).toMatchObject({ serverInfo: { name: 'ws-server' } });
+
+    await clientTransport.disconnect();
+  });
+
+  it('should keep a separate session per connection', async () => {
+    const first = await connectClient();
+    await connectClient();
+
+    expect(first.getState()).toBe('ready');
+    expect(first.getCachedTools().map((t) => t.name)).toEqual(['echo']);
+    expect(await first.callTool('echo', { text: 'hi' })).toEqual({
+      content: [{ type: 'text', text: 'hi' }],
+    });
+
+    const sessions = server.getSessions();
+    expect(sessions).toHaveLength(2);
+    expect(sessions.every((s) => s.initialized)).toBe(true);
+    expect(sessions[0]?.clientCapabilities).toEqual({ roots: { listChanged: true } });
+
+    // Shutting one client down leaves the other session initialized
+    await first.disconnect();
+    await waitFor(() => server.getSessions().length === 1);
+    expect(server.isInitialized(server.getSessions()[0]!.id)).toBe(true);
+  });
+
+  it('should broadcast list_changed to every session', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    const changed: string[][] = [];
+    first.on('tools:changed', (tools) => changed.push(tools.map((t) => t.name)));
+    second.on('tools:changed', (tools) => changed.push(tools.map((t) => t.name)));
+
+    server.registerTool(tool('search'), async () => ({ content: [] }));
+
+    await waitFor(() => changed.length === 2);
+    expect(changed).toEqual([
+      ['echo', 'search'],
+      ['echo', 'search'],
+    ]);
+  });
+
+  it('should only notify sessions subscribed to a resource', async () => {
+    server.registerResource({ uri: 'file:///notes.md', name: 'Notes' });
+
+    const subscriber = new WebSocketClientTransport({ transport: 'websocket', url });
+    const bystander = new WebSocketClientTransport({ transport: 'websocket', url });
+    const received: string[] = [];
+    subscriber.onMessage((m) => received.push(`subscriber:${JSON.parse(m).method}`));
+    bystander.onMessage((m) => received.push(`bystander:${JSON.parse(m).method}`));
+
+    for (const client of [subscriber, bystander]) {
+      await client.connect();
+      await client.request({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+      await client.notify('notifications/initialized');
+    }
+    await subscriber.request({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'resources/subscribe',
+      params: { uri: 'file:///notes.md' },
+    });
+
+    server.notifyResourceUpdated('file:///notes.md');
+
+    await waitFor(() => received.length > 0);
+    expect(received).toEqual(['subscriber:notifications/resources/updated']);
+
+    await subscriber.disconnect();
+    await bystander.disconnect();
+  });
+
+  it('should refuse connections beyond the limit', async () => {
+    await connectClient();
+    await connectClient();
+
+    const socket = new WebSocket(url);
+    const code = await new Promise<number>((resolve) => socket.on('close', resolve));
+
+    expect(code).toBe(1013);
+    expect(transport.getConnectionCount()).toBe(2);
+  });
+
+  it('should terminate connections that stop answering pings', async () => {
+    const socket = new WebSocket(url, { autoPong: false });
+    await new Promise((resolve) => socket.on('open', resolve));
+    await waitFor(() => transport.getConnectionCount() === 1);
+
+    await new Promise((resolve) => socket.on('close', resolve));
+    await waitFor(() => transport.getConnectionCount() === 0);
+    expect(server.getSessions()).toHaveLength(0);
+  });
+
+  it('should close connections on stop', async () => {
+    await connectClient();
+    const disconnected = new Promise((resolve) => server.once('client:disconnected', resolve));
+
+    await transport.stop();
+
+    await disconnected;
+    expect(transport.isRunning()).toBe(false);
+    expect(server.getSessions()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,634 @@
+/**
+ * LLM adapter conformance suite
+ *
+ * Shared tests every provider adapter must pass to be usable with
+ * AgentRuntime.registerAdapter(). Each suite runs against a local fake
+ * HTTP server that speaks the provider's wire protocol.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { LLMAdapter, CompletionOptions, StreamChunk } from '@open-agent/core';
+import { getHookRegistry, HOOK_NAMES } from '@open-agent/core';
+
+// =============================================================================
+// Fake Provider Server
+// =============================================================================
+
+export type WireProtocol = 'anthropic' | 'openai';
+
+export interface ScriptedTurn {
+  text: string;
+  toolCalls?: { id: string; name: string; arguments: Record<string, unknown> }[];
+  usage?: { input: number; output: number };
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: Record<string, unknown>;
+}
+
+export interface FakeProviderServer {
+  url: string;
+  requests: RecordedRequest[];
+  /** Queue the next completion; unqueued requests get a plain "ok" reply */
+  enqueue(turn: ScriptedTurn): void;
+  /** Make every request fail with the given status until reset */
+  failWith(status: number | null): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export async function startFakeProviderServer(protocol: WireProtocol): Promise<FakeProviderServer> {
+  const requests: RecordedRequest[] = [];
+  const turns: ScriptedTurn[] = [];
+  let failStatus: number | null = null;
+
+  const server: Server = createServer(async (req, res) => {
+    const body = await readJson(req);
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    requests.push({ method: req.method ?? 'GET', path, body });
+
+    if (failStatus !== null) {
+      sendJson(res, failStatus, { error: { type: 'api_error', message: 'injected failure' } });
+      return;
+    }
+
+    if (req.method === 'GET' && path.endsWith('/models/count')) {
+      sendJson(res, 200, { data: { count: 1 } });
+      return;
+    }
+
+    if (req.method === 'GET' && path.endsWith('/models')) {
+      sendJson(
+        res,
+        200,
+        protocol === 'anthropic'
+          ? { data: [], has_more: false, first_id: null, last_id: null }
+          : { object: 'list', data: [] }
+      );
+      return;
+    }
+
+    if (
+      req.method === 'POST' &&
+      (path.endsWith('/messages') || path.endsWith('/chat/completions'))
+    ) {
+      const turn = turns.shift() ?? { text: 'ok' };
+      const model = typeof body['model'] === 'string' ? body['model'] : 'fake-model';
+
+      if (body['stream'] === true) {
+        const events =
+          protocol === 'anthropic'
+            ? anthropicStreamEvents(turn, model)
+            : openAIStreamEvents(turn, model);
+        res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+        for (const event of events) {
+          res.write(event);
+        }
+        res.end();
+        return;
+      }
+
+      sendJson(
+        res,
+        200,
+        protocol === 'anthropic' ? anthropicMessage(turn, model) : openAICompletion(turn, model)
+      );
+      return;
+    }
+
+    sendJson(res, 404, { error: { type: 'not_found', message: `No route for ${path}` } });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    enqueue: (turn) => turns.push(turn),
+    failWith: (status) => {
+      failStatus = status;
+    },
+    reset: () => {
+      requests.length = 0;
+      turns.length = 0;
+      failStatus = null;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+/** Split text into a few deltas so streaming tests see more than one chunk */
+function splitText(text: string): string[] {
+  const size = Math.max(1, Math.ceil(text.length / 3));
+  const parts: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    parts.push(text.slice(i, i + size));
+  }
+  return parts;
+}
+
+// -----------------------------------------------------------------------------
+// Anthropic Messages API
+// -----------------------------------------------------------------------------
+
+function anthropicMessage(turn: ScriptedTurn, model: string): Record<string, unknown> {
+  const content: Record<string, unknown>[] = [];
+  if (turn.text) {
+    content.push({ type: 'text', text: turn.text });
+  }
+  for (const tc of turn.toolCalls ?? []) {
+    content.push({ type: 'tool_use', id: tc.id, name: tc.name, input: tc.arguments });
+  }
+
+  return {
+    id: 'msg_fake',
+    type: 'message',
+    role: 'assistant',
+    model,
+    content,
+    stop_reason: turn.toolCalls?.length ? 'tool_use' : 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: turn.usage?.input ?? 1, output_tokens: turn.usage?.output ?? 1 },
+  };
+}
+
+function anthropicStreamEvents(turn: ScriptedTurn, model: string): string[] {
+  const event = (type: string, data: Record<string, unknown>) =>
+    `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+
+  const events = [
+    event('message_start', {
+      message: {
+        ...anthropicMessage({ ...turn, text: '', toolCalls: [] }, model),
+        stop_reason: null,
+        usage: { input_tokens: turn.usage?.input ?? 1, output_tokens: 0 },
+      },
+    }),
+  ];
+
+  let index = 0;
+  if (turn.text) {
+    events.push(event('content_block_start', { index, content_block: { type: 'text', text: '' } }));
+    for (const part of splitText(turn.text)) {
+      events.push(
+        event('content_block_delta', { index, delta: { type: 'text_delta', text: part } })
+      );
+    }
+    events.push(event('content_block_stop', { index }));
+    index++;
+  }
+
+  for (const tc of turn.toolCalls ?? []) {
+    events.push(
+      event('content_block_start', {
+        index,
+        content_block: { type: 'tool_use', id: tc.id, name: tc.name, input: {} },
+      })
+    );
+    for (const part of splitText(JSON.stringify(tc.arguments))) {
+      events.push(
+        event('content_block_delta', {
+          index,
+          delta: { type: 'input_json_delta', partial_json: part },
+        })
+      );
+    }
+    events.push(event('content_block_stop', { index }));
+    index++;
+  }
+
+  events.push(
+    event('message_delta', {
+      delta: { stop_reason: turn.toolCalls?.length ? 'tool_use' : 'end_turn', stop_sequence: null },
+      usage: { output_tokens: turn.usage?.output ?? 1 },
+    })
+  );
+  events.push(event('message_stop', {}));
+  return events;
+}
+
+// -----------------------------------------------------------------------------
+// OpenAI-compatible Chat Completions API (OpenAI, OpenRouter)
+// -----------------------------------------------------------------------------
+
+function openAIUsage(turn: ScriptedTurn): Record<string, number> {
+  const input = turn.usage?.input ?? 1;
+  const output = turn.usage?.output ?? 1;
+  return { prompt_tokens: input, completion_tokens: output, total_tokens: input + output };
+}
+
+function openAICompletion(turn: ScriptedTurn, model: string): Record<string, unknown> {
+  const toolCalls = turn.toolCalls?.map((tc) => ({
+    id: tc.id,
+    type: 'function',
+    function: { name: tc.name, arguments: JSON.stringify(tc.arguments) },
+  }));
+
+  return {
+    id: 'chatcmpl-fake',
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content: turn.text || null, tool_calls: toolCalls },
+        finish_reason: toolCalls?.length ? 'tool_calls' : 'stop',
+      },
+    ],
+    usage: openAIUsage(turn),
+  };
+}
+
+function openAIStreamEvents(turn: ScriptedTurn, model: string): string[] {
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null, extra = {}) =>
+    `data: ${JSON.stringify({
+      id: 'chatcmpl-fake',
+      object: 'chat.completion.chunk',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+      ...extra,
+    })}\n\n`;
+
+  const events = [chunk({ role: 'assistant', content: '' }, null)];
+  for (const part of splitText(turn.text)) {
+    events.push(chunk({ content: part }, null));
+  }
+
+  (turn.toolCalls ?? []).forEach((tc, index) => {
+    events.push(
+      chunk(
+        {
+          tool_calls: [
+            { index, id: tc.id, type: 'function', function: { name: tc.name, arguments: '' } },
+          ],
+        },
+        null
+      )
+    );
+    for (const part of splitText(JSON.stringify(tc.arguments))) {
+      events.push(chunk({ tool_calls: [{ index, function: { arguments: part } }] }, null));
+    }
+  });
+
+  events.push(
+    chunk({}, turn.toolCalls?.length ? 'tool_calls' : 'stop', { usage: openAIUsage(turn) })
+  );
+  events.push('data: [DONE]\n\n');
+  return events;
+}
+
+// =============================================================================
+// Conformance Suite
+// =============================================================================
+
+export interface ConformanceOptions {
+  name: string;
+  protocol: WireProtocol;
+  /** Model the adapter should fall back to when the runtime passes 'default' */
+  defaultModel: string;
+  createAdapter: (serverUrl: string) => LLMAdapter;
+}
+
+const weatherTool = {
+  name: 'get_weather',
+  description: 'Get current weather for a location',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city'],
+  },
+};
+
+export function describeLLMAdapterConformance(options: ConformanceOptions): void {
+  describe(`${options.name} (LLMAdapter conformance)`, () => {
+    let server: FakeProviderServer;
+    let adapter: LLMAdapter;
+
+    const completionOptions = (overrides: Partial<CompletionOptions> = {}): CompletionOptions => ({
+      model: options.defaultModel,
+      ...overrides,
+    });
+
+    const lastPost = (): Record<string, unknown> => {
+      const posts = server.requests.filter((r) => r.method === 'POST');
+      return posts[posts.length - 1]?.body ?? {};
+    };
+
+    beforeAll(async () => {
+      server = await startFakeProviderServer(options.protocol);
+      adapter = options.createAdapter(server.url);
+    });
+
+    afterAll(async () => {
+      await server.close();
+    });
+
+    beforeEach(() => {
+      server.reset();
+    });
+
+    it('should describe itself', () => {
+      expect(adapter.id).toBeTruthy();
+      expect(adapter.name).toBeTruthy();
+      expect(adapter.models.length).toBeGreaterThan(0);
+      expect(adapter.models).toContain(options.defaultModel);
+    });
+
+    it('should map text content and token usage', async () => {
+      server.enqueue({ text: 'Paris is the capital of France.', usage: { input: 12, output: 5 } });
+
+      const response = await adapter.complete(
+        [{ role: 'user', content: 'What is the capital of France?' }],
+        completionOptions()
+      );
+
+      expect(response.content).toBe('Paris is the capital of France.');
+      expect(response.usage).toMatchObject({
+        promptTokens: 12,
+        completionTokens: 5,
+        totalTokens: 17,
+      });
+      expect(response.finishReason).toBe('stop');
+      expect(response.toolCalls ?? []).toHaveLength(0);
+    });
+
+    it('should map tool calls with parsed arguments', async () => {
+      server.enqueue({
+        text: '',
+        toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }],
+      });
+
+      const response = await adapter.complete(
+        [{ role: 'user', content: 'Weather in Paris?' }],
+        completionOptions({ tools: [weatherTool] })
+      );
+
+      expect(response.toolCalls).toEqual([
+        { id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } },
+      ]);
+      expect(response.finishReason).toBe('tool_calls');
+    });
+
+    it('should send tool calls together with the results that answer them', async () => {
+      await adapter.complete(
+        [
+          { role: 'user', content: 'Weather in Paris and Rome?' },
+          {
+            role: 'assistant',
+            content: 'Checking both.',
+            toolCalls: [
+              { id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } },
+              { id: 'call_2', name: 'get_weather', arguments: { city: 'Rome' } },
+            ],
+          },
+          { role: 'tool', content: '{"temp":21}', toolCallId: 'call_1' },
+          { role: 'tool', content: '{"temp":25}', toolCallId: 'call_2' },
+        ],
+        completionOptions({ tools: [weatherTool] })
+      );
+
+      const messages = lastPost()['messages'];
+      if (options.protocol === 'anthropic') {
+        expect(messages).toEqual([
+          { role: 'user', content: 'Weather in Paris and Rome?' },
+          {
+            role: 'assistant',
+            content: [
+              { type: 'text', text: 'Checking both.' },
+              { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+              { type: 'tool_use', id: 'call_2', name: 'get_weather', input: { city: 'Rome' } },
+            ],
+          },
+          {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'call_1', content: '{"temp":21}' },
+              { type: 'tool_result', tool_use_id: 'call_2', content: '{"temp":25}' },
+            ],
+          },
+        ]);
+      } else {
+        const call = (id: string, city: string) => ({
+          id,
+          type: 'function',
+          function: { name: 'get_weather', arguments: JSON.stringify({ city }) },
+        });
+        expect(messages).toMatchObject([
+          { role: 'user', content: 'Weather in Paris and Rome?' },
+          {
+            role: 'assistant',
+            content: 'Checking both.',
+            tool_calls: [call('call_1', 'Paris'), call('call_2', 'Rome')],
+          },
+          { role: 'tool', tool_call_id: 'call_1', content: '{"temp":21}' },
+          { role: 'tool', tool_call_id: 'call_2', content: '{"temp":25}' },
+        ]);
+      }
+    });
+
+    it('should send multi-part content with images', async () => {
+      await adapter.complete(
+        [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is in these pictures?' },
+              { type: 'image', url: 'data:image/png;base64,iVBORw0KGgo=' },
+              { type: 'image', url: 'https://example.com/cat.png' },
+            ],
+          },
+        ],
+        completionOptions()
+      );
+
+      const [message] = lastPost()['messages'] as { content: unknown }[];
+      expect(message?.content).toEqual(
+        options.protocol === 'anthropic'
+          ? [
+              { type: 'text', text: 'What is in these pictures?' },
+              {
+                type: 'image',
+                source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' },
+              },
+              { type: 'image', source: { type: 'url', url: 'https://example.com/cat.png' } },
+            ]
+          : [
+              { type: 'text', text: 'What is in these pictures?' },
+              { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+              { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+            ]
+      );
+    });
+
+    it('should forward tools, system prompt and sampling options', async () => {
+      await adapter.complete(
+        [{ role: 'user', content: 'Hi' }],
+        completionOptions({
+          tools: [weatherTool],
+          systemPrompt: 'You are terse.',
+          maxTokens: 64,
+          stopSequences: ['END'],
+        })
+      );
+
+      const body = lastPost();
+      expect(body['model']).toBe(options.defaultModel);
+      expect(body['max_tokens']).toBe(64);
+
+      if (options.protocol === 'anthropic') {
+        expect(body['system']).toBe('You are terse.');
+        expect(body['stop_sequences']).toEqual(['END']);
+        expect((body['tools'] as { name: string }[]).map((t) => t.name)).toEqual(['get_weather']);
+      } else {
+        const messages = body['messages'] as { role: string; content: string }[];
+        expect(messages[0]).toMatchObject({ role: 'system', content: 'You are terse.' });
+        expect(body['stop']).toEqual(['END']);
+        expect(
+          (body['tools'] as { function: { name: string } }[]).map((t) => t.function.name)
+        ).toEqual(['get_weather']);
+      }
+    });
+
+    it("should use the adapter's default model when the runtime passes 'default'", async () => {
+      await adapter.complete(
+        [{ role: 'user', content: 'Hi' }],
+        completionOptions({ model: 'default' })
+      );
+
+      expect(lastPost()['model']).toBe(options.defaultModel);
+    });
+
+    it('should stream text chunks in order', async () => {
+      server.enqueue({ text: 'Streaming works fine' });
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of adapter.stream(
+        [{ role: 'user', content: 'Stream please' }],
+        completionOptions()
+      )) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks[0]?.isFirst).toBe(true);
+      expect(chunks[chunks.length - 1]?.isLast).toBe(true);
+      expect(chunks.map((c) => c.content).join('')).toBe('Streaming works fine');
+      expect(lastPost()['stream']).toBe(true);
+    });
+
+    it('should stream tool call deltas, usage and finish reason', async () => {
+      server.enqueue({
+        text: '',
+        toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }],
+        usage: { input: 12, output: 5 },
+      });
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of adapter.stream(
+        [{ role: 'user', content: 'Weather in Paris?' }],
+        completionOptions({ tools: [weatherTool] })
+      )) {
+        chunks.push(chunk);
+      }
+
+      const deltas = chunks.flatMap((c) => c.toolCallDeltas ?? []);
+      expect(deltas.find((d) => d.id)).toMatchObject({
+        index: 0,
+        id: 'call_1',
+        name: 'get_weather',
+      });
+      expect(JSON.parse(deltas.map((d) => d.argumentsDelta ?? '').join(''))).toEqual({
+        city: 'Paris',
+      });
+
+      const last = chunks[chunks.length - 1];
+      expect(last?.usage).toMatchObject({ promptTokens: 12, completionTokens: 5, totalTokens: 17 });
+      expect(last?.finishReason).toBe('tool_calls');
+    });
+
+    it('should leave hooks to the runtime instead of running them again', async () => {
+      // The runtime runs these hooks itself around every adapter call
+      const hookNames = [
+        HOOK_NAMES.REQUEST_TRANSFORM,
+        HOOK_NAMES.MODEL_SELECTION,
+        HOOK_NAMES.RESPONSE_TRANSFORM,
+        HOOK_NAMES.COST_TRACKING,
+        HOOK_NAMES.STREAM_START,
+        HOOK_NAMES.CHUNK_PROCESS,
+        HOOK_NAMES.STREAM_COMPLETE,
+      ];
+      const registry = getHookRegistry();
+      const calls: string[] = [];
+      for (const hookName of hookNames) {
+        registry.register(
+          hookName,
+          { id: 'conformance-spy', name: 'Conformance Spy', priority: 'normal' },
+          async (input) => {
+            calls.push(hookName);
+            return { success: true, data: input };
+          }
+        );
+      }
+
+      try {
+        await adapter.complete([{ role: 'user', content: 'Hi' }], completionOptions());
+        for await (const _chunk of adapter.stream(
+          [{ role: 'user', content: 'Stream please' }],
+          completionOptions()
+        )) {
+          // drain
+        }
+      } finally {
+        for (const hookName of hookNames) {
+          registry.unregister(hookName, 'conformance-spy');
+        }
+      }
+
+      expect(calls).toEqual([]);
+    });
+
+    it('should reject when the request is aborted', async () => {
+      await expect(
+        adapter.complete(
+          [{ role: 'user', content: 'Hi' }],
+          completionOptions({ signal: AbortSignal.abort() })
+        )
+      ).rejects.toThrow();
+    });
+
+    it('should describe its models for model selection', async () => {
+      const catalog = await adapter.getAvailableModels?.();
+
+      expect(catalog?.map((m) => m.id)).toEqual(adapter.models);
+      expect(catalog?.every((m) => m.contextLength > 0)).toBe(true);
+    });
+
+    it('should report health from the provider API', async () => {
+      expect(await adapter.healthCheck()).toBe(true);
+
+      server.failWith(500);
+      expect(await adapter.healthCheck()).toBe(false);
+    });
+  });
+}
@@ -1,6 +1,17 @@
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  // Resolve workspace packages to source so tests don't depend on a prior build
+  resolve: {
+    alias: {
+      '@open-agent/core': fileURLToPath(new URL('./packages/core/src/index.ts', import.meta.url)),
+      '@open-agent/mcp-client': fileURLToPath(
+        new URL('./packages/mcp-client/src/index.ts', import.meta.url)
+      ),
+    },
+  },
+
   test: {
     // Global test settings
     globals: true,